@@ -1,297 +1,468 @@
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { Type } from "@sinclair/typebox";
+import type { AgentToolResult, ExtensionAPI, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { Type, type Static, type TSchema } from "@sinclair/typebox";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
-
-let cachedIdbPath: string | undefined;
-
-// Xcode developer dir — needed when xcode-select points to CommandLineTools
-const XCODE_DEV_DIR = "/Applications/Xcode.app/Contents/Developer";
-const SIMCTL = path.join(XCODE_DEV_DIR, "usr/bin/simctl");
-
-function findIdb(): string {
-  if (cachedIdbPath) return cachedIdbPath;
-
-  const { execSync } = require("node:child_process");
-
-  // 1. Check IDB_PATH env var
-  if (process.env.IDB_PATH) {
-    cachedIdbPath = process.env.IDB_PATH;
-    return cachedIdbPath;
-  }
-
-  // 2. Check if idb is in PATH
-  try {
-    const result = execSync("which idb", { encoding: "utf-8", timeout: 3000 }).trim();
-    if (result) {
-      cachedIdbPath = result;
-      return cachedIdbPath;
-    }
-  } catch {}
-
-  // 3. Check common pip user install locations
-  try {
-    const userBin = execSync(
-      `python3 -c "import site; print(site.getusersitepackages().replace('/lib/python/site-packages', '/bin/idb'))"`,
-      { encoding: "utf-8", timeout: 3000 }
-    ).trim();
-    if (fs.existsSync(userBin)) {
-      cachedIdbPath = userBin;
-      return cachedIdbPath;
-    }
-  } catch {}
-
-  // 4. Check Homebrew pip locations
-  for (const pyVer of ["3.9", "3.10", "3.11", "3.12", "3.13"]) {
-    const candidate = path.join(os.homedir(), `Library/Python/${pyVer}/bin/idb`);
-    if (fs.existsSync(candidate)) {
-      cachedIdbPath = candidate;
-      return cachedIdbPath;
-    }
-  }
-
-  throw new Error(
-    "idb not found. Install it with: pip3 install fb-idb\n" +
-    "Or set the IDB_PATH environment variable to the idb binary path."
-  );
+import { createDriver, type AXElement, type DeviceDriver, type InstalledApp } from "./lib/driver";
+import {
+  devicePrefix,
+  findSimulator,
+  forgetDefaultUdid,
+  lookupAlias,
+  readDeviceRegistry,
+  recheckDefaultUdid,
+  resolveDevice,
+  resolveUdid,
+  writeDeviceRegistry,
+  type RegisteredDevice,
+  type ResolvedDevice,
+} from "./lib/devices";
+import {
+  elementCenter,
+  findElements,
+  findMatchingElements,
+  formatAmbiguous,
+  elementAtPoint,
+  formatAvailable,
+  formatElementInfo,
+  getAccessibilityTree,
+  pointScale,
+  probeToolbarElements,
+  resolveOnScreen,
+  snapshotOf,
+  stableSelector,
+  tapElement,
+  typeInField,
+  waitForElement,
+} from "./lib/elements";
+import {
+  advance,
+  blockedReport,
+  formatReport,
+  loadStructuredTest,
+  resolveManual,
+  sessionDetails,
+  startSession,
+  DEFAULT_BUNDLE_ID,
+  STRUCTURED_TESTS_DIR,
+  type RunOptions,
+  type RunSession,
+} from "./lib/structured-test";
+import {
+  artifactsRoot,
+  createCxdb,
+  newId,
+  readQaContext,
+  recordAccessibilityFindings,
+  recordAppEvents,
+  recordBugFinding,
+  recordLogEntries,
+  recordPerfMeasurements,
+  recordScreenRecording,
+  recordScreenshot,
+  recordScreenshotComparison,
+  runArtifactDir,
+  sanitizePathPart,
+  SQL_NOW,
+  sqlValue,
+  writeQaContext,
+  type AppEventRow,
+  type LogEntryRow,
+  type QaContext,
+  type ScreenshotComparisonRow,
+} from "./lib/cxdb";
+import { isError, isWarning, matchesLevel, parseLog, recordToJson, type LogRecord } from "./lib/convos-log";
+import { describeReset, isLogCursor, readLogFrom, readLogTail } from "./lib/log-cursor";
+import { fuzzySelector, parseSelector, selectorFromParams, type Selector } from "./lib/selector";
+import { createSnapshotStore } from "./lib/ui-diff";
+import { decodePng, encodePng, fitWithin, pngSize, type RgbaImage } from "./lib/png";
+import { baselinePaths, compareImages, readBaseline, resolveMasks, writeBaseline, type Comparison, type MaskSpec } from "./lib/visual-diff";
+import { createAgentClient } from "./lib/agent-client";
+import { createHybridBackend, type ActionOutcome, type BackendName, type BackendSession } from "./lib/backend";
+import { auditElements, formatFindings, MIN_TARGET_PT } from "./lib/a11y-audit";
+import { crop, labelBox, markPoint, PALETTE, type PixelRect } from "./lib/annotate";
+import { describeApp, formatStep, readBundleInfo, runUpgrade, wipeAppData, type BundleInfo, type WipedContainer } from "./lib/app-lifecycle";
+import { alertText, buildFromTemplate, checkPayload, PUSH_TEMPLATES, readIconBadge, waitForNewMatch, type Payload } from "./lib/push";
+import { addFixtures, ensureFixture, findFixture, fixtureSpec, MAX_FIXTURE_COUNT, type Fixture } from "./lib/media-fixtures";
+import { measureOnce, summarize, verdict, type EndCondition, type MeasureAction, type Sample, type SampleStats } from "./lib/measure";
+import {
+  createRecordingStore,
+  DEFAULT_MAX_RECORDING_S,
+  MAX_RECORDING_S,
+  postProcessRecording,
+  type FinishedRecording,
+  type PostProcessOptions,
+} from "./lib/video-recording";
+import {
+  analyzeAll,
+  analyzeHistory,
+  DEFAULT_HISTORY_RUNS,
+  formatHistory,
+  formatRanking,
+  queryCriteriaHistory,
+  queryTestHistory,
+  rankFlaky,
+  summarizeHistory,
+} from "./lib/qa-history";
+import { compareRuns, DEFAULT_PERF_THRESHOLD_PCT, formatComparison, lastGreenRunBefore, queryRun } from "./lib/run-compare";
+import { formatPlan, loadSuite, planSuite, queryRunStatuses, recordCascadedSkips } from "./lib/suite-plan";
+import { createCrashWatch, crashSummary, formatCrash, type Crash } from "./lib/crash";
+import { draftFileName, draftTest, nextTestId, type RecordedCall, type Recording } from "./lib/recorder";
+import {
+  describeExpectation,
+  parseExpectation,
+  waitForEvents,
+  type EventExpectation,
+  type ExpectOutcome,
+} from "./lib/event-expect";
+
+const DEVICE_PARAM = Type.String({ description: "Registered device alias (see sim_devices), e.g. 'alice'. Use instead of udid." });
+
+const SELECTOR_PARAM = Type.String({
+  description:
+    "Element selector: id=, id^= (prefix), label=, label*= (contains), label~=/regex/, value=, type=button, " +
+    "enabled=true, index=N (0-based), and A >> B for B inside A. E.g. 'type=cell index=1', " +
+    "'id^=conversation-list-item- >> label~=/unread/i'. Use instead of identifier.",
+});
+
+const DIFF_PARAM = Type.Boolean({
+  description: "After the action, report what changed on screen since the last observation (see sim_ui_diff) instead of re-reading it yourself.",
+});
+
+// Tools that act on the app or wait on it; each call is checked for a crash (lib/crash)
+const CRASH_CHECKED_TOOLS = new Set([
+  "sim_ui_tap", "sim_ui_swipe", "sim_ui_type", "sim_ui_key", "sim_open_url", "sim_tap_id", "sim_type_in_field",
+  "sim_wait_for_element", "sim_tap", "sim_fill", "sim_measure", "sim_send_push", "sim_expect_event",
+]);
+
+// Time for the UI to settle after an action before a `diff: true` re-read
+const DIFF_SETTLE_MS = 500;
+
+// The params registerDeviceTool reads before the tool sees them; every device tool may take them
+interface DeviceToolParams {
+  device?: string;
+  udid?: string;
+  diff?: boolean;
 }
 
-function getSimulatorId(): string | undefined {
-  const taskFile = path.join(process.cwd(), ".convos-task");
-  let simName: string | undefined;
-
-  if (fs.existsSync(taskFile)) {
-    const content = fs.readFileSync(taskFile, "utf-8");
-    const match = content.match(/SIMULATOR_NAME=(.+)/);
-    simName = match?.[1]?.trim();
-  }
-
-  if (!simName) {
-    const idFile = path.join(process.cwd(), ".claude", ".simulator_id");
-    if (fs.existsSync(idFile)) {
-      return fs.readFileSync(idFile, "utf-8").trim();
-    }
-  }
-
-  return undefined;
+// sim_ui_tap's input as a tool_call event carries it, before the schema has been checked
+function isPointInput(input: unknown): input is DeviceToolParams & { x: number; y: number } {
+  if (!input || typeof input !== "object") return false;
+  const { x, y, udid, device } = input as Record<string, unknown>;
+  return typeof x === "number" && typeof y === "number"
+    && (udid === undefined || typeof udid === "string") && (device === undefined || typeof device === "string");
 }
 
-async function resolveUdid(pi: ExtensionAPI, explicitUdid?: string): Promise<string> {
-  if (explicitUdid) return explicitUdid;
+// A wrapped tool's details: the tool's own, with the crash when one was caught, or none on a wrapper error
+type DeviceToolDetails<TDetails> = TDetails | (TDetails & { crash: Crash }) | undefined;
+type DeviceToolResult<TDetails> = AgentToolResult<DeviceToolDetails<TDetails>> & { isError?: boolean };
+
+const RECT = Type.Object({
+  x: Type.Number(),
+  y: Type.Number(),
+  width: Type.Number(),
+  height: Type.Number(),
+});
+
+// sim_measure: more samples than this belongs in a test loop, not one call
+const MAX_MEASURE_REPETITIONS = 20;
+// Pause after a reset that has no element to wait for (open_url and launch_app actions)
+const RESET_SETTLE_MS = 1000;
+
+// The diff image returned to the model; the saved file stays full size
+const DIFF_PREVIEW_PX = 1000;
+// Screenshots returned to the model: under the 2000px per-dimension API limit
+// for many-image requests, and small enough to keep requests light
+const SCREENSHOT_PREVIEW_PX = 1400;
+
+const LOG_FORMAT = Type.Union([Type.Literal("text"), Type.Literal("json")], {
+  description: "'text' (default) returns log lines; 'json' returns parsed entries",
+});
+
+interface LogWindow {
+  records: LogRecord[];
+  /** Cursor after everything read; the next call's since_marker. */
+  marker: string;
+  /** Explains a cursor that had to restart (reinstall, truncation), or "". */
+  note: string;
+}
 
-  const simIdFile = path.join(process.cwd(), ".claude", ".simulator_id");
-  if (fs.existsSync(simIdFile)) {
-    return fs.readFileSync(simIdFile, "utf-8").trim();
+// Markers are byte-offset cursors from lib/log-cursor. A bare ISO timestamp
+// (markers before cursors existed) still works: the whole file is parsed and
+// filtered by time. Without a marker, only the last `tailLines` lines are read.
+function readLogWindow(logFile: string, marker: string | undefined, tailLines: number): LogWindow {
+  if (isLogCursor(marker)) {
+    const read = readLogFrom(logFile, marker);
+    return { records: parseLog(read.text), marker: read.cursor, note: read.reset ? `(${describeReset(read.reset)})\n` : "" };
   }
-
-  const result = await pi.exec(SIMCTL, [ "list", "devices", "booted", "-j"], { timeout: 5000 });
-  if (result.code === 0) {
-    const data = JSON.parse(result.stdout);
-    for (const runtime of Object.values(data.devices) as any[]) {
-      for (const dev of runtime) {
-        if (dev.state === "Booted") return dev.udid;
-      }
-    }
+  if (marker) {
+    const read = readLogFrom(logFile);
+    return { records: parseLog(read.text).filter(r => r.timestamp > marker), marker: read.cursor, note: "" };
   }
-
-  throw new Error("No booted simulator found. Boot one first with: xcrun simctl boot <name>");
+  const read = readLogTail(logFile, tailLines);
+  return { records: parseLog(read.text), marker: read.cursor, note: "" };
 }
 
-// --- Log file helpers ---
-
-function findAppLogFile(udid: string): string | null {
-  const { execSync } = require("node:child_process");
-  try {
-    const result = execSync(
-      `find ~/Library/Developer/CoreSimulator/Devices/${udid}/data/Containers/Shared/AppGroup -name "convos.log" 2>/dev/null | head -1`,
-      { encoding: "utf-8", timeout: 5000 }
-    ).trim();
-    return result || null;
-  } catch {
-    return null;
-  }
+function toLogEntryRow(r: LogRecord): LogEntryRow {
+  const message = [r.message, ...r.continuation.map(l => l.trim())].join("\n");
+  return { timestamp: r.timestamp, level: isError(r) ? "error" : isWarning(r) ? "warning" : "info", source: r.source, message };
 }
 
-// --- Shared helpers ---
-
-interface AXElement {
-  AXUniqueId: string | null;
-  AXLabel: string | null;
-  AXValue: string | null;
-  type: string;
-  role: string;
-  frame: { x: number; y: number; width: number; height: number };
-  enabled: boolean;
-  custom_actions?: string[];
+function toAppEventRow(r: LogRecord): AppEventRow {
+  return { timestamp: r.timestamp, name: r.event?.name ?? "", data: r.event?.params ?? {} };
 }
 
-async function getAccessibilityTree(pi: ExtensionAPI, idbPath: string, udid: string, signal?: AbortSignal): Promise<AXElement[]> {
-  const result = await pi.exec(idbPath, ["ui", "describe-all", "--udid", udid, "--json"], {
-    signal,
-    timeout: 10000,
-  });
-  if (result.code !== 0) {
-    throw new Error(`Failed to get accessibility tree: ${result.stderr || result.stdout}`);
-  }
-  return JSON.parse(result.stdout);
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 }
 
-function findElement(elements: AXElement[], identifier: string): AXElement | undefined {
-  // 1. Exact match on AXUniqueId (accessibility identifier)
-  let match = elements.find(el => el.AXUniqueId === identifier);
-  if (match) return match;
-
-  // 2. Prefix match on AXUniqueId (e.g. "conversation-list-item-" matches dynamic ids)
-  match = elements.find(el => el.AXUniqueId?.startsWith(identifier) ?? false);
-  if (match) return match;
-
-  // 3. Exact match on AXLabel
-  match = elements.find(el => el.AXLabel === identifier);
-  if (match) return match;
-
-  // 4. Case-insensitive substring match on AXLabel
-  const lowerIdentifier = identifier.toLowerCase();
-  match = elements.find(el => el.AXLabel?.toLowerCase().includes(lowerIdentifier) ?? false);
-  if (match) return match;
-
-  return undefined;
+function formatParams(params: Record<string, string>): string {
+  const entries = Object.entries(params);
+  return entries.length > 0 ? entries.map(([k, v]) => `${k}=${v}`).join(" ") : "(no params)";
 }
 
-function elementCenter(el: AXElement): { x: number; y: number } {
-  return {
-    x: Math.round(el.frame.x + el.frame.width / 2),
-    y: Math.round(el.frame.y + el.frame.height / 2),
+export default function (pi: ExtensionAPI) {
+  // Every tap goes through the driver, so the last one per udid is known
+  // whichever tool (or the structured runner) made it
+  const lastTaps = new Map<string, { x: number; y: number; at: number }>();
+  const baseDriver = createDriver(pi);
+  const crashWatch = createCrashWatch(baseDriver, DEFAULT_BUNDLE_ID);
+  // Launching, terminating and (un)installing end the app's process on
+  // purpose, so the crash watch starts over rather than calling it a crash
+  const driver: DeviceDriver = {
+    ...baseDriver,
+    async tap(udid, x, y, opts, signal) {
+      await baseDriver.tap(udid, x, y, opts, signal);
+      lastTaps.set(udid, { x, y, at: Date.now() });
+    },
+    async launch(udid, bundleId, signal) {
+      crashWatch.forget(udid);
+      await baseDriver.launch(udid, bundleId, signal);
+      crashWatch.forget(udid, { launched: bundleId });
+    },
+    async terminate(udid, bundleId, signal) {
+      crashWatch.forget(udid);
+      await baseDriver.terminate(udid, bundleId, signal);
+    },
+    async install(udid, appPath, signal) {
+      crashWatch.forget(udid);
+      await baseDriver.install(udid, appPath, signal);
+    },
+    async uninstall(udid, bundleId, signal) {
+      crashWatch.forget(udid);
+      await baseDriver.uninstall(udid, bundleId, signal);
+    },
   };
-}
+  // sim_tap, sim_fill and sim_elements prefer QAAutomationServer and fall back to the driver
+  const agent = createAgentClient();
+  const backend = createHybridBackend(driver, agent);
+  // Structured test runs paused on a manual step, keyed by YAML path
+  const structuredRuns = new Map<string, RunSession>();
+  const cxdb = createCxdb(pi);
+  // Last accessibility tree seen per udid, the baseline for sim_ui_diff and `diff: true`
+  const snapshots = createSnapshotStore();
+  // The last capture compared per test/step, for sim_screenshot_compare accept: true
+  const lastCaptures = new Map<string, { png: Buffer; image: RgbaImage; masks?: MaskSpec }>();
+  // sim_record_video_start..sim_record_video_stop, one per simulator
+  const videoRecordings = createRecordingStore(driver);
+  // sim_record_start..sim_record_stop; coordinate taps wait in pendingTaps for their result
+  let recording: Recording | undefined;
+  const pendingTaps = new Map<string, Pick<RecordedCall, "pointSelector" | "pointNote">>();
+
+  // A coordinate tap is recorded by what it hit, so look before the tap changes the screen
+  pi.on("tool_call", async (event, ctx) => {
+    if (!recording || event.toolName !== "sim_ui_tap" || !isPointInput(event.input)) return;
+    const { x, y } = event.input;
+    try {
+      const device = await resolveDevice(driver, event.input, ctx.signal);
+      const { element, tree } = await elementAtPoint(driver, device.udid, x, y, ctx.signal);
+      const selector = element && stableSelector(tree, element);
+      pendingTaps.set(event.toolCallId, selector
+        ? { pointSelector: selector }
+        : { pointNote: element ? `the ${element.type} there has no id or label` : "nothing under the point" });
+    } catch (e: any) {
+      pendingTaps.set(event.toolCallId, { pointNote: `could not read the screen (${e.message})` });
+    }
+  });
 
-function formatElementInfo(el: AXElement): string {
-  const center = elementCenter(el);
-  return `id=${el.AXUniqueId || "none"}, label="${el.AXLabel || ""}", type=${el.type}, center=(${center.x},${center.y}), enabled=${el.enabled}`;
-}
+  pi.on("tool_result", async event => {
+    if (!recording || !event.toolName.startsWith("sim_") || event.toolName.startsWith("sim_record_")) return;
+    recording.calls.push({
+      tool: event.toolName,
+      input: event.input,
+      text: event.content.flatMap(c => (c.type === "text" ? [c.text] : [])).join("\n"),
+      isError: event.isError,
+      ...pendingTaps.get(event.toolCallId),
+    });
+    pendingTaps.delete(event.toolCallId);
+  });
 
-// SwiftUI bottom toolbar items (.toolbar { ToolbarItem(placement: .bottomBar) })
-// are not enumerated by idb describe-all, but they DO exist in the accessibility
-// hierarchy and respond to hit-testing via describe-point. This function finds
-// the "Toolbar" group element in the tree to determine its exact position, then
-// probes a grid of points within that frame. If no Toolbar element exists in the
-// tree, falls back to probing the bottom 80pt of the screen.
-async function probeToolbarElements(
-  pi: ExtensionAPI,
-  idbPath: string,
-  udid: string,
-  signal?: AbortSignal,
-  treeElements?: AXElement[]
-): Promise<AXElement[]> {
-  const found: AXElement[] = [];
-  const seenIds = new Set<string>();
-
-  // Try to find the Toolbar group in the accessibility tree for exact coordinates
-  const elements = treeElements || [];
-  const toolbar = elements.find(el => el.AXLabel === "Toolbar" && el.role === "AXGroup");
-
-  let probePoints: { x: number; y: number }[];
-  if (toolbar && toolbar.frame.width > 0 && toolbar.frame.height > 0) {
-    // Use the actual toolbar frame to generate probe points
-    const f = toolbar.frame;
-    const midY = Math.round(f.y + f.height / 2);
-    const step = 40;
-    probePoints = [];
-    for (let x = f.x + 20; x < f.x + f.width; x += step) {
-      probePoints.push({ x: Math.round(x), y: midY });
+  // Record into CXDB when a QA test is active (sim_qa_begin_test). Recording
+  // never fails the tool call; the outcome is appended to the tool's text.
+  async function recordIfActive(what: string, record: (ctx: QaContext) => Promise<string>): Promise<string> {
+    const ctx = readQaContext();
+    if (!ctx) return "";
+    try {
+      return `\nCXDB: ${await record(ctx)}`;
+    } catch (e: any) {
+      return `\nCXDB: failed to record ${what}: ${e.message}`;
     }
-  } else {
-    // Fallback: probe the bottom toolbar area with hardcoded coordinates.
-    // These are optimized for standard iPhone sizes (375-430pt wide, ~852-932pt tall).
-    probePoints = [
-      { x: 40, y: 822 }, { x: 80, y: 822 }, { x: 120, y: 822 },
-      { x: 160, y: 822 }, { x: 201, y: 822 }, { x: 240, y: 822 },
-      { x: 280, y: 822 }, { x: 320, y: 822 }, { x: 360, y: 822 },
-      { x: 40, y: 843 }, { x: 120, y: 843 }, { x: 201, y: 843 },
-      { x: 280, y: 843 }, { x: 360, y: 843 },
-    ];
   }
 
-  for (const pt of probePoints) {
-    if (signal?.aborted) break;
-    try {
-      const result = await pi.exec(
-        idbPath,
-        ["ui", "describe-point", "--udid", udid, "--json", String(pt.x), String(pt.y)],
-        { signal, timeout: 3000 }
-      );
-      if (result.code === 0 && result.stdout.trim()) {
-        const info = JSON.parse(result.stdout);
-        const axId = info.AXUniqueId || null;
-        // Skip generic containers and already-seen elements
-        const key = axId || `${info.AXLabel}@${info.frame?.x},${info.frame?.y}`;
-        if (seenIds.has(key)) continue;
-        if (!axId && !info.AXLabel) continue;
-        // Skip the Toolbar group itself
-        if (info.role === "AXGroup" && info.AXLabel === "Toolbar") continue;
-        if (info.role === "AXApplication") continue;
-
-        seenIds.add(key);
-        // Normalize to AXElement shape
-        const frame = info.frame || { x: 0, y: 0, width: 0, height: 0 };
-        found.push({
-          AXUniqueId: axId,
-          AXLabel: info.AXLabel || null,
-          AXValue: info.AXValue || null,
-          type: info.type || "Unknown",
-          role: info.role || "",
-          frame,
-          enabled: info.enabled !== false,
-          custom_actions: info.custom_actions || [],
-        });
-      }
-    } catch {
-      // Ignore probe failures
-    }
+  // A crash is a critical bug; filing the same report twice (auto and sim_crash_check) adds one row
+  function fileCrashBug(crash: Crash, signal?: AbortSignal): Promise<string> {
+    return recordIfActive("the crash", async ctx => {
+      const added = await recordBugFinding(cxdb, ctx, {
+        title: crashSummary(crash),
+        description: formatCrash(crash),
+        severity: "critical",
+        log_evidence: crash.logTail.length > 0 ? crash.logTail.join("\n") : null,
+        screenshot_path: null,
+      }, signal);
+      return added ? "filed a critical bug finding" : "this crash is already filed";
+    });
+  }
+
+  async function readSnapshot(udid: string, signal?: AbortSignal) {
+    return snapshotOf(await getAccessibilityTree(driver, udid, signal));
+  }
+
+  // Tools that act on a simulator take a registered `device` alias as well as
+  // a udid. The alias is resolved before the tool runs, and the result is
+  // prefixed with it (or the udid's start for an unregistered simulator) so
+  // two-device transcripts say which device acted. A failed call on the
+  // default simulator checks it is still booted before the next one. Tools
+  // with a `diff` param get the screen change appended when it is set, and
+  // the ones in CRASH_CHECKED_TOOLS fail with the crash if the app died.
+  function registerDeviceTool<TParams extends TSchema, TDetails>(tool: Omit<ToolDefinition<TParams, TDetails>, "renderResult">) {
+    pi.registerTool<TParams, DeviceToolDetails<TDetails>>({
+      ...tool,
+      async execute(toolCallId, params, signal, onUpdate, ctx) {
+        const selector = params as Static<TParams> & DeviceToolParams;
+        let device: ResolvedDevice | undefined;
+        const selected = Boolean(selector.device || selector.udid);
+        const registered = Object.keys(readDeviceRegistry()).length > 0;
+        if (selected || selector.diff || registered) {
+          try {
+            device = await resolveDevice(driver, selector, signal);
+          } catch (e: any) {
+            // An unresolvable default is left to the tool, which reports it in its own words
+            if (selected) return { content: [{ type: "text", text: e.message }], details: undefined, isError: true };
+          }
+        }
+        // Without a baseline the diff would only say "recorded", so take one before acting
+        if (selector.diff && device && !snapshots.has(device.udid)) {
+          try { snapshots.set(device.udid, await readSnapshot(device.udid, signal)); } catch {}
+        }
+        let crashUdid: string | undefined;
+        if (CRASH_CHECKED_TOOLS.has(tool.name)) {
+          try {
+            crashUdid = device?.udid ?? (await resolveUdid(driver, selector.udid, signal));
+            await crashWatch.watch(crashUdid, signal);
+          } catch {}
+        }
+        let result: DeviceToolResult<TDetails>;
+        try {
+          result = await tool.execute(toolCallId, device ? Object.assign({}, params, { udid: device.udid }) : params, signal, onUpdate, ctx);
+        } catch (e) {
+          if (!selected) await recheckDefaultUdid(driver, signal);
+          throw e;
+        }
+        if (result.isError && !selected) await recheckDefaultUdid(driver, signal);
+        const crash = crashUdid ? await crashWatch.check(crashUdid, signal) : null;
+        if (crash) {
+          const text = `${formatCrash(crash)}${await fileCrashBug(crash, signal)}\n\nThe tool's own result:\n`;
+          result = { ...result, content: [{ type: "text", text }, ...result.content], details: Object.assign({}, result.details, { crash }), isError: true };
+        }
+        if (selector.diff && device && !result.isError) {
+          await new Promise(resolve => setTimeout(resolve, DIFF_SETTLE_MS));
+          let diff: string;
+          try {
+            diff = snapshots.record(device.udid, await readSnapshot(device.udid, signal));
+          } catch (e: any) {
+            diff = `UI diff unavailable: ${e.message}`;
+          }
+          result = { ...result, content: [...result.content, { type: "text", text: diff }] };
+        }
+        // With devices registered, an unregistered one is named too so the transcript can tell them apart
+        const prefix = device && registered ? devicePrefix(device) : "";
+        if (!prefix) return result;
+        const first = result.content.findIndex(c => c.type === "text");
+        if (first < 0) return { ...result, content: [{ type: "text", text: prefix.trim() }, ...result.content] };
+        return {
+          ...result,
+          content: result.content.map((c, i) => (i === first && c.type === "text" ? { ...c, text: prefix + c.text } : c)),
+        };
+      },
+    });
   }
-  return found;
-}
 
-export default function (pi: ExtensionAPI) {
   // --- ui_describe_all: Get full accessibility tree ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_ui_describe_all",
     label: "Simulator: Describe All UI",
     description:
       "Returns the full accessibility tree of the iOS Simulator screen as JSON. Each element includes AXLabel, AXUniqueId (accessibility identifier), AXValue, AXFrame (coordinates), role, type, enabled state, and custom_actions. Use this to find elements for tapping, verify accessibility labels, or understand the screen layout.",
     parameters: Type.Object({
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const result = await pi.exec(findIdb(), ["ui", "describe-all", "--udid", udid, "--json"], {
-        signal,
-        timeout: 10000,
-      });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let elements: AXElement[];
+      try {
+        elements = await driver.describeAll(udid, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
+      snapshots.set(udid, snapshotOf(elements));
+      const summary = elements.map((el: any) => ({
+        id: el.AXUniqueId || null,
+        label: el.AXLabel || null,
+        value: el.AXValue || null,
+        type: el.type,
+        role: el.role,
+        frame: el.frame,
+        enabled: el.enabled,
+        actions: el.custom_actions?.length ? el.custom_actions : undefined,
+      }));
+      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }], details: {} };
+    },
+  });
+
+  // --- ui_diff: What changed since the last observation ---
+  registerDeviceTool({
+    name: "sim_ui_diff",
+    label: "Simulator: UI Diff",
+    description:
+      "Report which accessibility elements were added, removed or changed (label, value, enabled, frame) since the " +
+      "last observation of this simulator (sim_ui_describe_all, sim_ui_diff, or an action called with diff: true). " +
+      "Much shorter than re-reading the whole screen. Elements are matched by identifier, else by type and label, " +
+      "else by type and position. The current screen becomes the baseline for the next diff.",
+    parameters: Type.Object({
+      reset: Type.Optional(Type.Boolean({ description: "Only record the current screen as the baseline (default: false)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let snapshot;
       try {
-        const elements = JSON.parse(result.stdout);
-        const summary = elements.map((el: any) => ({
-          id: el.AXUniqueId || null,
-          label: el.AXLabel || null,
-          value: el.AXValue || null,
-          type: el.type,
-          role: el.role,
-          frame: el.frame,
-          enabled: el.enabled,
-          actions: el.custom_actions?.length ? el.custom_actions : undefined,
-        }));
-        return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }], details: {} };
-      } catch {
-        return { content: [{ type: "text", text: result.stdout }], details: {} };
+        snapshot = await readSnapshot(udid, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      if (params.reset) {
+        snapshots.set(udid, snapshot);
+        return { content: [{ type: "text", text: `Recorded ${snapshot.elements.length} elements as the baseline.` }], details: {} };
       }
+      return { content: [{ type: "text", text: snapshots.record(udid, snapshot) }], details: {} };
     },
   });
 
   // --- ui_tap: Tap on the screen ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_ui_tap",
     label: "Simulator: Tap",
     description:
@@ -300,22 +471,23 @@ export default function (pi: ExtensionAPI) {
       x: Type.Number({ description: "X coordinate in points" }),
       y: Type.Number({ description: "Y coordinate in points" }),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
       duration: Type.Optional(Type.Number({ description: "Press duration in seconds for long press" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const args = ["ui", "tap", "--udid", udid, String(params.x), String(params.y)];
-      if (params.duration) args.push("--duration", String(params.duration));
-      const result = await pi.exec(findIdb(), args, { signal, timeout: 10000 });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.tap(udid, params.x, params.y, { duration: params.duration }, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
       return { content: [{ type: "text", text: `Tapped at (${params.x}, ${params.y})` }], details: {} };
     },
   });
 
   // --- ui_swipe: Swipe on the screen ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_ui_swipe",
     label: "Simulator: Swipe",
     description:
@@ -326,26 +498,23 @@ export default function (pi: ExtensionAPI) {
       x_end: Type.Number({ description: "Ending X coordinate" }),
       y_end: Type.Number({ description: "Ending Y coordinate" }),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
       duration: Type.Optional(Type.Number({ description: "Swipe duration in seconds" })),
       delta: Type.Optional(Type.Number({ description: "Step size (default 1)" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const args = [
-        "ui",
-        "swipe",
-        "--udid",
-        udid,
-        String(params.x_start),
-        String(params.y_start),
-        String(params.x_end),
-        String(params.y_end),
-      ];
-      if (params.duration) args.push("--duration", String(params.duration));
-      if (params.delta) args.push("--delta", String(params.delta));
-      const result = await pi.exec(findIdb(), args, { signal, timeout: 10000 });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.swipe(
+          udid,
+          { x: params.x_start, y: params.y_start },
+          { x: params.x_end, y: params.y_end },
+          { duration: params.duration, delta: params.delta },
+          signal
+        );
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
       return {
         content: [
@@ -360,7 +529,7 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- ui_type: Type text ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_ui_type",
     label: "Simulator: Type Text",
     description:
@@ -368,22 +537,22 @@ export default function (pi: ExtensionAPI) {
     parameters: Type.Object({
       text: Type.String({ description: "Text to type" }),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const result = await pi.exec(findIdb(), ["ui", "text", "--udid", udid, params.text], {
-        signal,
-        timeout: 10000,
-      });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.text(udid, params.text, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
       return { content: [{ type: "text", text: `Typed: "${params.text}"` }], details: {} };
     },
   });
 
   // --- ui_key: Press a key ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_ui_key",
     label: "Simulator: Press Key",
     description:
@@ -391,662 +560,2527 @@ export default function (pi: ExtensionAPI) {
     parameters: Type.Object({
       keycode: Type.Number({ description: "HID key code to press (e.g. 40 for Return)" }),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const result = await pi.exec(findIdb(), ["ui", "key", "--udid", udid, String(params.keycode)], {
-        signal,
-        timeout: 10000,
-      });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.key(udid, params.keycode, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
       return { content: [{ type: "text", text: `Pressed key code: ${params.keycode}` }], details: {} };
     },
   });
 
   // --- screenshot: Take a screenshot and return as image ---
-  pi.registerTool({
+
+  /**
+   * The capture as the model gets it. One that already fits is returned as
+   * captured; otherwise sips (macOS) shrinks it to a JPEG, and elsewhere it is
+   * downscaled in-process. A PNG lib/png can't read is returned full size.
+   */
+  async function screenshotPreview(png: Buffer, file: string, signal?: AbortSignal): Promise<{ data: Buffer; mimeType: string; note?: string }> {
+    const size = pngSize(png);
+    if (size && Math.max(size.width, size.height) <= SCREENSHOT_PREVIEW_PX) return { data: png, mimeType: "image/png" };
+    const resized = file.replace(/\.png$/, "-resized.jpeg");
+    try {
+      const result = await pi.exec("sips", ["-Z", String(SCREENSHOT_PREVIEW_PX), "-s", "format", "jpeg", "-s", "formatOptions", "70", file, "--out", resized], {
+        signal,
+        timeout: 10000,
+      });
+      if (result.code === 0 && fs.existsSync(resized)) return { data: fs.readFileSync(resized), mimeType: "image/jpeg" };
+    } catch {
+      // No sips off macOS
+    } finally {
+      try { fs.unlinkSync(resized); } catch {}
+    }
+    try {
+      return { data: encodePng(fitWithin(decodePng(png), SCREENSHOT_PREVIEW_PX)), mimeType: "image/png" };
+    } catch (e: any) {
+      return { data: png, mimeType: "image/png", note: `Not downscaled (${e.message}); this is the full-size capture.` };
+    }
+  }
+
+  /**
+   * Draw the requested overlays on a capture, then crop. Boxes and the tap
+   * marker go on first so a crop keeps the ones inside it. Returns the legend
+   * and notes to show with the image, or an error message.
+   */
+  async function renderOverlays(
+    image: RgbaImage,
+    udid: string,
+    opts: { annotate?: boolean; annotate_selector?: string; include_toolbar?: boolean; crop_to?: string; crop_padding?: number; mark_last_tap?: boolean },
+    signal?: AbortSignal
+  ): Promise<{ image: RgbaImage; lines: string[] } | { error: string }> {
+    const lines: string[] = [];
+    let tree: AXElement[] | undefined;
+    try {
+      tree = await getAccessibilityTree(driver, udid, signal);
+    } catch (e: any) {
+      if (opts.annotate || opts.annotate_selector || opts.crop_to) return { error: e.message };
+      lines.push("screen size unknown; assumed @3x");
+    }
+    const scale = pointScale(tree, image.width) ?? 3;
+    const toPixels = (r: PixelRect): PixelRect => ({ x: r.x * scale, y: r.y * scale, width: r.width * scale, height: r.height * scale });
+    const fontScale = Math.max(1, Math.round(scale));
+
+    if (tree && (opts.annotate || opts.annotate_selector)) {
+      let elements = tree.filter(el => el.role !== "AXApplication");
+      if (opts.include_toolbar) {
+        const seen = new Set(elements.map(el => el.AXUniqueId).filter(Boolean));
+        try {
+          const probed = await probeToolbarElements(driver, udid, signal, tree);
+          elements = elements.concat(probed.filter(el => !el.AXUniqueId || !seen.has(el.AXUniqueId)));
+        } catch { /* best-effort, as for sim_find_elements */ }
+      }
+      let boxed: AXElement[];
+      try {
+        boxed = opts.annotate_selector
+          ? findElements(elements, parseSelector(opts.annotate_selector))
+          : elements.filter(el => el.AXUniqueId || el.AXLabel);
+      } catch (e: any) {
+        return { error: e.message };
+      }
+      boxed = boxed.filter(el => el.frame.width > 0 && el.frame.height > 0);
+      boxed.forEach((el, i) => {
+        const name = el.AXUniqueId || (el.AXLabel ? JSON.stringify(el.AXLabel) : el.type);
+        const label = `${i + 1} ${name.length > 32 ? `${name.slice(0, 31)}~` : name}`;
+        labelBox(image, toPixels(el.frame), label, PALETTE[i % PALETTE.length], fontScale);
+        const f = el.frame;
+        lines.push(`${i + 1}. ${formatElementInfo(el)}, frame=(${f.x},${f.y} ${f.width}x${f.height})`);
+      });
+      if (boxed.length === 0) lines.push(opts.annotate_selector ? `no elements match "${opts.annotate_selector}"` : "no elements with an id or label");
+    }
+
+    if (opts.mark_last_tap) {
+      const tap = lastTaps.get(udid);
+      if (tap) {
+        markPoint(image, Math.round(tap.x * scale), Math.round(tap.y * scale), Math.round(10 * scale), [255, 0, 0]);
+        lines.push(`last tap at (${tap.x},${tap.y}), ${Math.round((Date.now() - tap.at) / 1000)}s ago`);
+      } else {
+        lines.push("no tap on this simulator since the extension loaded");
+      }
+    }
+
+    if (opts.crop_to) {
+      let found: Awaited<ReturnType<typeof resolveOnScreen>>;
+      let selector: Selector;
+      try {
+        selector = parseSelector(opts.crop_to);
+        found = await resolveOnScreen(driver, udid, selector, signal);
+      } catch (e: any) {
+        return { error: e.message };
+      }
+      const { resolution } = found;
+      if (resolution.kind === "ambiguous") return { error: formatAmbiguous(selector, resolution.matches) };
+      if (resolution.kind === "not_found") {
+        return { error: `Element not found: "${selector.text}"\n\nAvailable elements:\n${formatAvailable(found.elements)}` };
+      }
+      const pad = opts.crop_padding ?? 16;
+      const f = resolution.element.frame;
+      try {
+        image = crop(image, toPixels({ x: f.x - pad, y: f.y - pad, width: f.width + pad * 2, height: f.height + pad * 2 }));
+      } catch (e: any) {
+        return { error: `${e.message} (element frame ${f.x},${f.y} ${f.width}x${f.height})` };
+      }
+      lines.push(`cropped to ${formatElementInfo(resolution.element)}`);
+    }
+    return { image, lines };
+  }
+
+  registerDeviceTool({
     name: "sim_screenshot",
     label: "Simulator: Screenshot",
     description:
-      "Take a screenshot of the iOS Simulator and return it as an image. Use this to see the current state of the app.",
+      "Take a screenshot of the iOS Simulator and return it as an image. Use this to see the current state of the app. " +
+      "annotate: true draws a numbered, labelled box around every element with an id or label (annotate_selector limits the boxes " +
+      "to matching elements; include_toolbar adds SwiftUI bottom-bar items) and lists them in the text. crop_to crops to one " +
+      "element's frame; mark_last_tap marks where the last tap on this simulator landed. Use these when a tap hits the wrong thing. " +
+      "While a QA test is active (sim_qa_begin_test), the full-size capture (with any overlays) is also saved under " +
+      "qa/artifacts/run-<run_id>/screenshots/ and registered in CXDB.",
     parameters: Type.Object({
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      step_id: Type.Optional(Type.String({ description: "Step id to file the screenshot under in CXDB (default: 'screenshot')" })),
+      caption: Type.Optional(Type.String({ description: "Caption shown in the run artifact carousel" })),
+      annotate: Type.Optional(Type.Boolean({ description: "Box and label every element with an id or label (default: false)" })),
+      annotate_selector: Type.Optional(Type.String({ description: "Only box elements matching this selector, e.g. 'type=Button' (implies annotate)" })),
+      include_toolbar: Type.Optional(Type.Boolean({ description: "Also probe and box SwiftUI bottom-bar items, which the tree omits (slower)" })),
+      crop_to: Type.Optional(Type.String({ description: "Selector or identifier of one element to crop the image to" })),
+      crop_padding: Type.Optional(Type.Number({ description: "Points of context kept around crop_to (default: 16)" })),
+      mark_last_tap: Type.Optional(Type.Boolean({ description: "Mark the point of the last tap on this simulator" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
+      const udid = await resolveUdid(driver, params.udid, signal);
       const tmpFile = path.join(os.tmpdir(), `sim-screenshot-${Date.now()}.png`);
-      const resizedFile = tmpFile.replace(".png", "-resized.jpeg");
       try {
-        const result = await pi.exec(SIMCTL, [ "io", udid, "screenshot", tmpFile], {
-          signal,
-          timeout: 10000,
-        });
-        if (result.code !== 0) {
-          return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+        let png: Buffer;
+        try {
+          await driver.screenshot(udid, tmpFile, signal);
+          png = fs.readFileSync(tmpFile);
+        } catch (e: any) {
+          return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
         }
-        // Always resize to fit within 1400px max dimension and convert to JPEG.
-        // This satisfies both the 2000px per-dimension API limit for many-image
-        // requests and keeps file sizes small.
-        await pi.exec("sips", ["-Z", "1400", "-s", "format", "jpeg", "-s", "formatOptions", "70", tmpFile, "--out", resizedFile], {
-          signal,
-          timeout: 10000,
-        });
-        let imageData: Buffer;
-        let mimeType: string;
-        if (fs.existsSync(resizedFile)) {
-          imageData = fs.readFileSync(resizedFile);
-          mimeType = "image/jpeg";
-        } else {
-          // Fallback to original if resize somehow failed
-          imageData = fs.readFileSync(tmpFile);
-          mimeType = "image/png";
+        let lines: string[] = [];
+        // Only overlays need the pixels; a plain screenshot is passed on as captured
+        if (params.annotate || params.annotate_selector || params.crop_to || params.mark_last_tap) {
+          let image: RgbaImage | undefined;
+          try {
+            image = decodePng(png);
+          } catch (e: any) {
+            lines.push(`Overlays skipped: ${e.message}. This is the screenshot as captured.`);
+          }
+          if (image) {
+            const rendered = await renderOverlays(image, udid, params, signal);
+            if ("error" in rendered) return { content: [{ type: "text", text: `Error: ${rendered.error}` }], isError: true };
+            lines = rendered.lines;
+            png = encodePng(rendered.image);
+            fs.writeFileSync(tmpFile, png);
+          }
         }
-        const base64 = imageData.toString("base64");
+        const preview = await screenshotPreview(png, tmpFile, signal);
+        if (preview.note) lines.push(preview.note);
+        const recorded = await recordIfActive("screenshot", async ctx => {
+          const stepId = params.step_id ?? "screenshot";
+          const rel = await recordScreenshot(cxdb, ctx, tmpFile, stepId, params.caption, signal);
+          return `saved ${path.join(runArtifactDir(ctx.run_id), rel)}`;
+        });
         return {
           content: [
-            { type: "image", data: base64, mimeType },
-            { type: "text", text: `Screenshot taken (${udid})` },
+            { type: "image", data: preview.data.toString("base64"), mimeType: preview.mimeType },
+            { type: "text", text: [`Screenshot taken (${udid})${recorded}`, ...lines].join("\n") },
           ],
           details: {},
         };
       } finally {
         try { fs.unlinkSync(tmpFile); } catch {}
-        try { fs.unlinkSync(resizedFile); } catch {}
       }
     },
   });
 
-  // --- ui_describe_point: Describe element at point ---
-  pi.registerTool({
-    name: "sim_ui_describe_point",
-    label: "Simulator: Describe Point",
+  // --- screenshot_compare: Golden-screenshot comparison ---
+  registerDeviceTool({
+    name: "sim_screenshot_compare",
+    label: "Simulator: Compare Screenshot",
     description:
-      "Returns accessibility information for the element at specific coordinates in the iOS Simulator.",
+      "Capture the screen and compare it with the stored baseline for a test step (qa/artifacts/baselines/<test>/<step>.png). " +
+      "Returns the similarity, the area that changed, and a diff image: the capture faded to grey, changed pixels in red, " +
+      "masked regions in blue. The status bar is masked by default; mask timestamps, avatars and other volatile regions with " +
+      "mask_elements (selectors) or masks (rects in points). Masks are saved with the baseline and reused. The first comparison " +
+      "for a step stores the capture as its baseline. accept: true makes the last compared capture the new baseline. " +
+      "While a QA test is active, results are recorded in CXDB next to the run's screenshots.",
     parameters: Type.Object({
-      x: Type.Number({ description: "X coordinate in points" }),
-      y: Type.Number({ description: "Y coordinate in points" }),
+      step_id: Type.String({ description: "Step the baseline belongs to, e.g. 'conversation_list'" }),
+      test_id: Type.Optional(Type.String({ description: "Test the baseline belongs to (default: the active QA test)" })),
+      accept: Type.Optional(Type.Boolean({ description: "Store the last compared capture for this step as the new baseline (captures now if there is none)" })),
+      tolerance: Type.Optional(Type.Number({ description: "Per-channel difference (0-255) still counted as equal (default: 16)" })),
+      min_similarity: Type.Optional(Type.Number({ description: "Share of unmasked pixels that must match to pass, 0-1 (default: 0.99)" })),
+      mask_status_bar: Type.Optional(Type.Boolean({ description: "Ignore the status bar (default: true)" })),
+      mask_elements: Type.Optional(Type.Array(Type.String(), { description: "Selectors for elements to ignore, e.g. ['id^=message-timestamp', 'type=image id^=avatar']" })),
+      masks: Type.Optional(Type.Array(RECT, { description: "Regions to ignore, in points" })),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const result = await pi.exec(
-        findIdb(),
-        ["ui", "describe-point", "--udid", udid, "--json", String(params.x), String(params.y)],
-        { signal, timeout: 10000 }
-      );
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const qa = readQaContext();
+      const testId = params.test_id ?? qa?.test_id;
+      if (!testId) {
+        return { content: [{ type: "text", text: "Pass test_id, or start a test with sim_qa_begin_test." }], isError: true };
+      }
+      const given: MaskSpec | undefined =
+        params.masks || params.mask_elements || params.mask_status_bar !== undefined
+          ? { status_bar: params.mask_status_bar ?? true, rects: params.masks, elements: params.mask_elements }
+          : undefined;
+      try {
+        for (const text of given?.elements ?? []) parseSelector(text);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const key = `${testId}\u0000${params.step_id}`;
+      const label = `${testId}/${params.step_id}`;
+      const baselineRel = (file: string) => path.relative(artifactsRoot(), file);
+      const record = (row: Omit<ScreenshotComparisonRow, "step_id">) =>
+        recordIfActive("screenshot comparison", async ctx => {
+          await recordScreenshotComparison(cxdb, ctx, { step_id: params.step_id, ...row }, signal);
+          return `comparison recorded (${row.status})`;
+        });
+
+      let capture = params.accept ? lastCaptures.get(key) : undefined;
+      if (!capture) {
+        const tmpFile = path.join(os.tmpdir(), `sim-compare-${Date.now()}.png`);
+        try {
+          await driver.screenshot(udid, tmpFile, signal);
+          const png = fs.readFileSync(tmpFile);
+          capture = { png, image: decodePng(png) };
+        } catch (e: any) {
+          return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+        } finally {
+          try { fs.unlinkSync(tmpFile); } catch {}
+        }
+      }
+
+      const existing = readBaseline(testId, params.step_id);
+      if (params.accept || !existing) {
+        const masks = given ?? capture.masks ?? existing?.meta.masks ?? { status_bar: true };
+        const file = writeBaseline(testId, params.step_id, capture.png, capture.image, masks);
+        lastCaptures.delete(key);
+        const status = params.accept ? "accepted" : "new_baseline";
+        const recorded = await record({
+          status, similarity: null, min_similarity: null, differing_pixels: null, masked_pixels: null,
+          baseline_path: baselineRel(file), actual_path: null, diff_path: null,
+        });
+        const what = params.accept ? "Accepted as the new baseline" : "No baseline yet; stored this capture as the baseline";
+        return { content: [{ type: "text", text: `${what} for ${label}: ${file}${recorded}` }], details: { status, baseline: file } };
+      }
+
+      const spec = given ?? existing.meta.masks;
+      let tree: AXElement[] | undefined;
+      if (spec.status_bar !== false || spec.elements?.length) {
+        try { tree = await getAccessibilityTree(driver, udid, signal); } catch {}
+      }
+      const { rects, scale, notes } = resolveMasks(spec, tree, capture.image.width);
+      const tolerance = params.tolerance ?? 16;
+      const minSimilarity = params.min_similarity ?? 0.99;
+      lastCaptures.set(key, { ...capture, masks: spec });
+
+      let comparison: Comparison;
+      try {
+        comparison = compareImages(existing.image, capture.image, rects, tolerance);
+      } catch (e: any) {
+        const recorded = await record({
+          status: "size_mismatch", similarity: null, min_similarity: minSimilarity, differing_pixels: null, masked_pixels: null,
+          baseline_path: baselineRel(baselinePaths(testId, params.step_id).image), actual_path: null, diff_path: null,
+        });
+        return {
+          content: [{ type: "text", text: `✗ ${label}: ${e.message}. Different device? accept: true replaces the baseline.${recorded}` }],
+          isError: true,
+        };
+      }
+
+      const passed = comparison.similarity >= minSimilarity;
+      const diffPng = encodePng(comparison.diff);
+      const stamp = new Date().toISOString().replace(/[-:.]/g, "");
+      const diffName = `${stamp}-${sanitizePathPart(testId)}-${sanitizePathPart(params.step_id)}-diff.png`;
+      const diffDir = qa ? path.join(runArtifactDir(qa.run_id), "diffs") : os.tmpdir();
+      const diffFile = path.join(diffDir, diffName);
+      fs.mkdirSync(diffDir, { recursive: true });
+      fs.writeFileSync(diffFile, diffPng);
+
+      const recorded = await recordIfActive("screenshot comparison", async ctx => {
+        const actualTmp = path.join(os.tmpdir(), `sim-compare-actual-${Date.now()}.png`);
+        fs.writeFileSync(actualTmp, capture!.png);
+        let actualRel: string;
+        try {
+          actualRel = await recordScreenshot(cxdb, ctx, actualTmp, params.step_id, `compared with baseline ${label}`, signal);
+        } finally {
+          try { fs.unlinkSync(actualTmp); } catch {}
+        }
+        await recordScreenshotComparison(cxdb, ctx, {
+          step_id: params.step_id,
+          status: passed ? "pass" : "fail",
+          similarity: comparison.similarity,
+          min_similarity: minSimilarity,
+          differing_pixels: comparison.differing,
+          masked_pixels: comparison.masked,
+          baseline_path: baselineRel(baselinePaths(testId, params.step_id).image),
+          actual_path: actualRel,
+          diff_path: path.relative(runArtifactDir(ctx.run_id), diffFile),
+        }, signal);
+        return `comparison recorded (${passed ? "pass" : "fail"})`;
+      });
+
+      const pct = (n: number) => `${(n * 100).toFixed(2)}%`;
+      const total = comparison.compared + comparison.masked;
+      const lines = [
+        `${passed ? "✓" : "✗"} ${label}: ${pct(comparison.similarity)} similar to the baseline (need ${pct(minSimilarity)}).`,
+        `${comparison.differing.toLocaleString("en-US")} of ${comparison.compared.toLocaleString("en-US")} compared pixels differ; ` +
+          `${Math.round((comparison.masked / total) * 100)}% of the screen masked.`,
+      ];
+      if (comparison.bounds) {
+        const b = comparison.bounds;
+        lines.push(`Changes lie within x=${Math.round(b.x / scale)} y=${Math.round(b.y / scale)} ${Math.round(b.width / scale)}×${Math.round(b.height / scale)} pt.`);
       }
-      return { content: [{ type: "text", text: result.stdout }], details: {} };
+      lines.push(...notes.map(n => `(${n})`));
+      lines.push(`Diff image: ${diffFile}`);
+      if (!passed) lines.push("If the change is intended, call again with accept: true to make this capture the baseline.");
+
+      const preview = encodePng(fitWithin(comparison.diff, DIFF_PREVIEW_PX));
+      return {
+        content: [
+          { type: "image", data: preview.toString("base64"), mimeType: "image/png" },
+          { type: "text", text: lines.join("\n") + recorded },
+        ],
+        details: { status: passed ? "pass" : "fail", similarity: comparison.similarity, diff: diffFile },
+        ...(passed ? {} : { isError: true }),
+      };
     },
   });
 
-  // --- open_url: Open a URL in the simulator ---
-  pi.registerTool({
-    name: "sim_open_url",
-    label: "Simulator: Open URL",
+  // --- record_video: Screen recordings that span tool calls ---
+
+  // Stop a recording, trim or downscale it if asked, and register it against
+  // the run, test and step that were active when it started
+  async function finishRecording(udid: string, post: PostProcessOptions, signal?: AbortSignal): Promise<{ lines: string[]; finished: FinishedRecording }> {
+    const finished = await videoRecordings.stop(udid);
+    const lines = [`Stopped recording ${udid} after ${finished.durationS.toFixed(1)}s`];
+    if (finished.endedEarly) lines.push(`It had already ended: ${finished.endedEarly.reason}`);
+    if (post.trimStartS !== undefined || post.trimEndS !== undefined || post.maxDimension) {
+      try {
+        finished.durationS = postProcessRecording(finished.path, finished.durationS, post);
+        finished.bytes = fs.statSync(finished.path).size;
+        lines.push(`Trimmed/downscaled to ${finished.durationS.toFixed(1)}s`);
+      } catch (e: any) {
+        lines.push(`Kept the recording as captured: ${e.message}`);
+      }
+    }
+    lines.push(`${finished.path} (${formatSize(finished.bytes)})`);
+    const qa = finished.qa;
+    if (!qa) {
+      lines.push("CXDB: not registered (no QA run was active when recording started)");
+      return { lines, finished };
+    }
+    try {
+      const rel = path.relative(runArtifactDir(qa.run_id), finished.path);
+      await recordScreenRecording(cxdb, qa, {
+        step_id: finished.stepId, path: rel, caption: finished.caption ?? null,
+        duration_s: Math.round(finished.durationS * 10) / 10, bytes: finished.bytes,
+      }, signal);
+      lines.push(`CXDB: registered for run ${qa.run_id}${qa.test_id ? `, test ${qa.test_id}` : ""}, step ${finished.stepId}`);
+    } catch (e: any) {
+      lines.push(`CXDB: failed to record the recording: ${e.message}`);
+    }
+    return { lines, finished };
+  }
+
+  // Nothing else would stop them: simctl keeps recording after the session is gone
+  pi.on("session_shutdown", async () => {
+    for (const rec of videoRecordings.all()) {
+      try { await finishRecording(rec.udid, {}); } catch {}
+    }
+  });
+
+  registerDeviceTool({
+    name: "sim_record_video_start",
+    label: "Simulator: Start Screen Recording",
     description:
-      "Open a URL in the iOS Simulator (deep links, universal links, web URLs).",
+      "Start recording the simulator's screen (simctl io recordVideo, H.264) to catch what screenshots miss: flicker, " +
+      "glitching animations, toasts that vanish. Recording continues across tool calls until sim_record_video_stop, and " +
+      "stops by itself after max_duration, when the active QA test ends (sim_qa_end_test) or when the session ends. " +
+      "While a QA run is active the file goes to qa/artifacts/run-<run_id>/videos/ and is registered in CXDB against " +
+      "the run, test and step_id once stopped. One recording per simulator.",
     parameters: Type.Object({
-      url: Type.String({ description: "URL to open" }),
+      step_id: Type.Optional(Type.String({ description: "Step id to file the recording under in CXDB (default: 'recording')" })),
+      caption: Type.Optional(Type.String({ description: "What the recording is meant to show" })),
+      max_duration: Type.Optional(Type.Number({ description: `Seconds before recording stops by itself (default: ${DEFAULT_MAX_RECORDING_S}, max: ${MAX_RECORDING_S})` })),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const result = await pi.exec(SIMCTL, [ "openurl", udid, params.url], {
-        signal,
-        timeout: 10000,
-      });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
+      const maxDurationS = params.max_duration ?? DEFAULT_MAX_RECORDING_S;
+      if (!(maxDurationS > 0) || maxDurationS > MAX_RECORDING_S) {
+        return { content: [{ type: "text", text: `max_duration must be more than 0 and at most ${MAX_RECORDING_S} seconds` }], isError: true };
+      }
+      try {
+        const udid = await resolveUdid(driver, params.udid, signal);
+        const qa = readQaContext();
+        const rec = await videoRecordings.start(udid, { qa, stepId: params.step_id ?? "recording", caption: params.caption, maxDurationS }, signal);
+        return {
+          content: [{
+            type: "text",
+            text: `Recording ${udid} to ${rec.path}\n` +
+              `Stops by itself after ${maxDurationS}s; call sim_record_video_stop when done.` +
+              (qa ? "" : "\nNo QA run is active, so the recording will not be registered in CXDB."),
+          }],
+          details: { udid, path: rec.path, max_duration: maxDurationS, run_id: qa?.run_id ?? null, test_id: qa?.test_id ?? null },
+        };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
-      return { content: [{ type: "text", text: `Opened URL: ${params.url}` }], details: {} };
     },
   });
 
-  // --- launch_app: Launch an app ---
-  pi.registerTool({
-    name: "sim_launch_app",
-    label: "Simulator: Launch App",
-    description: "Launch an app on the iOS Simulator by bundle identifier.",
+  registerDeviceTool({
+    name: "sim_record_video_stop",
+    label: "Simulator: Stop Screen Recording",
+    description:
+      "Stop the recording started by sim_record_video_start, wait for the file, and register it in CXDB. trim_start / " +
+      "trim_end keep part of it (seconds from the start of the recording) and max_dimension downscales it so its " +
+      "longest edge fits; both need ffmpeg (FFMPEG_PATH), and without it the recording is kept as captured.",
     parameters: Type.Object({
-      bundle_id: Type.String({ description: "Bundle identifier (e.g. org.convos.ios-preview)" }),
+      trim_start: Type.Optional(Type.Number({ description: "Drop everything before this many seconds into the recording" })),
+      trim_end: Type.Optional(Type.Number({ description: "Drop everything after this many seconds into the recording" })),
+      max_dimension: Type.Optional(Type.Number({ description: "Downscale so the longest edge is at most this many pixels, e.g. 720" })),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
-      terminate_first: Type.Optional(
-        Type.Boolean({ description: "Terminate the app first if running (default: false)" })
-      ),
+      device: Type.Optional(DEVICE_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      if (params.terminate_first) {
-        await pi.exec(SIMCTL, [ "terminate", udid, params.bundle_id], { signal, timeout: 5000 });
-      }
-      const result = await pi.exec(SIMCTL, [ "launch", udid, params.bundle_id], {
-        signal,
-        timeout: 10000,
-      });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Error: ${result.stderr || result.stdout}` }], isError: true };
-      }
-      return { content: [{ type: "text", text: `Launched ${params.bundle_id}` }], details: {} };
+      try {
+        const udid = await resolveUdid(driver, params.udid, signal);
+        if (!videoRecordings.get(udid)) {
+          const others = videoRecordings.all().map(r => r.udid);
+          return {
+            content: [{ type: "text", text: `${udid} is not recording.${others.length ? ` Recording: ${others.join(", ")}` : ""}` }],
+            isError: true,
+          };
+        }
+        const { lines, finished } = await finishRecording(udid, {
+          trimStartS: params.trim_start, trimEndS: params.trim_end, maxDimension: params.max_dimension,
+        }, signal);
+        return {
+          content: [{ type: "text", text: lines.join("\n") }],
+          details: {
+            udid, path: finished.path, duration_s: finished.durationS, bytes: finished.bytes,
+            ended_early: finished.endedEarly?.reason ?? null, run_id: finished.qa?.run_id ?? null, test_id: finished.qa?.test_id ?? null,
+          },
+        };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
     },
   });
 
-  // --- tap_id: Tap an element by accessibility identifier or label ---
-  pi.registerTool({
-    name: "sim_tap_id",
-    label: "Simulator: Tap Element by ID",
+  // --- ui_describe_point: Describe element at point ---
+  registerDeviceTool({
+    name: "sim_ui_describe_point",
+    label: "Simulator: Describe Point",
     description:
-      "Find a UI element by its accessibility identifier or label and tap it. " +
-      "Searches in order: exact accessibilityIdentifier match, prefix match on identifier, " +
-      "exact label match, then substring label match. " +
-      "Returns the element info that was tapped, or an error if not found. " +
-      "This is faster and more reliable than calling describe_all + tap separately.",
+      "Returns accessibility information for the element at specific coordinates in the iOS Simulator.",
     parameters: Type.Object({
-      identifier: Type.String({ description: "Accessibility identifier, label text, or substring to search for" }),
+      x: Type.Number({ description: "X coordinate in points" }),
+      y: Type.Number({ description: "Y coordinate in points" }),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
-      duration: Type.Optional(Type.Number({ description: "Press duration in seconds for long press" })),
-      retries: Type.Optional(Type.Number({ description: "Number of retries if element not found (default 0). Waits 1s between retries." })),
+      device: Type.Optional(DEVICE_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const idbPath = findIdb();
-      const maxAttempts = (params.retries ?? 0) + 1;
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let info: any;
+      try {
+        info = await driver.describePoint(udid, params.x, params.y, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      return { content: [{ type: "text", text: JSON.stringify(info, null, 2) }], details: {} };
+    },
+  });
 
-      for (let attempt = 0; attempt < maxAttempts; attempt++) {
-        if (attempt > 0) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+  // --- open_url: Open a URL in the simulator ---
+  registerDeviceTool({
+    name: "sim_open_url",
+    label: "Simulator: Open URL",
+    description:
+      "Open a URL in the iOS Simulator (deep links, universal links, web URLs).",
+    parameters: Type.Object({
+      url: Type.String({ description: "URL to open" }),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.openUrl(udid, params.url, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      return { content: [{ type: "text", text: `Opened URL: ${params.url}` }], details: {} };
+    },
+  });
 
-        let elements: AXElement[];
-        try {
-          elements = await getAccessibilityTree(pi, idbPath, udid, signal);
-        } catch (e: any) {
-          return { content: [{ type: "text", text: `Error getting accessibility tree: ${e.message}` }], isError: true };
+  // --- launch_app: Launch an app ---
+  registerDeviceTool({
+    name: "sim_launch_app",
+    label: "Simulator: Launch App",
+    description: "Launch an app on the iOS Simulator by bundle identifier.",
+    parameters: Type.Object({
+      bundle_id: Type.String({ description: "Bundle identifier (e.g. org.convos.ios-preview)" }),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
+      terminate_first: Type.Optional(
+        Type.Boolean({ description: "Terminate the app first if running (default: false)" })
+      ),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        if (params.terminate_first) {
+          await driver.terminate(udid, params.bundle_id, signal);
         }
+        await driver.launch(udid, params.bundle_id, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      return { content: [{ type: "text", text: `Launched ${params.bundle_id}` }], details: {} };
+    },
+  });
+
+  // --- App lifecycle: install, uninstall, terminate, wipe, info, upgrade ---
+
+  const BUNDLE_ID_PARAM = Type.String({ description: "Bundle identifier (e.g. org.convos.ios-preview)" });
+
+  registerDeviceTool({
+    name: "sim_app_install",
+    label: "Simulator: Install App",
+    description:
+      "Install an .app bundle (a simulator build, e.g. from DerivedData). Installing over an installed copy keeps its data, " +
+      "like an App Store update; uninstall first (sim_app_uninstall) for a clean install. Reports the version and build " +
+      "installed and the one it replaced.",
+    parameters: Type.Object({
+      app_path: Type.String({ description: "Path to the .app bundle" }),
+      launch: Type.Optional(Type.Boolean({ description: "Launch the app after installing (default: false)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let bundle: BundleInfo;
+      let previous: InstalledApp | null;
+      let installed: InstalledApp | null;
+      try {
+        bundle = readBundleInfo(params.app_path);
+        previous = await driver.appInfo(udid, bundle.bundleId, signal);
+        await driver.install(udid, params.app_path, signal);
+        installed = await driver.appInfo(udid, bundle.bundleId, signal);
+        if (params.launch) await driver.launch(udid, bundle.bundleId, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      if (!installed) {
+        return { content: [{ type: "text", text: `simctl install succeeded but ${bundle.bundleId} is not installed` }], isError: true };
+      }
+      const replaced = previous
+        ? `over ${previous.version ?? "?"} (${previous.build ?? "?"}), data ${installed.dataContainer === previous.dataContainer ? "kept" : "container changed"}`
+        : "fresh install";
+      return {
+        content: [{ type: "text", text: `Installed ${describeApp(installed)}: ${replaced}${params.launch ? "\nLaunched" : ""}` }],
+        details: { installed, previous },
+      };
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_app_uninstall",
+    label: "Simulator: Uninstall App",
+    description: "Uninstall an app with its data and App Group containers. Keychain items survive (as on a device).",
+    parameters: Type.Object({
+      bundle_id: BUNDLE_ID_PARAM,
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        const previous = await driver.appInfo(udid, params.bundle_id, signal);
+        if (!previous) return { content: [{ type: "text", text: `${params.bundle_id} is not installed` }], details: { previous } };
+        await driver.uninstall(udid, params.bundle_id, signal);
+        return { content: [{ type: "text", text: `Uninstalled ${describeApp(previous)} and its data` }], details: { previous } };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_app_terminate",
+    label: "Simulator: Terminate App",
+    description: "Terminate a running app. An app that isn't running is not an error.",
+    parameters: Type.Object({
+      bundle_id: BUNDLE_ID_PARAM,
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      try {
+        await driver.terminate(udid, params.bundle_id, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      return { content: [{ type: "text", text: `Terminated ${params.bundle_id}` }], details: {} };
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_app_wipe_data",
+    label: "Simulator: Wipe App Data",
+    description:
+      "Terminate the app and empty its data container and App Group containers (databases, UserDefaults, convos.log), " +
+      "leaving the build installed: a fresh first launch without reinstalling. Keychain items are kept; " +
+      "`xcrun simctl keychain <udid> reset` clears them for every app.",
+    parameters: Type.Object({
+      bundle_id: BUNDLE_ID_PARAM,
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let wiped: WipedContainer[] | null;
+      try {
+        wiped = await wipeAppData(driver, udid, params.bundle_id, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      if (!wiped) return { content: [{ type: "text", text: `${params.bundle_id} is not installed` }], isError: true };
+      const lines = wiped.map(w => `  ${w.container}: ${w.files} file(s) removed (${w.path})`);
+      return {
+        content: [{ type: "text", text: `Wiped ${params.bundle_id}:\n${lines.join("\n") || "  no containers"}` }],
+        details: { wiped },
+      };
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_app_info",
+    label: "Simulator: Installed App Info",
+    description: "Report an installed app's version and build, bundle path, data container and App Group containers, or that it isn't installed.",
+    parameters: Type.Object({
+      bundle_id: BUNDLE_ID_PARAM,
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let app: InstalledApp | null;
+      try {
+        app = await driver.appInfo(udid, params.bundle_id, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      if (!app) return { content: [{ type: "text", text: `${params.bundle_id} is not installed` }], details: { installed: false } };
+      const groups = Object.entries(app.groupContainers).map(([id, dir]) => `\n  ${id}: ${dir}`).join("");
+      return {
+        content: [{
+          type: "text",
+          text: `${describeApp(app)}\nbundle: ${app.path}\ndata: ${app.dataContainer ?? "(none)"}\napp groups:${groups || " (none)"}`,
+        }],
+        details: { installed: true, ...app },
+      };
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_crash_check",
+    label: "Simulator: Crash Check",
+    description:
+      `Check whether Convos (${DEFAULT_BUNDLE_ID}) has crashed: its process is gone, or a new .ips report for it or one of ` +
+      "its extensions is in DiagnosticReports. Reports the exception, the crashed thread's frames and the last convos.log " +
+      "lines. Tools that act on the app already check after every call and fail with the crash; use this after waiting, " +
+      "backgrounding, or anything done outside the sim_* tools. A new crash is filed to CXDB bug_findings as critical " +
+      "when a QA test is active.",
+    parameters: Type.Object({
+      file_bug: Type.Optional(Type.Boolean({ description: "With no new crash, file the last one seen on this device (already filed crashes are not duplicated)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const fresh = await crashWatch.check(udid, signal);
+      const crash = fresh ?? crashWatch.last(udid);
+      if (!crash) {
+        const pid = await driver.appPid(udid, DEFAULT_BUNDLE_ID, signal).catch(() => null);
+        const state = pid === null ? "is not running" : `is running as pid ${pid}`;
+        return { content: [{ type: "text", text: `No crash seen. ${DEFAULT_BUNDLE_ID} ${state}.` }], details: { crashed: false, pid } };
+      }
+      let filed = "";
+      if (fresh || params.file_bug) {
+        filed = await fileCrashBug(crash, signal);
+        if (!filed && params.file_bug) filed = "\nNo QA run is active (sim_qa_begin_test); nothing was filed.";
+      }
+      const heading = fresh ? "" : `No new crash. The last one on this device, found at ${crash.detectedAt}:\n`;
+      return {
+        content: [{ type: "text", text: `${heading}${formatCrash(crash)}${filed}` }],
+        details: { crashed: Boolean(fresh), crash },
+        ...(fresh ? { isError: true } : {}),
+      };
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_app_upgrade",
+    label: "Simulator: Upgrade Sequence",
+    description:
+      "Run an upgrade: uninstall (clean, default), install the old build, launch it and wait for wait_for_old (or `settle` " +
+      "seconds) so it sets up its data, terminate it, install the new build over it, and launch the new build. Checks the " +
+      "installed build after each install and whether the data container was kept. Reports each step as it finishes and " +
+      "stops at the first failure.",
+    parameters: Type.Object({
+      old_app_path: Type.String({ description: "The .app bundle to upgrade from" }),
+      new_app_path: Type.String({ description: "The .app bundle to upgrade to (same bundle identifier)" }),
+      clean: Type.Optional(Type.Boolean({ description: "Uninstall first so the old build starts without data (default: true)" })),
+      wait_for_old: Type.Optional(Type.String({ description: "Selector or identifier the old build shows once it is up, e.g. 'id=conversations-list'" })),
+      settle: Type.Optional(Type.Number({ description: "Seconds to let a build run when there is no element to wait for (default: 5)" })),
+      launch_new: Type.Optional(Type.Boolean({ description: "Launch the new build at the end (default: true)" })),
+      wait_for_new: Type.Optional(Type.String({ description: "Selector or identifier the new build shows once it is up" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds to wait for wait_for_old / wait_for_new (default: 30)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal, onUpdate) {
+      let waitForOld: Selector | undefined;
+      let waitForNew: Selector | undefined;
+      try {
+        waitForOld = params.wait_for_old ? parseSelector(params.wait_for_old) : undefined;
+        waitForNew = params.wait_for_new ? parseSelector(params.wait_for_new) : undefined;
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const lines: string[] = [];
+      const result = await runUpgrade(driver, udid, {
+        oldApp: params.old_app_path,
+        newApp: params.new_app_path,
+        clean: params.clean ?? true,
+        waitForOld,
+        settleMs: (params.settle ?? 5) * 1000,
+        launchNew: params.launch_new ?? true,
+        waitForNew,
+        timeoutMs: (params.timeout ?? 30) * 1000,
+      }, step => {
+        lines.push(formatStep(step));
+        onUpdate?.({ content: [{ type: "text", text: lines.join("\n") }], details: {} });
+      }, signal);
+
+      const summary = result.ok
+        ? `Upgraded ${result.before ? describeApp(result.before) : "?"} → ${result.after?.version ?? "?"} (${result.after?.build ?? "?"})`
+        : `Upgrade stopped at "${result.steps[result.steps.length - 1]?.name ?? "start"}"`;
+      return {
+        content: [{ type: "text", text: `${summary}\n${lines.join("\n")}` }],
+        details: { ok: result.ok, steps: result.steps, before: result.before, after: result.after },
+        ...(result.ok ? {} : { isError: true }),
+      };
+    },
+  });
+
+  // --- media_fixture: Generate media and files and put them on the device ---
 
-        let el = findElement(elements, params.identifier);
+  registerDeviceTool({
+    name: "sim_media_fixture",
+    label: "Simulator: Media Fixture",
+    description:
+      "Generate deterministic test media locally (images, short videos, PDFs, text files) and add them to the photo " +
+      "library (simctl addmedia) or the Files app's On My iPhone. The same parameters always give the same bytes and " +
+      "the same id (fx-<content hash>); fixtures are cached in qa/artifacts/fixtures, so repeating a call is instant. " +
+      "The returned paths can be sent from the CLI. JPEG/HEIC need macOS (sips); video needs ffmpeg.",
+    parameters: Type.Object({
+      kind: Type.Optional(Type.Union([Type.Literal("image"), Type.Literal("video"), Type.Literal("pdf"), Type.Literal("file")], {
+        description: "What to generate. Use instead of fixture_id.",
+      })),
+      fixture_id: Type.Optional(Type.String({ description: "A fixture generated earlier (fx-...), to add again" })),
+      width: Type.Optional(Type.Number({ description: "Image/video width in pixels (default: 1200 for images, 640 for video)" })),
+      height: Type.Optional(Type.Number({ description: "Image/video height in pixels (default: 900 for images, 360 for video)" })),
+      format: Type.Optional(Type.String({ description: "Image: png (default), jpeg or heic. Video: mp4 (default) or mov" })),
+      duration: Type.Optional(Type.Number({ description: "Video length in seconds (default: 3)" })),
+      pages: Type.Optional(Type.Number({ description: "PDF page count (default: 1)" })),
+      name: Type.Optional(Type.String({ description: "File: file name, whose extension sets the type, e.g. 'notes.txt', 'data.csv'" })),
+      content: Type.Optional(Type.String({ description: "File: exact content (default: generated text lines)" })),
+      size_bytes: Type.Optional(Type.Number({ description: "File: size of the generated text when there is no content (default: 1024)" })),
+      seed: Type.Optional(Type.String({ description: "Varies the content; the same seed gives the same fixture (default: '1')" })),
+      count: Type.Optional(Type.Number({ description: `Number of distinct fixtures, seeded <seed>-1 .. <seed>-N (default: 1, max ${MAX_FIXTURE_COUNT})` })),
+      add_to: Type.Optional(Type.Union([Type.Literal("photos"), Type.Literal("files"), Type.Literal("none")], {
+        description: "Where to put them: photos (default for images and video), files (default for PDFs and files), or none",
+      })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      if (Boolean(params.kind) === Boolean(params.fixture_id)) {
+        return { content: [{ type: "text", text: "Provide either kind or fixture_id." }], isError: true };
+      }
+      const count = params.count ?? 1;
+      if (!Number.isInteger(count) || count < 1 || count > MAX_FIXTURE_COUNT) {
+        return { content: [{ type: "text", text: `count must be a whole number from 1 to ${MAX_FIXTURE_COUNT}` }], isError: true };
+      }
 
-        // Fallback: probe bottom toolbar area (SwiftUI .bottomBar items are hidden from describe-all)
-        if (!el) {
-          const toolbarElements = await probeToolbarElements(pi, idbPath, udid, signal, elements);
-          el = findElement(toolbarElements, params.identifier);
-          if (el) {
-            elements = elements.concat(toolbarElements);
+      const fixtures: Fixture[] = [];
+      try {
+        if (params.fixture_id) {
+          const known = findFixture(params.fixture_id);
+          if (!known) throw new Error(`No fixture ${params.fixture_id} in the cache; generate it again with its parameters`);
+          fixtures.push(known);
+        } else {
+          const seed = params.seed ?? "1";
+          for (let i = 1; i <= count; i++) {
+            fixtures.push(ensureFixture(fixtureSpec(params, count === 1 ? seed : `${seed}-${i}`)));
           }
         }
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
 
-        if (!el) {
-          if (attempt < maxAttempts - 1) continue;
-          const available = elements
-            .filter(e => e.AXUniqueId || e.AXLabel)
-            .map(e => `  ${e.AXUniqueId || "(no id)"}: "${e.AXLabel || ""}" [${e.type}]`)
-            .join("\n");
-          return {
-            content: [{ type: "text", text: `Element not found: "${params.identifier}"\n\nAvailable elements:\n${available}` }],
-            isError: true,
-          };
+      let added;
+      try {
+        added = params.add_to === "none" ? null : await addFixtures(driver, await resolveUdid(driver, params.udid, signal), fixtures, params.add_to, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Generated ${fixtures.map(f => f.id).join(", ")} but could not add them: ${e.message}` }], isError: true };
+      }
+
+      const lines = fixtures.map(f =>
+        `${f.id}  ${f.fileName}  ${formatSize(f.bytes)}${f.cached ? " (cached)" : ""}\n  ${f.path}`);
+      const where = added
+        ? `\nAdded to ${added === "photos" ? "Photos" : "Files (On My iPhone)"}${added === "photos" && fixtures.length > 1 ? " in this order; the last is the most recent" : ""}`
+        : "";
+      return {
+        content: [{ type: "text", text: lines.join("\n") + where }],
+        details: { fixtures, addedTo: added ?? "none" },
+      };
+    },
+  });
+
+  // --- send_push: Deliver a simulated APNs push ---
+
+  registerDeviceTool({
+    name: "sim_send_push",
+    label: "Simulator: Send Push Notification",
+    description:
+      "Deliver an APNs payload to the app with `simctl push`, from a template or as raw JSON, after checking its size " +
+      "and structure. Templates: " + Object.entries(PUSH_TEMPLATES).map(([name, t]) => `${name} (${t.description})`).join("; ") + ". " +
+      "Optionally wait for the banner (expect_banner: true for the alert's text, a selector, or false to assert none " +
+      "appears, e.g. for a muted conversation) and check the badge on the home-screen icon (expect_badge; the app must " +
+      "be in the background).",
+    parameters: Type.Object({
+      bundle_id: BUNDLE_ID_PARAM,
+      template: Type.Optional(Type.Union(Object.keys(PUSH_TEMPLATES).map(name => Type.Literal(name)), {
+        description: "Payload template. Use instead of payload.",
+      })),
+      payload: Type.Optional(Type.String({ description: "Raw APNs payload as JSON, e.g. '{\"aps\":{\"badge\":0}}'" })),
+      title: Type.Optional(Type.String({ description: "Template: alert title (default: 'QA Conversation')" })),
+      body: Type.Optional(Type.String({ description: "Template: alert body (each template has a default)" })),
+      badge: Type.Optional(Type.Number({ description: "Template: aps.badge (new_message defaults to 1; 0 clears the badge)" })),
+      conversation_id: Type.Optional(Type.String({ description: "Template: conversation id, used as thread-id and in the XMTP topic (default: 'qa-conversation')" })),
+      client_id: Type.Optional(Type.String({ description: "Template: clientId the NotificationService checks (default: 'qa-client')" })),
+      sender: Type.Optional(Type.String({ description: "Template: sender name in the default body (default: 'QA Bot')" })),
+      emoji: Type.Optional(Type.String({ description: "reaction template: the emoji (default: 👍)" })),
+      expect_banner: Type.Optional(Type.Union([Type.Boolean(), Type.String()], {
+        description: "true: wait for a banner with the alert's text; a selector or text: wait for that; false: fail if the alert's text shows up",
+      })),
+      expect_badge: Type.Optional(Type.Number({ description: "Badge the app icon should show afterwards (0 = none)" })),
+      icon_label: Type.Optional(Type.String({ description: "Home-screen icon label (default: the installed app's display name)" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds to wait for the banner or badge, or to watch for an unwanted banner (default: 10)" })),
+      validate_only: Type.Optional(Type.Boolean({ description: "Check and show the payload without sending it" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      if (Boolean(params.template) === Boolean(params.payload)) {
+        return { content: [{ type: "text", text: "Provide either template or payload." }], isError: true };
+      }
+      let payload: Payload;
+      try {
+        payload = params.template
+          ? buildFromTemplate(params.template, {
+            title: params.title, body: params.body, badge: params.badge, conversationId: params.conversation_id,
+            clientId: params.client_id, sender: params.sender, emoji: params.emoji,
+          })
+          : JSON.parse(params.payload!);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Invalid payload: ${e.message}` }], isError: true };
+      }
+
+      const check = checkPayload(payload);
+      const json = JSON.stringify(payload, null, 2);
+      const warnings = check.warnings.map(w => `\n⚠️ ${w}`).join("");
+      if (check.errors.length > 0) {
+        return {
+          content: [{ type: "text", text: `Payload rejected:\n${check.errors.map(e => `  ✗ ${e}`).join("\n")}${warnings}` }],
+          details: { payload, ...check },
+          isError: true,
+        };
+      }
+      if (params.validate_only) {
+        return { content: [{ type: "text", text: `Payload OK (${check.bytes} bytes)${warnings}\n${json}` }], details: { payload, ...check } };
+      }
+
+      let bannerSelector: Selector | undefined;
+      if (params.expect_banner !== undefined) {
+        if (typeof params.expect_banner === "string") {
+          try {
+            bannerSelector = parseSelector(params.expect_banner);
+          } catch (e: any) {
+            return { content: [{ type: "text", text: e.message }], isError: true };
+          }
+        } else {
+          const alert = alertText(payload);
+          if (!alert) return { content: [{ type: "text", text: "expect_banner needs a payload with an alert (or a selector to look for)" }], isError: true };
+          // The body is what a banner shows most reliably; the title may be replaced by the app name
+          bannerSelector = fuzzySelector((alert.body ?? alert.title)!);
         }
+      }
 
-        if (!el.enabled) {
-          return {
-            content: [{ type: "text", text: `Element found but disabled: ${formatElementInfo(el)}` }],
-            isError: true,
-          };
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const timeoutMs = (params.timeout ?? 10) * 1000;
+      const lines: string[] = [];
+      let failed = false;
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sim-push-"));
+      try {
+        const before = bannerSelector ? findElements(await getAccessibilityTree(driver, udid, signal), bannerSelector).length : 0;
+        const payloadPath = path.join(dir, "payload.apns");
+        fs.writeFileSync(payloadPath, JSON.stringify(payload));
+        await driver.push(udid, params.bundle_id, payloadPath, signal);
+        lines.push(`Sent ${params.template ?? "custom"} push to ${params.bundle_id} (${check.bytes} bytes)`);
+
+        if (bannerSelector) {
+          const seen = await waitForNewMatch(driver, udid, bannerSelector, before, timeoutMs, signal);
+          if (params.expect_banner === false) {
+            failed ||= Boolean(seen);
+            lines.push(seen
+              ? `✗ A banner appeared although none was expected: ${formatElementInfo(seen.element)}`
+              : `✓ No banner within ${timeoutMs / 1000}s`);
+          } else {
+            failed ||= !seen;
+            lines.push(seen
+              ? `✓ Banner after ${(seen.elapsedMs / 1000).toFixed(1)}s: ${formatElementInfo(seen.element)}`
+              : `✗ No banner matching "${bannerSelector.text}" within ${timeoutMs / 1000}s`);
+          }
         }
 
-        const center = elementCenter(el);
-        const args = ["ui", "tap", "--udid", udid, String(center.x), String(center.y)];
-        if (params.duration) args.push("--duration", String(params.duration));
-        const tapResult = await pi.exec(idbPath, args, { signal, timeout: 10000 });
-        if (tapResult.code !== 0) {
-          return { content: [{ type: "text", text: `Tap failed: ${tapResult.stderr || tapResult.stdout}` }], isError: true };
+        if (params.expect_badge !== undefined) {
+          let iconLabel = params.icon_label;
+          if (!iconLabel) {
+            const app = await driver.appInfo(udid, params.bundle_id, signal);
+            try {
+              iconLabel = app ? readBundleInfo(app.path).name ?? undefined : undefined;
+            } catch {}
+          }
+          if (!iconLabel) throw new Error(`Could not tell the home-screen icon's label for ${params.bundle_id}; pass icon_label`);
+          const start = Date.now();
+          let badge: number | null = null;
+          do {
+            badge = await readIconBadge(driver, udid, iconLabel, signal);
+            if (badge === params.expect_badge) break;
+            await new Promise(resolve => setTimeout(resolve, 500));
+          } while (Date.now() - start < timeoutMs && !signal?.aborted);
+          failed ||= badge !== params.expect_badge;
+          lines.push(badge === null
+            ? `✗ No "${iconLabel}" icon on screen to read the badge from; background the app first (the home screen must be showing)`
+            : badge === params.expect_badge
+              ? `✓ Badge ${badge}`
+              : `✗ Badge is ${badge}, expected ${params.expect_badge}`);
         }
+      } catch (e: any) {
+        return { content: [{ type: "text", text: [...lines, `Error: ${e.message}`].join("\n") }], isError: true };
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") + warnings }],
+        details: { payload, bytes: check.bytes, warnings: check.warnings, passed: !failed },
+        ...(failed ? { isError: true } : {}),
+      };
+    },
+  });
+
+  // --- tap_id: Tap an element by accessibility identifier or label ---
+  registerDeviceTool({
+    name: "sim_tap_id",
+    label: "Simulator: Tap Element by ID",
+    description:
+      "Find a UI element by its accessibility identifier or label, or by a selector, and tap it. " +
+      "An identifier is searched in order: exact accessibilityIdentifier match, prefix match on identifier, " +
+      "exact label match, then substring label match. " +
+      "Returns the element info that was tapped, or an error if not found or if several elements match " +
+      "(listed with their index, so the selector can be narrowed). " +
+      "This is faster and more reliable than calling describe_all + tap separately.",
+    parameters: Type.Object({
+      identifier: Type.Optional(Type.String({ description: "Accessibility identifier, label text, or substring to search for" })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
+      duration: Type.Optional(Type.Number({ description: "Press duration in seconds for long press" })),
+      retries: Type.Optional(Type.Number({ description: "Number of retries if element not found (default 0). Waits 1s between retries." })),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let selector: Selector;
+      try {
+        selector = selectorFromParams(params);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      const outcome = await tapElement(driver, udid, selector, { retries: params.retries, duration: params.duration }, signal);
 
+      if (outcome.ok) {
         return {
-          content: [{ type: "text", text: `Tapped: ${formatElementInfo(el)}` }],
+          content: [{ type: "text", text: `Tapped: ${formatElementInfo(outcome.element)}` }],
           details: {},
         };
       }
-
-      return { content: [{ type: "text", text: `Element not found after ${maxAttempts} attempts: "${params.identifier}"` }], isError: true };
+      switch (outcome.reason) {
+        case "tree_error":
+          return { content: [{ type: "text", text: `Error getting accessibility tree: ${outcome.message}` }], isError: true };
+        case "tap_failed":
+          return { content: [{ type: "text", text: `Tap failed: ${outcome.message}` }], isError: true };
+        case "disabled":
+          return {
+            content: [{ type: "text", text: `Element found but disabled: ${formatElementInfo(outcome.element)}` }],
+            isError: true,
+          };
+        case "ambiguous":
+          return { content: [{ type: "text", text: formatAmbiguous(selector, outcome.matches) }], isError: true };
+        case "not_found":
+          return {
+            content: [{ type: "text", text: `Element not found: "${selector.text}"\n\nAvailable elements:\n${formatAvailable(outcome.elements)}` }],
+            isError: true,
+          };
+      }
     },
   });
 
   // --- type_in_field: Tap a text field by id and type text into it ---
-  pi.registerTool({
+  registerDeviceTool({
     name: "sim_type_in_field",
     label: "Simulator: Type in Field by ID",
     description:
-      "Find a text field by accessibility identifier or label, tap to focus it, then type text. " +
+      "Find a text field by accessibility identifier, label or selector, tap to focus it, then type text. " +
       "Combines field lookup, tap-to-focus, and text input into a single operation. " +
       "Optionally clears the field first. Much more reliable than separate tap + type calls.",
     parameters: Type.Object({
-      identifier: Type.String({ description: "Accessibility identifier or label of the text field" }),
+      identifier: Type.Optional(Type.String({ description: "Accessibility identifier or label of the text field" })),
+      selector: Type.Optional(SELECTOR_PARAM),
       text: Type.String({ description: "Text to type into the field" }),
       clear_first: Type.Optional(Type.Boolean({ description: "Select all and delete existing text before typing (default: false)" })),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const idbPath = findIdb();
-
-      let elements: AXElement[];
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let selector: Selector;
       try {
-        elements = await getAccessibilityTree(pi, idbPath, udid, signal);
+        selector = selectorFromParams(params);
       } catch (e: any) {
-        return { content: [{ type: "text", text: `Error getting accessibility tree: ${e.message}` }], isError: true };
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      const outcome = await typeInField(driver, udid, selector, params.text, params.clear_first ?? false, signal);
+
+      if (outcome.ok) {
+        return {
+          content: [{ type: "text", text: `Typed "${params.text}" into ${formatElementInfo(outcome.element)}` }],
+          details: {},
+        };
+      }
+      switch (outcome.reason) {
+        case "tree_error":
+          return { content: [{ type: "text", text: `Error getting accessibility tree: ${outcome.message}` }], isError: true };
+        case "not_found":
+          return {
+            content: [{ type: "text", text: `Text field not found: "${selector.text}"` }],
+            isError: true,
+          };
+        case "ambiguous":
+          return { content: [{ type: "text", text: formatAmbiguous(selector, outcome.matches) }], isError: true };
+        case "tap_failed":
+          return { content: [{ type: "text", text: `Failed to tap field: ${outcome.message}` }], isError: true };
+        case "type_failed":
+          return { content: [{ type: "text", text: `Failed to type text: ${outcome.message}` }], isError: true };
+      }
+    },
+  });
+
+  // --- wait_for_element: Wait for an element to appear ---
+  registerDeviceTool({
+    name: "sim_wait_for_element",
+    label: "Simulator: Wait for Element",
+    description:
+      "Poll the accessibility tree until an element with the given identifier or label, or matching a selector, appears. " +
+      "Useful for waiting after navigation, network requests, or animations. " +
+      "Returns the element info when found, or an error after timeout. " +
+      "If several elements match once it appears, that is an error listing them; narrow the selector (e.g. index=N).",
+    parameters: Type.Object({
+      identifier: Type.Optional(Type.String({ description: "Accessibility identifier or label to wait for" })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      timeout: Type.Optional(Type.Number({ description: "Maximum wait time in seconds (default: 10)" })),
+      interval: Type.Optional(Type.Number({ description: "Poll interval in seconds (default: 1)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let selector: Selector;
+      try {
+        selector = selectorFromParams(params);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      const outcome = await waitForElement(
+        driver,
+        udid,
+        selector,
+        { timeoutMs: (params.timeout ?? 10) * 1000, intervalMs: (params.interval ?? 1) * 1000 },
+        signal
+      );
+
+      if (outcome.element) {
+        const elapsed = (outcome.elapsedMs / 1000).toFixed(1);
+        if (outcome.matches && outcome.matches.length > 1) {
+          return {
+            content: [{ type: "text", text: formatAmbiguous(selector, outcome.matches) }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text", text: `Found after ${elapsed}s: ${formatElementInfo(outcome.element)}` }],
+          details: {},
+        };
+      }
+
+      const available = outcome.elements ? `\n\nAvailable elements:\n${formatAvailable(outcome.elements)}` : "";
+      return {
+        content: [{ type: "text", text: `Timed out after ${params.timeout ?? 10}s waiting for "${selector.text}"${available}` }],
+        isError: true,
+      };
+    },
+  });
+
+  // --- log_tail: Read recent app logs, filtered by level ---
+  registerDeviceTool({
+    name: "sim_log_tail",
+    label: "Simulator: Tail App Logs",
+    description:
+      "Read recent lines from the Convos app log file on the simulator. " +
+      "By default filters for warning and error level logs only. " +
+      "Reads from the end of the log file. Use `since_marker` to only get logs newer than a previously returned marker. " +
+      "Markers are byte-offset cursors: every line written after one is returned exactly once, and a reinstall or truncated log is detected. " +
+      "Multi-line entries (stack traces) are returned with the line they belong to. " +
+      "`format: \"json\"` returns parsed entries (timestamp, level, source, category, message, event, params).",
+    parameters: Type.Object({
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      lines: Type.Optional(Type.Number({ description: "Maximum number of entries to return (default: 100)" })),
+      level: Type.Optional(Type.String({ description: "Filter level: 'all', 'warning+error' (default), 'error', 'events' (only [EVENT] lines)" })),
+      since_marker: Type.Optional(Type.String({ description: "Only return logs after this marker (from a previous log tool call)" })),
+      format: Type.Optional(LOG_FORMAT),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const logFile = driver.findLogFile(udid);
+      if (!logFile) {
+        return { content: [{ type: "text", text: "No log file found for this simulator. The app may not have been launched yet." }], details: {} };
+      }
+
+      const maxLines = params.lines ?? 100;
+      const level = params.level ?? "warning+error";
+
+      let window: LogWindow;
+      try {
+        window = readLogWindow(logFile, params.since_marker, maxLines * 5);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Failed to read log file: ${e.message}` }], isError: true };
+      }
+
+      const matching = window.records.filter(r => matchesLevel(r, level));
+      const records = matching.slice(-maxLines);
+      const omitted = matching.length - records.length;
+      const marker = window.marker;
+
+      if (params.format === "json") {
+        return {
+          content: [{ type: "text", text: window.note + JSON.stringify({ level, entries: records.map(recordToJson), omitted, marker }, null, 2) }],
+          details: {},
+        };
+      }
+
+      if (records.length === 0) {
+        return {
+          content: [{ type: "text", text: `${window.note}No ${level === "all" ? "" : level + " "}logs found.\nmarker: ${marker}` }],
+          details: {},
+        };
+      }
+
+      const omittedNote = omitted > 0 ? ` — ${omitted} earlier entries omitted, raise lines to see them` : "";
+      return {
+        content: [{ type: "text", text: `${window.note}${records.length} log entries (${level})${omittedNote}:\n\n${records.map(r => r.raw).join("\n")}\n\nmarker: ${marker}` }],
+        details: {},
+      };
+    },
+  });
+
+  // --- log_check_errors: Quick check for new errors since a marker ---
+  registerDeviceTool({
+    name: "sim_log_check_errors",
+    label: "Simulator: Check for Log Errors",
+    description:
+      "Quick check for new error-level log entries since a given marker. " +
+      "Returns errors if any, or confirms no errors. " +
+      "Use this between test steps to detect app errors early. " +
+      "Call sim_log_tail first to get an initial marker, then pass that marker here. " +
+      "`format: \"json\"` returns parsed errors and warnings.",
+    parameters: Type.Object({
+      since_marker: Type.String({ description: "Marker from a previous sim_log_tail, sim_log_check_errors or sim_log_events call" }),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      format: Type.Optional(LOG_FORMAT),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const logFile = driver.findLogFile(udid);
+      if (!logFile) {
+        return { content: [{ type: "text", text: "No log file found." }], details: {} };
+      }
+
+      let window: LogWindow;
+      try {
+        window = readLogWindow(logFile, params.since_marker, 500);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Failed to read log file: ${e.message}` }], isError: true };
+      }
+
+      const sinceMarker = params.since_marker;
+      const fresh = window.records.filter(r => isError(r) || isWarning(r));
+      const errors = fresh.filter(isError);
+      const warnings = fresh.filter(isWarning);
+      const newMarker = window.marker;
+      const since = isLogCursor(sinceMarker) ? "the last check" : sinceMarker;
+
+      const recorded = await recordIfActive("log entries", async ctx => {
+        const added = await recordLogEntries(cxdb, ctx, fresh.map(toLogEntryRow), signal);
+        return `${added} new log entr${added === 1 ? "y" : "ies"} recorded`;
+      });
+
+      if (params.format === "json") {
+        return {
+          content: [{
+            type: "text",
+            text: window.note + JSON.stringify({ since: sinceMarker, errors: errors.map(recordToJson), warnings: warnings.map(recordToJson), marker: newMarker }, null, 2) + recorded,
+          }],
+          details: {},
+          ...(errors.length > 0 ? { isError: true } : {}),
+        };
+      }
+
+      const errorText = errors.map(r => r.raw).join("\n");
+      const warningText = warnings.map(r => r.raw).join("\n");
+
+      if (errors.length > 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${window.note}⚠️ ${errors.length} ERROR(s) detected since ${since}:\n\n${errorText}${warnings.length > 0 ? `\n\n${warnings.length} warning(s):\n${warningText}` : ""}\n\nmarker: ${newMarker}${recorded}`,
+          }],
+          isError: true,
+        };
+      }
+
+      if (warnings.length > 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `${window.note}No errors. ${warnings.length} warning(s) since ${since}:\n\n${warningText}\n\nmarker: ${newMarker}${recorded}`,
+          }],
+          details: {},
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `${window.note}✅ No errors or warnings since ${since}\nmarker: ${newMarker}` }],
+        details: {},
+      };
+    },
+  });
+
+  // --- log_events: Get [EVENT] lines from app logs ---
+  registerDeviceTool({
+    name: "sim_log_events",
+    label: "Simulator: Get App Events",
+    description:
+      "Read [EVENT] log lines from the Convos app. These are structured QA events emitted " +
+      "at key app milestones (message.sent, conversation.joined, reaction.received, etc.). " +
+      "Use to verify app behavior during QA tests. Each event has a category.action format " +
+      "with key=value parameters. Use event_filter to match specific events. " +
+      "`format: \"json\"` returns each event's name and parsed params.",
+    parameters: Type.Object({
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      since_marker: Type.Optional(Type.String({ description: "Only return events after this marker (from a previous log tool call)" })),
+      event_filter: Type.Optional(Type.String({ description: "Filter events by name substring (e.g., 'message.sent', 'conversation', 'reaction')" })),
+      lines: Type.Optional(Type.Number({ description: "Lines to scan from the end of the log when no since_marker is given (default: 500)" })),
+      format: Type.Optional(LOG_FORMAT),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const logFile = driver.findLogFile(udid);
+      if (!logFile) {
+        return { content: [{ type: "text", text: "No log file found." }], details: {} };
+      }
+
+      let window: LogWindow;
+      try {
+        window = readLogWindow(logFile, params.since_marker, params.lines ?? 500);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Failed to read log file: ${e.message}` }], isError: true };
+      }
+
+      let events = window.records.filter(r => r.event !== undefined);
+
+      if (params.event_filter) {
+        const filter = params.event_filter.toLowerCase();
+        events = events.filter(r => r.raw.toLowerCase().includes(filter));
+      }
+
+      const marker = window.marker;
+
+      const recorded = await recordIfActive("events", async ctx => {
+        const added = await recordAppEvents(cxdb, ctx, events.map(toAppEventRow), signal);
+        return `${added} new event(s) recorded`;
+      });
+
+      if (params.format === "json") {
+        return { content: [{ type: "text", text: window.note + JSON.stringify({ events: events.map(recordToJson), marker }, null, 2) + recorded }], details: {} };
+      }
+
+      if (events.length === 0) {
+        return {
+          content: [{ type: "text", text: `${window.note}No events found${params.event_filter ? ` matching "${params.event_filter}"` : ""}${params.since_marker ? " since the marker" : ""}.\nmarker: ${marker}` }],
+          details: {},
+        };
+      }
+
+      return {
+        content: [{ type: "text", text: `${window.note}${events.length} event(s):\n\n${events.map(r => r.raw).join("\n")}\n\nmarker: ${marker}${recorded}` }],
+        details: {},
+      };
+    },
+  });
+
+  // --- expect_event: Wait for [EVENT]s with parameter assertions ---
+  registerDeviceTool({
+    name: "sim_expect_event",
+    label: "Simulator: Expect App Event",
+    description:
+      "Wait until an [EVENT] with matching parameters is logged, instead of polling sim_log_events. " +
+      "`event` is an event name, or a pattern with * (\"message.*\"). `where` lists parameter matchers: " +
+      "key=value, key!=value, key>n, key>=n, key<n, key<=n, key~regex, or a bare key that must be present. " +
+      "`sequence` waits for several events in order (e.g. message.sent then message.delivered); each step only " +
+      "looks at events after the previous match. Take a marker (sim_log_tail) before the action that triggers the " +
+      "event and pass it as since_marker; without one, only events logged after this call starts count. " +
+      "Returns the matched events' params and a marker just after the last match. On timeout, lists near misses " +
+      "(same event name, failed matchers) and the other events seen.",
+    parameters: Type.Object({
+      event: Type.Optional(Type.String({ description: "Event name or * pattern, e.g. 'message.received'. Use this or sequence." })),
+      where: Type.Optional(Type.Array(Type.String(), { description: "Parameter matchers for `event`, e.g. ['conversation_id=7f3a9c', 'count>=2']" })),
+      sequence: Type.Optional(Type.Array(Type.Object({
+        event: Type.String({ description: "Event name or * pattern" }),
+        where: Type.Optional(Type.Array(Type.String(), { description: "Parameter matchers" })),
+      }), { description: "Events that must arrive in this order" })),
+      since_marker: Type.Optional(Type.String({ description: "Only consider events after this marker (from a previous log tool call)" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds to wait (default: 15)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      format: Type.Optional(LOG_FORMAT),
+    }),
+    async execute(_toolCallId, params, signal) {
+      let expectations: EventExpectation[];
+      try {
+        if (params.event && params.sequence) throw new Error("Pass either event or sequence, not both.");
+        if (params.sequence) {
+          if (params.sequence.length === 0) throw new Error("sequence must not be empty.");
+          expectations = params.sequence.map(s => parseExpectation(s.event, s.where));
+        } else if (params.event) {
+          expectations = [parseExpectation(params.event, params.where)];
+        } else {
+          throw new Error("Pass an event name or a sequence of events.");
+        }
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+
+      const udid = await resolveUdid(driver, params.udid, signal);
+      const timeoutSec = params.timeout ?? 15;
+      let outcome: ExpectOutcome;
+      try {
+        outcome = await waitForEvents(
+          () => driver.findLogFile(udid),
+          expectations,
+          { cursor: params.since_marker, timeoutMs: timeoutSec * 1000, intervalMs: 500 },
+          signal
+        );
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Failed to read log file: ${e.message}` }], isError: true };
+      }
+
+      const recorded = await recordIfActive("events", async ctx => {
+        const rows: AppEventRow[] = outcome.matched.map(m => ({ timestamp: m.timestamp, name: m.name, data: m.params }));
+        const added = await recordAppEvents(cxdb, ctx, rows, signal);
+        return `${added} new event(s) recorded`;
+      });
+      const notes = outcome.notes.map(n => `(${n})\n`).join("");
+      const pendingLabel = outcome.ok ? undefined : describeExpectation(expectations[outcome.pending]);
+
+      if (params.format === "json") {
+        return {
+          content: [{
+            type: "text",
+            text: notes + JSON.stringify({
+              ok: outcome.ok,
+              matched: outcome.matched.map(m => ({ event: m.name, timestamp: m.timestamp, params: m.params })),
+              ...(outcome.ok ? {} : { waiting_for: pendingLabel, near_misses: outcome.nearMisses, other_events: outcome.otherEvents }),
+              elapsed_ms: outcome.elapsedMs,
+              marker: outcome.marker,
+            }, null, 2) + recorded,
+          }],
+          details: {},
+          ...(outcome.ok ? {} : { isError: true }),
+        };
+      }
+
+      const matchedText = outcome.matched
+        .map((m, i) => `${expectations.length > 1 ? `${i + 1}. ` : ""}${m.name} at ${m.timestamp}\n   ${formatParams(m.params)}`)
+        .join("\n");
+      const elapsed = (outcome.elapsedMs / 1000).toFixed(1);
+
+      if (outcome.ok) {
+        return {
+          content: [{ type: "text", text: `${notes}✓ Matched after ${elapsed}s:\n${matchedText}\n\nmarker: ${outcome.marker}${recorded}` }],
+          details: {},
+        };
+      }
+
+      const step = expectations.length > 1 ? ` (step ${outcome.pending + 1} of ${expectations.length})` : "";
+      const parts = [`${notes}Timed out after ${timeoutSec}s waiting for "${pendingLabel}"${step}.`];
+      if (outcome.matched.length > 0) parts.push(`Matched so far:\n${matchedText}`);
+      if (outcome.nearMisses.length > 0) {
+        parts.push(`Near misses:\n${outcome.nearMisses.map(n => `  [${n.timestamp}] ${n.name} ${formatParams(n.params)}\n    failed: ${n.failed.join(", ")}`).join("\n")}`);
+      }
+      const others = Object.entries(outcome.otherEvents);
+      parts.push(others.length > 0
+        ? `Other events seen: ${others.map(([name, n]) => (n > 1 ? `${name} ×${n}` : name)).join(", ")}`
+        : `No other events seen${outcome.matched.length + outcome.nearMisses.length > 0 ? "" : " — check that the app is running and logging"}.`);
+      return {
+        content: [{ type: "text", text: `${parts.join("\n\n")}\n\nmarker: ${outcome.marker}${recorded}` }],
+        isError: true,
+      };
+    },
+  });
+
+  // --- find_elements: Search for elements matching a pattern ---
+  registerDeviceTool({
+    name: "sim_find_elements",
+    label: "Simulator: Find Elements",
+    description:
+      "Search the accessibility tree for elements matching a pattern or selector. " +
+      "Returns all matches with their identifiers, labels, types, frames, and enabled state. " +
+      "Useful for checking what's on screen, finding dynamic element IDs, or verifying content.",
+    parameters: Type.Object({
+      pattern: Type.Optional(Type.String({ description: "Search pattern (substring match on id or label). Omit to list all elements with identifiers." })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+
+      let matches: AXElement[];
+      let query: string | Selector | undefined = params.pattern;
+      try {
+        if (params.selector) {
+          if (params.pattern) throw new Error("Pass pattern or selector, not both.");
+          query = parseSelector(params.selector);
+        }
+        matches = await findMatchingElements(driver, udid, query, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+
+      if (matches.length === 0) {
+        const what = typeof query === "string" ? query : query?.text;
+        return { content: [{ type: "text", text: `No elements found${what ? ` matching "${what}"` : ""}` }], details: {} };
+      }
+
+      const summary = matches.map(el => ({
+        id: el.AXUniqueId || null,
+        label: el.AXLabel || null,
+        value: el.AXValue || null,
+        type: el.type,
+        enabled: el.enabled,
+        center: elementCenter(el),
+        actions: el.custom_actions?.length ? el.custom_actions : undefined,
+      }));
+
+      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }], details: {} };
+    },
+  });
+
+  // --- Hybrid tools: XCUITest when QAAutomationServer answers, idb otherwise ---
+
+  // The QAAutomationServer for a simulator: its registered agent_url, else the configured default
+  function agentUrlFor(udid: string): string {
+    return Object.values(readDeviceRegistry()).find(d => d.udid === udid)?.agentUrl ?? agent.config.url;
+  }
+
+  function backendNote(session: BackendSession): string {
+    return session.fallbackReason ? `backend: idb (${session.fallbackReason})` : `backend: ${session.name}`;
+  }
+
+  function backendDetails(session: BackendSession) {
+    return { backend: session.name, ...(session.fallbackReason ? { fallback_reason: session.fallbackReason } : {}) };
+  }
+
+  // Same text as sim_tap_id and sim_type_in_field, plus which backend answered
+  function outcomeResult(session: BackendSession, selector: Selector, outcome: ActionOutcome, done: string) {
+    const note = backendNote(session);
+    const details = backendDetails(session);
+    if (outcome.ok) {
+      const text = outcome.element ? `${done}: ${formatElementInfo(outcome.element)}` : done;
+      return { content: [{ type: "text" as const, text: `${text}\n${note}` }], details };
+    }
+    let text: string;
+    switch (outcome.reason) {
+      case "ambiguous": text = formatAmbiguous(selector, outcome.matches); break;
+      case "disabled": text = `Element found but disabled: ${formatElementInfo(outcome.element)}`; break;
+      case "not_found":
+        text = outcome.elements ? `${outcome.message}\n\nAvailable elements:\n${formatAvailable(outcome.elements)}` : outcome.message;
+        break;
+      case "failed": text = `Failed: ${outcome.message}`; break;
+    }
+    return { content: [{ type: "text" as const, text: `${text}\n${note}` }], details, isError: true };
+  }
+
+  async function connectBackend(udid: string, prefer: "auto" | BackendName | undefined, signal?: AbortSignal) {
+    return backend.connect(udid, agentUrlFor(udid), prefer ?? "auto", signal);
+  }
+
+  const BACKEND_PARAM = Type.Union([Type.Literal("auto"), Type.Literal("xcuitest"), Type.Literal("idb")], {
+    description: "'auto' (default) uses QAAutomationServer when it answers ping and idb otherwise; 'xcuitest' or 'idb' forces one",
+  });
+
+  registerDeviceTool({
+    name: "sim_tap",
+    label: "Simulator: Tap (any backend)",
+    description:
+      "Find an element by identifier, label or selector and tap it, using QAAutomationServer (XCUITest) when it is running " +
+      "and idb when it isn't, so it works whichever is up. Waits up to `timeout` seconds for the element. " +
+      "The result names the backend that served it and why XCUITest was skipped, if it was.",
+    parameters: Type.Object({
+      identifier: Type.Optional(Type.String({ description: "Accessibility identifier, label text, or substring to search for" })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      timeout: Type.Optional(Type.Number({ description: "Seconds to wait for the element (default: 5)" })),
+      backend: Type.Optional(BACKEND_PARAM),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let selector: Selector;
+      try {
+        selector = selectorFromParams(params);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      let session: BackendSession;
+      try {
+        session = await connectBackend(udid, params.backend, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      try {
+        const outcome = await session.tap(selector, { timeout: params.timeout ?? 5 }, signal);
+        return outcomeResult(session, selector, outcome, "Tapped");
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}\n${backendNote(session)}` }], details: backendDetails(session), isError: true };
+      }
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_fill",
+    label: "Simulator: Fill Field (any backend)",
+    description:
+      "Find a text field by identifier, label or selector, focus it, optionally clear it, and type text, using " +
+      "QAAutomationServer (XCUITest) when it is running and idb when it isn't. The result names the backend that served it.",
+    parameters: Type.Object({
+      identifier: Type.Optional(Type.String({ description: "Accessibility identifier or label of the text field" })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      text: Type.String({ description: "Text to type into the field" }),
+      clear_first: Type.Optional(Type.Boolean({ description: "Clear existing text before typing (default: false)" })),
+      backend: Type.Optional(BACKEND_PARAM),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      diff: Type.Optional(DIFF_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let selector: Selector;
+      try {
+        selector = selectorFromParams(params);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      let session: BackendSession;
+      try {
+        session = await connectBackend(udid, params.backend, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      try {
+        const outcome = await session.fill(selector, params.text, params.clear_first ?? false, signal);
+        return outcomeResult(session, selector, outcome, `Typed "${params.text}"`);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}\n${backendNote(session)}` }], details: backendDetails(session), isError: true };
+      }
+    },
+  });
+
+  registerDeviceTool({
+    name: "sim_elements",
+    label: "Simulator: Elements (any backend)",
+    description:
+      "List the elements on screen, or those matching a pattern or selector, from QAAutomationServer (XCUITest) when it is " +
+      "running and from idb (tree plus toolbar probe) when it isn't. Elements come back in one shape whichever backend served " +
+      "them (id, label, value, type, frame, enabled, center), and the result names the backend.",
+    parameters: Type.Object({
+      pattern: Type.Optional(Type.String({ description: "Substring of id, label or value. Omit to list every element with an id or label." })),
+      selector: Type.Optional(SELECTOR_PARAM),
+      backend: Type.Optional(BACKEND_PARAM),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let session: BackendSession;
+      let matches: AXElement[];
+      try {
+        if (params.selector && params.pattern) throw new Error("Pass pattern or selector, not both.");
+        const query = params.selector ? parseSelector(params.selector) : params.pattern;
+        session = await connectBackend(udid, params.backend, signal);
+        matches = await session.elements(query, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      const summary = matches.map(el => ({
+        id: el.AXUniqueId,
+        label: el.AXLabel,
+        value: el.AXValue,
+        type: el.type,
+        frame: el.frame,
+        enabled: el.enabled,
+        center: elementCenter(el),
+      }));
+      return {
+        content: [{ type: "text", text: `${JSON.stringify(summary, null, 2)}\n${backendNote(session)}` }],
+        details: { ...backendDetails(session), elements: matches },
+      };
+    },
+  });
+
+  // --- a11y_audit: Accessibility findings for the current screen ---
+  registerDeviceTool({
+    name: "sim_a11y_audit",
+    label: "Simulator: Accessibility Audit",
+    description:
+      "Audit the current screen's accessibility tree (plus the toolbar probe) for problems that make elements hard to find " +
+      "in tests and for VoiceOver: interactive elements without an identifier, SF Symbol names used as identifiers, duplicate " +
+      "identifiers, buttons without a usable label, hit targets under 44pt, and elements only reachable by describe-point probing. " +
+      "Each finding comes with a recommendation. record: true writes them to CXDB accessibility_findings for the active QA test.",
+    parameters: Type.Object({
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      include_toolbar: Type.Optional(Type.Boolean({ description: "Probe the bottom toolbar for elements describe-all misses (default: true)" })),
+      min_target: Type.Optional(Type.Number({ description: `Smallest acceptable hit target side in points (default: ${MIN_TARGET_PT})` })),
+      record: Type.Optional(Type.Boolean({ description: "Record the findings in CXDB for the active QA test (default: false)" })),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const udid = await resolveUdid(driver, params.udid, signal);
+      let tree: AXElement[];
+      try {
+        tree = await getAccessibilityTree(driver, udid, signal);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      let probed: AXElement[] = [];
+      if (params.include_toolbar !== false) {
+        try {
+          probed = await probeToolbarElements(driver, udid, signal, tree);
+        } catch { /* best-effort */ }
+      }
+      const findings = auditElements(tree, probed, params.min_target ?? MIN_TARGET_PT);
+
+      let recorded = "";
+      if (params.record) {
+        recorded = await recordIfActive("accessibility findings", async ctx => {
+          const added = await recordAccessibilityFindings(cxdb, ctx, findings.map(f => ({
+            element_purpose: f.element,
+            what_was_tried: `sim_a11y_audit: ${f.problem}`,
+            what_worked: f.workaround ?? null,
+            recommendation: f.recommendation,
+          })), signal);
+          return `${added} new accessibility finding(s) recorded (${findings.length - added} already recorded)`;
+        }) || "\nCXDB: not recorded (no active QA test; start one with sim_qa_begin_test)";
+      }
+      const summary = findings.length === 0
+        ? `No accessibility findings on this screen (${tree.length} elements checked).`
+        : `${findings.length} accessibility finding(s) on this screen:${formatFindings(findings)}`;
+      return { content: [{ type: "text", text: summary + recorded }], details: { findings } };
+    },
+  });
+
+  // --- measure: Latency from an action to an observable outcome ---
+  registerDeviceTool({
+    name: "sim_measure",
+    label: "Simulator: Measure Latency",
+    description:
+      "Time how long an action takes to show its effect: start a timer, perform one action (tap, open_url or launch_app), " +
+      "and stop when the end condition holds: an element appears (until_element), an [EVENT] is logged (until_event, " +
+      "with optional where matchers as in sim_expect_event), or the screen changes and then stops changing for " +
+      "until_stable ms. A tap's element is found before the timer starts. Repeats `repetitions` times (default 3) and " +
+      "reports each sample, median and p95, compared with target_ms when given. Between repetitions, reset_tap or " +
+      "reset_open_url returns to the starting screen. Tree-based end conditions are only as precise as one describe-all " +
+      "read; the result states that resolution. Samples are recorded to CXDB perf_measurements when a QA test is active.",
+    parameters: Type.Object({
+      metric: Type.String({ description: "Metric name for the report and CXDB, e.g. 'conversation_open'" }),
+      tap: Type.Optional(Type.String({ description: "Action: tap the element matching this selector or identifier" })),
+      open_url: Type.Optional(Type.String({ description: "Action: open this URL (deep link)" })),
+      launch_app: Type.Optional(Type.String({ description: "Action: launch the app with this bundle identifier" })),
+      terminate_first: Type.Optional(Type.Boolean({ description: "launch_app only: terminate the app before each launch, outside the timer, for a cold launch (default: true)" })),
+      until_element: Type.Optional(Type.String({ description: "End when an element matching this selector or identifier is on screen" })),
+      until_event: Type.Optional(Type.String({ description: "End when this [EVENT] (name or * pattern) is logged" })),
+      where: Type.Optional(Type.Array(Type.String(), { description: "Parameter matchers for until_event, e.g. ['origin=existing']" })),
+      until_stable: Type.Optional(Type.Number({ description: "End when the screen has changed and then stayed unchanged for this many ms, e.g. 1000" })),
+      repetitions: Type.Optional(Type.Number({ description: "Samples to take (default: 3, at most 20)" })),
+      reset_tap: Type.Optional(Type.String({ description: "Between repetitions, tap this element to return to the starting screen (e.g. a back button)" })),
+      reset_open_url: Type.Optional(Type.String({ description: "Between repetitions, open this URL to return to the starting screen" })),
+      target_ms: Type.Optional(Type.Number({ description: "Target in ms; the median is compared with it (✅ within, ⚠️ up to 2x, ❌ beyond)" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds each sample may take before it counts as failed (default: 15)" })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      let action: MeasureAction;
+      let until: EndCondition;
+      let reset: Selector | string | undefined;
+      try {
+        const actions = [params.tap, params.open_url, params.launch_app].filter(a => a !== undefined);
+        if (actions.length !== 1) throw new Error("Pass exactly one action: tap, open_url or launch_app.");
+        action = params.tap !== undefined
+          ? { kind: "tap", selector: parseSelector(params.tap) }
+          : params.open_url !== undefined
+            ? { kind: "open_url", url: params.open_url }
+            : { kind: "launch_app", bundleId: params.launch_app!, terminateFirst: params.terminate_first ?? true };
+
+        const ends = [params.until_element, params.until_event, params.until_stable].filter(u => u !== undefined);
+        if (ends.length !== 1) throw new Error("Pass exactly one end condition: until_element, until_event or until_stable.");
+        if (params.where && params.until_event === undefined) throw new Error("where only applies to until_event.");
+        until = params.until_element !== undefined
+          ? { kind: "element", selector: parseSelector(params.until_element) }
+          : params.until_event !== undefined
+            ? { kind: "event", expectation: parseExpectation(params.until_event, params.where) }
+            : { kind: "stable", quietMs: params.until_stable! };
+        if (until.kind === "stable" && !(until.quietMs > 0)) throw new Error("until_stable must be a positive number of ms.");
+
+        if (params.reset_tap !== undefined && params.reset_open_url !== undefined) throw new Error("Pass reset_tap or reset_open_url, not both.");
+        reset = params.reset_tap !== undefined ? parseSelector(params.reset_tap) : params.reset_open_url;
+      } catch (e: any) {
+        return { content: [{ type: "text", text: e.message }], isError: true };
+      }
+      const repetitions = Math.min(MAX_MEASURE_REPETITIONS, Math.max(1, Math.floor(params.repetitions ?? 3)));
+      const timeoutSec = params.timeout ?? 15;
+      const udid = await resolveUdid(driver, params.udid, signal);
+
+      const samples: Sample[] = [];
+      const notes: string[] = [];
+      for (let i = 0; i < repetitions && !signal?.aborted; i++) {
+        if (i > 0 && reset !== undefined) {
+          const note = await resetForNextSample(udid, reset, action, signal);
+          if (note) notes.push(`before sample ${i + 1}: ${note}`);
+        }
+        samples.push(await measureOnce(driver, udid, action, until, {
+          timeoutMs: timeoutSec * 1000,
+          findLogFile: () => driver.findLogFile(udid),
+        }, signal));
       }
 
-      const el = findElement(elements, params.identifier);
-      if (!el) {
-        return {
-          content: [{ type: "text", text: `Text field not found: "${params.identifier}"` }],
-          isError: true,
-        };
+      const ok = samples.flatMap(s => (s.ok ? [s] : []));
+      const lines = [`${params.metric}: ${ok.length}/${samples.length} sample(s)`];
+      samples.forEach((s, i) => lines.push(`  ${i + 1}. ${s.ok ? `${Math.round(s.ms)}ms` : `failed: ${s.message}`}`));
+      lines.push(...notes.map(n => `  (${n})`));
+
+      let stats: SampleStats | undefined;
+      let grade: ReturnType<typeof verdict> | undefined;
+      if (ok.length > 0) {
+        stats = summarize(ok.map(s => s.ms));
+        const ms = (v: number) => `${Math.round(v)}ms`;
+        lines.push(`median ${ms(stats.median)} · p95 ${ms(stats.p95)} · min ${ms(stats.min)} · max ${ms(stats.max)} · mean ${ms(stats.mean)}`);
+        if (params.target_ms !== undefined) {
+          grade = verdict(stats.median, params.target_ms);
+          const icon = { pass: "✅", warn: "⚠️", fail: "❌" };
+          const ratio = (stats.median / params.target_ms).toFixed(1);
+          lines.push(`target ${ms(params.target_ms)}: ${icon[grade]} median is ${ratio}x the target (p95 ${icon[verdict(stats.p95, params.target_ms)]})`);
+        }
+        const resolution = Math.round(ok.reduce((sum, s) => sum + s.resolutionMs, 0) / ok.length);
+        if (until.kind !== "event") {
+          lines.push(`resolution: ~${resolution}ms (one accessibility tree read); samples may run late by up to that much`);
+        } else if (ok.some(s => s.resolutionMs > 0)) {
+          lines.push(`resolution: ~${resolution}ms (log poll); samples may run late by up to that much`);
+        } else {
+          lines.push("resolution: timed by the event's log timestamp");
+        }
       }
 
-      // Tap to focus the field
-      const center = elementCenter(el);
-      const tapResult = await pi.exec(idbPath, ["ui", "tap", "--udid", udid, String(center.x), String(center.y)], {
-        signal,
-        timeout: 10000,
+      const recorded = ok.length === 0 ? "" : await recordIfActive("perf measurements", async ctx => {
+        await recordPerfMeasurements(cxdb, ctx, ok.map(s => ({
+          metric_name: params.metric,
+          value_ms: Math.round(s.ms),
+          target_ms: params.target_ms ?? null,
+        })), signal);
+        return `${ok.length} sample(s) recorded to perf_measurements`;
       });
-      if (tapResult.code !== 0) {
-        return { content: [{ type: "text", text: `Failed to tap field: ${tapResult.stderr || tapResult.stdout}` }], isError: true };
-      }
-
-      // Brief pause for focus to register
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      // Clear existing text if requested
-      if (params.clear_first) {
-        // Select all (Cmd+A) then delete
-        // HID key codes: Cmd modifier isn't directly supported by idb key, 
-        // so we use a different approach: triple-tap to select all, then backspace
-        await pi.exec(idbPath, ["ui", "tap", "--udid", udid, String(center.x), String(center.y)], { signal, timeout: 5000 });
-        await new Promise(resolve => setTimeout(resolve, 100));
-        await pi.exec(idbPath, ["ui", "tap", "--udid", udid, String(center.x), String(center.y)], { signal, timeout: 5000 });
-        await new Promise(resolve => setTimeout(resolve, 100));
-        await pi.exec(idbPath, ["ui", "tap", "--udid", udid, String(center.x), String(center.y)], { signal, timeout: 5000 });
-        await new Promise(resolve => setTimeout(resolve, 200));
-        // Delete selected text
-        await pi.exec(idbPath, ["ui", "key", "--udid", udid, "42"], { signal, timeout: 5000 });
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
-
-      // Type the text
-      const typeResult = await pi.exec(idbPath, ["ui", "text", "--udid", udid, params.text], {
-        signal,
-        timeout: 10000,
-      });
-      if (typeResult.code !== 0) {
-        return { content: [{ type: "text", text: `Failed to type text: ${typeResult.stderr || typeResult.stdout}` }], isError: true };
-      }
 
       return {
-        content: [{ type: "text", text: `Typed "${params.text}" into ${formatElementInfo(el)}` }],
-        details: {},
+        content: [{ type: "text", text: lines.join("\n") + recorded }],
+        details: {
+          metric: params.metric,
+          samples_ms: samples.map(s => (s.ok ? Math.round(s.ms) : null)),
+          ...(stats ? { stats } : {}),
+          ...(params.target_ms !== undefined ? { target_ms: params.target_ms, verdict: grade } : {}),
+        },
+        ...(ok.length === 0 ? { isError: true } : {}),
       };
     },
   });
 
-  // --- wait_for_element: Wait for an element to appear ---
-  pi.registerTool({
-    name: "sim_wait_for_element",
-    label: "Simulator: Wait for Element",
+  // Back to the starting screen: the reset action, then (for a tap action) its
+  // element, so the next sample's lookup doesn't race the transition
+  async function resetForNextSample(udid: string, reset: Selector | string, action: MeasureAction, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      if (typeof reset === "string") {
+        await driver.openUrl(udid, reset, signal);
+      } else {
+        const outcome = await tapElement(driver, udid, reset, { retries: 3 }, signal);
+        if (!outcome.ok) return `reset tap failed (${outcome.reason})`;
+      }
+    } catch (e: any) {
+      return `reset failed: ${e.message}`;
+    }
+    if (action.kind !== "tap") {
+      await new Promise(resolve => setTimeout(resolve, RESET_SETTLE_MS));
+      return undefined;
+    }
+    const wait = await waitForElement(driver, udid, action.selector, { timeoutMs: 10000, intervalMs: 250 }, signal);
+    return wait.element ? undefined : `"${action.selector.text}" did not reappear after the reset`;
+  }
+
+  // --- run_structured_test: Execute a qa/tests/structured YAML test ---
+  registerDeviceTool({
+    name: "sim_run_structured_test",
+    label: "Simulator: Run Structured Test",
     description:
-      "Poll the accessibility tree until an element with the given identifier or label appears. " +
-      "Useful for waiting after navigation, network requests, or animations. " +
-      "Returns the element info when found, or an error after timeout.",
+      "Load a structured QA test (qa/tests/structured/*.yaml) and run it against the simulator. " +
+      "UI actions (tap, long_press, wait_for_element, type_in_field, find_elements, swipe, key, screenshot, " +
+      "sim_open_url, launch_app, terminate_app, sim_log_events) and verify checks (element_exists, " +
+      "element_not_exists, element_enabled, element_count_gte, event_exists, expect_event[s]) run automatically. " +
+      "$variables resolve from the test's state block, save: outputs and the variables parameter. " +
+      "Anything else (CLI actions, visual_check, unresolved variables) pauses the run and is " +
+      "returned as a manual step: do it yourself, then call again with resume: true and manual_outcome. " +
+      "Steps marked device: B run on the simulator given in devices (e.g. { B: \"bob\" }), otherwise they are manual too. " +
+      "Returns a per-criteria pass/fail table.",
     parameters: Type.Object({
-      identifier: Type.String({ description: "Accessibility identifier or label to wait for" }),
-      timeout: Type.Optional(Type.Number({ description: "Maximum wait time in seconds (default: 10)" })),
-      interval: Type.Optional(Type.Number({ description: "Poll interval in seconds (default: 1)" })),
+      test: Type.String({ description: "Test id (e.g. '12', '23b') or path to the YAML file" }),
+      resume: Type.Optional(Type.Boolean({ description: "Continue a run paused on a manual step instead of starting over" })),
+      manual_outcome: Type.Optional(Type.Union([Type.Literal("done"), Type.Literal("failed")], { description: "Outcome of the manual step the run is paused on (with resume: true)" })),
+      evidence: Type.Optional(Type.String({ description: "What you observed for the manual step, recorded against its criterion" })),
+      variables: Type.Optional(Type.Record(Type.String(), Type.Any(), { description: "Values for $variables, e.g. { conversation_id: \"...\" }. Merged over the test's state block." })),
+      steps: Type.Optional(Type.Array(Type.String(), { description: "Only run these step ids" })),
+      skip_setup: Type.Optional(Type.Boolean({ description: "Skip the setup block (default: false)" })),
+      skip_teardown: Type.Optional(Type.Boolean({ description: "Skip the teardown block (default: false)" })),
+      on_manual: Type.Optional(Type.Union([Type.Literal("pause"), Type.Literal("skip")], { description: "'pause' (default) returns manual steps to you; 'skip' records them as manual and keeps going" })),
+      stop_on_failure: Type.Optional(Type.Boolean({ description: "Stop at the first failed step and jump to teardown (default: true)" })),
       udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+      devices: Type.Optional(Type.Record(Type.String(), Type.String(), { description: "Registered aliases for the test's other devices, e.g. { B: \"bob\" }. Device A is udid/device." })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const idbPath = findIdb();
-      const timeoutMs = (params.timeout ?? 10) * 1000;
-      const intervalMs = (params.interval ?? 1) * 1000;
-      const start = Date.now();
+      let loaded;
+      try {
+        loaded = loadStructuredTest(params.test);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
+      const { test, file } = loaded;
 
-      while (Date.now() - start < timeoutMs) {
-        let elements: AXElement[];
-        try {
-          elements = await getAccessibilityTree(pi, idbPath, udid, signal);
-        } catch {
-          await new Promise(resolve => setTimeout(resolve, intervalMs));
-          continue;
-        }
+      if (test.blocked === true) {
+        return { content: [{ type: "text", text: blockedReport(test) }], details: { test_id: test.id, status: "blocked" } };
+      }
 
-        let el = findElement(elements, params.identifier);
-        // Fallback: probe bottom toolbar for hidden elements
-        if (!el) {
-          try {
-            const toolbarElements = await probeToolbarElements(pi, idbPath, udid, signal, elements);
-            el = findElement(toolbarElements, params.identifier);
-          } catch { /* best-effort */ }
+      const opts: RunOptions = {
+        skipSetup: params.skip_setup,
+        skipTeardown: params.skip_teardown,
+        steps: params.steps,
+        variables: params.variables,
+        onManual: params.on_manual ?? "pause",
+        stopOnFailure: params.stop_on_failure ?? true,
+      };
+
+      let session = structuredRuns.get(file);
+      if (params.resume) {
+        if (!session?.paused) {
+          return { content: [{ type: "text", text: `No paused run of ${test.id} to resume. Call without resume to start one.` }], isError: true };
         }
-        if (el) {
-          const elapsed = ((Date.now() - start) / 1000).toFixed(1);
-          return {
-            content: [{ type: "text", text: `Found after ${elapsed}s: ${formatElementInfo(el)}` }],
-            details: {},
-          };
+        Object.assign(session.variables, params.variables ?? {});
+        if (params.manual_outcome) {
+          resolveManual(session, params.manual_outcome, params.evidence, opts);
         }
-
-        await new Promise(resolve => setTimeout(resolve, intervalMs));
+      } else {
+        const udid = await resolveUdid(driver, params.udid, signal);
+        const devices: Record<string, { udid: string; logFile: string | null }> = { A: { udid, logFile: driver.findLogFile(udid) } };
+        try {
+          for (const [key, alias] of Object.entries(params.devices ?? {})) {
+            const other = lookupAlias(alias).udid;
+            devices[key.toUpperCase()] = { udid: other, logFile: driver.findLogFile(other) };
+          }
+        } catch (e: any) {
+          return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+        }
+        session = startSession(file, test, devices, opts);
+        structuredRuns.set(file, session);
       }
 
-      // Final attempt — return available elements for debugging
       try {
-        const elements = await getAccessibilityTree(pi, idbPath, udid, signal);
-        const available = elements
-          .filter(e => e.AXUniqueId || e.AXLabel)
-          .map(e => `  ${e.AXUniqueId || "(no id)"}: "${e.AXLabel || ""}" [${e.type}]`)
-          .join("\n");
-        return {
-          content: [{ type: "text", text: `Timed out after ${params.timeout ?? 10}s waiting for "${params.identifier}"\n\nAvailable elements:\n${available}` }],
-          isError: true,
-        };
-      } catch {
+        await advance({ driver, signal, crashes: crashWatch }, session, opts);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}\n\n${formatReport(session)}` }], isError: true };
+      }
+      if (!session.paused) structuredRuns.delete(file);
+
+      const details = sessionDetails(session);
+      return {
+        content: [{ type: "text", text: formatReport(session) }],
+        details,
+        ...(details.status === "failed" ? { isError: true } : {}),
+      };
+    },
+  });
+
+  // --- record_start / record_stop: Draft a structured test from a session ---
+  pi.registerTool({
+    name: "sim_record_start",
+    label: "Simulator: Start Recording",
+    description:
+      "Start recording sim_* calls so sim_record_stop can turn them into a draft structured test " +
+      "(qa/tests/structured/*.yaml). Taps, typing, waits, element checks and events seen via " +
+      "sim_expect_event / sim_log_events are captured; coordinate taps are recorded by the element under the point.",
+    parameters: Type.Object({
+      name: Type.Optional(Type.String({ description: "Name for the drafted test" })),
+    }),
+    async execute(_toolCallId, params) {
+      if (recording) {
         return {
-          content: [{ type: "text", text: `Timed out after ${params.timeout ?? 10}s waiting for "${params.identifier}"` }],
+          content: [{ type: "text", text: `Already recording since ${recording.startedAt.toISOString()} (${recording.calls.length} calls). Call sim_record_stop first.` }],
           isError: true,
         };
       }
+      recording = { name: params.name, startedAt: new Date(), calls: [] };
+      pendingTaps.clear();
+      return { content: [{ type: "text", text: "Recording. Drive the app with the sim_* tools, then call sim_record_stop." }], details: {} };
     },
   });
 
-  // --- log_tail: Read recent app logs, filtered by level ---
   pi.registerTool({
-    name: "sim_log_tail",
-    label: "Simulator: Tail App Logs",
+    name: "sim_record_stop",
+    label: "Simulator: Stop Recording",
     description:
-      "Read recent lines from the Convos app log file on the simulator. " +
-      "By default filters for warning and error level logs only. " +
-      "Reads from the end of the log file. Use `since_marker` to only get logs newer than a previously returned marker.",
+      "Stop recording and return a draft structured test in the qa/tests/structured YAML schema " +
+      "(setup, steps with actions / verify / expect_events, criteria). Step names and criteria are TODOs to fill in; " +
+      "WARNING comments mark steps that could only be recorded by coordinates. With save: true the draft is written " +
+      "to the next free qa/tests/structured/NN-<name>.yaml.",
     parameters: Type.Object({
-      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
-      lines: Type.Optional(Type.Number({ description: "Maximum number of lines to return (default: 100)" })),
-      level: Type.Optional(Type.String({ description: "Filter level: 'all', 'warning+error' (default), 'error', 'events' (only [EVENT] lines)" })),
-      since_marker: Type.Optional(Type.String({ description: "Only return logs after this timestamp marker (ISO8601 from a previous call)" })),
+      name: Type.Optional(Type.String({ description: "Test name (default: the name given to sim_record_start)" })),
+      save: Type.Optional(Type.Boolean({ description: "Write the draft to qa/tests/structured (default: false, only return it)" })),
     }),
-    async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const logFile = findAppLogFile(udid);
-      if (!logFile) {
-        return { content: [{ type: "text", text: "No log file found for this simulator. The app may not have been launched yet." }], details: {} };
+    async execute(_toolCallId, params) {
+      if (!recording) {
+        return { content: [{ type: "text", text: "Not recording. Call sim_record_start first." }], isError: true };
       }
-
-      const maxLines = params.lines ?? 100;
-      const level = params.level ?? "warning+error";
-
-      // Read the tail of the log file
-      const result = await pi.exec("tail", ["-n", String(maxLines * 5), logFile], { signal, timeout: 5000 });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Failed to read log file: ${result.stderr}` }], isError: true };
+      const session = recording;
+      recording = undefined;
+      pendingTaps.clear();
+
+      const id = nextTestId();
+      const name = params.name ?? session.name ?? "Recorded session";
+      const draft = draftTest(session, id, name);
+      const lines = [`Recorded ${session.calls.length} call(s) into ${draft.steps} step(s).`];
+      if (draft.skipped > 0) lines.push(`Left out ${draft.skipped} failed call(s).`);
+      if (draft.warnings.length > 0) lines.push(`Warnings:\n${draft.warnings.map(w => `  - ${w}`).join("\n")}`);
+
+      let file: string | undefined;
+      if (params.save) {
+        file = path.join(STRUCTURED_TESTS_DIR, draftFileName(id, name));
+        try {
+          fs.writeFileSync(file, draft.yaml);
+        } catch (e: any) {
+          return { content: [{ type: "text", text: `Failed to write ${file}: ${e.message}\n\n${draft.yaml}` }], isError: true };
+        }
+        lines.push(`Saved to ${file}.`);
       }
+      return { content: [{ type: "text", text: `${lines.join("\n")}\n\n${draft.yaml}` }], details: { file, warnings: draft.warnings } };
+    },
+  });
 
-      let lines = result.stdout.split("\n").filter(l => l.trim().length > 0);
-
-      // Filter by level
-      if (level === "warning+error") {
-        lines = lines.filter(l => l.includes("[warning]") || l.includes("[error]"));
-      } else if (level === "error") {
-        lines = lines.filter(l => l.includes("[error]"));
-      } else if (level === "events") {
-        lines = lines.filter(l => l.includes("[EVENT]"));
+  // --- qa_begin_test: Open a CXDB test_results row and make it the active context ---
+  pi.registerTool({
+    name: "sim_qa_begin_test",
+    label: "QA: Begin Test",
+    description:
+      "Start recording a QA test in CXDB (qa/cxdb/qa.sqlite). Opens a test_results row in the given run — or the " +
+      "active run, or a new one — and makes it the active context. While a test is active, sim_screenshot saves " +
+      "screenshots rows, sim_log_events saves app_events rows and sim_log_check_errors saves log_entries rows automatically. " +
+      "Close it with sim_qa_end_test.",
+    parameters: Type.Object({
+      test_id: Type.String({ description: "Test id, e.g. '12' (matches qa/tests/structured/<id>-*.yaml)" }),
+      test_name: Type.Optional(Type.String({ description: "Test name. Defaults to the structured YAML's name." })),
+      run_id: Type.Optional(Type.String({ description: "CXDB run id. Defaults to the active context's run, then the latest running run, then a new run." })),
+      udid: Type.Optional(Type.String({ description: "Simulator UDID, recorded on a newly created run. Auto-detected if omitted." })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const current = readQaContext();
+      if (current?.test_result_id) {
+        return {
+          content: [{ type: "text", text: `Test ${current.test_id} is still active (result ${current.test_result_id}). Call sim_qa_end_test first.` }],
+          isError: true,
+        };
       }
 
-      // Filter by since_marker (timestamp comparison)
-      if (params.since_marker) {
-        const markerTime = params.since_marker;
-        lines = lines.filter(l => {
-          const match = l.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-          if (!match) return false;
-          return match[1] > markerTime;
-        });
+      let testName = params.test_name;
+      if (!testName) {
+        try {
+          testName = loadStructuredTest(params.test_id).test.name;
+        } catch {
+          testName = params.test_id;
+        }
       }
 
-      // Trim to maxLines
-      lines = lines.slice(-maxLines);
+      try {
+        let runId = params.run_id ?? current?.run_id;
+        let createdRun = false;
+        if (runId) {
+          const rows = await cxdb.query(`SELECT id FROM test_runs WHERE id=${sqlValue(runId)};`, signal);
+          if (rows.length === 0) {
+            return { content: [{ type: "text", text: `No CXDB run with id ${runId}` }], isError: true };
+          }
+        } else {
+          const rows = await cxdb.query<{ id: string }>(
+            "SELECT id FROM test_runs WHERE status IN ('running','partial') ORDER BY started_at DESC LIMIT 1;",
+            signal
+          );
+          runId = rows[0]?.id;
+        }
+        if (!runId) {
+          runId = newId();
+          createdRun = true;
+          let udid: string | null = null;
+          let deviceType: string | null = null;
+          try {
+            udid = (await resolveDevice(driver, params, signal)).udid;
+            deviceType = (await driver.listDevices(signal)).find(d => d.udid === udid)?.deviceType ?? null;
+          } catch {}
+          const git = await pi.exec("git", ["rev-parse", "--short", "HEAD"], { signal, timeout: 5000 });
+          const commit = git.code === 0 ? git.stdout.trim() : null;
+          await cxdb.exec(
+            `INSERT INTO test_runs (id, simulator_udid, build_commit, device_type) VALUES (${sqlValue(runId)}, ${sqlValue(udid)}, ${sqlValue(commit)}, ${sqlValue(deviceType)});`,
+            signal
+          );
+        }
+
+        const resultId = newId();
+        const startedAt = new Date().toISOString().replace(/\.\d{3}/, "");
+        await cxdb.exec(
+          `INSERT INTO test_results (id, run_id, test_id, test_name, status, started_at) VALUES (${sqlValue(resultId)}, ${sqlValue(runId)}, ${sqlValue(params.test_id)}, ${sqlValue(testName)}, 'running', ${sqlValue(startedAt)});`,
+          signal
+        );
+        writeQaContext({ run_id: runId, test_id: params.test_id, test_name: testName, test_result_id: resultId, started_at: startedAt });
 
-      if (lines.length === 0) {
-        const marker = new Date().toISOString().replace(/\.\d{3}/, "");
         return {
-          content: [{ type: "text", text: `No ${level === "all" ? "" : level + " "}logs found.\nmarker: ${marker}` }],
-          details: {},
+          content: [{
+            type: "text",
+            text: `Began test ${params.test_id} "${testName}"\nrun: ${runId}${createdRun ? " (new)" : ""}\ntest_result: ${resultId}\nScreenshots, events and log errors are now recorded to ${cxdb.path}`,
+          }],
+          details: { run_id: runId, test_id: params.test_id, test_result_id: resultId, created_run: createdRun },
         };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
-
-      // Extract latest timestamp as marker for next call
-      const lastLine = lines[lines.length - 1];
-      const tsMatch = lastLine.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-      const marker = tsMatch ? tsMatch[1] : new Date().toISOString().replace(/\.\d{3}/, "");
-
-      return {
-        content: [{ type: "text", text: `${lines.length} log entries (${level}):\n\n${lines.join("\n")}\n\nmarker: ${marker}` }],
-        details: {},
-      };
     },
   });
 
-  // --- log_check_errors: Quick check for new errors since a marker ---
+  // --- qa_end_test: Close the active test_results row ---
   pi.registerTool({
-    name: "sim_log_check_errors",
-    label: "Simulator: Check for Log Errors",
+    name: "sim_qa_end_test",
+    label: "QA: End Test",
     description:
-      "Quick check for new error-level log entries since a given marker timestamp. " +
-      "Returns errors if any, or confirms no errors. " +
-      "Use this between test steps to detect app errors early. " +
-      "Call sim_log_tail first to get an initial marker, then pass that marker here.",
+      "Finish the test opened by sim_qa_begin_test: sets its status, finished_at and duration_ms in CXDB and " +
+      "clears the active test (the run stays active for the next sim_qa_begin_test).",
     parameters: Type.Object({
-      since_marker: Type.String({ description: "Timestamp marker from a previous sim_log_tail or sim_log_check_errors call" }),
-      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      status: Type.Union([Type.Literal("pass"), Type.Literal("fail"), Type.Literal("skip"), Type.Literal("error")], { description: "Final test status" }),
+      error_message: Type.Optional(Type.String({ description: "Failure summary (for fail/error)" })),
+      notes: Type.Optional(Type.String({ description: "Free-form notes" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const logFile = findAppLogFile(udid);
-      if (!logFile) {
-        return { content: [{ type: "text", text: "No log file found." }], details: {} };
+      const ctx = readQaContext();
+      if (!ctx?.test_result_id) {
+        return { content: [{ type: "text", text: "No active test. Start one with sim_qa_begin_test." }], isError: true };
       }
 
-      // Read recent logs
-      const result = await pi.exec("tail", ["-n", "500", logFile], { signal, timeout: 5000 });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Failed to read log file: ${result.stderr}` }], isError: true };
+      // Recordings started during this test end with it, so a failed or abandoned test still leaves its video
+      const stoppedRecordings: string[] = [];
+      for (const rec of videoRecordings.all().filter(r => r.qa?.test_result_id === ctx.test_result_id)) {
+        try {
+          const { finished } = await finishRecording(rec.udid, {}, signal);
+          stoppedRecordings.push(`stopped the recording of ${rec.udid}: ${finished.path}`);
+        } catch (e: any) {
+          stoppedRecordings.push(`could not stop the recording of ${rec.udid}: ${e.message}`);
+        }
       }
 
-      const markerTime = params.since_marker;
-      const errors = result.stdout.split("\n")
-        .filter(l => l.includes("[error]"))
-        .filter(l => {
-          const match = l.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-          if (!match) return false;
-          return match[1] > markerTime;
-        });
-
-      const warnings = result.stdout.split("\n")
-        .filter(l => l.includes("[warning]"))
-        .filter(l => {
-          const match = l.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-          if (!match) return false;
-          return match[1] > markerTime;
-        });
-
-      // New marker
-      const allNew = [...warnings, ...errors];
-      let newMarker = markerTime;
-      if (allNew.length > 0) {
-        const lastLine = allNew[allNew.length - 1];
-        const tsMatch = lastLine.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-        if (tsMatch) newMarker = tsMatch[1];
-      } else {
-        newMarker = new Date().toISOString().replace(/\.\d{3}/, "");
-      }
+      try {
+        await cxdb.exec(
+          `UPDATE test_results SET status=${sqlValue(params.status)}, finished_at=${SQL_NOW}, ` +
+          `duration_ms=CAST((julianday('now') - julianday(started_at)) * 86400000 AS INTEGER), ` +
+          `error_message=${sqlValue(params.error_message)}, notes=${sqlValue(params.notes)} WHERE id=${sqlValue(ctx.test_result_id)};`,
+          signal
+        );
+        const [row] = await cxdb.query<{ duration_ms: number | null; screenshots: number; recordings: number; events: number; logs: number }>(
+          `SELECT duration_ms, ` +
+          `(SELECT COUNT(*) FROM screenshots WHERE run_id=${sqlValue(ctx.run_id)} AND test_id=${sqlValue(ctx.test_id)}) AS screenshots, ` +
+          `(SELECT COUNT(*) FROM screen_recordings WHERE run_id=${sqlValue(ctx.run_id)} AND test_id=${sqlValue(ctx.test_id)}) AS recordings, ` +
+          `(SELECT COUNT(*) FROM app_events WHERE run_id=${sqlValue(ctx.run_id)} AND test_id=${sqlValue(ctx.test_id)}) AS events, ` +
+          `(SELECT COUNT(*) FROM log_entries WHERE run_id=${sqlValue(ctx.run_id)} AND test_id=${sqlValue(ctx.test_id)}) AS logs ` +
+          `FROM test_results WHERE id=${sqlValue(ctx.test_result_id)};`,
+          signal
+        );
+        writeQaContext({ run_id: ctx.run_id });
 
-      if (errors.length > 0) {
+        const duration = row?.duration_ms != null ? `${(row.duration_ms / 1000).toFixed(1)}s` : "unknown";
         return {
           content: [{
             type: "text",
-            text: `⚠️ ${errors.length} ERROR(s) detected since ${markerTime}:\n\n${errors.join("\n")}${warnings.length > 0 ? `\n\n${warnings.length} warning(s):\n${warnings.join("\n")}` : ""}\n\nmarker: ${newMarker}`,
+            text: `Ended test ${ctx.test_id}: ${params.status} in ${duration}\n` +
+              `recorded: ${row?.screenshots ?? 0} screenshot(s), ${row?.recordings ? `${row.recordings} recording(s), ` : ""}` +
+              `${row?.events ?? 0} event(s), ${row?.logs ?? 0} log entr${row?.logs === 1 ? "y" : "ies"}\n` +
+              stoppedRecordings.map(line => `${line}\n`).join("") +
+              `run ${ctx.run_id} is still active`,
           }],
-          isError: true,
+          details: { run_id: ctx.run_id, test_id: ctx.test_id, test_result_id: ctx.test_result_id, status: params.status, duration_ms: row?.duration_ms ?? null },
         };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
+    },
+  });
 
-      if (warnings.length > 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `No errors. ${warnings.length} warning(s) since ${markerTime}:\n\n${warnings.join("\n")}\n\nmarker: ${newMarker}`,
-          }],
-          details: {},
-        };
+  pi.registerTool({
+    name: "sim_qa_history",
+    label: "QA: Flakiness History",
+    description:
+      "Read CXDB history back across runs. With test_id: the test's pass/fail/skip history, flake rate, average duration, " +
+      "most common error messages and its flakiest criteria. With criteria_key (and optionally test_id): the same for " +
+      "that criterion. With neither: the flakiest criteria and tests suite-wide, with the qa/tests doc to harden. A run " +
+      "is flaky when it failed and then passed on a retry, or its outcome differs from the previous run on the same " +
+      "build_commit.",
+    parameters: Type.Object({
+      test_id: Type.Optional(Type.String({ description: "Test id, e.g. '03'" })),
+      criteria_key: Type.Optional(Type.String({ description: "Criteria key, e.g. 'invite_url_extractable'" })),
+      runs: Type.Optional(Type.Number({ description: `How many of the most recent runs to look at (default ${DEFAULT_HISTORY_RUNS})` })),
+      top: Type.Optional(Type.Number({ description: "Rows in the suite-wide ranking (default 10)" })),
+      min_runs: Type.Optional(Type.Number({ description: "Leave out of the ranking anything with fewer decided runs (default 3)" })),
+    }),
+    async execute(_toolCallId, params, signal) {
+      const runs = params.runs ?? DEFAULT_HISTORY_RUNS;
+      const top = params.top ?? 10;
+      const minRuns = params.min_runs ?? 3;
+      let sections: string[];
+      let details: Record<string, unknown>;
+      try {
+        if (params.criteria_key) {
+          const histories = analyzeAll(await queryCriteriaHistory(cxdb, { testId: params.test_id, criteriaKey: params.criteria_key }, runs, signal));
+          if (histories.length === 0) {
+            const scope = params.test_id ? ` in test ${params.test_id}` : "";
+            return { content: [{ type: "text", text: `No results for criterion "${params.criteria_key}"${scope} in the last ${runs} runs.` }], details: { histories: [] } };
+          }
+          sections = histories.map(h => formatHistory(h));
+          details = { histories: histories.map(summarizeHistory) };
+        } else if (params.test_id) {
+          const rows = await queryTestHistory(cxdb, params.test_id, runs, signal);
+          if (rows.length === 0) {
+            return { content: [{ type: "text", text: `No results for test ${params.test_id} in the last ${runs} runs.` }], details: { histories: [] } };
+          }
+          const test = analyzeHistory(rows);
+          const criteria = analyzeAll(await queryCriteriaHistory(cxdb, { testId: params.test_id }, runs, signal));
+          const flakyCriteria = rankFlaky(criteria, 1);
+          sections = [formatHistory(test)];
+          sections.push(flakyCriteria.length > 0
+            ? `Flakiest criteria:\n${formatRanking(flakyCriteria.slice(0, top))}`
+            : criteria.length === 1 ? "Its one criterion never flaked." : `None of its ${criteria.length} criteria flaked.`);
+          details = { test: summarizeHistory(test), criteria: criteria.map(summarizeHistory) };
+        } else {
+          const criteria = analyzeAll(await queryCriteriaHistory(cxdb, {}, runs, signal));
+          const tests = analyzeAll(await queryTestHistory(cxdb, undefined, runs, signal));
+          const flakyCriteria = rankFlaky(criteria, minRuns);
+          const flakyTests = rankFlaky(tests, minRuns);
+          const scope = `the last ${runs} runs, at least ${minRuns} decided run${minRuns === 1 ? "" : "s"} each`;
+          sections = [
+            flakyCriteria.length > 0
+              ? `Flakiest criteria (${scope}):\n${formatRanking(flakyCriteria.slice(0, top))}`
+              : `No criterion flaked (${scope}; ${criteria.length} criteria seen).`,
+            flakyTests.length > 0
+              ? `Flakiest tests:\n${formatRanking(flakyTests.slice(0, top))}`
+              : `No test flaked (${tests.length} tests seen).`,
+          ];
+          details = { criteria: flakyCriteria.slice(0, top).map(summarizeHistory), tests: flakyTests.slice(0, top).map(summarizeHistory) };
+        }
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
-
-      return {
-        content: [{ type: "text", text: `✅ No errors or warnings since ${markerTime}\nmarker: ${newMarker}` }],
-        details: {},
-      };
+      return { content: [{ type: "text", text: sections.join("\n\n") }], details };
     },
   });
 
-  // --- log_events: Get [EVENT] lines from app logs ---
   pi.registerTool({
-    name: "sim_log_events",
-    label: "Simulator: Get App Events",
+    name: "sim_qa_compare",
+    label: "QA: Compare Runs",
     description:
-      "Read [EVENT] log lines from the Convos app. These are structured QA events emitted " +
-      "at key app milestones (message.sent, conversation.joined, reaction.received, etc.). " +
-      "Use to verify app behavior during QA tests. Each event has a category.action format " +
-      "with key=value parameters. Use event_filter to match specific events.",
+      "Compare two CXDB runs and report, as compact markdown, what changed: newly failing and newly passing tests and " +
+      "criteria, error log signatures the baseline didn't have, perf_measurements medians that got slower by more than " +
+      "perf_threshold percent, and new bug and accessibility findings. Defaults to the active (or latest) run against the " +
+      "last passed run before it. write_file: true also saves the report into the newer run's artifact directory.",
     parameters: Type.Object({
-      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
-      since_marker: Type.Optional(Type.String({ description: "Only return events after this timestamp marker (ISO8601)" })),
-      event_filter: Type.Optional(Type.String({ description: "Filter events by name substring (e.g., 'message.sent', 'conversation', 'reaction')" })),
-      lines: Type.Optional(Type.Number({ description: "Maximum lines to scan from log tail (default: 500)" })),
+      run_id: Type.Optional(Type.String({ description: "The newer run. Default: the active run, then the latest run." })),
+      base_run_id: Type.Optional(Type.String({ description: "The run to compare against. Default: the last passed run before run_id." })),
+      perf_threshold: Type.Optional(Type.Number({ description: `Percent slower a metric's median must get to count as a regression (default ${DEFAULT_PERF_THRESHOLD_PCT})` })),
+      write_file: Type.Optional(Type.Boolean({ description: "Also write the report to qa/artifacts/run-<run_id>/compare-<base_run_id>.md" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const logFile = findAppLogFile(udid);
-      if (!logFile) {
-        return { content: [{ type: "text", text: "No log file found." }], details: {} };
-      }
+      const threshold = params.perf_threshold ?? DEFAULT_PERF_THRESHOLD_PCT;
+      try {
+        let headId = params.run_id ?? readQaContext()?.run_id;
+        if (!headId) {
+          const [latest] = await cxdb.query<{ id: string }>("SELECT id FROM test_runs ORDER BY started_at DESC LIMIT 1;", signal);
+          headId = latest?.id;
+        }
+        if (!headId) return { content: [{ type: "text", text: "No runs in CXDB to compare." }], isError: true };
+        const head = await queryRun(cxdb, headId, signal);
+        if (!head) return { content: [{ type: "text", text: `No run ${headId} in CXDB.` }], isError: true };
+        const base = params.base_run_id ? await queryRun(cxdb, params.base_run_id, signal) : await lastGreenRunBefore(cxdb, head.id, signal);
+        if (!base) {
+          const why = params.base_run_id ? `No run ${params.base_run_id} in CXDB.` : `No passed run before ${head.id}; pass base_run_id to pick one.`;
+          return { content: [{ type: "text", text: why }], isError: true };
+        }
 
-      const scanLines = params.lines ?? 500;
-      const result = await pi.exec("tail", ["-n", String(scanLines), logFile], { signal, timeout: 5000 });
-      if (result.code !== 0) {
-        return { content: [{ type: "text", text: `Failed to read log file: ${result.stderr}` }], isError: true };
+        const comparison = await compareRuns(cxdb, base, head, threshold, signal);
+        const report = formatComparison(comparison);
+        let written = "";
+        if (params.write_file) {
+          const file = path.join(runArtifactDir(head.id), `compare-${sanitizePathPart(base.id)}.md`);
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, `${report}\n\n_Generated ${new Date().toISOString()} from ${cxdb.path}._\n`);
+          written = `\n\nWritten to ${path.relative(process.cwd(), file)}`;
+        }
+        return { content: [{ type: "text", text: report + written }], details: comparison };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
+    },
+  });
 
-      let events = result.stdout.split("\n").filter(l => l.includes("[EVENT]"));
+  pi.registerTool({
+    name: "sim_qa_plan",
+    label: "QA: Plan Suite",
+    description:
+      "Plan a structured test suite: pick tests by id or by tag, pull in what they depend_on, and order them so every " +
+      "test runs after its dependencies, with each test's prerequisites and the estimated total time. Against the active " +
+      "CXDB run (or run_id), tests that passed or were skipped are done and a test whose dependency failed is a cascaded " +
+      "skip; record_skips: true writes those skips to the run. resume: true picks a partial run back up, planning its " +
+      "failed tests again along with everything still pending. Reports dependency cycles and missing test ids.",
+    parameters: Type.Object({
+      test_ids: Type.Optional(Type.Array(Type.String(), { description: "Tests to plan, e.g. ['03', '23b']. Overrides tags." })),
+      tags: Type.Optional(Type.Array(Type.String(), { description: "Plan tests with any of these tags, e.g. ['core']. Default: every test." })),
+      exclude_tags: Type.Optional(Type.Array(Type.String(), { description: "Leave out tests with any of these tags, e.g. ['blocked']" })),
+      include_dependencies: Type.Optional(Type.Boolean({ description: "Add the tests the selection depends on (default true)" })),
+      run_id: Type.Optional(Type.String({ description: "CXDB run to plan against. Default: the active run, if any." })),
+      resume: Type.Optional(Type.Boolean({ description: "Resume run_id (or the active run, then the latest): plan its failed tests again" })),
+      record_skips: Type.Optional(Type.Boolean({ description: "Record the cascaded skips in the run as skipped test results" })),
+    }),
+    async execute(_toolCallId, params, signal) {
+      try {
+        let runId = params.run_id ?? readQaContext()?.run_id;
+        if (!runId && params.resume) {
+          const [latest] = await cxdb.query<{ id: string }>("SELECT id FROM test_runs ORDER BY started_at DESC LIMIT 1;", signal);
+          runId = latest?.id;
+          if (!runId) return { content: [{ type: "text", text: "No runs in CXDB to resume." }], isError: true };
+        }
+        if (runId && !(await queryRun(cxdb, runId, signal))) {
+          return { content: [{ type: "text", text: `No run ${runId} in CXDB.` }], isError: true };
+        }
+        if (params.record_skips && !runId) {
+          return { content: [{ type: "text", text: "record_skips needs a run: pass run_id or begin a test with sim_qa_begin_test." }], isError: true };
+        }
 
-      if (params.since_marker) {
-        const markerTime = params.since_marker;
-        events = events.filter(l => {
-          const match = l.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-          if (!match) return false;
-          return match[1] > markerTime;
+        const suite = loadSuite();
+        const plan = planSuite(suite.tests, {
+          ids: params.test_ids,
+          tags: params.tags,
+          excludeTags: params.exclude_tags,
+          includeDependencies: params.include_dependencies ?? true,
+          runStatuses: runId ? await queryRunStatuses(cxdb, runId, signal) : undefined,
+          resume: params.resume ?? false,
+        });
+        plan.problems.push(...suite.problems);
+        let text = formatPlan(plan, runId);
+        if (params.record_skips && runId) {
+          const recorded = await recordCascadedSkips(cxdb, runId, plan, signal);
+          text += `\n\nRecorded ${recorded} cascaded skip${recorded === 1 ? "" : "s"} in run ${runId}.`;
+        }
+        const summary = (e: (typeof plan.planned)[number]) => ({
+          id: e.test.id,
+          name: e.test.name,
+          status: e.status,
+          reason: e.reason ?? null,
+          depends_on: e.test.dependsOn,
+          estimated_duration_s: e.test.estimatedS,
+          added_as_dependency: e.addedAsDependency,
         });
-      }
-
-      if (params.event_filter) {
-        const filter = params.event_filter.toLowerCase();
-        events = events.filter(l => l.toLowerCase().includes(filter));
-      }
-
-      if (events.length === 0) {
-        const marker = new Date().toISOString().replace(/\.\d{3}/, "");
         return {
-          content: [{ type: "text", text: `No events found${params.event_filter ? ` matching "${params.event_filter}"` : ""}${params.since_marker ? ` since ${params.since_marker}` : ""}.\nmarker: ${marker}` }],
-          details: {},
+          content: [{ type: "text", text }],
+          details: {
+            run_id: runId ?? null,
+            planned: plan.planned.map(summary),
+            skipped: plan.skipped.map(summary),
+            total_s: plan.totalS,
+            unestimated: plan.unestimated,
+            problems: plan.problems,
+          },
         };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
       }
-
-      const lastLine = events[events.length - 1];
-      const tsMatch = lastLine.match(/^\[(\d{4}-\d{2}-\d{2}T[\d:]+Z)\]/);
-      const marker = tsMatch ? tsMatch[1] : new Date().toISOString().replace(/\.\d{3}/, "");
-
-      return {
-        content: [{ type: "text", text: `${events.length} event(s):\n\n${events.join("\n")}\n\nmarker: ${marker}` }],
-        details: {},
-      };
     },
   });
 
-  // --- find_elements: Search for elements matching a pattern ---
+  // --- devices: Named simulators for multi-device tests ---
   pi.registerTool({
-    name: "sim_find_elements",
-    label: "Simulator: Find Elements",
+    name: "sim_devices",
+    label: "Simulator: Devices",
     description:
-      "Search the accessibility tree for elements matching a pattern. " +
-      "Returns all matches with their identifiers, labels, types, frames, and enabled state. " +
-      "Useful for checking what's on screen, finding dynamic element IDs, or verifying content.",
+      "Manage named simulators for tests that need more than one app instance (e.g. 'alice' invites 'bob'). " +
+      "'register' maps an alias to a simulator picked by udid, exact name or device type ('iPhone 16 Pro'; " +
+      "skips simulators already registered), or the default simulator if none is given. Every sim_* tool then " +
+      "accepts device: '<alias>' and prefixes its output with the alias. 'list' (default) shows registered devices " +
+      "and their state; 'boot' and 'shutdown' act on one alias or all registered devices; 'unregister' removes one. " +
+      "Set agent_url when a device's QAAutomationServer isn't on the default port (sim-tools' XCUITest tools).",
     parameters: Type.Object({
-      pattern: Type.Optional(Type.String({ description: "Search pattern (substring match on id or label). Omit to list all elements with identifiers." })),
-      udid: Type.Optional(Type.String({ description: "Simulator UDID. Auto-detected if omitted." })),
+      action: Type.Optional(Type.Union(
+        [Type.Literal("list"), Type.Literal("register"), Type.Literal("unregister"), Type.Literal("boot"), Type.Literal("shutdown")],
+        { description: "Default: list" }
+      )),
+      alias: Type.Optional(Type.String({ description: "Device alias, e.g. 'alice'. Required for register/unregister; boot/shutdown act on all registered devices without it." })),
+      udid: Type.Optional(Type.String({ description: "register: simulator UDID" })),
+      name: Type.Optional(Type.String({ description: "register: exact simulator name, e.g. 'convos-qa-device-b'" })),
+      device_type: Type.Optional(Type.String({ description: "register: device type, e.g. 'iPhone 16 Pro'" })),
+      agent_url: Type.Optional(Type.String({ description: "register: QAAutomationServer URL for this device, e.g. http://localhost:8616" })),
     }),
     async execute(_toolCallId, params, signal) {
-      const udid = await resolveUdid(pi, params.udid);
-      const idbPath = findIdb();
-
-      let elements: AXElement[];
-      try {
-        elements = await getAccessibilityTree(pi, idbPath, udid, signal);
-      } catch (e: any) {
-        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
-      }
+      const action = params.action ?? "list";
+      const registry = readDeviceRegistry();
 
-      // Also probe bottom toolbar for hidden elements
       try {
-        const toolbarElements = await probeToolbarElements(pi, idbPath, udid, signal, elements);
-        // Merge, avoiding duplicates by checking AXUniqueId
-        const existingIds = new Set(elements.filter(e => e.AXUniqueId).map(e => e.AXUniqueId));
-        for (const te of toolbarElements) {
-          if (te.AXUniqueId && !existingIds.has(te.AXUniqueId)) {
-            elements.push(te);
-            existingIds.add(te.AXUniqueId);
-          } else if (!te.AXUniqueId) {
-            elements.push(te);
+        if (action === "register") {
+          if (!params.alias || !/^[\w-]+$/.test(params.alias)) {
+            return { content: [{ type: "text", text: "register needs an alias of letters, digits, _ or -" }], isError: true };
+          }
+          const devices = await driver.listDevices(signal);
+          const taken = new Set(Object.values(registry).filter(d => d.alias !== params.alias).map(d => d.udid));
+          const picked = params.udid || params.name || params.device_type
+            ? findSimulator(devices, { udid: params.udid, name: params.name, deviceType: params.device_type }, taken)
+            : findSimulator(devices, { udid: await resolveUdid(driver, undefined, signal) });
+          const owner = Object.values(registry).find(d => d.udid === picked.udid && d.alias !== params.alias);
+          if (owner) {
+            return { content: [{ type: "text", text: `${picked.name} (${picked.udid}) is already registered as "${owner.alias}".` }], isError: true };
           }
+          const replaced = registry[params.alias];
+          registry[params.alias] = {
+            alias: params.alias,
+            udid: picked.udid,
+            name: picked.name,
+            ...(params.agent_url ? { agentUrl: params.agent_url } : {}),
+          };
+          writeDeviceRegistry(registry);
+          return {
+            content: [{
+              type: "text",
+              text: `${replaced ? "Re-registered" : "Registered"} "${params.alias}" → ${picked.name} (${picked.deviceType ?? "unknown type"}, ${picked.runtime ?? "unknown runtime"}) ${picked.udid} — ${picked.state}` +
+                (picked.state === "Booted" ? "" : `\nBoot it with sim_devices action: "boot", alias: "${params.alias}"`),
+            }],
+            details: { alias: params.alias, udid: picked.udid },
+          };
         }
-      } catch {
-        // Toolbar probe is best-effort
-      }
-
-      let matches: AXElement[];
-      if (params.pattern) {
-        const lowerPattern = params.pattern.toLowerCase();
-        matches = elements.filter(el =>
-          (el.AXUniqueId?.toLowerCase().includes(lowerPattern) ?? false) ||
-          (el.AXLabel?.toLowerCase().includes(lowerPattern) ?? false) ||
-          (el.AXValue?.toLowerCase().includes(lowerPattern) ?? false)
-        );
-      } else {
-        matches = elements.filter(el => el.AXUniqueId || el.AXLabel);
-      }
 
-      if (matches.length === 0) {
-        return { content: [{ type: "text", text: `No elements found${params.pattern ? ` matching "${params.pattern}"` : ""}` }], details: {} };
-      }
+        if (action === "unregister") {
+          if (!params.alias) return { content: [{ type: "text", text: "unregister needs an alias" }], isError: true };
+          const entry = lookupAlias(params.alias, registry);
+          delete registry[params.alias];
+          writeDeviceRegistry(registry);
+          return { content: [{ type: "text", text: `Unregistered "${entry.alias}" (${entry.name}). The simulator itself is untouched.` }], details: {} };
+        }
 
-      const summary = matches.map(el => ({
-        id: el.AXUniqueId || null,
-        label: el.AXLabel || null,
-        value: el.AXValue || null,
-        type: el.type,
-        enabled: el.enabled,
-        center: elementCenter(el),
-        actions: el.custom_actions?.length ? el.custom_actions : undefined,
-      }));
+        if (action === "boot" || action === "shutdown") {
+          const targets: RegisteredDevice[] = params.alias ? [lookupAlias(params.alias, registry)] : Object.values(registry);
+          if (targets.length === 0) {
+            return { content: [{ type: "text", text: `No devices are registered. Register one with action: "register".` }], isError: true };
+          }
+          const lines: string[] = [];
+          let failed = false;
+          for (const entry of targets) {
+            try {
+              if (action === "boot") await driver.boot(entry.udid, signal);
+              else await driver.shutdown(entry.udid, signal);
+              forgetDefaultUdid(driver);
+              lines.push(`[${entry.alias}] ${action === "boot" ? "booted" : "shut down"} ${entry.name}`);
+            } catch (e: any) {
+              failed = true;
+              lines.push(`[${entry.alias}] ${action} failed: ${e.message.trim()}`);
+            }
+          }
+          return { content: [{ type: "text", text: lines.join("\n") }], details: {}, ...(failed ? { isError: true } : {}) };
+        }
 
-      return { content: [{ type: "text", text: JSON.stringify(summary, null, 2) }], details: {} };
+        // list
+        const devices = await driver.listDevices(signal);
+        const byUdid = new Map(devices.map(d => [d.udid, d]));
+        const lines: string[] = [];
+        const entries = Object.values(registry);
+        if (entries.length === 0) {
+          lines.push("No devices registered.");
+        } else {
+          lines.push("Registered devices:");
+          for (const entry of entries) {
+            const sim = byUdid.get(entry.udid);
+            const state = sim ? sim.state : "missing (simulator deleted?)";
+            const kind = sim ? ` ${sim.deviceType ?? ""}, ${sim.runtime ?? ""}`.replace(/ ,|, $/g, "") : "";
+            const agent = entry.agentUrl ? `, agent ${entry.agentUrl}` : "";
+            lines.push(`  ${entry.alias.padEnd(10)} ${state.padEnd(9)} ${entry.name} (${kind.trim()}${agent}) ${entry.udid}`);
+          }
+        }
+        let defaultDevice: ResolvedDevice | undefined;
+        try {
+          defaultDevice = await resolveDevice(driver, {}, signal);
+        } catch {}
+        if (defaultDevice) {
+          const sim = byUdid.get(defaultDevice.udid);
+          lines.push(`\nDefault (no device or udid given): ${defaultDevice.alias ? `"${defaultDevice.alias}" ` : ""}${sim?.name ?? "unknown"} ${defaultDevice.udid}`);
+        }
+        const registered = new Set(entries.map(e => e.udid));
+        const otherBooted = devices.filter(d => d.state === "Booted" && !registered.has(d.udid));
+        if (otherBooted.length > 0) {
+          lines.push(`\nOther booted simulators:\n${otherBooted.map(d => `  ${d.name} (${d.deviceType ?? "unknown type"}) ${d.udid}`).join("\n")}`);
+        }
+        return { content: [{ type: "text", text: lines.join("\n") }], details: { devices: entries } };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true };
+      }
     },
   });
 }
@@ -0,0 +1,194 @@
+import type { AXElement } from "./driver";
+import { elementCenter, stableSelector } from "./elements";
+
+// The checks behind sim_a11y_audit. Each finding is one thing a developer can
+// change in the app, phrased as the "Accessibility Improvements Needed" entries
+// qa/RULES.md asks for, so they can go straight into accessibility_findings.
+
+export type FindingKind = "missing_id" | "symbol_id" | "duplicate_id" | "unlabeled_button" | "small_target" | "probe_only";
+
+export interface A11yFinding {
+  kind: FindingKind;
+  /** The element as the tree describes it: type, label, id and frame. */
+  element: string;
+  problem: string;
+  recommendation: string;
+  /** How the tools reach it today, when they can. */
+  workaround?: string;
+}
+
+/** System and keyboard identifiers that are not the app's to fix. */
+export const SYSTEM_IDS = new Set([
+  "inputView", "SystemInputAssistantView", "CenterPageView",
+  "UIKeyboardLayoutStar Preview", "AdditionalDimmingOverlay",
+  "dictation", "shift", "delete", "more", "space", "Return",
+  "Done", "Toolbar", "checkmark",
+]);
+
+/**
+ * An SF Symbol name such as "square.and.pencil", which SwiftUI reports as the
+ * identifier (and often the label) of an image button that has neither set.
+ * App identifiers here are kebab-case; "qr" names are the app's own.
+ */
+export function isSymbolName(text: string): boolean {
+  return !text.includes("-") && !text.includes(" ") && text.includes(".") && !text.startsWith("qr");
+}
+
+const INTERACTIVE = new Set([
+  "button", "textfield", "securetextfield", "textview", "searchfield", "switch", "toggle",
+  "slider", "stepper", "link", "cell", "menuitem", "popupbutton", "segmentedcontrol",
+]);
+
+// Apple's minimum comfortable hit target
+export const MIN_TARGET_PT = 44;
+
+function isInteractive(el: AXElement): boolean {
+  return INTERACTIVE.has(el.type.toLowerCase());
+}
+
+// Keyboard keys, system chrome and off-screen leftovers
+function isNoise(el: AXElement): boolean {
+  if (el.role === "AXApplication") return true;
+  if (el.AXUniqueId && (SYSTEM_IDS.has(el.AXUniqueId) || el.AXUniqueId.startsWith("_Tt"))) return true;
+  if (!el.AXUniqueId && (el.AXLabel ?? "").length === 1) return true;
+  return el.frame.width <= 0 || el.frame.height <= 0;
+}
+
+function describe(el: AXElement): string {
+  const parts = [el.type];
+  if (el.AXLabel) parts.push(JSON.stringify(el.AXLabel));
+  parts.push(el.AXUniqueId ? `(id ${el.AXUniqueId})` : "(no id)");
+  const f = el.frame;
+  parts.push(`at (${f.x},${f.y}) ${f.width}x${f.height}`);
+  return parts.join(" ");
+}
+
+const ID_SUFFIX: Record<string, string> = {
+  button: "button", textfield: "field", securetextfield: "field", searchfield: "search-field",
+  textview: "text-view", switch: "toggle", toggle: "toggle", cell: "item", link: "link",
+};
+
+/** A kebab-case identifier in the app's style, from the label and type. */
+export function suggestIdentifier(el: AXElement): string {
+  const suffix = ID_SUFFIX[el.type.toLowerCase()] ?? el.type.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase();
+  const label = el.AXLabel && !isSymbolName(el.AXLabel) ? el.AXLabel : "";
+  const words = label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim().split(" ").filter(Boolean).slice(0, 3);
+  if (words.length === 0) return `<purpose>-${suffix}`;
+  return words[words.length - 1] === suffix.split("-").pop() ? words.join("-") : `${words.join("-")}-${suffix}`;
+}
+
+function reachableBy(tree: AXElement[], el: AXElement): string {
+  const selector = stableSelector(tree, el);
+  if (selector) return `selector ${selector}`;
+  const c = elementCenter(el);
+  return `coordinates (${c.x},${c.y}) only`;
+}
+
+function sameElement(a: AXElement, b: AXElement): boolean {
+  if (a.AXUniqueId || b.AXUniqueId) return a.AXUniqueId === b.AXUniqueId;
+  return a.AXLabel === b.AXLabel && Math.abs(a.frame.x - b.frame.x) < 1 && Math.abs(a.frame.y - b.frame.y) < 1;
+}
+
+/**
+ * Audit one screen. `tree` is describe-all's output; `probed` holds elements
+ * found by describe-point probing (probeToolbarElements), which count as
+ * reachable only that way when the tree does not list them.
+ */
+export function auditElements(tree: AXElement[], probed: AXElement[] = [], minTarget = MIN_TARGET_PT): A11yFinding[] {
+  const probeOnly = probed.filter(p => !tree.some(el => sameElement(el, p)));
+  const all = [...tree, ...probeOnly].filter(el => !isNoise(el));
+  const findings: A11yFinding[] = [];
+
+  for (const el of probeOnly.filter(el => !isNoise(el))) {
+    findings.push({
+      kind: "probe_only",
+      element: describe(el),
+      problem: "not listed by describe-all; found only by probing points with describe-point",
+      recommendation:
+        "Tree snapshots, sim_ui_diff and XCUITest queries don't see it, and sim_tap_id needs the slow toolbar probe. " +
+        "SwiftUI leaves ToolbarItem(placement: .bottomBar) content out of the tree; render the bar in the view " +
+        "(e.g. .safeAreaInset(edge: .bottom)) so it is enumerated with the rest of the screen" +
+        (el.AXUniqueId ? "." : `, and give it .accessibilityIdentifier("${suggestIdentifier(el)}").`),
+      workaround: el.AXUniqueId ? `sim_tap_id id=${el.AXUniqueId} (toolbar probe)` : `coordinates (${elementCenter(el).x},${elementCenter(el).y}) only`,
+    });
+  }
+
+  for (const el of all) {
+    const id = el.AXUniqueId;
+    if (id && isSymbolName(id)) {
+      findings.push({
+        kind: "symbol_id",
+        element: describe(el),
+        problem: `identifier "${id}" is an SF Symbol name, not an app identifier`,
+        recommendation: `Add .accessibilityIdentifier("${suggestIdentifier(el)}"); the symbol name changes whenever the icon does and breaks tests that match on it.`,
+        workaround: reachableBy(tree, el),
+      });
+    } else if (!id && isInteractive(el)) {
+      findings.push({
+        kind: "missing_id",
+        element: describe(el),
+        problem: "interactive element without an accessibility identifier",
+        recommendation: `Add .accessibilityIdentifier("${suggestIdentifier(el)}") so tests don't depend on ${el.AXLabel ? "the label text, which changes with copy and localization" : "coordinates"}.`,
+        workaround: reachableBy(tree, el),
+      });
+    }
+
+    if (el.type.toLowerCase() === "button" && (!el.AXLabel || isSymbolName(el.AXLabel))) {
+      const spoken = el.AXLabel ? `reads the symbol name "${el.AXLabel}"` : "reads nothing";
+      findings.push({
+        kind: "unlabeled_button",
+        element: describe(el),
+        problem: `button without a usable label; VoiceOver ${spoken}`,
+        recommendation: `Add .accessibilityLabel("…") naming the action${id && !isSymbolName(id) ? ` (what "${id}" does)` : ""}.`,
+      });
+    }
+
+    if (isInteractive(el) && el.enabled && (el.frame.width < minTarget || el.frame.height < minTarget)) {
+      findings.push({
+        kind: "small_target",
+        element: describe(el),
+        problem: `hit target ${el.frame.width}x${el.frame.height}pt is under ${minTarget}x${minTarget}pt`,
+        recommendation: `Grow the tappable area to at least ${minTarget}x${minTarget}pt, e.g. .frame(minWidth: ${minTarget}, minHeight: ${minTarget}) with .contentShape(Rectangle()).`,
+      });
+    }
+  }
+
+  const byId = new Map<string, AXElement[]>();
+  for (const el of all) {
+    if (el.AXUniqueId) byId.set(el.AXUniqueId, [...(byId.get(el.AXUniqueId) ?? []), el]);
+  }
+  for (const [id, els] of byId) {
+    if (els.length < 2) continue;
+    findings.push({
+      kind: "duplicate_id",
+      element: `id ${id} on ${els.length} elements: ${els.map(describe).join("; ")}`,
+      problem: `${els.length} elements share the identifier "${id}"`,
+      recommendation: `Make the identifiers unique, e.g. "${id}-<item id>" for rows or a distinct name per control, so selectors don't need index=N.`,
+      workaround: `id=${id} index=N (0-based, in tree order)`,
+    });
+  }
+  return findings;
+}
+
+const KIND_TITLES: Record<FindingKind, string> = {
+  probe_only: "Only reachable by describe-point probing",
+  missing_id: "Interactive elements without an identifier",
+  symbol_id: "SF Symbol names used as identifiers",
+  duplicate_id: "Duplicate identifiers",
+  unlabeled_button: "Buttons without a usable label",
+  small_target: "Hit targets under the minimum size",
+};
+
+export function formatFindings(findings: A11yFinding[]): string {
+  const lines: string[] = [];
+  for (const kind of Object.keys(KIND_TITLES) as FindingKind[]) {
+    const group = findings.filter(f => f.kind === kind);
+    if (group.length === 0) continue;
+    lines.push("", `${KIND_TITLES[kind]} (${group.length}):`);
+    for (const f of group) {
+      lines.push(`- ${f.element}`, `  → ${f.recommendation}`);
+      if (f.workaround) lines.push(`  reachable now via ${f.workaround}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,243 @@
+// HTTP client for QAAutomationServer (QAAutomationServer/QAAutomationServer.swift),
+// the XCUITest target the sim-tools.ts tools drive. Every request goes through
+// here so they all get the same timeouts, cancellation, first-use ping and
+// failure messages.
+//
+// Configuration (environment):
+//   QA_AGENT_URL                default server, http://localhost:8615
+//   QA_AGENT_TIMEOUT_MS         per action, 60000
+//   QA_AGENT_CHAIN_TIMEOUT_MS   for a whole chain, 120000
+//   QA_AGENT_PING_TIMEOUT_MS    for the first-use ping, 5000
+//   QA_AGENT_RETRIES            extra attempts for idempotent actions, 2
+
+export interface UIElementInfo {
+  identifier?: string;
+  label?: string;
+  value?: string;
+  placeholderValue?: string;
+  elementType: string;
+  frame: { x: number; y: number; width: number; height: number };
+  isEnabled: boolean;
+  isHittable: boolean;
+  isSelected: boolean;
+  hasFocus: boolean;
+}
+
+export interface ScreenState {
+  elements: UIElementInfo[];
+  focusedElement?: UIElementInfo;
+  alerts: UIElementInfo[];
+  navigationBars: string[];
+  timestamp: number;
+}
+
+export interface AgentResponse {
+  success: boolean;
+  message?: string;
+  screenState?: ScreenState;
+  tappedElement?: UIElementInfo;
+  error?: string;
+  durationMs?: number;
+  /** Candidates (at most ten) when a selector matched more than one element. */
+  matches?: UIElementInfo[];
+}
+
+export interface AgentRequest {
+  action: string;
+  params?: Record<string, any>;
+  observe?: boolean;
+  /** chain only: the steps, sent at the top level. */
+  steps?: { action: string; params?: Record<string, any> }[];
+}
+
+export interface AgentClientConfig {
+  url: string;
+  timeoutMs: number;
+  chainTimeoutMs: number;
+  pingTimeoutMs: number;
+  retries: number;
+}
+
+export const DEFAULT_AGENT_URL = "http://localhost:8615";
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const n = raw === undefined || raw === "" ? NaN : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export function agentConfig(): AgentClientConfig {
+  return {
+    url: (process.env.QA_AGENT_URL || DEFAULT_AGENT_URL).replace(/\/+$/, ""),
+    timeoutMs: envNumber("QA_AGENT_TIMEOUT_MS", 60000),
+    chainTimeoutMs: envNumber("QA_AGENT_CHAIN_TIMEOUT_MS", 120000),
+    pingTimeoutMs: envNumber("QA_AGENT_PING_TIMEOUT_MS", 5000),
+    retries: envNumber("QA_AGENT_RETRIES", 2),
+  };
+}
+
+/**
+ * not_running: nothing accepted the connection (or it dropped before answering).
+ * malformed_response: an answer that isn't a QAAutomationServer response.
+ * http_error: the server rejected the request (4xx/5xx; the status is on the error).
+ * timeout: no answer within the configured time.
+ * cancelled: the tool call was aborted.
+ */
+export type AgentFailureKind = "not_running" | "malformed_response" | "http_error" | "timeout" | "cancelled";
+
+export class AgentError extends Error {
+  /**
+   * `code`: the socket error code behind a not_running failure, e.g. ECONNREFUSED.
+   * `status`: the HTTP status behind an http_error.
+   */
+  constructor(public kind: AgentFailureKind, message: string, public code?: string, public status?: number) {
+    super(message);
+    this.name = "AgentError";
+  }
+}
+
+// Reads that change nothing on screen, so repeating one after a dropped
+// connection or a timeout is safe. Taps, typing and chains are never retried.
+const IDEMPOTENT = new Set(["observeScreen", "waitForElement", "ping"]);
+
+const RETRY_DELAY_MS = 500;
+
+function startHint(): string {
+  return `Start the QAAutomationServer UI test target (QAAutomationServerTest.testQAAutomationServer, e.g. from Xcode's Test navigator) ` +
+    `on the simulator and wait for "[QAAutomationServer] Ready" in the test log. If it listens elsewhere, set QA_AGENT_URL ` +
+    `or register the device with its agent_url (sim_devices).`;
+}
+
+/** Wait before the next attempt; an aborted tool call stops waiting and throws `cancelled`. */
+function retryDelay(ms: number, action: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cancelled = () => {
+      clearTimeout(timer);
+      reject(new AgentError("cancelled", `${action} cancelled`));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", cancelled);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancelled();
+    else signal?.addEventListener("abort", cancelled, { once: true });
+  });
+}
+
+// Node's fetch wraps socket errors as TypeError("fetch failed") with the system error as its cause
+function networkCode(e: any): string | undefined {
+  return e?.cause?.code ?? e?.code;
+}
+
+export interface AgentClient {
+  readonly config: AgentClientConfig;
+  /**
+   * Send one request and return the server's response, whether or not the
+   * action succeeded. Throws AgentError when there is no usable response.
+   * The first request to a URL pings it first.
+   */
+  send(url: string, request: AgentRequest, opts?: { signal?: AbortSignal; timeoutMs?: number }): Promise<AgentResponse>;
+  /** Ping the server now; resolves with the round trip in ms. */
+  ping(url: string, signal?: AbortSignal): Promise<number>;
+}
+
+export function createAgentClient(config: AgentClientConfig = agentConfig()): AgentClient {
+  // Servers that answered a ping; dropped again when one stops answering
+  const healthy = new Set<string>();
+
+  async function post(url: string, request: AgentRequest, timeoutMs: number, signal?: AbortSignal): Promise<AgentResponse> {
+    if (signal?.aborted) throw new AgentError("cancelled", `${request.action} cancelled`);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      let resp: Response;
+      let body: string;
+      try {
+        resp = await fetch(`${url}/action`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+        body = await resp.text();
+      } catch (e: any) {
+        if (timedOut) {
+          throw new AgentError("timeout", `${request.action} got no answer from QAAutomationServer at ${url} within ${timeoutMs / 1000}s. ` +
+            `It may be stuck waiting on the app; check that the app isn't showing a system alert, or restart the server.`);
+        }
+        if (signal?.aborted) throw new AgentError("cancelled", `${request.action} cancelled`);
+        const code = networkCode(e);
+        if (code === "ECONNREFUSED") {
+          throw new AgentError("not_running", `QAAutomationServer is not running at ${url} (connection refused). ${startHint()}`, code);
+        }
+        throw new AgentError("not_running", `Could not reach QAAutomationServer at ${url} (${code ?? e.message}).`, code);
+      }
+
+      let json: any;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        json = undefined;
+      }
+      if (!resp.ok) {
+        const detail = typeof json?.error === "string" ? json.error : body.slice(0, 200) || resp.statusText;
+        throw new AgentError("http_error", `QAAutomationServer rejected ${request.action} with HTTP ${resp.status}: ${detail}`, undefined, resp.status);
+      }
+      if (!json || typeof json !== "object" || typeof json.success !== "boolean") {
+        throw new AgentError("malformed_response", `Unexpected answer to ${request.action} from ${url}: ${body.slice(0, 200) || "(empty body)"}. ` +
+          `Is something other than QAAutomationServer listening on that port?`);
+      }
+      return json as AgentResponse;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async function ping(url: string, signal?: AbortSignal): Promise<number> {
+    const start = Date.now();
+    let resp: AgentResponse;
+    try {
+      resp = await post(url, { action: "ping" }, config.pingTimeoutMs, signal);
+    } catch (e) {
+      healthy.delete(url);
+      if (e instanceof AgentError && e.kind === "timeout") {
+        throw new AgentError("timeout", `QAAutomationServer at ${url} accepted the connection but didn't answer ping within ` +
+          `${config.pingTimeoutMs / 1000}s. It may still be launching the app, or be busy with another request.`);
+      }
+      throw e;
+    }
+    if (!resp.success) throw new AgentError("malformed_response", `QAAutomationServer at ${url} failed ping: ${resp.error ?? "no error given"}`);
+    healthy.add(url);
+    return Date.now() - start;
+  }
+
+  async function send(url: string, request: AgentRequest, opts: { signal?: AbortSignal; timeoutMs?: number } = {}): Promise<AgentResponse> {
+    if (!healthy.has(url)) await ping(url, opts.signal);
+    const timeoutMs = opts.timeoutMs ?? config.timeoutMs;
+    const attempts = IDEMPOTENT.has(request.action) ? config.retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await post(url, request, timeoutMs, opts.signal);
+      } catch (e) {
+        if (!(e instanceof AgentError)) throw e;
+        if (e.kind === "not_running") healthy.delete(url);
+        // Refused means nothing is listening, a malformed answer means the wrong thing is, and a 4xx (bad or empty
+        // JSON) is rejected the same way every time; none of them improves on retry
+        const retryable = e.kind === "timeout" ||
+          (e.kind === "http_error" && (e.status ?? 0) >= 500) ||
+          (e.kind === "not_running" && e.code !== "ECONNREFUSED");
+        if (!retryable || attempt >= attempts) {
+          if (attempt > 1) e.message += ` (after ${attempt} attempts)`;
+          throw e;
+        }
+        await retryDelay(RETRY_DELAY_MS * attempt, request.action, opts.signal);
+      }
+    }
+  }
+
+  return { config, send, ping };
+}
@@ -0,0 +1,134 @@
+import type { RgbaImage } from "./png";
+
+// Drawing on screenshots for sim_screenshot: element boxes with their
+// identifiers, a marker on the last tap, and cropping to one element. Works on
+// decoded RGBA in pixels; callers convert from points with the screen scale.
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Color = [number, number, number];
+
+/** Distinct, saturated colours that stay readable on light and dark UI. */
+export const PALETTE: Color[] = [
+  [230, 25, 75], [0, 130, 200], [60, 180, 75], [245, 130, 48],
+  [145, 30, 180], [0, 160, 160], [240, 50, 230], [128, 128, 0],
+];
+
+// Classic 5×7 font for printable ASCII: five column bytes per glyph, bit 0 is the top row
+const FONT = Buffer.from(
+  "0000000000" + "00005f0000" + "0007000700" + "147f147f14" + "242a7f2a12" + "2313086462" + "3649552250" + "0005030000" +
+  "001c224100" + "0041221c00" + "082a1c2a08" + "08083e0808" + "0050300000" + "0808080808" + "0060600000" + "2010080402" +
+  "3e5149453e" + "00427f4000" + "4261514946" + "2141454b31" + "1814127f10" + "2745454539" + "3c4a494930" + "0171090503" +
+  "3649494936" + "064949291e" + "0036360000" + "0056360000" + "0814224100" + "1414141414" + "0041221408" + "0201510906" +
+  "3249794136" + "7e1111117e" + "7f49494936" + "3e41414122" + "7f4141221c" + "7f49494941" + "7f09090101" + "3e41415132" +
+  "7f0808087f" + "00417f4100" + "2040413f01" + "7f08142241" + "7f40404040" + "7f0204027f" + "7f0408107f" + "3e4141413e" +
+  "7f09090906" + "3e4151215e" + "7f09192946" + "4649494931" + "01017f0101" + "3f4040403f" + "1f2040201f" + "7f2018207f" +
+  "6314081463" + "0304780403" + "6151494543" + "007f414100" + "0204081020" + "0041417f00" + "0402010204" + "4040404040" +
+  "0001020400" + "2054545478" + "7f48444438" + "3844444420" + "384444487f" + "3854545418" + "087e090102" + "081454543c" +
+  "7f08040478" + "00447d4000" + "2040443d00" + "007f102844" + "00417f4000" + "7c04180478" + "7c08040478" + "3844444438" +
+  "7c14141408" + "081414187c" + "7c08040408" + "4854545420" + "043f444020" + "3c4040207c" + "1c2040201c" + "3c4030403c" +
+  "4428102844" + "0c5050503c" + "4464544c44" + "0008364100" + "00007f0000" + "0041360800" + "0804081008",
+  "hex"
+);
+
+const GLYPH_W = 5;
+const GLYPH_H = 7;
+
+function blend(image: RgbaImage, x: number, y: number, color: Color, alpha = 1): void {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  const p = (y * image.width + x) * 4;
+  const d = image.data;
+  d[p] = Math.round(d[p] * (1 - alpha) + color[0] * alpha);
+  d[p + 1] = Math.round(d[p + 1] * (1 - alpha) + color[1] * alpha);
+  d[p + 2] = Math.round(d[p + 2] * (1 - alpha) + color[2] * alpha);
+  d[p + 3] = 255;
+}
+
+export function fillRect(image: RgbaImage, r: PixelRect, color: Color, alpha = 1): void {
+  const x0 = Math.max(0, Math.round(r.x)), x1 = Math.min(image.width, Math.round(r.x + r.width));
+  const y0 = Math.max(0, Math.round(r.y)), y1 = Math.min(image.height, Math.round(r.y + r.height));
+  for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) blend(image, x, y, color, alpha);
+}
+
+export function strokeRect(image: RgbaImage, r: PixelRect, color: Color, thickness: number): void {
+  fillRect(image, { x: r.x, y: r.y, width: r.width, height: thickness }, color);
+  fillRect(image, { x: r.x, y: r.y + r.height - thickness, width: r.width, height: thickness }, color);
+  fillRect(image, { x: r.x, y: r.y, width: thickness, height: r.height }, color);
+  fillRect(image, { x: r.x + r.width - thickness, y: r.y, width: thickness, height: r.height }, color);
+}
+
+/** Pixel size of `text` drawn at `scale` (each font dot is scale×scale pixels). */
+export function textSize(text: string, scale: number): { width: number; height: number } {
+  return { width: text.length * (GLYPH_W + 1) * scale - scale, height: GLYPH_H * scale };
+}
+
+/** Draw `text` with its top-left corner at (x, y). Characters outside printable ASCII render as '?'. */
+export function drawText(image: RgbaImage, x: number, y: number, text: string, scale: number, color: Color): void {
+  for (let i = 0; i < text.length; i++) {
+    let code = text.charCodeAt(i);
+    if (code < 0x20 || code > 0x7e) code = 0x3f;
+    const glyph = (code - 0x20) * GLYPH_W;
+    const left = x + i * (GLYPH_W + 1) * scale;
+    for (let col = 0; col < GLYPH_W; col++) {
+      const bits = FONT[glyph + col];
+      for (let row = 0; row < GLYPH_H; row++) {
+        if (bits & (1 << row)) fillRect(image, { x: left + col * scale, y: y + row * scale, width: scale, height: scale }, color);
+      }
+    }
+  }
+}
+
+/**
+ * A box around `r` with `text` on a filled tab above it (inside the box when
+ * there is no room above), clamped to the image.
+ */
+export function labelBox(image: RgbaImage, r: PixelRect, text: string, color: Color, scale: number): void {
+  const thickness = Math.max(2, scale);
+  strokeRect(image, r, color, thickness);
+  if (!text) return;
+  const pad = scale;
+  const size = textSize(text, scale);
+  const tab = { width: size.width + pad * 2, height: size.height + pad * 2 };
+  const tx = Math.max(0, Math.min(Math.round(r.x), image.width - tab.width));
+  const ty = r.y - tab.height >= 0 ? Math.round(r.y - tab.height) : Math.round(r.y);
+  fillRect(image, { x: tx, y: ty, ...tab }, color, 0.85);
+  drawText(image, tx + pad, ty + pad, text, scale, [255, 255, 255]);
+}
+
+/** A ring with a dot at its centre and crosshair ticks, for a tap point. */
+export function markPoint(image: RgbaImage, cx: number, cy: number, radius: number, color: Color): void {
+  const thickness = Math.max(2, Math.round(radius / 6));
+  const outer = radius * radius, inner = (radius - thickness) * (radius - thickness);
+  const dot = (thickness * 1.5) ** 2;
+  for (let y = Math.floor(cy - radius); y <= cy + radius; y++) {
+    for (let x = Math.floor(cx - radius); x <= cx + radius; x++) {
+      const d = (x - cx) ** 2 + (y - cy) ** 2;
+      if ((d <= outer && d >= inner) || d <= dot) blend(image, x, y, color);
+    }
+  }
+  const tick = Math.round(radius / 2);
+  const half = Math.floor(thickness / 2);
+  fillRect(image, { x: cx - radius - tick, y: cy - half, width: tick, height: thickness }, color);
+  fillRect(image, { x: cx + radius, y: cy - half, width: tick, height: thickness }, color);
+  fillRect(image, { x: cx - half, y: cy - radius - tick, width: thickness, height: tick }, color);
+  fillRect(image, { x: cx - half, y: cy + radius, width: thickness, height: tick }, color);
+}
+
+/** The part of `image` inside `r`, clamped to its bounds. Throws when nothing is left. */
+export function crop(image: RgbaImage, r: PixelRect): RgbaImage {
+  const x0 = Math.max(0, Math.floor(r.x)), x1 = Math.min(image.width, Math.ceil(r.x + r.width));
+  const y0 = Math.max(0, Math.floor(r.y)), y1 = Math.min(image.height, Math.ceil(r.y + r.height));
+  if (x1 <= x0 || y1 <= y0) throw new Error("Crop region is outside the screenshot");
+  const width = x1 - x0, height = y1 - y0;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const src = ((y0 + y) * image.width + x0) * 4;
+    data.set(image.data.subarray(src, src + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
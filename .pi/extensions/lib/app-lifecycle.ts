@@ -0,0 +1,231 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { DeviceDriver, InstalledApp } from "./driver";
+import { waitForElement } from "./elements";
+import { parseXmlPlist } from "./plist";
+import type { Selector } from "./selector";
+
+// Install, remove, wipe and upgrade behind the sim_app_* tools. Everything
+// goes through DeviceDriver, so the fake driver, or the idb driver pointed at a
+// stub simctl with SIMCTL_PATH, exercises the same sequences as a simulator.
+
+export interface BundleInfo {
+  bundleId: string;
+  name: string | null;
+  version: string | null;
+  build: string | null;
+}
+
+function text(v: unknown): string | null {
+  return typeof v === "string" || typeof v === "number" ? String(v) : null;
+}
+
+/**
+ * Identifier and version of an .app bundle from its Info.plist. Built apps
+ * usually carry a binary plist, which needs macOS's plutil to read.
+ */
+export function readBundleInfo(appPath: string): BundleInfo {
+  if (!fs.existsSync(appPath) || !fs.statSync(appPath).isDirectory()) throw new Error(`No .app bundle at ${appPath}`);
+  const plistPath = path.join(appPath, "Info.plist");
+  if (!fs.existsSync(plistPath)) throw new Error(`${appPath} has no Info.plist; is it an .app bundle?`);
+  let xml = fs.readFileSync(plistPath, "utf-8");
+  if (xml.startsWith("bplist")) {
+    try {
+      xml = execFileSync("plutil", ["-convert", "xml1", "-o", "-", plistPath], { encoding: "utf-8", timeout: 5000 });
+    } catch (e: any) {
+      throw new Error(`Could not convert the binary Info.plist in ${appPath} (plutil: ${e.message})`);
+    }
+  }
+  const info = parseXmlPlist(xml) as Record<string, unknown>;
+  const bundleId = text(info.CFBundleIdentifier);
+  if (!bundleId) throw new Error(`${plistPath} has no CFBundleIdentifier`);
+  return {
+    bundleId,
+    name: text(info.CFBundleDisplayName) ?? text(info.CFBundleName),
+    version: text(info.CFBundleShortVersionString),
+    build: text(info.CFBundleVersion),
+  };
+}
+
+/** "org.convos.ios-preview 1.4.0 (212)" */
+export function describeApp(app: { bundleId: string; version: string | null; build: string | null }): string {
+  return `${app.bundleId} ${app.version ?? "?"} (${app.build ?? "?"})`;
+}
+
+export interface WipedContainer {
+  /** "data", or the App Group identifier. */
+  container: string;
+  path: string;
+  /** Files removed, directories not counted. */
+  files: number;
+}
+
+// Recreated after a wipe so the app finds the sandbox it was installed with
+const SANDBOX_DIRS = ["Documents", "Library/Caches", "Library/Preferences", "tmp"];
+
+function countFiles(dir: string): number {
+  let n = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    n += entry.isDirectory() ? countFiles(path.join(dir, entry.name)) : 1;
+  }
+  return n;
+}
+
+function emptyDirectory(dir: string): number {
+  if (!fs.existsSync(dir)) return 0;
+  const files = countFiles(dir);
+  for (const entry of fs.readdirSync(dir)) fs.rmSync(path.join(dir, entry), { recursive: true, force: true });
+  return files;
+}
+
+/**
+ * Terminate the app and empty its data container and every App Group
+ * container, leaving the app installed. Returns null when it isn't installed.
+ * Keychain items are not touched; they outlive even an uninstall.
+ */
+export async function wipeAppData(driver: DeviceDriver, udid: string, bundleId: string, signal?: AbortSignal): Promise<WipedContainer[] | null> {
+  const app = await driver.appInfo(udid, bundleId, signal);
+  if (!app) return null;
+  await driver.terminate(udid, bundleId, signal);
+  const wiped: WipedContainer[] = [];
+  if (app.dataContainer) {
+    wiped.push({ container: "data", path: app.dataContainer, files: emptyDirectory(app.dataContainer) });
+    for (const dir of SANDBOX_DIRS) fs.mkdirSync(path.join(app.dataContainer, dir), { recursive: true });
+  }
+  for (const [group, dir] of Object.entries(app.groupContainers)) {
+    wiped.push({ container: group, path: dir, files: emptyDirectory(dir) });
+  }
+  return wiped;
+}
+
+// --- Upgrade ---
+
+export interface UpgradeOptions {
+  oldApp: string;
+  newApp: string;
+  /** Uninstall first, so the old build starts from nothing. */
+  clean: boolean;
+  /** Shown by the old build once it has set up its data; otherwise wait settleMs. */
+  waitForOld?: Selector;
+  settleMs: number;
+  launchNew: boolean;
+  /** Shown by the new build once it is up. */
+  waitForNew?: Selector;
+  timeoutMs: number;
+}
+
+export interface UpgradeStep {
+  name: string;
+  ok: boolean;
+  detail: string;
+  ms: number;
+}
+
+export interface UpgradeResult {
+  ok: boolean;
+  steps: UpgradeStep[];
+  /** The old build as installed, and the new one after installing over it. */
+  before?: InstalledApp;
+  after?: InstalledApp;
+}
+
+/**
+ * Install the old build, run it, then install the new build over it the way
+ * an App Store update does, keeping its data. Stops at the first failed step.
+ * `onStep` hears about each step as it finishes.
+ */
+export async function runUpgrade(
+  driver: DeviceDriver,
+  udid: string,
+  opts: UpgradeOptions,
+  onStep: (step: UpgradeStep) => void,
+  signal?: AbortSignal
+): Promise<UpgradeResult> {
+  const result: UpgradeResult = { ok: false, steps: [] };
+
+  async function step(name: string, run: () => Promise<string>): Promise<boolean> {
+    if (signal?.aborted) return false;
+    const start = Date.now();
+    let s: UpgradeStep;
+    try {
+      s = { name, ok: true, detail: await run(), ms: Date.now() - start };
+    } catch (e: any) {
+      s = { name, ok: false, detail: e.message, ms: Date.now() - start };
+    }
+    result.steps.push(s);
+    onStep(s);
+    return s.ok;
+  }
+
+  async function waitUntilUp(target: Selector | undefined): Promise<string> {
+    if (!target) {
+      await new Promise(resolve => setTimeout(resolve, opts.settleMs));
+      return `ran for ${opts.settleMs / 1000}s`;
+    }
+    const outcome = await waitForElement(driver, udid, target, { timeoutMs: opts.timeoutMs, intervalMs: 500 }, signal);
+    if (!outcome.element) throw new Error(`"${target.text}" did not appear within ${opts.timeoutMs / 1000}s`);
+    return `"${target.text}" appeared after ${(outcome.elapsedMs / 1000).toFixed(1)}s`;
+  }
+
+  let oldInfo: BundleInfo | undefined;
+  let newInfo: BundleInfo | undefined;
+  const ready = await step("read bundles", async () => {
+    oldInfo = readBundleInfo(opts.oldApp);
+    newInfo = readBundleInfo(opts.newApp);
+    if (oldInfo.bundleId !== newInfo.bundleId) {
+      throw new Error(`The builds are different apps (${oldInfo.bundleId} and ${newInfo.bundleId}); an upgrade needs the same bundle identifier`);
+    }
+    const same = oldInfo.version === newInfo.version && oldInfo.build === newInfo.build;
+    return `${describeApp(oldInfo)} → ${newInfo.version ?? "?"} (${newInfo.build ?? "?"})${same ? "; both builds carry the same version and build number" : ""}`;
+  });
+  if (!ready || !oldInfo || !newInfo) return result;
+  const bundleId = oldInfo.bundleId;
+
+  if (opts.clean && !await step("uninstall", async () => {
+    const existing = await driver.appInfo(udid, bundleId, signal);
+    await driver.uninstall(udid, bundleId, signal);
+    return existing ? `removed ${describeApp(existing)} and its data` : "was not installed";
+  })) return result;
+
+  if (!await step("install old build", async () => {
+    await driver.install(udid, opts.oldApp, signal);
+    const installed = await driver.appInfo(udid, bundleId, signal);
+    if (!installed) throw new Error(`${bundleId} is not installed after simctl install`);
+    if (installed.build !== oldInfo!.build) throw new Error(`installed build is ${installed.build}, expected ${oldInfo!.build}`);
+    result.before = installed;
+    return describeApp(installed);
+  })) return result;
+
+  if (!await step("launch old build", async () => {
+    await driver.launch(udid, bundleId, signal);
+    return await waitUntilUp(opts.waitForOld);
+  })) return result;
+
+  if (!await step("terminate old build", async () => {
+    await driver.terminate(udid, bundleId, signal);
+    return "terminated";
+  })) return result;
+
+  if (!await step("install new build over it", async () => {
+    await driver.install(udid, opts.newApp, signal);
+    const installed = await driver.appInfo(udid, bundleId, signal);
+    if (!installed) throw new Error(`${bundleId} is not installed after simctl install`);
+    if (installed.build !== newInfo!.build) throw new Error(`installed build is ${installed.build}, expected ${newInfo!.build}`);
+    result.after = installed;
+    const kept = installed.dataContainer && installed.dataContainer === result.before?.dataContainer;
+    return `${describeApp(installed)}; data container ${kept ? "kept" : `changed (was ${result.before?.dataContainer ?? "none"})`}`;
+  })) return result;
+
+  if (opts.launchNew && !await step("launch new build", async () => {
+    await driver.launch(udid, bundleId, signal);
+    return await waitUntilUp(opts.waitForNew);
+  })) return result;
+
+  result.ok = true;
+  return result;
+}
+
+export function formatStep(s: UpgradeStep): string {
+  return `${s.ok ? "✓" : "✗"} ${s.name} (${(s.ms / 1000).toFixed(1)}s): ${s.detail}`;
+}
@@ -0,0 +1,151 @@
+import { AgentError, type AgentClient, type AgentResponse, type UIElementInfo } from "./agent-client";
+import type { AXElement, DeviceDriver } from "./driver";
+import { findElements, findMatchingElements, tapElement, typeInField } from "./elements";
+import { toWire, type Selector } from "./selector";
+
+// The backend behind sim_tap, sim_fill and sim_elements: QAAutomationServer
+// (XCUITest, lib/agent-client.ts) when it answers ping, idb otherwise. Both
+// report elements as AXElement so the tools format and match them one way,
+// and every result says which backend served it.
+
+export type BackendName = "xcuitest" | "idb";
+
+export type ActionOutcome =
+  | { ok: true; element?: AXElement }
+  | { ok: false; reason: "not_found"; message: string; elements?: AXElement[] }
+  | { ok: false; reason: "ambiguous"; matches: AXElement[] }
+  | { ok: false; reason: "disabled"; element: AXElement }
+  | { ok: false; reason: "failed"; message: string };
+
+/** XCUITest's element in the idb shape: elementType "textField" becomes type "TextField", role "AXTextField". */
+export function fromAgentElement(el: UIElementInfo): AXElement {
+  const type = el.elementType ? el.elementType[0].toUpperCase() + el.elementType.slice(1) : "Other";
+  return {
+    AXUniqueId: el.identifier || null,
+    AXLabel: el.label || null,
+    AXValue: el.value || el.placeholderValue || null,
+    type,
+    role: `AX${type}`,
+    frame: { ...el.frame },
+    enabled: el.isEnabled,
+  };
+}
+
+export interface BackendSession {
+  /** The backend now serving; becomes "idb" if XCUITest drops out mid-session. */
+  readonly name: BackendName;
+  /** Why XCUITest isn't serving, when it isn't. */
+  readonly fallbackReason?: string;
+  /** Elements on screen; with a target, the ones it matches (idb includes the toolbar probe). */
+  elements(target?: string | Selector, signal?: AbortSignal): Promise<AXElement[]>;
+  /** Wait up to `timeout` seconds for the element, then tap it. */
+  tap(selector: Selector, opts: { timeout: number }, signal?: AbortSignal): Promise<ActionOutcome>;
+  fill(selector: Selector, text: string, clearFirst: boolean, signal?: AbortSignal): Promise<ActionOutcome>;
+}
+
+export interface HybridBackend {
+  /**
+   * Pick the backend for one tool call. "auto" pings the device's
+   * QAAutomationServer and uses it when it answers; the other values force one.
+   */
+  connect(udid: string, agentUrl: string, prefer: "auto" | BackendName, signal?: AbortSignal): Promise<BackendSession>;
+}
+
+function agentFailure(resp: AgentResponse, fallback: string): ActionOutcome {
+  if (resp.matches?.length) return { ok: false, reason: "ambiguous", matches: resp.matches.map(fromAgentElement) };
+  const message = resp.error || fallback;
+  return /not found/i.test(message) ? { ok: false, reason: "not_found", message } : { ok: false, reason: "failed", message };
+}
+
+// The reason line for a result; the full error (with the start hint) is what forcing xcuitest reports
+function fallbackReasonFor(e: any, agentUrl: string): string {
+  if (e instanceof AgentError && e.kind === "not_running") return `QAAutomationServer not reachable at ${agentUrl}`;
+  if (e instanceof AgentError && e.kind === "timeout") return `QAAutomationServer at ${agentUrl} timed out`;
+  return e.message;
+}
+
+export function createHybridBackend(driver: DeviceDriver, agent: AgentClient): HybridBackend {
+  async function connect(udid: string, agentUrl: string, prefer: "auto" | BackendName, signal?: AbortSignal): Promise<BackendSession> {
+    let name: BackendName = prefer === "idb" ? "idb" : "xcuitest";
+    let fallbackReason: string | undefined = prefer === "idb" ? "idb requested" : undefined;
+    if (prefer === "auto") {
+      try {
+        await agent.ping(agentUrl, signal);
+      } catch (e: any) {
+        if (e instanceof AgentError && e.kind === "cancelled") throw e;
+        name = "idb";
+        fallbackReason = fallbackReasonFor(e, agentUrl);
+      }
+    }
+
+    // A request that never reached the server can go to idb instead. Reads can
+    // always be repeated there; an action only when the server can't have
+    // started it (connection refused), or a tap could land twice.
+    async function run<T>(repeatable: boolean, viaAgent: () => Promise<T>, viaIdb: () => Promise<T>): Promise<T> {
+      if (name === "idb") return viaIdb();
+      try {
+        return await viaAgent();
+      } catch (e) {
+        const unreached = e instanceof AgentError && e.kind === "not_running" && e.code === "ECONNREFUSED";
+        if (prefer !== "auto" || !(e instanceof AgentError) || e.kind === "cancelled" || !(repeatable || unreached)) throw e;
+        name = "idb";
+        fallbackReason = fallbackReasonFor(e, agentUrl);
+        return viaIdb();
+      }
+    }
+
+    const session: BackendSession = {
+      get name() { return name; },
+      get fallbackReason() { return fallbackReason; },
+
+      elements(target, signal) {
+        return run(true, async () => {
+          const resp = await agent.send(agentUrl, { action: "observeScreen", params: {}, observe: true }, { signal });
+          if (!resp.success || !resp.screenState) throw new AgentError("malformed_response", resp.error || "observeScreen returned no screen state");
+          const all = [...resp.screenState.elements, ...resp.screenState.alerts].map(fromAgentElement);
+          if (target === undefined) return all.filter(el => el.AXUniqueId || el.AXLabel);
+          if (typeof target !== "string") return findElements(all, target);
+          const lower = target.toLowerCase();
+          return all.filter(el => [el.AXUniqueId, el.AXLabel, el.AXValue].some(v => v?.toLowerCase().includes(lower)));
+        }, () => findMatchingElements(driver, udid, target, signal));
+      },
+
+      tap(selector, opts, signal) {
+        return run(false, async () => {
+          const resp = await agent.send(agentUrl, { action: "tapElement", params: { selector: toWire(selector), timeout: opts.timeout } }, { signal });
+          if (!resp.success) return agentFailure(resp, `Element not found: ${selector.text}`);
+          return { ok: true, element: resp.tappedElement && fromAgentElement(resp.tappedElement) };
+        }, async () => {
+          // tapElement retries once a second, so the retry count is the wait
+          const outcome = await tapElement(driver, udid, selector, { retries: Math.max(0, Math.floor(opts.timeout)) }, signal);
+          if (outcome.ok) return outcome;
+          switch (outcome.reason) {
+            case "not_found": return { ok: false, reason: "not_found", message: `Element not found: "${selector.text}"`, elements: outcome.elements };
+            case "ambiguous": return outcome;
+            case "disabled": return outcome;
+            default: return { ok: false, reason: "failed", message: outcome.message };
+          }
+        });
+      },
+
+      fill(selector, text, clearFirst, signal) {
+        return run(false, async () => {
+          const resp = await agent.send(agentUrl, { action: "fillField", params: { selector: toWire(selector), text, clearFirst } }, { signal });
+          if (!resp.success) return agentFailure(resp, `Field not found: ${selector.text}`);
+          return { ok: true };
+        }, async () => {
+          const outcome = await typeInField(driver, udid, selector, text, clearFirst, signal);
+          if (outcome.ok) return outcome;
+          switch (outcome.reason) {
+            case "not_found": return { ok: false, reason: "not_found", message: `Field not found: "${selector.text}"` };
+            case "ambiguous": return outcome;
+            default: return { ok: false, reason: "failed", message: outcome.message };
+          }
+        });
+      },
+    };
+    return session;
+  }
+
+  return { connect };
+}
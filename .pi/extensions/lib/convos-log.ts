@@ -0,0 +1,150 @@
+// Parser for the app's convos.log. Every entry starts with a header line:
+//
+//   [2026-02-13T10:00:05Z] [error] [XMTPClient.swift:301] [ConvosCore] message [k=v metadata]
+//
+// followed by zero or more continuation lines (stack traces, wrapped payloads)
+// that belong to it. QA events are entries whose message starts with [EVENT]:
+//
+//   ... [ConvosCore] [EVENT] message.received conversation=7f3a9c id=m1 type=text
+
+export type LogLevel = "trace" | "debug" | "info" | "notice" | "warning" | "error" | "critical";
+
+export interface AppEvent {
+  name: string;
+  params: Record<string, string>;
+}
+
+export interface LogRecord {
+  /** ISO-8601 timestamp exactly as written (second or sub-second resolution). */
+  timestamp: string;
+  level: LogLevel | string;
+  /** Emitting file and line, e.g. "XMTPClient.swift:301". */
+  source: string | null;
+  /** Logger namespace, e.g. "ConvosCore". */
+  category: string | null;
+  /** Header message with any trailing [k=v] metadata block removed. */
+  message: string;
+  /** Trailing `[k=v k=v]` block, if present. */
+  metadata: Record<string, string>;
+  /** Lines after the header that belong to this entry. */
+  continuation: string[];
+  event?: AppEvent;
+  /** The entry as written: header plus continuation lines (blank lines dropped). */
+  raw: string;
+  /** Offset in the parsed text just past the entry's last line and its newline. */
+  end: number;
+}
+
+const HEADER_RE = /^\[(\d{4}-\d{2}-\d{2}T[\d:.]+Z)\]\s+\[(\w+)\]\s*(.*)$/;
+const BRACKET_RE = /^\[([^\]]*)\]\s*/;
+
+export function parseKeyValues(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const token of text.trim().split(/\s+/)) {
+    const eq = token.indexOf("=");
+    if (eq > 0) out[token.slice(0, eq)] = token.slice(eq + 1);
+  }
+  return out;
+}
+
+function parseHeader(line: string): LogRecord | null {
+  const m = line.match(HEADER_RE);
+  if (!m) return null;
+
+  // Up to two bracketed prefixes: [File.swift:line] then [Namespace]
+  let rest = m[3];
+  let source: string | null = null;
+  let category: string | null = null;
+  let b = rest.match(BRACKET_RE);
+  if (b && b[1] !== "EVENT" && /\.\w+:\d+$/.test(b[1])) {
+    source = b[1];
+    rest = rest.slice(b[0].length);
+    b = rest.match(BRACKET_RE);
+  }
+  if (b && b[1] !== "EVENT") {
+    category = b[1];
+    rest = rest.slice(b[0].length);
+  }
+
+  let message = rest.trim();
+  let metadata: Record<string, string> = {};
+  const meta = message.match(/\s*\[([^\[\]]*=[^\[\]]*)\]$/);
+  if (meta) {
+    metadata = parseKeyValues(meta[1]);
+    message = message.slice(0, meta.index).trimEnd();
+  }
+
+  const record: LogRecord = {
+    timestamp: m[1],
+    level: m[2],
+    source,
+    category,
+    message,
+    metadata,
+    continuation: [],
+    raw: line,
+    end: 0,
+  };
+
+  const ev = message.match(/^\[EVENT\]\s+(\S+)\s*(.*)$/);
+  if (ev) record.event = { name: ev[1], params: parseKeyValues(ev[2]) };
+  return record;
+}
+
+/**
+ * Parse log text into records. Continuation lines attach to the entry above
+ * them; continuation lines before the first header (a read that started
+ * mid-entry) are dropped.
+ */
+export function parseLog(text: string): LogRecord[] {
+  const records: LogRecord[] = [];
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const end = Math.min(text.length, offset + line.length + 1);
+    offset = end;
+    if (line.trim().length === 0) continue;
+    const record = parseHeader(line);
+    if (record) {
+      record.end = end;
+      records.push(record);
+    } else if (records.length > 0) {
+      const last = records[records.length - 1];
+      last.continuation.push(line);
+      last.raw += "\n" + line;
+      last.end = end;
+    }
+  }
+  return records;
+}
+
+export function isError(r: LogRecord): boolean {
+  return r.level === "error" || r.level === "critical";
+}
+
+export function isWarning(r: LogRecord): boolean {
+  return r.level === "warning";
+}
+
+/** Filters shared by the log tools' `level` parameter. */
+export function matchesLevel(r: LogRecord, level: string): boolean {
+  switch (level) {
+    case "warning+error": return isWarning(r) || isError(r);
+    case "error": return isError(r);
+    case "events": return r.event !== undefined;
+    default: return true;
+  }
+}
+
+/** The record as the log tools return it in `format: "json"`. */
+export function recordToJson(r: LogRecord) {
+  return {
+    timestamp: r.timestamp,
+    level: r.level,
+    source: r.source,
+    category: r.category,
+    message: r.message,
+    ...(Object.keys(r.metadata).length > 0 ? { metadata: r.metadata } : {}),
+    ...(r.event ? { event: r.event.name, params: r.event.params } : {}),
+    ...(r.continuation.length > 0 ? { continuation: r.continuation } : {}),
+  };
+}
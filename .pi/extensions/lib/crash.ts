@@ -0,0 +1,288 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { DeviceDriver } from "./driver";
+import { readLogTail } from "./log-cursor";
+
+// Crash detection for the tools that act on the app. A crash mid-test looks
+// like any other failure from the outside (the element isn't there, the event
+// never comes), so the watch remembers the app's process id before an action
+// and looks again after it: a process that vanished, or a new .ips report in
+// DiagnosticReports, is a crash. The report says why; the tail of convos.log
+// says what the app was doing.
+//
+// Launching, terminating, installing and uninstalling change the process on
+// purpose, so those forget the device and the next action starts watching
+// afresh. That first watch still looks for reports written since the forget,
+// and an app that a tool launched but that is no longer running by then
+// crashed on the way up.
+//
+// The pid comes from `simctl spawn <udid> launchctl list`: one call after
+// every checked tool, and one before the first one and the first after a forget.
+
+/** How long to wait for iOS to write the report after the process is gone. */
+const REPORT_WAIT_MS = 3000;
+const REPORT_POLL_MS = 500;
+const MAX_FRAMES = 12;
+const LOG_TAIL_LINES = 15;
+
+export interface CrashReport {
+  file: string;
+  app: string;
+  bundleId: string;
+  timestamp: string | null;
+  /** "EXC_BREAKPOINT (SIGTRAP)" */
+  exceptionType: string;
+  /** Termination reason, e.g. "Trace/BPT trap: 5". */
+  termination: string | null;
+  /** What the runtime said before aborting (Swift fatal errors, uncaught exceptions). */
+  messages: string[];
+  crashedThread: { index: number; name: string | null } | null;
+  /** The crashed thread's frames, formatted like a symbolicated crash log. */
+  frames: string[];
+}
+
+export interface Crash {
+  udid: string;
+  bundleId: string;
+  detectedAt: string;
+  /** The app's pid before the action, and after it (null once it is gone). */
+  pidBefore: number | null;
+  pidAfter: number | null;
+  report: CrashReport | null;
+  /** Why a report that was found could not be read. */
+  reportError?: string;
+  /** Last convos.log lines on the device. */
+  logTail: string[];
+}
+
+/** Parse an .ips crash report: a JSON header line followed by the JSON report. */
+export function parseIpsReport(text: string, file: string): CrashReport {
+  const newline = text.indexOf("\n");
+  let header: any;
+  let body: any;
+  try {
+    header = JSON.parse(text.slice(0, newline));
+    body = JSON.parse(text.slice(newline + 1));
+  } catch {
+    throw new Error(`${path.basename(file)} is not a JSON .ips report`);
+  }
+  const exception = body.exception ?? {};
+  const exceptionType = exception.type
+    ? `${exception.type}${exception.signal ? ` (${exception.signal})` : ""}`
+    : "unknown exception";
+  const messages = Object.values(body.asi ?? {}).flat().map(String);
+  if (exception.message) messages.push(String(exception.message));
+
+  const threads: any[] = body.threads ?? [];
+  let index = typeof body.faultingThread === "number" ? body.faultingThread : threads.findIndex(t => t.triggered);
+  if (!threads[index]) index = -1;
+  const thread = threads[index];
+  const images: any[] = body.usedImages ?? [];
+  const frames = (thread?.frames ?? []).slice(0, MAX_FRAMES).map((f: any, i: number) => {
+    const image = String(images[f.imageIndex]?.name ?? "???");
+    const where = f.symbol ? `${f.symbol} + ${f.symbolLocation ?? 0}` : `0x${Number(f.imageOffset ?? 0).toString(16)}`;
+    const source = f.sourceFile ? ` (${f.sourceFile}:${f.sourceLine ?? "?"})` : "";
+    return `${String(i).padEnd(3)}${image.padEnd(24)}${where}${source}`;
+  });
+
+  return {
+    file,
+    app: String(header.app_name ?? header.name ?? body.procName ?? "app"),
+    bundleId: String(header.bundleID ?? body.bundleInfo?.CFBundleIdentifier ?? ""),
+    timestamp: header.timestamp ?? body.captureTime ?? null,
+    exceptionType,
+    termination: body.termination?.indicator ?? null,
+    messages,
+    crashedThread: thread ? { index, name: thread.name ?? thread.queue ?? null } : null,
+    frames,
+  };
+}
+
+/**
+ * .ips reports modified since `sinceMs` for `bundleId` (or one of its
+ * extensions) on this device, oldest first. The Mac's DiagnosticReports holds
+ * reports from every simulator, so the report must mention the device's udid
+ * (its procPath runs through the device's data directory).
+ */
+export function findCrashReports(dirs: string[], udid: string, bundleId: string, sinceMs: number): string[] {
+  const found: { file: string; mtime: number }[] = [];
+  for (const dir of dirs) {
+    let names: string[];
+    try {
+      names = fs.readdirSync(dir);
+    } catch {
+      continue;
+    }
+    for (const name of names) {
+      if (!name.endsWith(".ips")) continue;
+      const file = path.join(dir, name);
+      try {
+        const mtime = fs.statSync(file).mtimeMs;
+        if (mtime < sinceMs) continue;
+        const text = fs.readFileSync(file, "utf-8");
+        const header = JSON.parse(text.slice(0, text.indexOf("\n")));
+        const id = String(header.bundleID ?? "");
+        if ((id === bundleId || id.startsWith(`${bundleId}.`)) && text.includes(udid)) found.push({ file, mtime });
+      } catch {}
+    }
+  }
+  return found.sort((a, b) => a.mtime - b.mtime).map(f => f.file);
+}
+
+export interface CrashWatch {
+  /** Note the app's pid so the next check can tell whether it died. Does nothing if already watching. */
+  watch(udid: string, signal?: AbortSignal): Promise<void>;
+  /** Look for a crash since the last watch or check. */
+  check(udid: string, signal?: AbortSignal): Promise<Crash | null>;
+  /**
+   * Stop watching until the next watch(), after the app was launched, terminated or (un)installed on purpose.
+   * `launched` is the bundle id just launched, if any.
+   */
+  forget(udid: string, opts?: { launched?: string }): void;
+  /** The most recent crash found on the device. */
+  last(udid: string): Crash | undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function createCrashWatch(driver: DeviceDriver, bundleId: string): CrashWatch {
+  const watched = new Map<string, { pid: number | null; since: number; diedAfterLaunch: boolean }>();
+  // When each device was last forgotten, and whether the app was launched then
+  const forgotten = new Map<string, { at: number; launched: boolean }>();
+  // Reports already turned into a Crash, so one crash is reported once
+  const seen = new Set<string>();
+  const lastCrash = new Map<string, Crash>();
+
+  async function pidOf(udid: string, signal?: AbortSignal): Promise<number | null> {
+    try {
+      return await driver.appPid(udid, bundleId, signal);
+    } catch {
+      return null;
+    }
+  }
+
+  function newReports(udid: string, since: number): string[] {
+    return findCrashReports(driver.crashReportDirs(udid), udid, bundleId, since).filter(f => !seen.has(f));
+  }
+
+  return {
+    async watch(udid, signal) {
+      if (watched.has(udid)) return;
+      const after = forgotten.get(udid);
+      forgotten.delete(udid);
+      // Reports are matched by mtime, so allow for a report written a moment before the pid was read,
+      // or since the launch or install that forgot the device
+      const since = (after?.at ?? Date.now()) - 1000;
+      const pid = await pidOf(udid, signal);
+      watched.set(udid, { pid, since, diedAfterLaunch: after?.launched === true && pid === null });
+    },
+
+    async check(udid, signal) {
+      let state = watched.get(udid);
+      if (!state) {
+        await this.watch(udid, signal);
+        state = watched.get(udid)!;
+        if (!state.diedAfterLaunch) return null;
+      }
+      const pid = await pidOf(udid, signal);
+      let reports = newReports(udid, state.since);
+      const gone = pid === null && (state.pid !== null || state.diedAfterLaunch);
+      if (gone && reports.length === 0) {
+        const deadline = Date.now() + REPORT_WAIT_MS;
+        while (reports.length === 0 && Date.now() < deadline && !signal?.aborted) {
+          await sleep(REPORT_POLL_MS);
+          reports = newReports(udid, state.since);
+        }
+      }
+      const pidBefore = state.pid;
+      state.pid = pid;
+      state.diedAfterLaunch = false;
+      // A different pid without a report is a relaunch from outside the tools, not a crash
+      if (!gone && reports.length === 0) return null;
+
+      for (const file of reports) seen.add(file);
+      const newest = reports[reports.length - 1];
+      let report: CrashReport | null = null;
+      let reportError: string | undefined;
+      if (newest) {
+        try {
+          report = parseIpsReport(fs.readFileSync(newest, "utf-8"), newest);
+        } catch (e: any) {
+          reportError = e.message;
+        }
+      }
+      let logTail: string[] = [];
+      const logFile = driver.findLogFile(udid);
+      if (logFile) {
+        try {
+          logTail = readLogTail(logFile, LOG_TAIL_LINES).text.split("\n").filter(l => l !== "");
+        } catch {}
+      }
+      const crash: Crash = {
+        udid,
+        bundleId,
+        detectedAt: new Date().toISOString(),
+        pidBefore,
+        pidAfter: pid,
+        report,
+        ...(reportError ? { reportError } : {}),
+        logTail,
+      };
+      lastCrash.set(udid, crash);
+      return crash;
+    },
+
+    forget(udid, opts) {
+      watched.delete(udid);
+      forgotten.set(udid, { at: Date.now(), launched: opts?.launched === bundleId });
+    },
+
+    last(udid) {
+      return lastCrash.get(udid);
+    },
+  };
+}
+
+/** One line for a bug title or a failed step's evidence. */
+export function crashSummary(crash: Crash): string {
+  const r = crash.report;
+  if (!r) {
+    const when = crash.pidBefore === null ? "after launch" : `(pid ${crash.pidBefore})`;
+    return `${crash.bundleId} stopped running ${when} without writing a crash report`;
+  }
+  const message = r.messages[0] ? ` — ${r.messages[0]}` : "";
+  const process = r.bundleId && r.bundleId !== crash.bundleId ? r.bundleId : r.app;
+  return `${process} crashed: ${r.exceptionType}${message}`;
+}
+
+/** The full account of a crash, for the tool result and the bug description. */
+export function formatCrash(crash: Crash): string {
+  const lines = [`CRASH: ${crashSummary(crash)}`];
+  const r = crash.report;
+  if (r) {
+    if (crash.pidAfter !== null && r.bundleId !== crash.bundleId) lines.push(`(${crash.bundleId} is still running as pid ${crash.pidAfter}; the report is for ${r.bundleId})`);
+    for (const m of r.messages.slice(1)) lines.push(m);
+    if (r.termination) lines.push(`Termination: ${r.termination}`);
+    if (r.crashedThread) {
+      lines.push(`Crashed thread ${r.crashedThread.index}${r.crashedThread.name ? ` (${r.crashedThread.name})` : ""}:`);
+      for (const f of r.frames) lines.push(`  ${f}`);
+    }
+    lines.push(`Report: ${r.file}`);
+  } else if (crash.reportError) {
+    lines.push(`The crash report could not be read: ${crash.reportError}`);
+  } else {
+    lines.push(
+      `No report appeared within ${REPORT_WAIT_MS / 1000}s. The system may have killed it (watchdog, memory), ` +
+      "or it was quit from outside the tools."
+    );
+  }
+  if (crash.logTail.length > 0) {
+    lines.push(`Last ${crash.logTail.length} convos.log lines:`);
+    for (const l of crash.logTail) lines.push(`  ${l}`);
+  } else {
+    lines.push("No convos.log on the device.");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,310 @@
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+
+// Direct CXDB access for the extensions. Same database and schema as
+// qa/cxdb/cxdb.sh, written through the sqlite3 CLI so nothing needs a native
+// module. The active run and test live in a JSON file next to the database:
+// every extension (and a fresh session after a context reset) sees the same
+// context, which in-memory state would not give us.
+
+export function cxdbPath(): string {
+  return process.env.CXDB_PATH || path.join(process.cwd(), "qa", "cxdb", "qa.sqlite");
+}
+
+export function artifactsRoot(): string {
+  return path.join(process.cwd(), "qa", "artifacts");
+}
+
+/** qa/artifacts/run-<run_id>/ — screenshot paths in CXDB are relative to this. */
+export function runArtifactDir(runId: string): string {
+  return path.join(artifactsRoot(), `run-${sanitizePathPart(runId)}`);
+}
+
+/** Same treatment snap.sh gives anything that lands in a file name. */
+export function sanitizePathPart(s: string): string {
+  return s.replace(/[^a-zA-Z0-9_-]/g, "-");
+}
+
+/**
+ * A sortable, collision-safe file name for a run artifact, as snap.sh builds
+ * them: UTC timestamp, test, step, then pid and a random number so parallel
+ * runners never collide.
+ */
+export function artifactFileName(testId: string | undefined, stepId: string, ext: string): string {
+  const ts = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "");
+  const testPart = sanitizePathPart(testId ?? "run");
+  const stepPart = sanitizePathPart(stepId).slice(0, 48);
+  return `${ts}-${testPart}-${stepPart}-${process.pid}${Math.floor(Math.random() * 32768)}.${ext}`;
+}
+
+/** 12-hex ids, matching cxdb.sh's uuid4().hex[:12]. */
+export function newId(): string {
+  return randomUUID().replace(/-/g, "").slice(0, 12);
+}
+
+export function sqlValue(v: string | number | boolean | null | undefined): string {
+  if (v === null || v === undefined) return "NULL";
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : "NULL";
+  if (typeof v === "boolean") return v ? "1" : "0";
+  return `'${v.replace(/'/g, "''")}'`;
+}
+
+export const SQL_NOW = "strftime('%Y-%m-%dT%H:%M:%SZ','now')";
+
+// --- Active QA context ---
+
+export interface QaContext {
+  run_id: string;
+  test_id?: string;
+  test_name?: string;
+  test_result_id?: string;
+  started_at?: string;
+}
+
+function contextPath(): string {
+  return path.join(path.dirname(cxdbPath()), ".qa-context.json");
+}
+
+export function readQaContext(): QaContext | null {
+  try {
+    const ctx = JSON.parse(fs.readFileSync(contextPath(), "utf-8"));
+    return ctx && typeof ctx.run_id === "string" ? ctx : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeQaContext(ctx: QaContext | null) {
+  const file = contextPath();
+  if (!ctx) {
+    try { fs.unlinkSync(file); } catch {}
+    return;
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(ctx, null, 2) + "\n");
+}
+
+// --- Database ---
+
+export interface Cxdb {
+  readonly path: string;
+  /** Run one or more statements. Throws with sqlite3's stderr on failure. */
+  exec(sql: string, signal?: AbortSignal): Promise<void>;
+  /** Run a SELECT and return its rows. */
+  query<T = Record<string, any>>(sql: string, signal?: AbortSignal): Promise<T[]>;
+}
+
+export function createCxdb(pi: ExtensionAPI): Cxdb {
+  const dbPath = cxdbPath();
+  const schemaPath = path.join(process.cwd(), "qa", "cxdb", "schema.sql");
+  let schemaApplied = false;
+
+  async function sqlite(args: string[], signal?: AbortSignal): Promise<string> {
+    const result = await pi.exec("sqlite3", args, { signal, timeout: 15000 });
+    if (result.code !== 0) {
+      throw new Error(`sqlite3 failed: ${(result.stderr || result.stdout).trim() || `exit ${result.code}`}`);
+    }
+    return result.stdout;
+  }
+
+  // Every statement in schema.sql is CREATE ... IF NOT EXISTS, so re-applying
+  // it once per session migrates new tables in, exactly like cxdb.sh's init_db.
+  async function ensureSchema(signal?: AbortSignal) {
+    if (schemaApplied) return;
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    if (!fs.existsSync(schemaPath)) throw new Error(`CXDB schema not found at ${schemaPath}`);
+    await sqlite([dbPath, `.read "${schemaPath}"`], signal);
+    schemaApplied = true;
+  }
+
+  return {
+    path: dbPath,
+    async exec(sql, signal) {
+      await ensureSchema(signal);
+      await sqlite([dbPath, sql], signal);
+    },
+    async query(sql, signal) {
+      await ensureSchema(signal);
+      const out = (await sqlite(["-json", dbPath, sql], signal)).trim();
+      return out ? JSON.parse(out) : [];
+    },
+  };
+}
+
+// --- Recording ---
+
+/**
+ * Copy a screenshot into the run's artifact directory and register it, the
+ * way snap.sh does. Returns the path relative to the run directory.
+ */
+export async function recordScreenshot(
+  db: Cxdb,
+  ctx: QaContext,
+  sourcePng: string,
+  stepId: string,
+  caption: string | undefined,
+  signal?: AbortSignal
+): Promise<string> {
+  const shotDir = path.join(runArtifactDir(ctx.run_id), "screenshots");
+  fs.mkdirSync(shotDir, { recursive: true });
+  const file = artifactFileName(ctx.test_id, stepId, "png");
+  fs.copyFileSync(sourcePng, path.join(shotDir, file));
+
+  const rel = `screenshots/${file}`;
+  await db.exec(
+    `INSERT INTO screenshots (run_id, test_id, step_id, path, caption) VALUES (${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(stepId)}, ${sqlValue(rel)}, ${sqlValue(caption ?? "")});`,
+    signal
+  );
+  return rel;
+}
+
+export interface ScreenshotComparisonRow {
+  step_id: string;
+  status: "pass" | "fail" | "new_baseline" | "accepted" | "size_mismatch";
+  similarity: number | null;
+  min_similarity: number | null;
+  differing_pixels: number | null;
+  masked_pixels: number | null;
+  /** Relative to qa/artifacts/. */
+  baseline_path: string;
+  /** Relative to the run's artifact directory. */
+  actual_path: string | null;
+  diff_path: string | null;
+}
+
+export async function recordScreenshotComparison(db: Cxdb, ctx: QaContext, row: ScreenshotComparisonRow, signal?: AbortSignal): Promise<void> {
+  await db.exec(
+    `INSERT INTO screenshot_comparisons (run_id, test_id, step_id, status, similarity, min_similarity, differing_pixels, masked_pixels, baseline_path, actual_path, diff_path) ` +
+    `VALUES (${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(row.step_id)}, ${sqlValue(row.status)}, ${sqlValue(row.similarity)}, ` +
+    `${sqlValue(row.min_similarity)}, ${sqlValue(row.differing_pixels)}, ${sqlValue(row.masked_pixels)}, ${sqlValue(row.baseline_path)}, ` +
+    `${sqlValue(row.actual_path)}, ${sqlValue(row.diff_path)});`,
+    signal
+  );
+}
+
+export interface ScreenRecordingRow {
+  step_id: string;
+  /** Relative to the run's artifact directory. */
+  path: string;
+  caption: string | null;
+  duration_s: number;
+  bytes: number;
+}
+
+export async function recordScreenRecording(db: Cxdb, ctx: QaContext, row: ScreenRecordingRow, signal?: AbortSignal): Promise<void> {
+  await db.exec(
+    `INSERT INTO screen_recordings (run_id, test_id, step_id, path, caption, duration_s, bytes) VALUES (${sqlValue(ctx.run_id)}, ` +
+    `${sqlValue(ctx.test_id)}, ${sqlValue(row.step_id)}, ${sqlValue(row.path)}, ${sqlValue(row.caption ?? "")}, ` +
+    `${sqlValue(row.duration_s)}, ${sqlValue(row.bytes)});`,
+    signal
+  );
+}
+
+export interface AppEventRow {
+  timestamp: string | null;
+  name: string;
+  data: Record<string, string>;
+}
+
+/** Insert [EVENT]s, skipping ones already recorded for this run. Returns how many were new. */
+export async function recordAppEvents(db: Cxdb, ctx: QaContext, events: AppEventRow[], signal?: AbortSignal): Promise<number> {
+  if (events.length === 0) return 0;
+  const statements = events.map(ev => {
+    const data = JSON.stringify(ev.data);
+    return `INSERT INTO app_events (run_id, test_id, timestamp, event_name, event_data) ` +
+      `SELECT ${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(ev.timestamp)}, ${sqlValue(ev.name)}, ${sqlValue(data)} ` +
+      `WHERE NOT EXISTS (SELECT 1 FROM app_events WHERE run_id=${sqlValue(ctx.run_id)} AND timestamp IS ${sqlValue(ev.timestamp)} ` +
+      `AND event_name=${sqlValue(ev.name)} AND event_data=${sqlValue(data)});`;
+  });
+  return insertCounted(db, statements, signal);
+}
+
+export interface AccessibilityFindingRow {
+  element_purpose: string;
+  what_was_tried: string | null;
+  what_worked: string | null;
+  recommendation: string;
+}
+
+/** Insert accessibility findings, skipping ones already recorded for this test in this run. Returns how many were new. */
+export async function recordAccessibilityFindings(db: Cxdb, ctx: QaContext, rows: AccessibilityFindingRow[], signal?: AbortSignal): Promise<number> {
+  if (rows.length === 0) return 0;
+  const statements = rows.map(r =>
+    `INSERT INTO accessibility_findings (run_id, test_id, element_purpose, what_was_tried, what_worked, recommendation) ` +
+    `SELECT ${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(r.element_purpose)}, ${sqlValue(r.what_was_tried)}, ` +
+    `${sqlValue(r.what_worked)}, ${sqlValue(r.recommendation)} ` +
+    `WHERE NOT EXISTS (SELECT 1 FROM accessibility_findings WHERE run_id=${sqlValue(ctx.run_id)} AND test_id IS ${sqlValue(ctx.test_id)} ` +
+    `AND element_purpose=${sqlValue(r.element_purpose)} AND recommendation=${sqlValue(r.recommendation)});`
+  );
+  return insertCounted(db, statements, signal);
+}
+
+export interface BugFindingRow {
+  title: string;
+  description: string | null;
+  severity: "critical" | "major" | "minor";
+  log_evidence: string | null;
+  screenshot_path: string | null;
+}
+
+/** Insert a bug finding unless this run already has one with the same title and description. Returns whether it was new. */
+export async function recordBugFinding(db: Cxdb, ctx: QaContext, row: BugFindingRow, signal?: AbortSignal): Promise<boolean> {
+  const added = await insertCounted(db, [
+    `INSERT INTO bug_findings (run_id, test_id, title, description, severity, log_evidence, screenshot_path) ` +
+    `SELECT ${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(row.title)}, ${sqlValue(row.description)}, ` +
+    `${sqlValue(row.severity)}, ${sqlValue(row.log_evidence)}, ${sqlValue(row.screenshot_path)} ` +
+    `WHERE NOT EXISTS (SELECT 1 FROM bug_findings WHERE run_id=${sqlValue(ctx.run_id)} AND title=${sqlValue(row.title)} ` +
+    `AND description IS ${sqlValue(row.description)});`,
+  ], signal);
+  return added > 0;
+}
+
+export interface PerfMeasurementRow {
+  metric_name: string;
+  value_ms: number;
+  target_ms: number | null;
+}
+
+/** Insert one row per sample; `passed` is value_ms <= target_ms, as cxdb.sh log-perf computes it. */
+export async function recordPerfMeasurements(db: Cxdb, ctx: QaContext, rows: PerfMeasurementRow[], signal?: AbortSignal): Promise<void> {
+  if (rows.length === 0) return;
+  const statements = rows.map(r =>
+    `INSERT INTO perf_measurements (run_id, test_id, metric_name, value_ms, target_ms, passed) VALUES (${sqlValue(ctx.run_id)}, ` +
+    `${sqlValue(ctx.test_id)}, ${sqlValue(r.metric_name)}, ${sqlValue(r.value_ms)}, ${sqlValue(r.target_ms)}, ` +
+    `${sqlValue(r.target_ms === null ? null : r.value_ms <= r.target_ms)});`
+  );
+  await db.exec(`BEGIN;\n${statements.join("\n")}\nCOMMIT;`, signal);
+}
+
+export interface LogEntryRow {
+  timestamp: string | null;
+  level: "info" | "warning" | "error";
+  source: string | null;
+  message: string;
+}
+
+/** Insert warning/error log lines, skipping duplicates. XMTP failures are flagged separately from app errors. */
+export async function recordLogEntries(db: Cxdb, ctx: QaContext, entries: LogEntryRow[], signal?: AbortSignal): Promise<number> {
+  if (entries.length === 0) return 0;
+  const statements = entries.map(e => {
+    const isXmtp = /xmtp/i.test(e.message) || /xmtp/i.test(e.source ?? "");
+    const isAppError = e.level === "error" && !isXmtp;
+    return `INSERT INTO log_entries (run_id, test_id, timestamp, level, source, message, is_xmtp_error, is_app_error) ` +
+      `SELECT ${sqlValue(ctx.run_id)}, ${sqlValue(ctx.test_id)}, ${sqlValue(e.timestamp)}, ${sqlValue(e.level)}, ${sqlValue(e.source)}, ${sqlValue(e.message)}, ` +
+      `${sqlValue(isXmtp && e.level === "error")}, ${sqlValue(isAppError)} ` +
+      `WHERE NOT EXISTS (SELECT 1 FROM log_entries WHERE run_id=${sqlValue(ctx.run_id)} AND timestamp IS ${sqlValue(e.timestamp)} ` +
+      `AND message=${sqlValue(e.message)});`;
+  });
+  return insertCounted(db, statements, signal);
+}
+
+/** Run INSERTs in one transaction and return how many rows they actually added. */
+async function insertCounted(db: Cxdb, statements: string[], signal?: AbortSignal): Promise<number> {
+  const rows = await db.query<{ n: number }>(
+    `BEGIN;\n${statements.join("\n")}\nCOMMIT;\nSELECT total_changes() AS n;`,
+    signal
+  );
+  return rows[rows.length - 1]?.n ?? 0;
+}
@@ -0,0 +1,213 @@
+import { execSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { BootedDevice, DeviceDriver, SimDevice } from "./driver";
+
+// Which simulator a tool acts on. Without a selector, the branch's simulator
+// is found the way qa/RULES.md "Simulator Selection" describes. Multi-device
+// tests register aliases ("alice", "bob") that map to UDIDs; the registry is a
+// JSON file next to .claude/.simulator_id so every extension, and a fresh
+// session after a context reset, resolves the same names.
+
+export interface RegisteredDevice {
+  alias: string;
+  udid: string;
+  /** Simulator name when registered, for display. */
+  name: string;
+  /** QAAutomationServer for this device, when it isn't the default one (sim-tools). */
+  agentUrl?: string;
+}
+
+export interface ResolvedDevice {
+  udid: string;
+  /** Set when the device is registered. */
+  alias?: string;
+}
+
+function registryPath(): string {
+  return path.join(process.cwd(), ".claude", ".simulator_devices.json");
+}
+
+export function readDeviceRegistry(): Record<string, RegisteredDevice> {
+  try {
+    const data = JSON.parse(fs.readFileSync(registryPath(), "utf-8"));
+    return data && typeof data === "object" ? data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function writeDeviceRegistry(registry: Record<string, RegisteredDevice>) {
+  const file = registryPath();
+  if (Object.keys(registry).length === 0) {
+    try { fs.unlinkSync(file); } catch {}
+    return;
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(registry, null, 2) + "\n");
+}
+
+export function aliasForUdid(udid: string, registry = readDeviceRegistry()): string | undefined {
+  return Object.values(registry).find(d => d.udid === udid)?.alias;
+}
+
+/** The registered device for `alias`. Throws listing the known aliases. */
+export function lookupAlias(alias: string, registry = readDeviceRegistry()): RegisteredDevice {
+  const entry = registry[alias];
+  if (entry) return entry;
+  const known = Object.keys(registry);
+  throw new Error(
+    `Unknown device "${alias}". ` +
+    (known.length > 0 ? `Registered: ${known.join(", ")}. ` : "No devices are registered. ") +
+    `Register it with sim_devices (action: "register").`
+  );
+}
+
+// --- Default simulator ---
+
+function readSimulatorIdFile(): string | undefined {
+  const idFile = path.join(process.cwd(), ".claude", ".simulator_id");
+  if (!fs.existsSync(idFile)) return undefined;
+  return fs.readFileSync(idFile, "utf-8").trim() || undefined;
+}
+
+/** SIMULATOR_NAME from .convos-task, else convos-<branch> (see .pi/skills/run). */
+function branchSimulatorNames(): string[] {
+  const names: string[] = [];
+  const taskFile = path.join(process.cwd(), ".convos-task");
+  if (fs.existsSync(taskFile)) {
+    const match = fs.readFileSync(taskFile, "utf-8").match(/SIMULATOR_NAME=(.+)/);
+    if (match?.[1]?.trim()) names.push(match[1].trim());
+  }
+  try {
+    const branch = execSync("git rev-parse --abbrev-ref HEAD", { encoding: "utf-8", timeout: 3000, stdio: ["ignore", "pipe", "ignore"] }).trim();
+    if (branch && branch !== "HEAD") names.push(`convos-${branch.replace(/[^a-zA-Z0-9-]/g, "-")}`);
+  } catch {}
+  return names;
+}
+
+// The branch lookup shells out to git and lists booted simulators, so its
+// answer is kept for the session; booting or shutting a simulator down through
+// sim_devices clears it. A simulator shut down some other way (Simulator.app,
+// simctl) is caught by recheckDefaultUdid once a tool call fails on it.
+const defaultUdids = new WeakMap<DeviceDriver, string>();
+
+export function forgetDefaultUdid(driver: DeviceDriver) {
+  defaultUdids.delete(driver);
+}
+
+/**
+ * After a failed call on the default simulator: forget it unless it is still
+ * booted, so the next call picks again instead of failing the same way.
+ */
+export async function recheckDefaultUdid(driver: DeviceDriver, signal?: AbortSignal): Promise<void> {
+  const cached = defaultUdids.get(driver);
+  if (!cached) return;
+  let booted: BootedDevice[] = [];
+  try {
+    booted = await driver.bootedDevices(signal);
+  } catch {}
+  if (!booted.some(d => d.udid === cached)) defaultUdids.delete(driver);
+}
+
+/**
+ * The simulator to use when a tool gets no udid or device: .claude/.simulator_id,
+ * then the booted simulator named in .convos-task or after the branch, then the
+ * first booted one. A named simulator that isn't booted is passed over. The
+ * fake driver skips the id file, which names a real simulator it can't drive.
+ */
+export async function resolveUdid(driver: DeviceDriver, explicitUdid?: string, signal?: AbortSignal): Promise<string> {
+  if (explicitUdid) return explicitUdid;
+
+  const fromFile = driver.name === "fake" ? undefined : readSimulatorIdFile();
+  if (fromFile) return fromFile;
+
+  const cached = defaultUdids.get(driver);
+  if (cached) return cached;
+
+  let booted: BootedDevice[] = [];
+  try {
+    booted = await driver.bootedDevices(signal);
+  } catch {}
+  if (booted.length === 0) throw new Error("No booted simulator found. Boot one first with: xcrun simctl boot <name>");
+
+  // Only worth asking git when there is more than one booted simulator to choose from
+  const names = booted.length > 1 ? branchSimulatorNames() : [];
+  const picked = names.map(name => booted.find(d => d.name.toLowerCase() === name.toLowerCase())).find(Boolean) ?? booted[0];
+  defaultUdids.set(driver, picked.udid);
+  return picked.udid;
+}
+
+/** `device` alias, else `udid`, else the default simulator. */
+export async function resolveDevice(
+  driver: DeviceDriver,
+  selector: { device?: string; udid?: string },
+  signal?: AbortSignal
+): Promise<ResolvedDevice> {
+  const registry = readDeviceRegistry();
+  if (selector.device) {
+    const entry = lookupAlias(selector.device, registry);
+    if (selector.udid && selector.udid !== entry.udid) {
+      throw new Error(`device "${selector.device}" is ${entry.udid}, but udid ${selector.udid} was also given. Pass one or the other.`);
+    }
+    return { udid: entry.udid, alias: entry.alias };
+  }
+  const udid = await resolveUdid(driver, selector.udid, signal);
+  return { udid, alias: aliasForUdid(udid, registry) };
+}
+
+// --- Finding a simulator to register ---
+
+// Booted first, so an alias lands on the simulator the user is looking at
+function preferBooted(devices: SimDevice[]): SimDevice[] {
+  return [...devices].sort((a, b) => Number(b.state === "Booted") - Number(a.state === "Booted"));
+}
+
+function pickByName(devices: SimDevice[], name: string): SimDevice | undefined {
+  return preferBooted(devices.filter(d => d.name.toLowerCase() === name.toLowerCase()))[0];
+}
+
+/**
+ * The simulator matching a udid, an exact name, or a device type ("iPhone 16
+ * Pro"). Device type matches skip simulators in `taken` so two aliases asking
+ * for the same type get different devices. Throws with the candidates when
+ * nothing matches.
+ */
+export function findSimulator(
+  devices: SimDevice[],
+  query: { udid?: string; name?: string; deviceType?: string },
+  taken: Set<string> = new Set()
+): SimDevice {
+  if (query.udid) {
+    const match = devices.find(d => d.udid === query.udid);
+    if (match) return match;
+    throw new Error(`No simulator with udid ${query.udid}.`);
+  }
+  if (query.name) {
+    const match = pickByName(devices, query.name);
+    if (match) return match;
+    throw new Error(`No simulator named "${query.name}". Available: ${summarize(devices)}`);
+  }
+  if (query.deviceType) {
+    const wanted = query.deviceType.toLowerCase();
+    const ofType = devices.filter(d => (d.deviceType ?? "").toLowerCase() === wanted);
+    const free = preferBooted(ofType.filter(d => !taken.has(d.udid)));
+    if (free.length > 0) return free[0];
+    throw new Error(
+      ofType.length > 0
+        ? `Every "${query.deviceType}" simulator is already registered. Clone one (xcrun simctl clone) and register it by name.`
+        : `No "${query.deviceType}" simulator. Device types available: ${[...new Set(devices.map(d => d.deviceType).filter(Boolean))].join(", ")}`
+    );
+  }
+  throw new Error("Pass a udid, name or device_type to pick a simulator.");
+}
+
+function summarize(devices: SimDevice[]): string {
+  const names = devices.slice(0, 15).map(d => `${d.name}${d.state === "Booted" ? " (booted)" : ""}`);
+  return names.join(", ") + (devices.length > 15 ? `, … ${devices.length - 15} more` : "");
+}
+
+/** "[alice] " for registered devices, else the start of the udid ("[5C1A4E0B] "). */
+export function devicePrefix(device: ResolvedDevice): string {
+  return `[${device.alias ?? device.udid.slice(0, 8)}] `;
+}
@@ -0,0 +1,882 @@
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { execSync, spawn, type ChildProcess } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { fileURLToPath } from "node:url";
+import { parseOpenStepPlist, parseXmlPlist } from "./plist";
+
+// Device drivers sit between the sim_* tools and whatever actually moves the
+// simulator. The idb/simctl driver is the real one; the fake driver replays a
+// scripted accessibility tree so the tools can run on machines without Xcode
+// (SIM_DRIVER=fake, see qa/fixtures/fake-driver/).
+
+export interface AXElement {
+  AXUniqueId: string | null;
+  AXLabel: string | null;
+  AXValue: string | null;
+  type: string;
+  role: string;
+  frame: { x: number; y: number; width: number; height: number };
+  enabled: boolean;
+  custom_actions?: string[];
+}
+
+export interface BootedDevice {
+  udid: string;
+  name: string;
+}
+
+export interface SimDevice extends BootedDevice {
+  /** "Booted", "Shutdown", ... as simctl reports it. */
+  state: string;
+  /** e.g. "iPhone 16 Pro" */
+  deviceType: string | null;
+  /** e.g. "iOS 18.2" */
+  runtime: string | null;
+}
+
+export interface InstalledApp {
+  bundleId: string;
+  /** CFBundleShortVersionString */
+  version: string | null;
+  /** CFBundleVersion */
+  build: string | null;
+  /** The installed .app bundle. */
+  path: string;
+  dataContainer: string | null;
+  /** App Group identifier -> container directory. */
+  groupContainers: Record<string, string>;
+}
+
+/** A screen recording in progress; see DeviceDriver.recordVideo. */
+export interface VideoCapture {
+  /** Stop recording and wait until the file is written. Stopping again is fine. */
+  stop(): Promise<void>;
+  /** Settles when recording ends, by stop() or on its own: null, or why it failed. */
+  readonly ended: Promise<string | null>;
+}
+
+export interface DeviceDriver {
+  readonly name: string;
+  bootedDevices(signal?: AbortSignal): Promise<BootedDevice[]>;
+  /** Every available simulator, booted or not. */
+  listDevices(signal?: AbortSignal): Promise<SimDevice[]>;
+  /** Boot and wait until the device is ready. Already booted is fine. */
+  boot(udid: string, signal?: AbortSignal): Promise<void>;
+  /** Already shut down is fine. */
+  shutdown(udid: string, signal?: AbortSignal): Promise<void>;
+  describeAll(udid: string, signal?: AbortSignal): Promise<AXElement[]>;
+  /** Raw describe-point JSON for the element under (x, y), or null if nothing answered. */
+  describePoint(udid: string, x: number, y: number, signal?: AbortSignal): Promise<any | null>;
+  tap(udid: string, x: number, y: number, opts?: { duration?: number }, signal?: AbortSignal): Promise<void>;
+  swipe(
+    udid: string,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    opts?: { duration?: number; delta?: number },
+    signal?: AbortSignal
+  ): Promise<void>;
+  text(udid: string, text: string, signal?: AbortSignal): Promise<void>;
+  key(udid: string, keycode: number, signal?: AbortSignal): Promise<void>;
+  /** Write a PNG screenshot of the device to outPath. */
+  screenshot(udid: string, outPath: string, signal?: AbortSignal): Promise<void>;
+  openUrl(udid: string, url: string, signal?: AbortSignal): Promise<void>;
+  terminate(udid: string, bundleId: string, signal?: AbortSignal): Promise<void>;
+  launch(udid: string, bundleId: string, signal?: AbortSignal): Promise<void>;
+  /** Install an .app bundle, replacing an installed copy but keeping its data, like an update from the App Store. */
+  install(udid: string, appPath: string, signal?: AbortSignal): Promise<void>;
+  /** Remove the app with its data and App Group containers. Not installed is fine. */
+  uninstall(udid: string, bundleId: string, signal?: AbortSignal): Promise<void>;
+  /** The installed app, or null when it isn't installed. */
+  appInfo(udid: string, bundleId: string, signal?: AbortSignal): Promise<InstalledApp | null>;
+  /** Deliver the APNs payload in the JSON file at payloadPath to the app, as if it came from APNs. */
+  push(udid: string, bundleId: string, payloadPath: string, signal?: AbortSignal): Promise<void>;
+  /** Import photos and videos into the device's photo library, newest last. */
+  addMedia(udid: string, paths: string[], signal?: AbortSignal): Promise<void>;
+  /** The directory the Files app shows as "On My iPhone". */
+  filesAppDirectory(udid: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Start recording the screen to an H.264 file at outPath. Resolves once
+   * frames are being captured; the recording runs until stopped, past the
+   * call that started it.
+   */
+  recordVideo(udid: string, outPath: string, signal?: AbortSignal): Promise<VideoCapture>;
+  /** Process id of the app on the device, or null when it isn't running. */
+  appPid(udid: string, bundleId: string, signal?: AbortSignal): Promise<number | null>;
+  /** Directories where crash reports (.ips) from apps on this device are written. Reports for other devices may share them. */
+  crashReportDirs(udid: string): string[];
+  /** Path of the app's convos.log on this device, or null if the app has not written one yet. */
+  findLogFile(udid: string): string | null;
+}
+
+export function createDriver(pi: ExtensionAPI): DeviceDriver {
+  if (process.env.SIM_DRIVER === "fake") {
+    const script = process.env.SIM_FAKE_SCRIPT
+      || path.join(process.cwd(), "qa", "fixtures", "fake-driver", "script.json");
+    return createFakeDriver(script);
+  }
+  return createIdbDriver(pi);
+}
+
+// --- idb + simctl ---
+
+let cachedIdbPath: string | undefined;
+
+// Xcode developer dir — needed when xcode-select points to CommandLineTools
+const XCODE_DEV_DIR = "/Applications/Xcode.app/Contents/Developer";
+// SIMCTL_PATH points the driver at another simctl, e.g. a stub for testing the lifecycle tools
+const SIMCTL = process.env.SIMCTL_PATH || path.join(XCODE_DEV_DIR, "usr/bin/simctl");
+
+function findIdb(): string {
+  if (cachedIdbPath) return cachedIdbPath;
+
+  // 1. Check IDB_PATH env var
+  if (process.env.IDB_PATH) {
+    cachedIdbPath = process.env.IDB_PATH;
+    return cachedIdbPath;
+  }
+
+  // 2. Check if idb is in PATH
+  try {
+    const result = execSync("which idb", { encoding: "utf-8", timeout: 3000 }).trim();
+    if (result) {
+      cachedIdbPath = result;
+      return cachedIdbPath;
+    }
+  } catch {}
+
+  // 3. Check common pip user install locations
+  try {
+    const userBin = execSync(
+      `python3 -c "import site; print(site.getusersitepackages().replace('/lib/python/site-packages', '/bin/idb'))"`,
+      { encoding: "utf-8", timeout: 3000 }
+    ).trim();
+    if (fs.existsSync(userBin)) {
+      cachedIdbPath = userBin;
+      return cachedIdbPath;
+    }
+  } catch {}
+
+  // 4. Check Homebrew pip locations
+  for (const pyVer of ["3.9", "3.10", "3.11", "3.12", "3.13"]) {
+    const candidate = path.join(os.homedir(), `Library/Python/${pyVer}/bin/idb`);
+    if (fs.existsSync(candidate)) {
+      cachedIdbPath = candidate;
+      return cachedIdbPath;
+    }
+  }
+
+  throw new Error(
+    "idb not found. Install it with: pip3 install fb-idb\n" +
+    "Or set the IDB_PATH environment variable to the idb binary path."
+  );
+}
+
+// simctl io recordVideo prints this once frames are being written
+const RECORDING_STARTED = /Recording started/i;
+const RECORD_START_TIMEOUT_MS = 10000;
+// Finishing the file after SIGINT takes a moment for long recordings
+const RECORD_STOP_TIMEOUT_MS = 30000;
+
+// Recordings still running when the process exits are interrupted, so simctl
+// finishes the file instead of recording until someone notices
+const liveRecorders = new Set<ChildProcess>();
+process.once("exit", () => {
+  for (const child of liveRecorders) child.kill("SIGINT");
+});
+
+// "com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro" -> "iPhone 16 Pro"
+function readableIdentifier(id: string | undefined, kind: string): string | null {
+  if (!id) return null;
+  return id.replace(`com.apple.CoreSimulator.${kind}.`, "").replace(/-/g, " ");
+}
+
+function plistString(v: unknown): string | null {
+  return typeof v === "string" || typeof v === "number" ? String(v) : null;
+}
+
+// appinfo reports containers as file:// URLs
+function containerPath(v: unknown): string | null {
+  const s = plistString(v);
+  if (!s) return null;
+  return (s.startsWith("file://") ? fileURLToPath(s) : s).replace(/\/+$/, "");
+}
+
+export function createIdbDriver(pi: ExtensionAPI): DeviceDriver {
+  async function run(command: string, args: string[], timeout: number, signal?: AbortSignal): Promise<string> {
+    const result = await pi.exec(command, args, { signal, timeout });
+    if (result.code !== 0) {
+      throw new Error(result.stderr || result.stdout);
+    }
+    return result.stdout;
+  }
+
+  return {
+    name: "idb",
+
+    async bootedDevices(signal) {
+      const stdout = await run(SIMCTL, ["list", "devices", "booted", "-j"], 5000, signal);
+      const data = JSON.parse(stdout);
+      const devices: BootedDevice[] = [];
+      for (const runtime of Object.values(data.devices) as any[]) {
+        for (const dev of runtime) {
+          if (dev.state === "Booted") devices.push({ udid: dev.udid, name: dev.name });
+        }
+      }
+      return devices;
+    },
+
+    async listDevices(signal) {
+      const stdout = await run(SIMCTL, ["list", "devices", "available", "-j"], 5000, signal);
+      const data = JSON.parse(stdout);
+      const devices: SimDevice[] = [];
+      for (const [runtimeId, runtimeDevices] of Object.entries(data.devices) as [string, any[]][]) {
+        for (const dev of runtimeDevices) {
+          devices.push({
+            udid: dev.udid,
+            name: dev.name,
+            state: dev.state,
+            deviceType: readableIdentifier(dev.deviceTypeIdentifier, "SimDeviceType"),
+            runtime: readableIdentifier(runtimeId, "SimRuntime")?.replace(/^(\w+) (\d+) (\d+)$/, "$1 $2.$3") ?? null,
+          });
+        }
+      }
+      return devices;
+    },
+
+    async boot(udid, signal) {
+      // bootstatus -b boots if needed and returns once the device is usable
+      await run(SIMCTL, ["bootstatus", udid, "-b"], 180000, signal);
+    },
+
+    async shutdown(udid, signal) {
+      const result = await pi.exec(SIMCTL, ["shutdown", udid], { signal, timeout: 60000 });
+      if (result.code !== 0 && !/current state: Shutdown/i.test(result.stderr)) {
+        throw new Error(result.stderr || result.stdout);
+      }
+    },
+
+    async describeAll(udid, signal) {
+      const stdout = await run(findIdb(), ["ui", "describe-all", "--udid", udid, "--json"], 10000, signal);
+      return JSON.parse(stdout);
+    },
+
+    async describePoint(udid, x, y, signal) {
+      const stdout = await run(
+        findIdb(),
+        ["ui", "describe-point", "--udid", udid, "--json", String(x), String(y)],
+        3000,
+        signal
+      );
+      return stdout.trim() ? JSON.parse(stdout) : null;
+    },
+
+    async tap(udid, x, y, opts, signal) {
+      const args = ["ui", "tap", "--udid", udid, String(x), String(y)];
+      if (opts?.duration) args.push("--duration", String(opts.duration));
+      await run(findIdb(), args, 10000, signal);
+    },
+
+    async swipe(udid, from, to, opts, signal) {
+      const args = ["ui", "swipe", "--udid", udid, String(from.x), String(from.y), String(to.x), String(to.y)];
+      if (opts?.duration) args.push("--duration", String(opts.duration));
+      if (opts?.delta) args.push("--delta", String(opts.delta));
+      await run(findIdb(), args, 10000, signal);
+    },
+
+    async text(udid, text, signal) {
+      await run(findIdb(), ["ui", "text", "--udid", udid, text], 10000, signal);
+    },
+
+    async key(udid, keycode, signal) {
+      await run(findIdb(), ["ui", "key", "--udid", udid, String(keycode)], 10000, signal);
+    },
+
+    async screenshot(udid, outPath, signal) {
+      await run(SIMCTL, ["io", udid, "screenshot", outPath], 10000, signal);
+    },
+
+    async openUrl(udid, url, signal) {
+      await run(SIMCTL, ["openurl", udid, url], 10000, signal);
+    },
+
+    async terminate(udid, bundleId, signal) {
+      // Not running is fine — callers terminate defensively before a launch.
+      await pi.exec(SIMCTL, ["terminate", udid, bundleId], { signal, timeout: 5000 });
+    },
+
+    async launch(udid, bundleId, signal) {
+      await run(SIMCTL, ["launch", udid, bundleId], 10000, signal);
+    },
+
+    async install(udid, appPath, signal) {
+      await run(SIMCTL, ["install", udid, appPath], 120000, signal);
+    },
+
+    async uninstall(udid, bundleId, signal) {
+      await run(SIMCTL, ["uninstall", udid, bundleId], 60000, signal);
+    },
+
+    async push(udid, bundleId, payloadPath, signal) {
+      await run(SIMCTL, ["push", udid, bundleId, payloadPath], 10000, signal);
+    },
+
+    async addMedia(udid, paths, signal) {
+      await run(SIMCTL, ["addmedia", udid, ...paths], 60000, signal);
+    },
+
+    async filesAppDirectory(udid, signal) {
+      // The Files app keeps "On My iPhone" in the FileProvider local storage App Group
+      const stdout = await run(SIMCTL, ["get_app_container", udid, "com.apple.DocumentsApp", "groups"], 10000, signal);
+      const line = stdout.split("\n").find(l => l.startsWith("group.com.apple.FileProvider.LocalStorage"));
+      const dir = line ? containerPath(line.slice(line.indexOf("\t") + 1).trim()) : null;
+      if (!dir) throw new Error("The Files app's local storage container was not found");
+      const storage = path.join(dir, "File Provider Storage");
+      fs.mkdirSync(storage, { recursive: true });
+      return storage;
+    },
+
+    async recordVideo(udid, outPath, signal) {
+      // simctl's output goes to a file, not a pipe: a pipe closes with this
+      // process, and simctl would die writing to it before finishing the video
+      const logPath = path.join(os.tmpdir(), `sim-recordvideo-${process.pid}-${Date.now()}.log`);
+      const logFd = fs.openSync(logPath, "w");
+      const child = spawn(SIMCTL, ["io", udid, "recordVideo", "--codec=h264", "--force", outPath], { stdio: ["ignore", logFd, logFd] });
+      fs.closeSync(logFd);
+      liveRecorders.add(child);
+      const output = () => {
+        try { return fs.readFileSync(logPath, "utf-8"); } catch { return ""; }
+      };
+      const ended = new Promise<string | null>(resolve => {
+        child.on("error", e => resolve(e.message));
+        child.on("exit", (code, sig) => {
+          liveRecorders.delete(child);
+          const text = output().trim();
+          fs.rmSync(logPath, { force: true });
+          resolve(code === 0 || sig === "SIGINT" ? null : text || `simctl recordVideo exited with ${code ?? sig}`);
+        });
+      });
+      let exited = false;
+      ended.then(() => { exited = true; });
+
+      // Older simctl versions say nothing; assume it's recording if it is still running
+      const startedBy = Date.now() + RECORD_START_TIMEOUT_MS;
+      while (!RECORDING_STARTED.test(output()) && Date.now() < startedBy) {
+        if (exited) throw new Error((await ended) ?? "simctl recordVideo stopped before recording started");
+        if (signal?.aborted) {
+          child.kill("SIGINT");
+          throw new Error("Aborted before the recording started");
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+
+      return {
+        ended,
+        async stop() {
+          if (exited) return;
+          child.kill("SIGINT");
+          const finished = await Promise.race([ended.then(() => true), new Promise<boolean>(r => setTimeout(() => r(false), RECORD_STOP_TIMEOUT_MS))]);
+          if (!finished) {
+            child.kill("SIGKILL");
+            throw new Error(`simctl recordVideo did not finish ${outPath} within ${RECORD_STOP_TIMEOUT_MS / 1000}s; the file may be incomplete`);
+          }
+        },
+      };
+    },
+
+    async appPid(udid, bundleId, signal) {
+      // launchctl inside the simulator lists apps as UIKitApplication:<bundle id>[<instance>]; "-" is no process
+      const stdout = await run(SIMCTL, ["spawn", udid, "launchctl", "list"], 5000, signal);
+      for (const line of stdout.split("\n")) {
+        const [pid, , label] = line.split("\t");
+        if (label?.startsWith(`UIKitApplication:${bundleId}[`) && /^\d+$/.test(pid)) return Number(pid);
+      }
+      return null;
+    },
+
+    crashReportDirs(udid) {
+      // Simulator apps report to the Mac's DiagnosticReports; some end up in the device's own
+      return [
+        path.join(os.homedir(), "Library/Logs/DiagnosticReports"),
+        path.join(os.homedir(), `Library/Developer/CoreSimulator/Devices/${udid}/data/Library/Logs/DiagnosticReports`),
+      ];
+    },
+
+    async appInfo(udid, bundleId, signal) {
+      const result = await pi.exec(SIMCTL, ["appinfo", udid, bundleId], { signal, timeout: 10000 });
+      if (result.code !== 0) {
+        if (/not installed|no such|not found/i.test(result.stderr + result.stdout)) return null;
+        throw new Error(result.stderr || result.stdout);
+      }
+      if (!result.stdout.trim()) return null;
+      const info = parseOpenStepPlist(result.stdout) as Record<string, any>;
+      // An app that isn't installed comes back without a Path
+      const appPath = containerPath(info?.Path);
+      if (!appPath) return null;
+      const groups: Record<string, string> = {};
+      for (const [id, url] of Object.entries(info.GroupContainers ?? {})) {
+        const dir = containerPath(url);
+        if (dir) groups[id] = dir;
+      }
+      return {
+        bundleId: plistString(info.CFBundleIdentifier) ?? bundleId,
+        version: plistString(info.CFBundleShortVersionString),
+        build: plistString(info.CFBundleVersion),
+        path: appPath,
+        dataContainer: containerPath(info.DataContainer),
+        groupContainers: groups,
+      };
+    },
+
+    findLogFile(udid) {
+      try {
+        const result = execSync(
+          `find ~/Library/Developer/CoreSimulator/Devices/${udid}/data/Containers/Shared/AppGroup -name "convos.log" 2>/dev/null | head -1`,
+          { encoding: "utf-8", timeout: 5000 }
+        ).trim();
+        return result || null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+// --- Scripted fake ---
+
+// A fake device is described by a JSON script:
+//
+//   device       { udid, name } reported as the single booted simulator
+//   devices      alternatively, several: [{ udid, name, deviceType?, runtime?,
+//                booted? }]. Each has its own screen and its own copy of the
+//                log; `booted: false` devices must be booted before use.
+//   initialScreen  key into `screens`
+//   screens      name -> { elements, hidden? }. `elements` is what describe-all
+//                returns; `hidden` elements only answer describe-point, the way
+//                SwiftUI toolbar items hide from idb.
+//   transitions  [{ screen?, tap, to?, log?, crash? }] — tapping an element
+//                whose id or label equals `tap` (while on `screen`, if given)
+//                switches to `to` and appends `log` lines to convos.log. "{now}"
+//                in a log line becomes the current ISO timestamp. `crash` is a
+//                fixture .ips report: the app it names stops running, the
+//                report is written to the device's DiagnosticReports ("{udid}"
+//                and "{now}" substituted) and `homeScreen`, if any, is shown.
+//   log          fixture convos.log, copied to a scratch dir so appends never
+//                touch the fixture
+//   screenshot   optional PNG returned by screenshot()
+//   apps         optional bundleId -> { version?, build? } installed on every
+//                device at start. With `apps`, launching an app that isn't
+//                installed fails as simctl does; without it, any launch works.
+//                install() reads the bundle's XML Info.plist. Each app gets a
+//                data container and one App Group, group.<bundleId>, in the
+//                scratch dir. `name` is the home-screen icon's label.
+//   homeScreen   optional key into `screens` shown after terminate(), with an
+//                icon for every installed app that has a `name`. An icon's
+//                value is its badge ("2 notifications"), as SpringBoard has it.
+//
+// push() shows a banner element, "<app name>, <title>, <body>", on top of any
+// screen for BANNER_MS, and sets the app's badge when the payload has one.
+//
+// addMedia() copies into <scratch>/<udid>/Media, and the Files app's
+// directory is <scratch>/<udid>/Files.
+//
+// Apps count as running until terminated or crashed; launch() starts them with
+// a new process id.
+//
+// recordVideo() writes a small placeholder file (not a playable video) when
+// the recording is stopped.
+//
+// Every input (tap, swipe, text, key, openurl, launch, install, uninstall,
+// push, addmedia, recordvideo and its stop, crash, boot, shutdown) is appended as a JSON line, tagged with the device's udid,
+// to the tap log: SIM_FAKE_TAP_LOG, or tap-log.jsonl in the scratch dir.
+
+interface FakeDeviceSpec {
+  udid?: string;
+  name?: string;
+  deviceType?: string;
+  runtime?: string;
+  booted?: boolean;
+}
+
+export interface FakeScript {
+  device?: FakeDeviceSpec;
+  devices?: FakeDeviceSpec[];
+  initialScreen: string;
+  screens: Record<string, { elements: AXElement[]; hidden?: AXElement[] }>;
+  transitions?: { screen?: string; tap: string; to?: string; log?: string[]; crash?: string }[];
+  log?: string;
+  screenshot?: string;
+  apps?: Record<string, { version?: string; build?: string; name?: string }>;
+  homeScreen?: string;
+}
+
+export interface FakeDriver extends DeviceDriver {
+  readonly tapLogPath: string;
+  /** Screen of `udid`, or of the first device. */
+  currentScreen(udid?: string): string;
+}
+
+// How long a fake notification banner stays on screen, roughly as iOS shows one
+const BANNER_MS = 5000;
+
+// 1x1 transparent PNG, used when the script has no screenshot fixture
+const BLANK_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+interface FakeDevice {
+  udid: string;
+  name: string;
+  deviceType: string | null;
+  runtime: string | null;
+  booted: boolean;
+  screen: string;
+  logPath: string | null;
+  apps: Map<string, InstalledApp>;
+  badges: Map<string, number>;
+  banner: { element: AXElement; until: number } | null;
+  /** Process ids of running apps; apps in `stopped` were terminated or crashed. */
+  pids: Map<string, number>;
+  stopped: Set<string>;
+}
+
+export function createFakeDriver(scriptPath: string): FakeDriver {
+  const script: FakeScript = JSON.parse(fs.readFileSync(scriptPath, "utf-8"));
+  const fixtureDir = path.dirname(scriptPath);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "sim-fake-"));
+  const tapLogPath = process.env.SIM_FAKE_TAP_LOG || path.join(workDir, "tap-log.jsonl");
+
+  const specs = script.devices?.length ? script.devices : [script.device ?? {}];
+  const devices: FakeDevice[] = specs.map((spec, i) => {
+    const udid = spec.udid ?? `FAKE-0000-0000-0000-${String(i).padStart(12, "0")}`;
+    let logPath: string | null = null;
+    if (script.log) {
+      // The first device keeps the historical location next to the tap log
+      logPath = i === 0 ? path.join(workDir, "convos.log") : path.join(workDir, udid, "convos.log");
+      fs.mkdirSync(path.dirname(logPath), { recursive: true });
+      fs.copyFileSync(path.resolve(fixtureDir, script.log), logPath);
+    }
+    return {
+      udid,
+      name: spec.name ?? (i === 0 ? "Fake iPhone" : `Fake iPhone ${i + 1}`),
+      deviceType: spec.deviceType ?? "iPhone 16 Pro",
+      runtime: spec.runtime ?? "iOS 18.2",
+      booted: spec.booted ?? true,
+      screen: script.initialScreen,
+      logPath,
+      apps: new Map(),
+      badges: new Map(),
+      banner: null,
+      pids: new Map(),
+      stopped: new Set(),
+    };
+  });
+
+  function installFake(device: FakeDevice, bundleId: string, version: string | null, build: string | null, appPath: string) {
+    const root = path.join(workDir, device.udid, "Containers");
+    const existing = device.apps.get(bundleId);
+    const app: InstalledApp = {
+      bundleId,
+      version,
+      build,
+      path: appPath,
+      dataContainer: existing?.dataContainer ?? path.join(root, "Data", bundleId),
+      groupContainers: existing?.groupContainers ?? { [`group.${bundleId}`]: path.join(root, "Shared", "AppGroup", `group.${bundleId}`) },
+    };
+    for (const dir of [app.dataContainer!, ...Object.values(app.groupContainers)]) fs.mkdirSync(dir, { recursive: true });
+    device.apps.set(bundleId, app);
+  }
+
+  for (const device of devices) {
+    for (const [bundleId, spec] of Object.entries(script.apps ?? {})) {
+      installFake(device, bundleId, spec.version ?? null, spec.build ?? null, path.join(workDir, device.udid, "Bundle", `${bundleId}.app`));
+    }
+  }
+
+  function record(device: FakeDevice, action: string, data: Record<string, unknown>) {
+    const entry = { ts: new Date().toISOString(), udid: device.udid, action, screen: device.screen, ...data };
+    fs.appendFileSync(tapLogPath, JSON.stringify(entry) + "\n");
+  }
+
+  function lookup(requested: string): FakeDevice {
+    const device = devices.find(d => d.udid === requested);
+    if (!device) throw new Error(`Unknown device: ${requested}`);
+    return device;
+  }
+
+  function booted(requested: string): FakeDevice {
+    const device = lookup(requested);
+    if (!device.booted) throw new Error(`Device ${requested} is not booted`);
+    return device;
+  }
+
+  function elementAt(device: FakeDevice, x: number, y: number): AXElement | undefined {
+    const current = script.screens[device.screen];
+    if (!current) return undefined;
+    // Smallest frame wins, like hit-testing a leaf before its container
+    return [...current.elements, ...(current.hidden ?? [])]
+      .filter(el =>
+        x >= el.frame.x && x <= el.frame.x + el.frame.width &&
+        y >= el.frame.y && y <= el.frame.y + el.frame.height)
+      .sort((a, b) => a.frame.width * a.frame.height - b.frame.width * b.frame.height)[0];
+  }
+
+  function appName(bundleId: string): string | undefined {
+    return script.apps?.[bundleId]?.name;
+  }
+
+  // The scripted screen plus what SpringBoard would add: home-screen icons and a banner
+  function visibleElements(device: FakeDevice): AXElement[] {
+    const current = script.screens[device.screen];
+    if (!current) throw new Error(`Fake script has no screen "${device.screen}"`);
+    const elements = [...current.elements];
+    if (device.screen === script.homeScreen) {
+      let x = 27;
+      for (const bundleId of device.apps.keys()) {
+        const name = appName(bundleId);
+        if (!name) continue;
+        const badge = device.badges.get(bundleId) ?? 0;
+        elements.push({
+          AXUniqueId: null, AXLabel: name, AXValue: badge > 0 ? `${badge} notification${badge === 1 ? "" : "s"}` : null,
+          type: "Button", role: "AXButton", frame: { x, y: 80, width: 64, height: 64 }, enabled: true,
+        });
+        x += 90;
+      }
+    }
+    if (device.banner && device.banner.until > Date.now()) elements.push(device.banner.element);
+    return elements;
+  }
+
+  let nextPid = 4200;
+
+  function crashApp(device: FakeDevice, fixture: string) {
+    const now = new Date();
+    const text = fs.readFileSync(path.resolve(fixtureDir, fixture), "utf-8")
+      .split("{udid}").join(device.udid)
+      .split("{now}").join(now.toISOString());
+    const header = JSON.parse(text.slice(0, text.indexOf("\n")));
+    const bundleId = String(header.bundleID ?? "");
+    device.pids.delete(bundleId);
+    device.stopped.add(bundleId);
+    const dir = path.join(workDir, device.udid, "DiagnosticReports");
+    fs.mkdirSync(dir, { recursive: true });
+    const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}Z$/, "");
+    const report = path.join(dir, `${header.app_name ?? "app"}-${stamp}.ips`);
+    fs.writeFileSync(report, text);
+    record(device, "crash", { bundleId, report });
+    if (script.homeScreen) device.screen = script.homeScreen;
+  }
+
+  function appendLog(device: FakeDevice, lines: string[]) {
+    if (!device.logPath) return;
+    const now = new Date().toISOString().replace(/\.\d{3}/, "");
+    fs.appendFileSync(device.logPath, lines.map(l => l.split("{now}").join(now) + "\n").join(""));
+  }
+
+  return {
+    name: "fake",
+    tapLogPath,
+
+    currentScreen(udid) {
+      return (udid ? lookup(udid) : devices[0]).screen;
+    },
+
+    async bootedDevices() {
+      return devices.filter(d => d.booted).map(d => ({ udid: d.udid, name: d.name }));
+    },
+
+    async listDevices() {
+      return devices.map(d => ({
+        udid: d.udid,
+        name: d.name,
+        state: d.booted ? "Booted" : "Shutdown",
+        deviceType: d.deviceType,
+        runtime: d.runtime,
+      }));
+    },
+
+    async boot(requested) {
+      const device = lookup(requested);
+      if (!device.booted) record(device, "boot", {});
+      device.booted = true;
+    },
+
+    async shutdown(requested) {
+      const device = lookup(requested);
+      if (device.booted) record(device, "shutdown", {});
+      device.booted = false;
+      device.screen = script.initialScreen;
+    },
+
+    async describeAll(requested) {
+      return JSON.parse(JSON.stringify(visibleElements(booted(requested))));
+    },
+
+    async describePoint(requested, x, y) {
+      const el = elementAt(booted(requested), x, y);
+      return el ? JSON.parse(JSON.stringify(el)) : null;
+    },
+
+    async tap(requested, x, y, opts) {
+      const device = booted(requested);
+      const el = elementAt(device, x, y);
+      record(device, "tap", { x, y, duration: opts?.duration, element: el?.AXUniqueId ?? el?.AXLabel ?? null });
+      if (!el) return;
+      const transition = (script.transitions ?? []).find(t =>
+        (!t.screen || t.screen === device.screen) && (t.tap === el.AXUniqueId || t.tap === el.AXLabel));
+      if (!transition) return;
+      if (transition.to) device.screen = transition.to;
+      if (transition.log) appendLog(device, transition.log);
+      if (transition.crash) crashApp(device, transition.crash);
+    },
+
+    async swipe(requested, from, to, opts) {
+      record(booted(requested), "swipe", { from, to, duration: opts?.duration });
+    },
+
+    async text(requested, text) {
+      record(booted(requested), "text", { text });
+    },
+
+    async key(requested, keycode) {
+      record(booted(requested), "key", { keycode });
+    },
+
+    async screenshot(requested, outPath) {
+      booted(requested);
+      if (script.screenshot) {
+        fs.copyFileSync(path.resolve(fixtureDir, script.screenshot), outPath);
+      } else {
+        fs.writeFileSync(outPath, Buffer.from(BLANK_PNG, "base64"));
+      }
+    },
+
+    async openUrl(requested, url) {
+      record(booted(requested), "openurl", { url });
+    },
+
+    async terminate(requested, bundleId) {
+      const device = booted(requested);
+      record(device, "terminate", { bundleId });
+      device.pids.delete(bundleId);
+      device.stopped.add(bundleId);
+      if (script.homeScreen) device.screen = script.homeScreen;
+    },
+
+    async launch(requested, bundleId) {
+      const device = booted(requested);
+      if (script.apps && !device.apps.has(bundleId)) {
+        throw new Error(`Application "${bundleId}" is not installed`);
+      }
+      record(device, "launch", { bundleId });
+      device.stopped.delete(bundleId);
+      device.pids.set(bundleId, nextPid++);
+      device.screen = script.initialScreen;
+    },
+
+    async install(requested, appPath) {
+      const device = booted(requested);
+      let info: Record<string, any>;
+      try {
+        info = parseXmlPlist(fs.readFileSync(path.join(appPath, "Info.plist"), "utf-8")) as Record<string, any>;
+      } catch (e: any) {
+        throw new Error(`Failed to install ${appPath}: no readable Info.plist (${e.message})`);
+      }
+      const bundleId = typeof info.CFBundleIdentifier === "string" ? info.CFBundleIdentifier : "";
+      if (!bundleId) throw new Error(`Failed to install ${appPath}: Info.plist has no CFBundleIdentifier`);
+      const version = info.CFBundleShortVersionString ?? null;
+      const build = info.CFBundleVersion ?? null;
+      record(device, "install", { bundleId, appPath, version, build });
+      installFake(device, bundleId, version === null ? null : String(version), build === null ? null : String(build), appPath);
+    },
+
+    async uninstall(requested, bundleId) {
+      const device = booted(requested);
+      record(device, "uninstall", { bundleId });
+      const app = device.apps.get(bundleId);
+      if (!app) return;
+      for (const dir of [app.dataContainer, ...Object.values(app.groupContainers)]) {
+        if (dir) fs.rmSync(dir, { recursive: true, force: true });
+      }
+      device.apps.delete(bundleId);
+      device.pids.delete(bundleId);
+      device.stopped.add(bundleId);
+    },
+
+    async push(requested, bundleId, payloadPath) {
+      const device = booted(requested);
+      const payload = JSON.parse(fs.readFileSync(payloadPath, "utf-8"));
+      record(device, "push", { bundleId, payload });
+      if (script.apps && !device.apps.has(bundleId)) return;
+      const aps = payload?.aps ?? {};
+      if (typeof aps.badge === "number") device.badges.set(bundleId, aps.badge);
+      const alert = typeof aps.alert === "string" ? { body: aps.alert } : aps.alert ?? {};
+      const text = [alert.title, alert.subtitle, alert.body].filter(Boolean);
+      if (text.length === 0) return;
+      device.banner = {
+        element: {
+          AXUniqueId: "NotificationShortLookView",
+          AXLabel: [appName(bundleId) ?? bundleId, ...text].join(", "),
+          AXValue: null, type: "Button", role: "AXButton",
+          frame: { x: 8, y: 54, width: 386, height: 76 }, enabled: true,
+        },
+        until: Date.now() + BANNER_MS,
+      };
+    },
+
+    async addMedia(requested, paths) {
+      const device = booted(requested);
+      const dir = path.join(workDir, device.udid, "Media");
+      fs.mkdirSync(dir, { recursive: true });
+      for (const file of paths) {
+        if (!fs.existsSync(file)) throw new Error(`No such file: ${file}`);
+        fs.copyFileSync(file, path.join(dir, path.basename(file)));
+      }
+      record(device, "addmedia", { paths });
+    },
+
+    async filesAppDirectory(requested) {
+      const dir = path.join(workDir, booted(requested).udid, "Files");
+      fs.mkdirSync(dir, { recursive: true });
+      return dir;
+    },
+
+    async recordVideo(requested, outPath) {
+      const device = booted(requested);
+      record(device, "recordvideo", { path: outPath });
+      let finish!: (failure: string | null) => void;
+      const ended = new Promise<string | null>(resolve => { finish = resolve; });
+      let stopped = false;
+      return {
+        ended,
+        async stop() {
+          if (stopped) return;
+          stopped = true;
+          fs.writeFileSync(outPath, `fake screen recording of ${device.udid}\n`);
+          record(device, "stoprecording", { path: outPath });
+          finish(null);
+        },
+      };
+    },
+
+    async appPid(requested, bundleId) {
+      const device = booted(requested);
+      if ((script.apps && !device.apps.has(bundleId)) || device.stopped.has(bundleId)) return null;
+      if (!device.pids.has(bundleId)) device.pids.set(bundleId, nextPid++);
+      return device.pids.get(bundleId)!;
+    },
+
+    crashReportDirs(requested) {
+      return [path.join(workDir, lookup(requested).udid, "DiagnosticReports")];
+    },
+
+    async appInfo(requested, bundleId) {
+      const app = booted(requested).apps.get(bundleId);
+      return app ? JSON.parse(JSON.stringify(app)) : null;
+    },
+
+    findLogFile(requested) {
+      return devices.find(d => d.udid === requested)?.logPath ?? null;
+    },
+  };
+}
@@ -0,0 +1,453 @@
+import type { AXElement, DeviceDriver } from "./driver";
+import { formatAmbiguity, fuzzySelector, parseSelector, resolveOne, selectAll, type Resolution, type Selector, type SelectorView } from "./selector";
+import { takeSnapshot, type UISnapshot } from "./ui-diff";
+
+// Element lookup and the find-then-act operations behind sim_tap_id,
+// sim_type_in_field, sim_wait_for_element and sim_find_elements. Tools format
+// the outcomes; anything that needs the same behaviour without going through a
+// tool call (the structured test runner) calls these directly.
+
+export async function getAccessibilityTree(driver: DeviceDriver, udid: string, signal?: AbortSignal): Promise<AXElement[]> {
+  try {
+    return await driver.describeAll(udid, signal);
+  } catch (e: any) {
+    throw new Error(`Failed to get accessibility tree: ${e.message}`);
+  }
+}
+
+/**
+ * A lookup target: a parsed selector, or a plain string matched the legacy way
+ * (exact id, id prefix, exact label, then label substring; see lib/selector.ts).
+ */
+export type ElementTarget = string | Selector;
+
+function toSelector(target: ElementTarget): Selector {
+  return typeof target === "string" ? fuzzySelector(target) : target;
+}
+
+function axView(el: AXElement): SelectorView {
+  return { id: el.AXUniqueId, label: el.AXLabel, value: el.AXValue, type: el.type, enabled: el.enabled, frame: el.frame };
+}
+
+// The application element spans the whole screen and carries the app name as
+// its label; XCUI queries never return it either, so selectors skip it.
+function selectable(elements: AXElement[]): AXElement[] {
+  return elements.filter(el => el.role !== "AXApplication");
+}
+
+/** Every element the target matches, in tree order. */
+export function findElements(elements: AXElement[], target: ElementTarget): AXElement[] {
+  return selectAll(selectable(elements), toSelector(target), axView);
+}
+
+/** The first match, for existence checks. Acting on an element goes through resolveOne so ambiguity is reported. */
+export function findElement(elements: AXElement[], target: ElementTarget): AXElement | undefined {
+  return findElements(elements, target)[0];
+}
+
+/**
+ * Pixels per point for a screenshot `imageWidth` pixels wide, from the
+ * application element's frame. Undefined when the tree has no such element.
+ */
+export function pointScale(elements: AXElement[] | undefined, imageWidth: number): number | undefined {
+  const app = elements?.find(el => el.role === "AXApplication" && el.frame.width > 0);
+  return app ? imageWidth / app.frame.width : undefined;
+}
+
+/** The tree as a diffable snapshot (lib/ui-diff.ts). */
+export function snapshotOf(elements: AXElement[]): UISnapshot {
+  return takeSnapshot(selectable(elements), axView);
+}
+
+/**
+ * The shortest selector that picks out `el` alone among `elements`: its id,
+ * then id or label narrowed by type, then the best of those with index=N.
+ * Undefined when the element has neither id nor label.
+ */
+export function stableSelector(elements: AXElement[], el: AXElement): string | undefined {
+  const pool = [...selectable(elements), el];
+  const same = (a: AXElement) =>
+    a === el || (a.AXUniqueId === el.AXUniqueId && a.AXLabel === el.AXLabel &&
+      a.frame.x === el.frame.x && a.frame.y === el.frame.y);
+  const type = `type=${el.type}`;
+  const candidates = [
+    el.AXUniqueId ? `id=${el.AXUniqueId}` : undefined,
+    el.AXUniqueId ? `id=${el.AXUniqueId} ${type}` : undefined,
+    el.AXLabel ? `${type} label=${JSON.stringify(el.AXLabel)}` : undefined,
+  ].filter((c): c is string => c !== undefined);
+
+  for (const text of candidates) {
+    const matches = selectAll(pool, parseSelector(text), axView);
+    if (matches.length === 1 && same(matches[0])) return text;
+  }
+  for (const text of candidates) {
+    const index = selectAll(pool, parseSelector(text), axView).findIndex(same);
+    if (index >= 0) return `${text} index=${index}`;
+  }
+  return undefined;
+}
+
+export function formatAmbiguous(target: ElementTarget, matches: AXElement[]): string {
+  return formatAmbiguity(toSelector(target), matches.map(formatElementInfo));
+}
+
+export function elementCenter(el: AXElement): { x: number; y: number } {
+  return {
+    x: Math.round(el.frame.x + el.frame.width / 2),
+    y: Math.round(el.frame.y + el.frame.height / 2),
+  };
+}
+
+export function formatElementInfo(el: AXElement): string {
+  const center = elementCenter(el);
+  return `id=${el.AXUniqueId || "none"}, label="${el.AXLabel || ""}", type=${el.type}, center=(${center.x},${center.y}), enabled=${el.enabled}`;
+}
+
+export function formatAvailable(elements: AXElement[]): string {
+  return elements
+    .filter(e => e.AXUniqueId || e.AXLabel)
+    .map(e => `  ${e.AXUniqueId || "(no id)"}: "${e.AXLabel || ""}" [${e.type}]`)
+    .join("\n");
+}
+
+// describe-point output in the AXElement shape
+function pointElement(info: any): AXElement {
+  return {
+    AXUniqueId: info.AXUniqueId || null,
+    AXLabel: info.AXLabel || null,
+    AXValue: info.AXValue || null,
+    type: info.type || "Unknown",
+    role: info.role || "",
+    frame: info.frame || { x: 0, y: 0, width: 0, height: 0 },
+    enabled: info.enabled !== false,
+    custom_actions: info.custom_actions || [],
+  };
+}
+
+/**
+ * The element a tap at (x, y) would land on, with the tree read alongside it.
+ * describe-point is asked first since it also sees bottom toolbar items;
+ * otherwise the smallest tree element containing the point is used.
+ */
+export async function elementAtPoint(
+  driver: DeviceDriver,
+  udid: string,
+  x: number,
+  y: number,
+  signal?: AbortSignal
+): Promise<{ element?: AXElement; tree: AXElement[] }> {
+  const tree = await getAccessibilityTree(driver, udid, signal);
+  try {
+    const info = await driver.describePoint(udid, x, y, signal);
+    if (info && info.role !== "AXApplication" && (info.AXUniqueId || info.AXLabel)) {
+      return { element: pointElement(info), tree };
+    }
+  } catch {}
+  const inside = selectable(tree).filter(el =>
+    x >= el.frame.x && x <= el.frame.x + el.frame.width &&
+    y >= el.frame.y && y <= el.frame.y + el.frame.height);
+  inside.sort((a, b) => a.frame.width * a.frame.height - b.frame.width * b.frame.height);
+  return { element: inside[0], tree };
+}
+
+// SwiftUI bottom toolbar items (.toolbar { ToolbarItem(placement: .bottomBar) })
+// are not enumerated by idb describe-all, but they DO exist in the accessibility
+// hierarchy and respond to hit-testing via describe-point. This function finds
+// the "Toolbar" group element in the tree to determine its exact position, then
+// probes a grid of points within that frame. If no Toolbar element exists in the
+// tree, falls back to probing the bottom 80pt of the screen.
+export async function probeToolbarElements(
+  driver: DeviceDriver,
+  udid: string,
+  signal?: AbortSignal,
+  treeElements?: AXElement[]
+): Promise<AXElement[]> {
+  const found: AXElement[] = [];
+  const seenIds = new Set<string>();
+
+  // Try to find the Toolbar group in the accessibility tree for exact coordinates
+  const elements = treeElements || [];
+  const toolbar = elements.find(el => el.AXLabel === "Toolbar" && el.role === "AXGroup");
+
+  let probePoints: { x: number; y: number }[];
+  if (toolbar && toolbar.frame.width > 0 && toolbar.frame.height > 0) {
+    // Use the actual toolbar frame to generate probe points
+    const f = toolbar.frame;
+    const midY = Math.round(f.y + f.height / 2);
+    const step = 40;
+    probePoints = [];
+    for (let x = f.x + 20; x < f.x + f.width; x += step) {
+      probePoints.push({ x: Math.round(x), y: midY });
+    }
+  } else {
+    // Fallback: probe the bottom toolbar area with hardcoded coordinates.
+    // These are optimized for standard iPhone sizes (375-430pt wide, ~852-932pt tall).
+    probePoints = [
+      { x: 40, y: 822 }, { x: 80, y: 822 }, { x: 120, y: 822 },
+      { x: 160, y: 822 }, { x: 201, y: 822 }, { x: 240, y: 822 },
+      { x: 280, y: 822 }, { x: 320, y: 822 }, { x: 360, y: 822 },
+      { x: 40, y: 843 }, { x: 120, y: 843 }, { x: 201, y: 843 },
+      { x: 280, y: 843 }, { x: 360, y: 843 },
+    ];
+  }
+
+  for (const pt of probePoints) {
+    if (signal?.aborted) break;
+    try {
+      const info = await driver.describePoint(udid, pt.x, pt.y, signal);
+      if (info) {
+        const axId = info.AXUniqueId || null;
+        // Skip generic containers and already-seen elements
+        const key = axId || `${info.AXLabel}@${info.frame?.x},${info.frame?.y}`;
+        if (seenIds.has(key)) continue;
+        if (!axId && !info.AXLabel) continue;
+        // Skip the Toolbar group itself
+        if (info.role === "AXGroup" && info.AXLabel === "Toolbar") continue;
+        if (info.role === "AXApplication") continue;
+
+        seenIds.add(key);
+        found.push(pointElement(info));
+      }
+    } catch {
+      // Ignore probe failures
+    }
+  }
+  return found;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// --- Operations ---
+
+export type TapOutcome =
+  | { ok: true; element: AXElement }
+  | { ok: false; reason: "tree_error" | "tap_failed"; message: string }
+  | { ok: false; reason: "not_found"; elements: AXElement[] }
+  | { ok: false; reason: "ambiguous"; matches: AXElement[] }
+  | { ok: false; reason: "disabled"; element: AXElement };
+
+/**
+ * Tree read, then the toolbar probe when the target isn't in the tree (SwiftUI
+ * .bottomBar items are hidden from describe-all). `elements` includes the
+ * probed items when they were needed.
+ */
+export async function resolveOnScreen(
+  driver: DeviceDriver,
+  udid: string,
+  selector: Selector,
+  signal?: AbortSignal
+): Promise<{ elements: AXElement[]; resolution: Resolution<AXElement> }> {
+  let elements = await getAccessibilityTree(driver, udid, signal);
+  let resolution = resolveOne(selectable(elements), selector, axView);
+  if (resolution.kind === "not_found") {
+    try {
+      const toolbarElements = await probeToolbarElements(driver, udid, signal, elements);
+      const withToolbar = elements.concat(toolbarElements);
+      const retry = resolveOne(selectable(withToolbar), selector, axView);
+      if (retry.kind !== "not_found") {
+        elements = withToolbar;
+        resolution = retry;
+      }
+    } catch { /* best-effort */ }
+  }
+  return { elements, resolution };
+}
+
+export async function tapElement(
+  driver: DeviceDriver,
+  udid: string,
+  target: ElementTarget,
+  opts: { retries?: number; duration?: number },
+  signal?: AbortSignal
+): Promise<TapOutcome> {
+  const selector = toSelector(target);
+  const maxAttempts = (opts.retries ?? 0) + 1;
+  let elements: AXElement[] = [];
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (attempt > 0) await sleep(1000);
+
+    let resolution: Resolution<AXElement>;
+    try {
+      ({ elements, resolution } = await resolveOnScreen(driver, udid, selector, signal));
+    } catch (e: any) {
+      return { ok: false, reason: "tree_error", message: e.message };
+    }
+
+    if (resolution.kind === "not_found") continue;
+    if (resolution.kind === "ambiguous") return { ok: false, reason: "ambiguous", matches: resolution.matches };
+    const el = resolution.element;
+
+    if (!el.enabled) {
+      return { ok: false, reason: "disabled", element: el };
+    }
+
+    const center = elementCenter(el);
+    try {
+      await driver.tap(udid, center.x, center.y, { duration: opts.duration }, signal);
+    } catch (e: any) {
+      return { ok: false, reason: "tap_failed", message: e.message };
+    }
+    return { ok: true, element: el };
+  }
+
+  return { ok: false, reason: "not_found", elements };
+}
+
+export type TypeOutcome =
+  | { ok: true; element: AXElement }
+  | { ok: false; reason: "tree_error" | "tap_failed" | "type_failed"; message: string }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "ambiguous"; matches: AXElement[] };
+
+export async function typeInField(
+  driver: DeviceDriver,
+  udid: string,
+  target: ElementTarget,
+  text: string,
+  clearFirst: boolean,
+  signal?: AbortSignal
+): Promise<TypeOutcome> {
+  let resolution: Resolution<AXElement>;
+  try {
+    ({ resolution } = await resolveOnScreen(driver, udid, toSelector(target), signal));
+  } catch (e: any) {
+    return { ok: false, reason: "tree_error", message: e.message };
+  }
+
+  if (resolution.kind === "not_found") return { ok: false, reason: "not_found" };
+  if (resolution.kind === "ambiguous") return { ok: false, reason: "ambiguous", matches: resolution.matches };
+  const el = resolution.element;
+
+  // Tap to focus the field
+  const center = elementCenter(el);
+  try {
+    await driver.tap(udid, center.x, center.y, {}, signal);
+  } catch (e: any) {
+    return { ok: false, reason: "tap_failed", message: e.message };
+  }
+
+  // Brief pause for focus to register
+  await sleep(300);
+
+  // Clear existing text if requested
+  if (clearFirst) {
+    // Select all (Cmd+A) then delete
+    // HID key codes: Cmd modifier isn't directly supported by idb key,
+    // so we use a different approach: triple-tap to select all, then backspace
+    // Best-effort: a failed select-all still lets the typing go through
+    try {
+      await driver.tap(udid, center.x, center.y, {}, signal);
+      await sleep(100);
+      await driver.tap(udid, center.x, center.y, {}, signal);
+      await sleep(100);
+      await driver.tap(udid, center.x, center.y, {}, signal);
+      await sleep(200);
+      // Delete selected text
+      await driver.key(udid, 42, signal);
+    } catch {}
+    await sleep(200);
+  }
+
+  // Type the text
+  try {
+    await driver.text(udid, text, signal);
+  } catch (e: any) {
+    return { ok: false, reason: "type_failed", message: e.message };
+  }
+  return { ok: true, element: el };
+}
+
+export interface WaitOutcome {
+  /** First match. Callers that act on one element check `matches` for ambiguity. */
+  element?: AXElement;
+  /** Every element that matched when it appeared. */
+  matches?: AXElement[];
+  elapsedMs: number;
+  /** Last tree read, for "available elements" output on timeout. */
+  elements?: AXElement[];
+}
+
+export async function waitForElement(
+  driver: DeviceDriver,
+  udid: string,
+  target: ElementTarget,
+  opts: { timeoutMs: number; intervalMs: number },
+  signal?: AbortSignal
+): Promise<WaitOutcome> {
+  const selector = toSelector(target);
+  const start = Date.now();
+
+  while (Date.now() - start < opts.timeoutMs) {
+    let elements: AXElement[];
+    try {
+      elements = await getAccessibilityTree(driver, udid, signal);
+    } catch {
+      await sleep(opts.intervalMs);
+      continue;
+    }
+
+    let matches = findElements(elements, selector);
+    // Fallback: probe bottom toolbar for hidden elements
+    if (matches.length === 0) {
+      try {
+        const toolbarElements = await probeToolbarElements(driver, udid, signal, elements);
+        matches = findElements(elements.concat(toolbarElements), selector);
+      } catch { /* best-effort */ }
+    }
+    if (matches.length > 0) return { element: matches[0], matches, elapsedMs: Date.now() - start };
+
+    await sleep(opts.intervalMs);
+  }
+
+  // Final attempt — return available elements for debugging
+  try {
+    const elements = await getAccessibilityTree(driver, udid, signal);
+    return { elapsedMs: Date.now() - start, elements };
+  } catch {
+    return { elapsedMs: Date.now() - start };
+  }
+}
+
+/**
+ * Tree plus toolbar probe, then a substring match on id, label or value, or
+ * every match of a selector. Throws if the tree can't be read.
+ */
+export async function findMatchingElements(
+  driver: DeviceDriver,
+  udid: string,
+  pattern: string | Selector | undefined,
+  signal?: AbortSignal
+): Promise<AXElement[]> {
+  const elements = await getAccessibilityTree(driver, udid, signal);
+
+  // Also probe bottom toolbar for hidden elements
+  try {
+    const toolbarElements = await probeToolbarElements(driver, udid, signal, elements);
+    // Merge, avoiding duplicates by checking AXUniqueId
+    const existingIds = new Set(elements.filter(e => e.AXUniqueId).map(e => e.AXUniqueId));
+    for (const te of toolbarElements) {
+      if (te.AXUniqueId && !existingIds.has(te.AXUniqueId)) {
+        elements.push(te);
+        existingIds.add(te.AXUniqueId);
+      } else if (!te.AXUniqueId) {
+        elements.push(te);
+      }
+    }
+  } catch {
+    // Toolbar probe is best-effort
+  }
+
+  if (!pattern) {
+    return elements.filter(el => el.AXUniqueId || el.AXLabel);
+  }
+  if (typeof pattern !== "string") return findElements(elements, pattern);
+  const lowerPattern = pattern.toLowerCase();
+  return elements.filter(el =>
+    (el.AXUniqueId?.toLowerCase().includes(lowerPattern) ?? false) ||
+    (el.AXLabel?.toLowerCase().includes(lowerPattern) ?? false) ||
+    (el.AXValue?.toLowerCase().includes(lowerPattern) ?? false)
+  );
+}
@@ -0,0 +1,197 @@
+import { parseLog, type AppEvent } from "./convos-log";
+import { cursorAtEnd, cursorWithin, describeReset, readLogFrom } from "./log-cursor";
+
+// Waiting for [EVENT] lines with parameter assertions. An expectation is an
+// event name pattern plus matchers on its params:
+//
+//   message.received   conversation_id=7f3a9c   count>=2   sender!=me   text~^Hello
+//
+// A sequence of expectations must match in order: each one only considers
+// events logged after the previous one matched.
+
+export type MatcherOp = "=" | "!=" | ">" | ">=" | "<" | "<=" | "~" | "exists";
+
+export interface EventMatcher {
+  key: string;
+  op: MatcherOp;
+  value: string;
+  /** The matcher as written, for reports. */
+  text: string;
+}
+
+export interface EventExpectation {
+  /** Exact event name, or a pattern with `*` wildcards ("message.*"). */
+  event: string;
+  where: EventMatcher[];
+}
+
+const MATCHER_RE = /^([\w.-]+)\s*(>=|<=|!=|=|>|<|~)\s*(.*)$/;
+
+/** Parse `key=value`, `key>=2`, `key~regex` or a bare `key` (must be present). Throws on bad syntax. */
+export function parseMatcher(text: string): EventMatcher {
+  const trimmed = text.trim();
+  if (/^[\w.-]+$/.test(trimmed)) return { key: trimmed, op: "exists", value: "", text: trimmed };
+  const m = trimmed.match(MATCHER_RE);
+  if (!m) throw new Error(`Invalid matcher "${text}". Use key=value, key!=value, key>=n, key<n, key~regex or a bare key.`);
+  const op = m[2] as MatcherOp;
+  const value = m[3].trim();
+  if ((op === ">" || op === ">=" || op === "<" || op === "<=") && !Number.isFinite(Number(value))) {
+    throw new Error(`Matcher "${text}" compares with ${op} but "${value}" is not a number.`);
+  }
+  if (op === "~") {
+    try { new RegExp(value); } catch (e: any) { throw new Error(`Matcher "${text}" has an invalid regex: ${e.message}`); }
+  }
+  if (value.startsWith("$")) {
+    throw new Error(`Matcher "${text}" still has an unresolved variable; substitute the real value before calling.`);
+  }
+  return { key: m[1], op, value, text: trimmed };
+}
+
+export function parseExpectation(event: string, where: string[] = []): EventExpectation {
+  if (!event.trim()) throw new Error("Event name must not be empty.");
+  return { event: event.trim(), where: where.map(parseMatcher) };
+}
+
+export function nameMatches(pattern: string, name: string): boolean {
+  if (!pattern.includes("*")) return pattern === name;
+  const re = new RegExp("^" + pattern.split("*").map(p => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$");
+  return re.test(name);
+}
+
+function matcherHolds(m: EventMatcher, params: Record<string, string>): boolean {
+  const actual = params[m.key];
+  if (actual === undefined) return false;
+  switch (m.op) {
+    case "exists": return true;
+    case "=": return actual === m.value;
+    case "!=": return actual !== m.value;
+    case "~": return new RegExp(m.value).test(actual);
+    default: {
+      const n = Number(actual);
+      if (!Number.isFinite(n)) return false;
+      const v = Number(m.value);
+      return m.op === ">" ? n > v : m.op === ">=" ? n >= v : m.op === "<" ? n < v : n <= v;
+    }
+  }
+}
+
+/** Matchers the event fails, as "key=value (got x)" strings. Empty when it matches. */
+export function failedMatchers(exp: EventExpectation, ev: AppEvent): string[] {
+  return exp.where
+    .filter(m => !matcherHolds(m, ev.params))
+    .map(m => `${m.text} (got ${ev.params[m.key] === undefined ? "no " + m.key : m.key + "=" + ev.params[m.key]})`);
+}
+
+export function describeExpectation(exp: EventExpectation): string {
+  return [exp.event, ...exp.where.map(m => m.text)].join(" ");
+}
+
+// --- Waiting ---
+
+export interface MatchedEvent {
+  expectation: EventExpectation;
+  timestamp: string;
+  name: string;
+  params: Record<string, string>;
+  raw: string;
+}
+
+export interface NearMiss {
+  timestamp: string;
+  name: string;
+  params: Record<string, string>;
+  /** Matchers the event failed. */
+  failed: string[];
+}
+
+export interface ExpectOutcome {
+  /** Expectations matched, in order. All of them when `ok`. */
+  matched: MatchedEvent[];
+  ok: boolean;
+  /** Index of the first unmatched expectation (== matched.length). */
+  pending: number;
+  /** Events with the pending expectation's name that failed its matchers, most recent last. */
+  nearMisses: NearMiss[];
+  /** Names and counts of every other event seen while waiting for the pending expectation. */
+  otherEvents: Record<string, number>;
+  /** Cursor just after the last matched event, or after everything read if none matched. */
+  marker: string;
+  elapsedMs: number;
+  /** Cursor resets seen while waiting, already described. */
+  notes: string[];
+}
+
+const NEAR_MISS_LIMIT = 10;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Poll convos.log until every expectation has matched in order, or the
+ * timeout passes. `findLogFile` is re-run each poll so a wait can start before
+ * the app has written its log. Without a cursor, only events logged after the
+ * call starts count.
+ */
+export async function waitForEvents(
+  findLogFile: () => string | null,
+  expectations: EventExpectation[],
+  opts: { cursor?: string; timeoutMs: number; intervalMs: number },
+  signal?: AbortSignal
+): Promise<ExpectOutcome> {
+  const start = Date.now();
+  const matched: MatchedEvent[] = [];
+  let nearMisses: NearMiss[] = [];
+  let otherEvents: Record<string, number> = {};
+  const notes: string[] = [];
+  let cursor = opts.cursor;
+  let marker = opts.cursor ?? "";
+
+  if (!cursor) {
+    const logFile = findLogFile();
+    if (logFile) {
+      try { cursor = marker = cursorAtEnd(logFile); } catch {}
+    }
+  }
+
+  const outcome = (ok: boolean): ExpectOutcome => ({
+    matched, ok, pending: matched.length, nearMisses, otherEvents, marker, elapsedMs: Date.now() - start, notes,
+  });
+
+  while (true) {
+    const logFile = findLogFile();
+    if (logFile) {
+      // Throws on a malformed cursor; the caller reports it
+      const read = readLogFrom(logFile, cursor);
+      if (read.reset) notes.push(describeReset(read.reset));
+      cursor = read.cursor;
+      if (matched.length === 0) marker = read.cursor;
+
+      for (const record of parseLog(read.text)) {
+        if (!record.event || matched.length === expectations.length) continue;
+
+        const exp = expectations[matched.length];
+        const ev = record.event;
+        if (!nameMatches(exp.event, ev.name)) {
+          otherEvents[ev.name] = (otherEvents[ev.name] ?? 0) + 1;
+          continue;
+        }
+        const failed = failedMatchers(exp, ev);
+        if (failed.length > 0) {
+          nearMisses.push({ timestamp: record.timestamp, name: ev.name, params: ev.params, failed });
+          if (nearMisses.length > NEAR_MISS_LIMIT) nearMisses.shift();
+          continue;
+        }
+
+        matched.push({ expectation: exp, timestamp: record.timestamp, name: ev.name, params: ev.params, raw: record.raw });
+        marker = cursorWithin(read, record.end);
+        nearMisses = [];
+        otherEvents = {};
+      }
+      if (matched.length === expectations.length) return outcome(true);
+    }
+
+    if (signal?.aborted || Date.now() - start >= opts.timeoutMs) return outcome(false);
+    await sleep(Math.min(opts.intervalMs, Math.max(0, opts.timeoutMs - (Date.now() - start))));
+  }
+}
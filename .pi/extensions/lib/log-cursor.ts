@@ -0,0 +1,194 @@
+import * as fs from "node:fs";
+import { createHash } from "node:crypto";
+
+// Opaque read positions in convos.log. A cursor records which file it points
+// into (inode plus a hash of the file's first bytes), the byte offset just past
+// the last complete line read, and how many lines precede that offset. Reading
+// from a cursor returns exactly the lines appended since, however many there
+// are. If the file was replaced (reinstall, new inode), truncated (shorter
+// than the offset) or rewritten in place (different head), the read restarts
+// from the top of the new file and says so.
+
+const CURSOR_PREFIX = "lc1.";
+const FINGERPRINT_BYTES = 256;
+
+interface CursorState {
+  /** inode */
+  i: number;
+  /** sha1 prefix of the first `l` bytes */
+  f: string;
+  l: number;
+  /** byte offset */
+  o: number;
+  /** lines before the offset */
+  s: number;
+}
+
+export type LogReset = "replaced" | "truncated" | "rewritten";
+
+export interface LogRead {
+  text: string;
+  /** Cursor positioned after the last complete line in `text`. */
+  cursor: string;
+  /** Set when the cursor no longer matched the file and the read started over. */
+  reset?: LogReset;
+  /** 1-based line number of the first line in `text`. */
+  firstLine: number;
+  lineCount: number;
+}
+
+export function isLogCursor(marker: string | undefined): boolean {
+  return !!marker && marker.startsWith(CURSOR_PREFIX);
+}
+
+function encode(state: CursorState): string {
+  return CURSOR_PREFIX + Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+function decode(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(Buffer.from(cursor.slice(CURSOR_PREFIX.length), "base64url").toString("utf-8"));
+    if (typeof state.o === "number" && typeof state.s === "number") return state;
+  } catch {}
+  throw new Error(`Invalid log cursor "${cursor}". Pass the marker exactly as a log tool returned it.`);
+}
+
+function readRange(fd: number, start: number, end: number): Buffer {
+  const buf = Buffer.alloc(Math.max(0, end - start));
+  let read = 0;
+  while (read < buf.length) {
+    const n = fs.readSync(fd, buf, read, buf.length - read, start + read);
+    if (n === 0) break;
+    read += n;
+  }
+  return buf.subarray(0, read);
+}
+
+function fingerprint(fd: number, size: number, length = Math.min(size, FINGERPRINT_BYTES)): { f: string; l: number } {
+  const head = readRange(fd, 0, Math.min(length, size));
+  return { f: createHash("sha1").update(head).digest("hex").slice(0, 16), l: head.length };
+}
+
+function countNewlines(buf: Buffer): number {
+  let n = 0;
+  for (let i = 0; i < buf.length; i++) if (buf[i] === 0x0a) n++;
+  return n;
+}
+
+/** Only complete lines are consumed; a line still being written is left for the next read. */
+function completeLines(buf: Buffer): Buffer {
+  const lastNewline = buf.lastIndexOf(0x0a);
+  return lastNewline < 0 ? buf.subarray(0, 0) : buf.subarray(0, lastNewline + 1);
+}
+
+/** Why `state` no longer describes this file, or undefined if it still does. */
+function checkIdentity(state: CursorState, ino: number, fd: number, size: number): LogReset | undefined {
+  if (state.i !== ino) return "replaced";
+  if (size < state.o) return "truncated";
+  if (fingerprint(fd, size, state.l).f !== state.f) return "rewritten";
+  return undefined;
+}
+
+/** Everything appended after `cursor`. Without a cursor, reads the whole file. */
+export function readLogFrom(file: string, cursor?: string): LogRead {
+  const state = cursor ? decode(cursor) : undefined;
+  const fd = fs.openSync(file, "r");
+  try {
+    const { size, ino } = fs.fstatSync(fd);
+    let reset: LogReset | undefined;
+    let offset = 0;
+    let seq = 0;
+    if (state) {
+      reset = checkIdentity(state, ino, fd, size);
+      if (!reset) {
+        offset = state.o;
+        seq = state.s;
+      }
+    }
+
+    const chunk = completeLines(readRange(fd, offset, size));
+    const lineCount = countNewlines(chunk);
+    return {
+      text: chunk.toString("utf-8"),
+      cursor: encode({ i: ino, ...fingerprint(fd, size), o: offset + chunk.length, s: seq + lineCount }),
+      reset,
+      firstLine: seq + 1,
+      lineCount,
+    };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/** Newlines in the first `end` bytes, read in chunks so large logs aren't held in memory. */
+function countLinesBefore(fd: number, end: number): number {
+  const chunkSize = 1024 * 1024;
+  let n = 0;
+  for (let pos = 0; pos < end; pos += chunkSize) {
+    n += countNewlines(readRange(fd, pos, Math.min(end, pos + chunkSize)));
+  }
+  return n;
+}
+
+/** The last `lines` complete lines, plus a cursor at the end of the file. */
+export function readLogTail(file: string, lines: number): LogRead {
+  const fd = fs.openSync(file, "r");
+  try {
+    const { size, ino } = fs.fstatSync(fd);
+    // Walk back in chunks until we have enough complete lines
+    const chunkSize = 64 * 1024;
+    let start = size;
+    let buf = Buffer.alloc(0);
+    while (start > 0 && countNewlines(buf) <= lines) {
+      const from = Math.max(0, start - chunkSize);
+      buf = Buffer.concat([readRange(fd, from, start), buf]);
+      start = from;
+    }
+    const complete = completeLines(buf);
+
+    // Drop leading lines beyond the requested count (the first one may be partial)
+    let skip = countNewlines(complete) - lines;
+    let cut = 0;
+    while (skip > 0) {
+      cut = complete.indexOf(0x0a, cut) + 1;
+      skip--;
+    }
+    const kept = complete.subarray(cut);
+    const endOffset = start + complete.length;
+    const totalLines = countLinesBefore(fd, start) + countNewlines(complete);
+    const lineCount = countNewlines(kept);
+    return {
+      text: kept.toString("utf-8"),
+      cursor: encode({ i: ino, ...fingerprint(fd, size), o: endOffset, s: totalLines }),
+      firstLine: totalLines - lineCount + 1,
+      lineCount,
+    };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * A cursor partway through a read: just after the first `chars` characters of
+ * `read.text`, which must end on a line boundary. Lets a caller resume right
+ * after the entry it stopped at instead of after everything it read.
+ */
+export function cursorWithin(read: LogRead, chars: number): string {
+  const end = decode(read.cursor);
+  const rest = read.text.slice(chars);
+  const restLines = rest.length === 0 ? 0 : rest.split("\n").length - 1;
+  return encode({ ...end, o: end.o - Buffer.byteLength(rest, "utf-8"), s: end.s - restLines });
+}
+
+/** A cursor at the current end of the file, for "only what happens from now on" reads. */
+export function cursorAtEnd(file: string): string {
+  return readLogTail(file, 0).cursor;
+}
+
+export function describeReset(reset: LogReset): string {
+  switch (reset) {
+    case "replaced": return "log file was replaced (app reinstalled or log rotated); reading the new file from the start";
+    case "truncated": return "log file shrank (truncated on relaunch); reading from the start";
+    case "rewritten": return "log file was rewritten; reading from the start";
+  }
+}
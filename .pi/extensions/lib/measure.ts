@@ -0,0 +1,207 @@
+import type { DeviceDriver } from "./driver";
+import { elementCenter, findElements, formatAmbiguous, formatElementInfo, getAccessibilityTree, resolveOnScreen, snapshotOf } from "./elements";
+import { waitForEvents, type EventExpectation } from "./event-expect";
+import { cursorAtEnd } from "./log-cursor";
+import type { Selector } from "./selector";
+import { diffSnapshots, isEmptyDiff, type UISnapshot } from "./ui-diff";
+
+// Latency between an action and what it should lead to, behind sim_measure.
+// The timer starts just before the action reaches the simulator (a tap's
+// element is looked up first, outside the timer) and stops when the end
+// condition holds. Tree-based conditions can only notice the change when a
+// describe-all returns, so every sample carries the read time as its
+// resolution; an [EVENT] with a sub-second timestamp is timed by the log.
+
+export type MeasureAction =
+  | { kind: "tap"; selector: Selector }
+  | { kind: "open_url"; url: string }
+  | { kind: "launch_app"; bundleId: string; terminateFirst: boolean };
+
+export type EndCondition =
+  | { kind: "element"; selector: Selector }
+  | { kind: "event"; expectation: EventExpectation }
+  /** The screen changed and then stayed the same for `quietMs`. */
+  | { kind: "stable"; quietMs: number };
+
+export type Sample =
+  /** `resolutionMs` is how late the end may have been noticed: a tree read or log poll, 0 for a log timestamp. */
+  | { ok: true; ms: number; resolutionMs: number }
+  | { ok: false; message: string };
+
+export interface SampleStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p95: number;
+}
+
+// Tree polls back to back: describe-all already takes a few hundred ms
+const TREE_INTERVAL_MS = 50;
+const LOG_INTERVAL_MS = 100;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Nearest-rank percentile of ascending `sorted` (p in 0..100). */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function summarize(samples: number[]): SampleStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const n = sorted.length;
+  const median = n % 2 === 1 ? sorted[(n - 1) / 2] : (sorted[n / 2 - 1] + sorted[n / 2]) / 2;
+  return {
+    count: n,
+    min: sorted[0],
+    max: sorted[n - 1],
+    mean: sorted.reduce((sum, v) => sum + v, 0) / n,
+    median,
+    p95: percentile(sorted, 95),
+  };
+}
+
+/** ✅ within target, ⚠️ up to twice it, ❌ beyond (the legend in qa/tests/15-performance.md). */
+export function verdict(value: number, targetMs: number): "pass" | "warn" | "fail" {
+  if (value <= targetMs) return "pass";
+  return value <= targetMs * 2 ? "warn" : "fail";
+}
+
+// Log timestamps are usually whole seconds; only a sub-second one inside the
+// window is more precise than the poll that found the line
+function eventTime(timestamp: string, start: number, seenAt: number): number {
+  if (!/\.\d+Z$/.test(timestamp)) return seenAt;
+  const t = Date.parse(timestamp);
+  return Number.isFinite(t) && t >= start && t <= seenAt ? t : seenAt;
+}
+
+/**
+ * Run the action once and time it to the end condition. `findLogFile` is only
+ * used by event conditions. Failures (element not found, timeout) come back as
+ * a failed sample rather than throwing, so repetitions can carry on.
+ */
+export async function measureOnce(
+  driver: DeviceDriver,
+  udid: string,
+  action: MeasureAction,
+  until: EndCondition,
+  opts: { timeoutMs: number; findLogFile: () => string | null },
+  signal?: AbortSignal
+): Promise<Sample> {
+  // Everything that isn't the action itself happens before the timer starts
+  let perform: () => Promise<void>;
+  let before: UISnapshot | undefined;
+  try {
+    switch (action.kind) {
+      case "tap": {
+        const { resolution } = await resolveOnScreen(driver, udid, action.selector, signal);
+        if (resolution.kind === "not_found") return { ok: false, message: `Element to tap not found: "${action.selector.text}"` };
+        if (resolution.kind === "ambiguous") return { ok: false, message: formatAmbiguous(action.selector, resolution.matches) };
+        if (!resolution.element.enabled) return { ok: false, message: `Element to tap is disabled: ${formatElementInfo(resolution.element)}` };
+        const center = elementCenter(resolution.element);
+        perform = () => driver.tap(udid, center.x, center.y, {}, signal);
+        break;
+      }
+      case "open_url":
+        perform = () => driver.openUrl(udid, action.url, signal);
+        break;
+      case "launch_app":
+        if (action.terminateFirst) {
+          await driver.terminate(udid, action.bundleId, signal);
+        }
+        perform = () => driver.launch(udid, action.bundleId, signal);
+        break;
+    }
+    // A fresh read: resolveOnScreen's elements may include probed toolbar items that describe-all never lists
+    if (until.kind === "stable") before = snapshotOf(await getAccessibilityTree(driver, udid, signal));
+  } catch (e: any) {
+    return { ok: false, message: e.message };
+  }
+
+  let cursor: string | undefined;
+  if (until.kind === "event") {
+    const logFile = opts.findLogFile();
+    if (logFile) {
+      try { cursor = cursorAtEnd(logFile); } catch {}
+    }
+  }
+
+  const start = Date.now();
+  try {
+    await perform();
+  } catch (e: any) {
+    return { ok: false, message: `${action.kind} failed: ${e.message}` };
+  }
+
+  const timeoutMs = opts.timeoutMs;
+  switch (until.kind) {
+    case "event": {
+      let outcome;
+      try {
+        outcome = await waitForEvents(opts.findLogFile, [until.expectation], {
+          cursor, timeoutMs: Math.max(0, timeoutMs - (Date.now() - start)), intervalMs: LOG_INTERVAL_MS,
+        }, signal);
+      } catch (e: any) {
+        return { ok: false, message: `Failed to read log file: ${e.message}` };
+      }
+      const seenAt = Date.now();
+      if (!outcome.ok) return { ok: false, message: `No matching event within ${timeoutMs / 1000}s` };
+      const end = eventTime(outcome.matched[0].timestamp, start, seenAt);
+      return { ok: true, ms: end - start, resolutionMs: end === seenAt ? LOG_INTERVAL_MS : 0 };
+    }
+
+    case "element": {
+      let readMs = 0;
+      while (Date.now() - start < timeoutMs && !signal?.aborted) {
+        const readStart = Date.now();
+        try {
+          const elements = await getAccessibilityTree(driver, udid, signal);
+          const now = Date.now();
+          readMs = now - readStart;
+          if (findElements(elements, until.selector).length > 0) return { ok: true, ms: now - start, resolutionMs: readMs };
+        } catch {}
+        await sleep(TREE_INTERVAL_MS);
+      }
+      return { ok: false, message: `"${until.selector.text}" did not appear within ${timeoutMs / 1000}s` };
+    }
+
+    case "stable": {
+      let last = before!;
+      let changed = false;
+      // When the current unchanged stretch was first seen, and the read time then
+      let since = start;
+      let readMs = 0;
+      while (Date.now() - start < timeoutMs && !signal?.aborted) {
+        const readStart = Date.now();
+        let snapshot: UISnapshot;
+        try {
+          snapshot = snapshotOf(await getAccessibilityTree(driver, udid, signal));
+        } catch {
+          await sleep(TREE_INTERVAL_MS);
+          continue;
+        }
+        const now = Date.now();
+        if (!isEmptyDiff(diffSnapshots(last, snapshot))) {
+          changed = true;
+          since = now;
+          readMs = now - readStart;
+          last = snapshot;
+        } else if (changed && now - since >= until.quietMs) {
+          return { ok: true, ms: since - start, resolutionMs: readMs };
+        }
+        await sleep(TREE_INTERVAL_MS);
+      }
+      return {
+        ok: false,
+        message: changed
+          ? `Screen was still changing after ${timeoutMs / 1000}s`
+          : `Screen did not change within ${timeoutMs / 1000}s`,
+      };
+    }
+  }
+}
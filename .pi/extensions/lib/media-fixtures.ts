@@ -0,0 +1,371 @@
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { artifactsRoot, sanitizePathPart } from "./cxdb";
+import type { DeviceDriver } from "./driver";
+import { encodePng, type RgbaImage } from "./png";
+
+// Generated media and files for attachment tests, behind sim_media_fixture.
+// Everything is made locally from a spec, so a test gets the same bytes on
+// every machine and never depends on the network or on what a simulator's
+// photo library already holds. Fixtures live in qa/artifacts/fixtures/<id>/,
+// where the id comes from the content hash; index.json maps each spec to the
+// fixture it produced, so asking again is a cache hit.
+//
+// PNG images, PDFs and text files are written in-process. JPEG and HEIC go
+// through macOS's sips, video through ffmpeg (FFMPEG_PATH, or ffmpeg on PATH).
+
+export type ImageFormat = "png" | "jpeg" | "heic";
+export type VideoFormat = "mp4" | "mov";
+
+export type FixtureSpec =
+  | { kind: "image"; width: number; height: number; format: ImageFormat; seed: string }
+  | { kind: "video"; width: number; height: number; durationS: number; format: VideoFormat; seed: string }
+  | { kind: "pdf"; pages: number; seed: string }
+  /** `content` verbatim, or `sizeBytes` of generated text lines. */
+  | { kind: "file"; name: string; content?: string; sizeBytes: number; seed: string };
+
+export interface Fixture {
+  /** "fx-" and the first 12 hex digits of the content's SHA-256. */
+  id: string;
+  kind: FixtureSpec["kind"];
+  path: string;
+  fileName: string;
+  sha256: string;
+  bytes: number;
+  /** False when it was generated by this call. */
+  cached: boolean;
+}
+
+// Bump when a generator changes its output, so cached fixtures are remade
+const GENERATOR_VERSION = 1;
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+
+// One call's worth of distinct fixtures, and the largest image or video side generated
+export const MAX_FIXTURE_COUNT = 10;
+const MAX_FIXTURE_IMAGE_PX = 4096;
+
+export function fixturesRoot(): string {
+  return path.join(artifactsRoot(), "fixtures");
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function specKey(spec: FixtureSpec): string {
+  // Sorted keys, so the same spec always hashes the same
+  const sorted = Object.fromEntries(Object.entries(spec).sort(([a], [b]) => a.localeCompare(b)));
+  return sha256(JSON.stringify({ v: GENERATOR_VERSION, ...sorted })).slice(0, 16);
+}
+
+/** File name a fixture is saved (and shown in Photos or Files) under. */
+export function fixtureFileName(spec: FixtureSpec): string {
+  const seed = sanitizePathPart(spec.seed);
+  switch (spec.kind) {
+    case "image": return `image-${seed}-${spec.width}x${spec.height}.${spec.format === "jpeg" ? "jpg" : spec.format}`;
+    case "video": return `video-${seed}-${spec.width}x${spec.height}-${spec.durationS}s.${spec.format}`;
+    case "pdf": return `document-${seed}-${spec.pages}p.pdf`;
+    case "file": return path.basename(spec.name).replace(/[^\w.-]/g, "-");
+  }
+}
+
+function positive(value: number | undefined, fallback: number, what: string, max = Infinity): number {
+  const n = value ?? fallback;
+  if (!(n > 0) || n > max) throw new Error(`${what} must be more than 0${max < Infinity ? ` and at most ${max}` : ""}`);
+  return n;
+}
+
+/**
+ * A spec from sim_media_fixture's (and the media_fixture action's) flat
+ * parameters. Throws on values that don't fit the kind.
+ */
+export function fixtureSpec(params: Record<string, any>, seed: string): FixtureSpec {
+  switch (params.kind) {
+    case "image": {
+      const format = params.format ?? "png";
+      if (!["png", "jpeg", "heic"].includes(format)) throw new Error(`Image format must be png, jpeg or heic, not ${format}`);
+      const width = Math.round(positive(params.width, 1200, "width", MAX_FIXTURE_IMAGE_PX));
+      const height = Math.round(positive(params.height, 900, "height", MAX_FIXTURE_IMAGE_PX));
+      return { kind: "image", width, height, format, seed };
+    }
+    case "video": {
+      const format = params.format ?? "mp4";
+      if (!["mp4", "mov"].includes(format)) throw new Error(`Video format must be mp4 or mov, not ${format}`);
+      // H.264 wants even dimensions
+      const width = Math.round(positive(params.width, 640, "width", MAX_FIXTURE_IMAGE_PX) / 2) * 2;
+      const height = Math.round(positive(params.height, 360, "height", MAX_FIXTURE_IMAGE_PX) / 2) * 2;
+      return { kind: "video", width, height, durationS: positive(params.duration, 3, "duration", 60), format, seed };
+    }
+    case "pdf":
+      return { kind: "pdf", pages: Math.round(positive(params.pages, 1, "pages", 100)), seed };
+    case "file":
+      if (!params.name) throw new Error("A file fixture needs a name, e.g. 'notes.txt'");
+      return {
+        kind: "file",
+        name: params.name,
+        ...(params.content !== undefined ? { content: params.content } : {}),
+        sizeBytes: Math.round(positive(params.size_bytes, 1024, "size_bytes", 50 * 1024 * 1024)),
+        seed,
+      };
+    default:
+      throw new Error(`Unknown fixture kind: ${params.kind}`);
+  }
+}
+
+// --- Generators ---
+
+function seedBytes(seed: string): Buffer {
+  return createHash("sha256").update(seed).digest();
+}
+
+function hsv(h: number, s: number, v: number): [number, number, number] {
+  const i = Math.floor(h * 6);
+  const f = h * 6 - i;
+  const p = v * (1 - s), q = v * (1 - f * s), t = v * (1 - (1 - f) * s);
+  const [r, g, b] = [[v, t, p], [q, v, p], [p, v, t], [p, q, v], [t, p, v], [v, p, q]][i % 6];
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+/**
+ * Diagonal stripes in a colour picked by the seed, with a 4x4 block
+ * fingerprint of the seed in the top-left corner, so two fixtures of the same
+ * size are told apart at a glance and in a screenshot comparison.
+ */
+export function renderImage(width: number, height: number, seed: string): RgbaImage {
+  const bytes = seedBytes(seed);
+  const hue = bytes[0] / 256;
+  const base = hsv(hue, 0.55, 0.85);
+  const stripe = hsv(hue, 0.35, 0.95);
+  const ink = hsv((hue + 0.5) % 1, 0.8, 0.35);
+  const data = new Uint8Array(width * height * 4);
+  const stripeWidth = Math.max(4, Math.round(Math.min(width, height) / 12));
+  const cell = Math.max(2, Math.floor(Math.min(width, height) / 16));
+  const border = Math.max(1, Math.round(Math.min(width, height) / 100));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color = Math.floor((x + y) / stripeWidth) % 2 === 0 ? base : stripe;
+      if (x < border || y < border || x >= width - border || y >= height - border) color = ink;
+      const cx = Math.floor((x - 2 * border) / cell);
+      const cy = Math.floor((y - 2 * border) / cell);
+      if (x >= 2 * border && y >= 2 * border && cx < 4 && cy < 4) {
+        const bit = cy * 4 + cx;
+        color = (bytes[1 + (bit >> 3)] >> (bit & 7)) & 1 ? ink : [255, 255, 255];
+      }
+      const o = (y * width + x) * 4;
+      data[o] = color[0];
+      data[o + 1] = color[1];
+      data[o + 2] = color[2];
+      data[o + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function escapePdfText(s: string): string {
+  return s.replace(/[\\()]/g, c => `\\${c}`).replace(/[^\x20-\x7e]/g, "?");
+}
+
+/** A minimal, valid PDF: Letter pages with a heading, the seed and the page number in Helvetica. */
+export function renderPdf(pages: number, seed: string): Buffer {
+  // 1 catalog, 2 page tree, 3 font, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = Array.from({ length: pages }, (_, i) => 4 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pageIds.forEach((id, i) => {
+    const text = [
+      `BT /F1 28 Tf 72 700 Td (${escapePdfText("Convos QA fixture")}) Tj ET`,
+      `BT /F1 16 Tf 72 660 Td (${escapePdfText(`Seed: ${seed}`)}) Tj ET`,
+      `BT /F1 16 Tf 72 636 Td (${escapePdfText(`Page ${i + 1} of ${pages}`)}) Tj ET`,
+    ].join("\n");
+    objects[id] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${id + 1} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`;
+    objects[id + 1] = `<< /Length ${Buffer.byteLength(text, "latin1")} >>\nstream\n${text}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+/** Numbered lines of text, cut to exactly `sizeBytes`. */
+export function renderText(sizeBytes: number, seed: string): Buffer {
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = 1; length < sizeBytes; i++) {
+    const line = `${String(i).padStart(4, "0")} Convos QA fixture ${seed}: the quick brown fox jumps over the lazy dog.\n`;
+    lines.push(line);
+    length += Buffer.byteLength(line);
+  }
+  return Buffer.from(lines.join("")).subarray(0, sizeBytes);
+}
+
+function convertImage(png: Buffer, format: "jpeg" | "heic", outPath: string) {
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "fixture-"));
+  try {
+    const src = path.join(tmp, "source.png");
+    fs.writeFileSync(src, png);
+    execFileSync("sips", ["-s", "format", format, src, "--out", outPath], { timeout: 30000, stdio: "pipe" });
+  } catch (e: any) {
+    throw new Error(`Could not convert the image to ${format} with sips (macOS only; use format png elsewhere): ${e.message}`);
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+/** Run ffmpeg, throwing its error output, or how to install it when it's missing. */
+export function runFfmpeg(args: string[], timeoutMs: number) {
+  try {
+    execFileSync(FFMPEG, args, { timeout: timeoutMs, stdio: "pipe" });
+  } catch (e: any) {
+    const missing = e.code === "ENOENT";
+    throw new Error(missing
+      ? `ffmpeg not found; install it (brew install ffmpeg) or set FFMPEG_PATH`
+      : `ffmpeg failed: ${e.stderr?.toString().trim() || e.message}`);
+  }
+}
+
+function renderVideo(spec: Extract<FixtureSpec, { kind: "video" }>, outPath: string) {
+  // A moving test pattern and a tone whose pitch comes from the seed; bitexact keeps encoder tags out
+  const frequency = 220 + (seedBytes(spec.seed)[0] % 64) * 10;
+  const args = [
+    "-hide_banner", "-loglevel", "error", "-y",
+    "-f", "lavfi", "-i", `testsrc2=size=${spec.width}x${spec.height}:rate=30:duration=${spec.durationS}`,
+    "-f", "lavfi", "-i", `sine=frequency=${frequency}:duration=${spec.durationS}`,
+    "-c:v", "libx264", "-pix_fmt", "yuv420p", "-c:a", "aac", "-shortest",
+    "-map_metadata", "-1", "-fflags", "+bitexact", "-flags:v", "+bitexact", "-flags:a", "+bitexact",
+    outPath,
+  ];
+  runFfmpeg(args, 120000);
+}
+
+function generate(spec: FixtureSpec, outPath: string) {
+  switch (spec.kind) {
+    case "image": {
+      const png = encodePng(renderImage(spec.width, spec.height, spec.seed));
+      if (spec.format === "png") fs.writeFileSync(outPath, png);
+      else convertImage(png, spec.format, outPath);
+      return;
+    }
+    case "video":
+      renderVideo(spec, outPath);
+      return;
+    case "pdf":
+      fs.writeFileSync(outPath, renderPdf(spec.pages, spec.seed));
+      return;
+    case "file":
+      fs.writeFileSync(outPath, spec.content !== undefined ? spec.content : renderText(spec.sizeBytes, spec.seed));
+      return;
+  }
+}
+
+// --- Cache ---
+
+interface IndexEntry {
+  id: string;
+  kind: FixtureSpec["kind"];
+  fileName: string;
+  sha256: string;
+}
+
+function readIndex(): Record<string, IndexEntry> {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(fixturesRoot(), "index.json"), "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+function writeIndex(index: Record<string, IndexEntry>) {
+  fs.mkdirSync(fixturesRoot(), { recursive: true });
+  const file = path.join(fixturesRoot(), "index.json");
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(index, null, 2) + "\n");
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+/**
+ * The fixture for `spec`, generated on first use. A cached file whose content
+ * no longer matches its recorded hash is generated again.
+ */
+export function ensureFixture(spec: FixtureSpec): Fixture {
+  const key = specKey(spec);
+  const index = readIndex();
+  const known = index[key];
+  if (known) {
+    const file = path.join(fixturesRoot(), known.id, known.fileName);
+    if (fs.existsSync(file)) {
+      const data = fs.readFileSync(file);
+      if (sha256(data) === known.sha256) {
+        return { id: known.id, kind: spec.kind, path: file, fileName: known.fileName, sha256: known.sha256, bytes: data.length, cached: true };
+      }
+    }
+  }
+
+  const fileName = fixtureFileName(spec);
+  const staging = fs.mkdtempSync(path.join(os.tmpdir(), "fixture-"));
+  try {
+    const tmp = path.join(staging, fileName);
+    generate(spec, tmp);
+    const data = fs.readFileSync(tmp);
+    const hash = sha256(data);
+    const id = `fx-${hash.slice(0, 12)}`;
+    const dir = path.join(fixturesRoot(), id);
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, fileName);
+    fs.copyFileSync(tmp, file);
+    writeIndex({ ...readIndex(), [key]: { id, kind: spec.kind, fileName, sha256: hash } });
+    return { id, kind: spec.kind, path: file, fileName, sha256: hash, bytes: data.length, cached: false };
+  } finally {
+    fs.rmSync(staging, { recursive: true, force: true });
+  }
+}
+
+/** A fixture generated earlier, by id, or null. */
+export function findFixture(id: string): Fixture | null {
+  for (const entry of Object.values(readIndex())) {
+    if (entry.id !== id) continue;
+    const file = path.join(fixturesRoot(), entry.id, entry.fileName);
+    if (!fs.existsSync(file)) return null;
+    return {
+      id, kind: entry.kind, path: file, fileName: entry.fileName, sha256: entry.sha256, bytes: fs.statSync(file).size, cached: true,
+    };
+  }
+  return null;
+}
+
+/**
+ * Put fixtures where the app can pick them: images and videos in the photo
+ * library, anything else in the Files app. `addTo` overrides that; photos
+ * only takes media. Returns where they went.
+ */
+export async function addFixtures(
+  driver: DeviceDriver,
+  udid: string,
+  fixtures: Fixture[],
+  addTo: "photos" | "files" | undefined,
+  signal?: AbortSignal
+): Promise<"photos" | "files"> {
+  const media = fixtures.every(f => f.kind === "image" || f.kind === "video");
+  const where = addTo ?? (media ? "photos" : "files");
+  if (where === "photos") {
+    if (!media) throw new Error("Only images and videos can go in the photo library; use add_to: files");
+    await driver.addMedia(udid, fixtures.map(f => f.path), signal);
+  } else {
+    const dir = await driver.filesAppDirectory(udid, signal);
+    for (const f of fixtures) fs.copyFileSync(f.path, path.join(dir, f.fileName));
+  }
+  return where;
+}
@@ -0,0 +1,153 @@
+// Property lists as the app-lifecycle tools meet them: the old-style (OpenStep)
+// text `simctl appinfo` prints, and the XML form of an app's Info.plist. Only
+// strings, numbers, booleans, arrays and dictionaries are understood; data
+// and date values come back as their text.
+
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
+/**
+ * Parse OpenStep text such as
+ *
+ *   { CFBundleVersion = 42; GroupContainers = { "group.org.convos" = "file:///..."; }; SBAppTags = ( ); }
+ *
+ * Unquoted and quoted words are both strings. Throws on malformed input.
+ */
+export function parseOpenStepPlist(text: string): PlistValue {
+  let pos = 0;
+
+  const fail = (what: string): never => {
+    throw new Error(`Malformed plist at offset ${pos}: ${what}`);
+  };
+
+  function skip() {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) pos++;
+      else if (text.startsWith("//", pos)) pos = text.includes("\n", pos) ? text.indexOf("\n", pos) + 1 : text.length;
+      else if (text.startsWith("/*", pos)) pos = text.includes("*/", pos) ? text.indexOf("*/", pos) + 2 : text.length;
+      else break;
+    }
+  }
+
+  function string(): string {
+    if (text[pos] === '"') {
+      let out = "";
+      pos++;
+      while (pos < text.length && text[pos] !== '"') {
+        if (text[pos] === "\\") {
+          const next = text[++pos];
+          out += next === "n" ? "\n" : next === "t" ? "\t" : next;
+          pos++;
+        } else {
+          out += text[pos++];
+        }
+      }
+      if (text[pos] !== '"') fail("unterminated string");
+      pos++;
+      return out;
+    }
+    const m = text.slice(pos).match(/^[^\s{}()=;,"]+/);
+    if (!m) fail(`unexpected "${text[pos] ?? "end of input"}"`);
+    pos += m![0].length;
+    return m![0];
+  }
+
+  function value(): PlistValue {
+    skip();
+    if (text[pos] === "{") {
+      pos++;
+      const dict: { [key: string]: PlistValue } = {};
+      for (skip(); text[pos] !== "}"; skip()) {
+        if (pos >= text.length) fail("unterminated dictionary");
+        const key = string();
+        skip();
+        if (text[pos] !== "=") fail(`expected "=" after ${key}`);
+        pos++;
+        dict[key] = value();
+        skip();
+        if (text[pos] === ";") pos++;
+        else if (text[pos] !== "}") fail(`expected ";" after the value of ${key}`);
+      }
+      pos++;
+      return dict;
+    }
+    if (text[pos] === "(") {
+      pos++;
+      const list: PlistValue[] = [];
+      for (skip(); text[pos] !== ")"; skip()) {
+        if (pos >= text.length) fail("unterminated array");
+        list.push(value());
+        skip();
+        if (text[pos] === ",") pos++;
+      }
+      pos++;
+      return list;
+    }
+    return string();
+  }
+
+  const result = value();
+  skip();
+  if (pos < text.length) fail("trailing text");
+  return result;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function unescapeXml(s: string): string {
+  return s.replace(/&(lt|gt|amp|quot|apos);/g, (_, name) => XML_ENTITIES[name]);
+}
+
+/** Parse an XML property list (<plist><dict>…</dict></plist>). Throws on malformed input. */
+export function parseXmlPlist(text: string): PlistValue {
+  const tokens = text
+    .replace(/<\?xml[^>]*\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->/g, "")
+    .match(/<[^>]+>|[^<]+/g)
+    ?.filter(t => t.trim() !== "") ?? [];
+  let i = 0;
+
+  function value(): PlistValue {
+    const open = tokens[i++];
+    if (!open) throw new Error("Malformed plist: unexpected end");
+    const selfClosing = open.match(/^<(true|false|string|dict|array)\s*\/>$/);
+    if (selfClosing) {
+      const tag = selfClosing[1];
+      return tag === "true" ? true : tag === "false" ? false : tag === "string" ? "" : tag === "dict" ? {} : [];
+    }
+    const tag = open.match(/^<(\w+)(?:\s[^>]*)?>$/)?.[1];
+    if (!tag) throw new Error(`Malformed plist: unexpected ${open}`);
+
+    if (tag === "dict") {
+      const dict: { [key: string]: PlistValue } = {};
+      while (tokens[i] !== "</dict>") {
+        if (tokens[i] !== "<key>") throw new Error(`Malformed plist: expected <key>, got ${tokens[i] ?? "end"}`);
+        i++;
+        const key = tokens[i] === "</key>" ? "" : unescapeXml(tokens[i++]);
+        if (tokens[i++] !== "</key>") throw new Error(`Malformed plist: unterminated <key>${key}`);
+        dict[key] = value();
+      }
+      i++;
+      return dict;
+    }
+    if (tag === "array") {
+      const list: PlistValue[] = [];
+      while (tokens[i] !== "</array>") {
+        if (i >= tokens.length) throw new Error("Malformed plist: unterminated <array>");
+        list.push(value());
+      }
+      i++;
+      return list;
+    }
+    if (tag === "plist") {
+      const inner = value();
+      if (tokens[i++] !== "</plist>") throw new Error("Malformed plist: expected </plist>");
+      return inner;
+    }
+
+    const body = tokens[i] === `</${tag}>` ? "" : unescapeXml(tokens[i++]);
+    if (tokens[i++] !== `</${tag}>`) throw new Error(`Malformed plist: unterminated <${tag}>`);
+    if (tag === "integer" || tag === "real") return Number(body.trim());
+    return body;
+  }
+
+  return value();
+}
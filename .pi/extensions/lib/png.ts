@@ -0,0 +1,197 @@
+import * as zlib from "node:zlib";
+
+// PNG reading and writing for screenshot processing, in-process so it works
+// the same with the fake driver and on machines without sips. Reads the
+// non-interlaced 8-bit images simctl produces (RGBA, RGB, grey, grey+alpha and
+// 8-bit palette); always writes 8-bit RGBA.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes, row-major RGBA. */
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/** Reverse the per-row filters in place; returns the raw scanlines without filter bytes. */
+function unfilter(inflated: Buffer, width: number, height: number, bpp: number): Uint8Array {
+  const stride = width * bpp;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = inflated[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = inflated[src + x];
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let v: number;
+      switch (filter) {
+        case 0: v = raw; break;
+        case 1: v = raw + a; break;
+        case 2: v = raw + b; break;
+        case 3: v = raw + ((a + b) >> 1); break;
+        case 4: v = raw + paeth(a, b, c); break;
+        default: throw new Error(`PNG row ${y} has unknown filter type ${filter}`);
+      }
+      out[row + x] = v & 0xff;
+    }
+  }
+  return out;
+}
+
+/** Width and height from the IHDR chunk, without decoding; null if `buf` isn't a PNG. */
+export function pngSize(buf: Buffer): { width: number; height: number } | null {
+  if (buf.length < 24 || !buf.subarray(0, 8).equals(SIGNATURE) || buf.toString("latin1", 12, 16) !== "IHDR") return null;
+  return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+}
+
+export function decodePng(buf: Buffer): RgbaImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(SIGNATURE)) throw new Error("Not a PNG file");
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  for (let pos = 8; pos + 8 <= buf.length;) {
+    const length = buf.readUInt32BE(pos);
+    const type = buf.toString("latin1", pos + 4, pos + 8);
+    const body = buf.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      transparency = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!width || !height || channels === undefined) throw new Error("PNG has no usable IHDR chunk");
+  if (bitDepth !== 8) throw new Error(`${bitDepth}-bit PNGs are not supported (only 8-bit)`);
+  if (interlace !== 0) throw new Error("Interlaced PNGs are not supported");
+  if (colorType === 3 && !palette) throw new Error("Palette PNG without a PLTE chunk");
+
+  const raw = unfilter(zlib.inflateSync(Buffer.concat(idat)), width, height, channels);
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const o = i * 4;
+    switch (colorType) {
+      case 6:
+        data[o] = raw[p]; data[o + 1] = raw[p + 1]; data[o + 2] = raw[p + 2]; data[o + 3] = raw[p + 3];
+        break;
+      case 2:
+        data[o] = raw[p]; data[o + 1] = raw[p + 1]; data[o + 2] = raw[p + 2]; data[o + 3] = 255;
+        break;
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = raw[p]; data[o + 3] = 255;
+        break;
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = raw[p]; data[o + 3] = raw[p + 1];
+        break;
+      case 3: {
+        const idx = raw[p];
+        data[o] = palette![idx * 3]; data[o + 1] = palette![idx * 3 + 1]; data[o + 2] = palette![idx * 3 + 2];
+        data[o + 3] = transparency && idx < transparency.length ? transparency[idx] : 255;
+        break;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), body])), 0);
+  return Buffer.concat([head, body, crc]);
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  // Sub filter on every row: cheap, and much smaller than none for UI captures
+  const filtered = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const dst = y * (stride + 1);
+    filtered[dst] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? data[y * stride + x - 4] : 0;
+      filtered[dst + 1 + x] = (data[y * stride + x] - left) & 0xff;
+    }
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = 6;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    chunk("IDAT", zlib.deflateSync(filtered, { level: 6 })),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** Box-filter downscale so neither side exceeds `max` pixels. Returns the image itself when it already fits. */
+export function fitWithin(image: RgbaImage, max: number): RgbaImage {
+  const factor = Math.ceil(Math.max(image.width, image.height) / max);
+  if (factor <= 1) return image;
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8Array(width * height * 4);
+  const area = factor * factor;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sums = [0, 0, 0, 0];
+      for (let dy = 0; dy < factor; dy++) {
+        let p = ((y * factor + dy) * image.width + x * factor) * 4;
+        for (let dx = 0; dx < factor; dx++, p += 4) {
+          sums[0] += image.data[p]; sums[1] += image.data[p + 1]; sums[2] += image.data[p + 2]; sums[3] += image.data[p + 3];
+        }
+      }
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = Math.round(sums[c] / area);
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,272 @@
+// APNs payloads for sim_send_push: named templates in the shapes the Convos
+// backend sends, and the checks simctl push doesn't make before handing a
+// payload to the simulator.
+//
+// The backend's pushes carry `clientId` and `notificationData.protocolData`
+// (see PushNotificationPayload.swift). Only a mutable-content push reaches the
+// NotificationService extension; the others are shown by iOS exactly as sent,
+// which is what badge and muting tests want. `thread-id` is the conversation
+// id: the app looks it up to decide whether a foreground banner is shown
+// (muted conversations) and which notifications to clear.
+
+import type { AXElement, DeviceDriver } from "./driver";
+import { findElements, getAccessibilityTree } from "./elements";
+import type { Selector } from "./selector";
+
+export type Payload = Record<string, unknown>;
+
+export interface PushVars {
+  title?: string;
+  body?: string;
+  badge?: number;
+  conversationId?: string;
+  clientId?: string;
+  sender?: string;
+  emoji?: string;
+}
+
+type ResolvedVars = Required<Omit<PushVars, "badge">> & { badge?: number };
+
+interface PushTemplate {
+  description: string;
+  build(vars: ResolvedVars): Payload;
+}
+
+/** APNs rejects larger payloads for regular remote notifications. */
+export const MAX_PAYLOAD_BYTES = 4096;
+
+const DEFAULT_VARS = {
+  title: "QA Conversation",
+  conversationId: "qa-conversation",
+  clientId: "qa-client",
+  sender: "QA Bot",
+  emoji: "👍",
+};
+
+function groupTopic(conversationId: string): string {
+  return `/xmtp/mls/1/g-${conversationId}/proto`;
+}
+
+function protocolData(contentTopic: string, encryptedMessage?: string): Payload {
+  return {
+    protocolData: {
+      contentTopic,
+      ...(encryptedMessage === undefined ? {} : { encryptedMessage }),
+    },
+  };
+}
+
+export const PUSH_TEMPLATES: Record<string, PushTemplate> = {
+  new_message: {
+    description: "A decoded text message: banner, sound and badge (default 1), grouped under the conversation",
+    build: v => ({
+      aps: {
+        alert: { title: v.title, body: v.body || `${v.sender}: Hello from QA` },
+        badge: v.badge ?? 1,
+        sound: "default",
+        "thread-id": v.conversationId,
+      },
+      clientId: v.clientId,
+      notificationData: protocolData(groupTopic(v.conversationId), ""),
+    }),
+  },
+  reaction: {
+    description: "A reaction: banner without a badge, as reactions never increment it",
+    build: v => ({
+      aps: {
+        alert: { title: v.title, body: v.body || `${v.sender} ${v.emoji}'d "Hello from QA"` },
+        "thread-id": v.conversationId,
+        ...(v.badge === undefined ? {} : { badge: v.badge }),
+      },
+      clientId: v.clientId,
+      notificationData: protocolData(groupTopic(v.conversationId), ""),
+    }),
+  },
+  invite_accepted: {
+    description: "Someone joined through your invite (a welcome push): banner and sound, badge only if given",
+    build: v => ({
+      aps: {
+        alert: { title: v.title, body: v.body || `${v.sender} accepted your invite` },
+        sound: "default",
+        "thread-id": v.conversationId,
+        ...(v.badge === undefined ? {} : { badge: v.badge }),
+      },
+      clientId: v.clientId,
+      notificationData: protocolData(`/xmtp/mls/1/w-${v.clientId}/proto`),
+    }),
+  },
+  nse: {
+    description:
+      "mutable-content push as the backend sends it, so the NotificationService extension runs. Its placeholder " +
+      "text is only shown if the extension fails to deliver in time; an undecryptable message is suppressed",
+    build: v => ({
+      aps: {
+        alert: { title: v.title, body: v.body || "New message" },
+        "mutable-content": 1,
+        sound: "default",
+        "thread-id": v.conversationId,
+      },
+      clientId: v.clientId,
+      notificationData: protocolData(groupTopic(v.conversationId), "AAAA"),
+    }),
+  },
+};
+
+export function buildFromTemplate(name: string, vars: PushVars): Payload {
+  const template = PUSH_TEMPLATES[name];
+  if (!template) {
+    throw new Error(`Unknown push template "${name}". Templates: ${Object.keys(PUSH_TEMPLATES).join(", ")}`);
+  }
+  const defined = Object.fromEntries(Object.entries(vars).filter(([, value]) => value !== undefined));
+  return template.build({ ...DEFAULT_VARS, body: "", ...defined } as ResolvedVars);
+}
+
+export interface PayloadCheck {
+  /** Problems that make simctl or iOS reject or ignore the push. */
+  errors: string[];
+  /** Legal but probably not what the test meant. */
+  warnings: string[];
+  bytes: number;
+}
+
+const APS_KEYS = new Set([
+  "alert", "badge", "sound", "thread-id", "category", "content-available", "mutable-content",
+  "target-content-id", "interruption-level", "relevance-score", "filter-criteria",
+]);
+const ALERT_KEYS = new Set([
+  "title", "subtitle", "body", "launch-image", "title-loc-key", "title-loc-args",
+  "subtitle-loc-key", "subtitle-loc-args", "loc-key", "loc-args",
+]);
+const INTERRUPTION_LEVELS = new Set(["passive", "active", "time-sensitive", "critical"]);
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Check a payload against the APNs rules that matter on a simulator and Convos' own expectations. */
+export function checkPayload(payload: unknown): PayloadCheck {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const bytes = Buffer.byteLength(JSON.stringify(payload ?? null), "utf-8");
+
+  if (!isObject(payload)) return { errors: ["The payload must be a JSON object"], warnings, bytes };
+  if (bytes > MAX_PAYLOAD_BYTES) errors.push(`Payload is ${bytes} bytes; APNs allows ${MAX_PAYLOAD_BYTES}`);
+
+  const aps = payload.aps;
+  if (!isObject(aps)) {
+    errors.push('The payload needs an "aps" dictionary');
+    return { errors, warnings, bytes };
+  }
+  for (const key of Object.keys(aps)) {
+    if (!APS_KEYS.has(key)) warnings.push(`aps.${key} is not an APNs key; iOS ignores it (custom data belongs outside aps)`);
+  }
+
+  const alert = aps.alert;
+  let hasAlert = false;
+  if (typeof alert === "string") {
+    hasAlert = alert.trim() !== "";
+  } else if (isObject(alert)) {
+    for (const [key, value] of Object.entries(alert)) {
+      if (!ALERT_KEYS.has(key)) warnings.push(`aps.alert.${key} is not an alert key`);
+      else if (!key.endsWith("-args") && typeof value !== "string") errors.push(`aps.alert.${key} must be a string`);
+      else if (key.endsWith("-args") && !Array.isArray(value)) errors.push(`aps.alert.${key} must be an array`);
+    }
+    hasAlert = ["title", "subtitle", "body", "loc-key", "title-loc-key"].some(k => typeof alert[k] === "string" && alert[k] !== "");
+  } else if (alert !== undefined) {
+    errors.push("aps.alert must be a string or a dictionary");
+  }
+
+  const badge = aps.badge;
+  if (badge !== undefined && !(typeof badge === "number" && Number.isInteger(badge) && badge >= 0)) {
+    errors.push("aps.badge must be a whole number, 0 or more (0 clears the badge)");
+  }
+  if (aps.sound !== undefined && typeof aps.sound !== "string" && !isObject(aps.sound)) {
+    errors.push("aps.sound must be a sound name or a dictionary");
+  }
+  for (const key of ["content-available", "mutable-content"]) {
+    if (aps[key] !== undefined && aps[key] !== 1) errors.push(`aps.${key} must be 1 when present`);
+  }
+  if (aps["thread-id"] !== undefined && typeof aps["thread-id"] !== "string") errors.push("aps.thread-id must be a string");
+  if (aps["interruption-level"] !== undefined && !INTERRUPTION_LEVELS.has(String(aps["interruption-level"]))) {
+    errors.push(`aps.interruption-level must be one of ${[...INTERRUPTION_LEVELS].join(", ")}`);
+  }
+
+  if (aps["mutable-content"] === 1) {
+    if (!hasAlert) errors.push("mutable-content needs a visible alert; iOS only runs the NotificationService extension for alerts");
+    if (typeof payload.clientId !== "string" || !payload.clientId) {
+      warnings.push("No clientId: the NotificationService drops the push and shows nothing");
+    }
+    if (!isObject(payload.notificationData) || !isObject(payload.notificationData.protocolData)) {
+      warnings.push("No notificationData.protocolData: the NotificationService has no message to decode and shows nothing");
+    }
+  }
+  if (!hasAlert && badge === undefined && aps.sound === undefined && aps["content-available"] === undefined) {
+    warnings.push("No alert, badge, sound or content-available: the push does nothing visible");
+  }
+  if (hasAlert && aps["thread-id"] === undefined) {
+    warnings.push("No thread-id: the app can't tie the notification to a conversation (muting, clearing on open)");
+  }
+
+  return { errors, warnings, bytes };
+}
+
+/** The alert's title and body, for matching the banner; null when the push has no alert. */
+export function alertText(payload: Payload): { title: string | null; body: string | null } | null {
+  const aps = payload.aps;
+  if (!isObject(aps)) return null;
+  if (typeof aps.alert === "string") return aps.alert ? { title: null, body: aps.alert } : null;
+  if (!isObject(aps.alert)) return null;
+  const title = typeof aps.alert.title === "string" && aps.alert.title ? aps.alert.title : null;
+  const body = typeof aps.alert.body === "string" && aps.alert.body ? aps.alert.body : null;
+  return title || body ? { title, body } : null;
+}
+
+// Banners and icons belong to SpringBoard; describe-all lists them along with the app's own elements
+const POLL_MS = 300;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait for more elements to match `selector` than the `before` matches seen
+ * ahead of the push, so text already on screen (a conversation preview with
+ * the same message) isn't mistaken for the banner. Null on timeout.
+ */
+export async function waitForNewMatch(
+  driver: DeviceDriver,
+  udid: string,
+  selector: Selector,
+  before: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<{ element: AXElement; elapsedMs: number } | null> {
+  const start = Date.now();
+  while (Date.now() - start < timeoutMs && !signal?.aborted) {
+    try {
+      const matches = findElements(await getAccessibilityTree(driver, udid, signal), selector);
+      if (matches.length > before) return { element: matches[matches.length - 1], elapsedMs: Date.now() - start };
+    } catch {}
+    await sleep(POLL_MS);
+  }
+  return null;
+}
+
+/** Badge count shown on a home-screen icon, from its accessibility value ("2 notifications"); 0 without one. */
+export function badgeFromIcon(value: string | null): number {
+  const m = value?.match(/\d+/);
+  return m ? Number(m[0]) : 0;
+}
+
+/**
+ * The badge on the app's home-screen icon, or null when the icon isn't on
+ * screen. While the app is in front, its application element carries the same
+ * name and its own elements may too, so that counts as not on screen.
+ */
+export async function readIconBadge(driver: DeviceDriver, udid: string, iconLabel: string, signal?: AbortSignal): Promise<number | null> {
+  const elements = await getAccessibilityTree(driver, udid, signal);
+  if (elements.some(el => el.role === "AXApplication" && el.AXLabel === iconLabel)) return null;
+  const selector: Selector = { scopes: [{ terms: [{ field: "label", op: "=", value: iconLabel }] }], text: `label=${iconLabel}` };
+  const icon = findElements(elements, selector)[0];
+  return icon ? badgeFromIcon(icon.AXValue) : null;
+}
@@ -0,0 +1,259 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { sqlValue, type Cxdb } from "./cxdb";
+
+// Flakiness analytics over CXDB history, behind sim_qa_history. Every run
+// leaves its test_results and criteria_results rows behind; read back in run
+// order they show which tests and criteria can't make up their mind.
+//
+// A run counts as flaky for a test or criterion when it failed and then
+// passed on a retry within the run (a second test_results row), or when its
+// outcome differs from the previous run on the same build_commit: nothing
+// changed in the app, so the test did. The flake rate is flaky runs over runs
+// that reached a pass or fail.
+
+export const DEFAULT_HISTORY_RUNS = 30;
+
+export interface OutcomeRow {
+  run_id: string;
+  run_started_at: string;
+  build_commit: string | null;
+  test_id: string;
+  test_name: string | null;
+  /** Null for a test's own outcome. */
+  criteria_key: string | null;
+  status: string;
+  duration_ms: number | null;
+  /** error_message for tests, evidence for criteria. */
+  message: string | null;
+}
+
+export interface RunOutcome {
+  run_id: string;
+  build_commit: string | null;
+  started_at: string;
+  /** Every result in the run, in the order they were recorded. */
+  statuses: string[];
+  /** The last pass or fail, null if the run never got that far. */
+  final: "pass" | "fail" | null;
+  retried: boolean;
+  flipped: boolean;
+}
+
+export interface History {
+  /** "03", or "03/invite_url_extractable" for a criterion. */
+  key: string;
+  testId: string;
+  testName: string | null;
+  criteriaKey: string | null;
+  runs: RunOutcome[];
+  counts: { pass: number; fail: number; skip: number; other: number };
+  /** Runs that reached a pass or fail. */
+  decided: number;
+  retried: number;
+  flipped: number;
+  flaky: number;
+  flakeRate: number;
+  avgDurationMs: number | null;
+  errors: { signature: string; count: number }[];
+}
+
+/**
+ * A message with its run-specific parts (uuids, hex ids, timestamps,
+ * numbers) replaced, so the same failure groups across runs. First line only.
+ */
+export function errorSignature(message: string): string {
+  const line = message.trim().split("\n")[0];
+  return line
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>")
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<id>")
+    .replace(/\d{4}-\d{2}-\d{2}T[\d:.]+Z?/g, "<time>")
+    .replace(/\d+(\.\d+)?/g, "<n>")
+    .replace(/\s+/g, " ")
+    .slice(0, 160);
+}
+
+function normalizeStatus(status: string): "pass" | "fail" | "skip" | "other" {
+  if (status === "pass") return "pass";
+  if (status === "fail" || status === "error") return "fail";
+  return status === "skip" ? "skip" : "other";
+}
+
+/** Analyse one test's or criterion's rows, oldest run first. */
+export function analyzeHistory(rows: OutcomeRow[]): History {
+  const first = rows[0];
+  const counts = { pass: 0, fail: 0, skip: 0, other: 0 };
+  const runs: RunOutcome[] = [];
+  const errors = new Map<string, number>();
+  let durationTotal = 0;
+  let durationCount = 0;
+
+  for (const row of rows) {
+    const status = normalizeStatus(row.status);
+    counts[status]++;
+    let run = runs[runs.length - 1];
+    if (!run || run.run_id !== row.run_id) {
+      run = { run_id: row.run_id, build_commit: row.build_commit, started_at: row.run_started_at, statuses: [], final: null, retried: false, flipped: false };
+      runs.push(run);
+    }
+    run.statuses.push(row.status);
+    if (status === "pass" && run.final === "fail") run.retried = true;
+    if (status === "pass" || status === "fail") run.final = status;
+    if (row.duration_ms != null && (status === "pass" || status === "fail")) {
+      durationTotal += row.duration_ms;
+      durationCount++;
+    }
+    if (status === "fail" && row.message?.trim()) {
+      const signature = errorSignature(row.message);
+      errors.set(signature, (errors.get(signature) ?? 0) + 1);
+    }
+  }
+
+  const lastOnCommit = new Map<string, "pass" | "fail">();
+  for (const run of runs) {
+    if (!run.final || !run.build_commit) continue;
+    const previous = lastOnCommit.get(run.build_commit);
+    run.flipped = previous !== undefined && previous !== run.final;
+    lastOnCommit.set(run.build_commit, run.final);
+  }
+
+  const decided = runs.filter(r => r.final).length;
+  const flaky = runs.filter(r => r.retried || r.flipped).length;
+  return {
+    key: first.criteria_key ? `${first.test_id}/${first.criteria_key}` : first.test_id,
+    testId: first.test_id,
+    testName: first.test_name,
+    criteriaKey: first.criteria_key,
+    runs,
+    counts,
+    decided,
+    retried: runs.filter(r => r.retried).length,
+    flipped: runs.filter(r => r.flipped).length,
+    flaky,
+    flakeRate: decided > 0 ? flaky / decided : 0,
+    avgDurationMs: durationCount > 0 ? durationTotal / durationCount : null,
+    errors: [...errors].map(([signature, count]) => ({ signature, count })).sort((a, b) => b.count - a.count),
+  };
+}
+
+/** Group rows by test or criterion and analyse each. */
+export function analyzeAll(rows: OutcomeRow[]): History[] {
+  const groups = new Map<string, OutcomeRow[]>();
+  for (const row of rows) {
+    const key = `${row.test_id}\u0000${row.criteria_key ?? ""}`;
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = []));
+    group.push(row);
+  }
+  return [...groups.values()].map(analyzeHistory);
+}
+
+/** A History without its per-run detail, for a tool's details. */
+export function summarizeHistory(h: History): Omit<History, "runs"> & { runs: number } {
+  const { runs, ...rest } = h;
+  return { ...rest, runs: runs.length };
+}
+
+/** Flakiest first; ties go to the one that flaked more often, then to the one with more runs. */
+export function rankFlaky(histories: History[], minRuns: number): History[] {
+  return histories
+    .filter(h => h.decided >= minRuns && h.flaky > 0)
+    .sort((a, b) => b.flakeRate - a.flakeRate || b.flaky - a.flaky || b.decided - a.decided);
+}
+
+function recentRuns(runs: number): string {
+  return `SELECT id FROM test_runs ORDER BY started_at DESC LIMIT ${Math.max(1, Math.floor(runs))}`;
+}
+
+/** Test outcomes over the last `runs` runs, oldest first; all tests when `testId` is omitted. */
+export function queryTestHistory(db: Cxdb, testId: string | undefined, runs: number, signal?: AbortSignal): Promise<OutcomeRow[]> {
+  return db.query<OutcomeRow>(
+    `SELECT tr.run_id, r.started_at AS run_started_at, r.build_commit, tr.test_id, tr.test_name, NULL AS criteria_key, ` +
+    `tr.status, tr.duration_ms, tr.error_message AS message ` +
+    `FROM test_results tr JOIN test_runs r ON r.id = tr.run_id ` +
+    `WHERE tr.run_id IN (${recentRuns(runs)})${testId ? ` AND tr.test_id=${sqlValue(testId)}` : ""} ` +
+    `ORDER BY r.started_at, tr.run_id, tr.started_at, tr.rowid;`,
+    signal
+  );
+}
+
+/** Criteria outcomes over the last `runs` runs, oldest first, optionally for one test and/or one key. */
+export function queryCriteriaHistory(
+  db: Cxdb,
+  filter: { testId?: string; criteriaKey?: string },
+  runs: number,
+  signal?: AbortSignal
+): Promise<OutcomeRow[]> {
+  const where = [`tr.run_id IN (${recentRuns(runs)})`];
+  if (filter.testId) where.push(`tr.test_id=${sqlValue(filter.testId)}`);
+  if (filter.criteriaKey) where.push(`cr.criteria_key=${sqlValue(filter.criteriaKey)}`);
+  return db.query<OutcomeRow>(
+    `SELECT tr.run_id, r.started_at AS run_started_at, r.build_commit, tr.test_id, tr.test_name, cr.criteria_key, ` +
+    `cr.status, NULL AS duration_ms, cr.evidence AS message ` +
+    `FROM criteria_results cr JOIN test_results tr ON tr.id = cr.test_result_id JOIN test_runs r ON r.id = tr.run_id ` +
+    `WHERE ${where.join(" AND ")} ` +
+    `ORDER BY r.started_at, tr.run_id, tr.started_at, tr.rowid, cr.rowid;`,
+    signal
+  );
+}
+
+/** qa/tests/<id>-*.md, relative to `root`, or null when there is none. */
+export function testDocPath(testId: string, root = process.cwd()): string | null {
+  const dir = path.join(root, "qa", "tests");
+  try {
+    const match = fs.readdirSync(dir).find(f => f.endsWith(".md") && f.startsWith(`${testId}-`));
+    return match ? path.join("qa", "tests", match) : null;
+  } catch {
+    return null;
+  }
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+// ✓ pass, ✗ fail, ↻ failed then passed on a retry, – skipped, · never finished
+function runSymbol(run: RunOutcome): string {
+  if (run.retried) return "↻";
+  if (run.final) return run.final === "pass" ? "✓" : "✗";
+  return run.statuses.some(s => s === "skip") ? "–" : "·";
+}
+
+function describeFlakes(h: History): string {
+  const causes = [
+    h.retried ? `${h.retried} failed then passed on retry` : "",
+    h.flipped ? `${h.flipped} flipped on the same build` : "",
+  ].filter(Boolean);
+  return `flake rate ${percent(h.flakeRate)} (${h.flaky} of ${h.decided} run${h.decided === 1 ? "" : "s"}${causes.length ? `: ${causes.join(", ")}` : ""})`;
+}
+
+/** The full account for one test or criterion. */
+export function formatHistory(h: History, maxErrors = 5): string {
+  const name = h.criteriaKey ? `Criterion ${h.key}` : `Test ${h.testId}${h.testName ? ` — ${h.testName}` : ""}`;
+  const lines = [
+    `${name}: ${h.runs.length} run${h.runs.length === 1 ? "" : "s"}`,
+    `pass ${h.counts.pass} · fail ${h.counts.fail} · skip ${h.counts.skip}${h.counts.other ? ` · unfinished ${h.counts.other}` : ""} · ${describeFlakes(h)}`,
+  ];
+  if (h.avgDurationMs !== null) lines.push(`average duration ${(h.avgDurationMs / 1000).toFixed(1)}s`);
+  lines.push(`history, oldest first (✓ pass, ✗ fail, ↻ passed on retry, – skip): ${h.runs.map(runSymbol).join(" ")}`);
+  const flaky = h.runs.filter(r => r.retried || r.flipped);
+  for (const run of flaky.slice(-5)) {
+    const why = run.retried ? `retried: ${run.statuses.join(" → ")}` : `flipped to ${run.final} on ${run.build_commit}`;
+    lines.push(`  ${run.run_id} (${run.started_at}): ${why}`);
+  }
+  if (h.errors.length > 0) {
+    lines.push(h.criteriaKey ? "Most common failure evidence:" : "Most common errors:");
+    for (const e of h.errors.slice(0, maxErrors)) lines.push(`  ${e.count}× ${e.signature}`);
+  }
+  return lines.join("\n");
+}
+
+/** A markdown table of the flakiest tests or criteria, with the test doc to harden. */
+export function formatRanking(ranked: History[], root = process.cwd()): string {
+  const lines = ["| # | Test / criterion | Flake rate | Flaky / runs | Pass / fail | Test doc |", "|---|------------------|-----------|--------------|-------------|----------|"];
+  ranked.forEach((h, i) => {
+    const doc = testDocPath(h.testId, root) ?? "—";
+    lines.push(`| ${i + 1} | ${h.key} | ${percent(h.flakeRate)} | ${h.flaky} / ${h.decided} | ${h.counts.pass} / ${h.counts.fail} | ${doc} |`);
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,350 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseLog } from "./convos-log";
+import { STRUCTURED_TESTS_DIR } from "./structured-test";
+
+// Turns the sim_* calls made between sim_record_start and sim_record_stop into
+// a draft qa/tests/structured YAML test. Successful UI actions become step
+// actions; waits, element searches and observed [EVENT]s become the step's
+// verify checks and close it. Reads that don't change the app
+// (describe_all, screenshots, log tails) are left out. The draft is a starting
+// point: step names and criteria descriptions are TODOs, and anything that
+// could only be recorded by coordinates carries a WARNING comment.
+
+export interface RecordedCall {
+  tool: string;
+  input: Record<string, any>;
+  text: string;
+  isError: boolean;
+  /** For coordinate taps: the selector of the element under the point when the tap was made. */
+  pointSelector?: string;
+  /** Why pointSelector is missing, for the warning. */
+  pointNote?: string;
+}
+
+export interface Recording {
+  name?: string;
+  startedAt: Date;
+  calls: RecordedCall[];
+}
+
+export interface Draft {
+  yaml: string;
+  warnings: string[];
+  steps: number;
+  /** Calls that failed and were left out. */
+  skipped: number;
+}
+
+interface Entry {
+  kind: "action" | "wait" | "verify" | "event";
+  /** YAML for the list item, without the leading "- ". */
+  item: string;
+  warning?: string;
+  /** For `wait`: the element check that goes under verify. */
+  verify?: string;
+}
+
+interface DraftStep {
+  device: string;
+  actions: Entry[];
+  verify: Entry[];
+  events: string[];
+}
+
+// --- YAML output ---
+
+function scalar(v: unknown): string {
+  if (typeof v === "number" || typeof v === "boolean") return String(v);
+  return JSON.stringify(String(v));
+}
+
+function flow(args: Record<string, unknown>): string {
+  const parts = Object.entries(args)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([k, v]) => `${k}: ${scalar(v)}`);
+  return parts.length > 0 ? `{ ${parts.join(", ")} }` : "{}";
+}
+
+function item(name: string, args: Record<string, unknown>): string {
+  return `${name}: ${flow(args)}`;
+}
+
+// --- Mapping calls to YAML ---
+
+/** `id=X` alone reads better as the legacy `id:` form the existing tests use. */
+function selectorArgs(selector: string): Record<string, unknown> {
+  const m = selector.match(/^id=(\S+)$/);
+  return m ? { id: m[1] } : { selector };
+}
+
+/** Element lookup args in the YAML vocabulary (id / label / label_contains / selector). */
+function targetArgs(input: Record<string, any>): Record<string, unknown> | undefined {
+  if (input.selector) return selectorArgs(String(input.selector));
+  if (input.identifier) return { id: input.identifier };
+  if (input.label) return { label: input.label };
+  if (input.labelContains) return { label_contains: input.labelContains };
+  if (input.pattern) return { pattern: input.pattern };
+  return undefined;
+}
+
+function waitEntry(target: Record<string, unknown>, timeout: unknown): Entry {
+  return {
+    kind: "wait",
+    item: item("wait_for_element", { ...target, timeout: typeof timeout === "number" ? timeout : 10 }),
+    verify: item("element_exists", target),
+  };
+}
+
+function tapEntry(target: Record<string, unknown>, duration?: number): Entry {
+  return { kind: "action", item: item(duration ? "long_press" : "tap", { ...target, duration }) };
+}
+
+function coordinateTap(call: RecordedCall): Entry {
+  const { x, y, duration } = call.input;
+  if (call.pointSelector) return tapEntry(selectorArgs(call.pointSelector), duration);
+  return {
+    kind: "action",
+    item: item(duration ? "long_press" : "tap", { x, y, duration }),
+    warning: `coordinate tap at (${x}, ${y}) kept as coordinates: ${call.pointNote ?? "no element with an id or label under the point"}`,
+  };
+}
+
+/**
+ * `[EVENT]` names in a sim_log_events result, once each, in order. The filter
+ * matches anywhere in the line, so names containing it are preferred.
+ */
+function eventNames(text: string, filter: string): string[] {
+  const names = [...new Set(parseLog(text).flatMap(r => (r.event ? [r.event.name] : [])))];
+  const named = names.filter(n => n.toLowerCase().includes(filter.toLowerCase()));
+  return named.length > 0 ? named : names;
+}
+
+/** An expect_events entry for sim_expect_event; only `key=value` matchers carry over. */
+function expectedEvent(event: string, where: string[] | undefined): { entry: string; dropped: string[] } {
+  const params: Record<string, string> = {};
+  const dropped: string[] = [];
+  for (const m of where ?? []) {
+    const eq = m.match(/^([\w.]+)=([^=].*)?$/);
+    if (eq && !/[!<>~]$/.test(eq[1])) params[eq[1]] = eq[2] ?? "";
+    else dropped.push(m);
+  }
+  if (event.includes("*")) dropped.push(`event pattern ${event}`);
+  const entry = Object.keys(params).length > 0 ? flow({ name: event, ...params }) : scalar(event);
+  return { entry, dropped };
+}
+
+const CHAIN_ACTIONS: Record<string, string> = {
+  tapElement: "tap",
+  fillField: "type_in_field",
+  longPress: "long_press",
+  doubleTap: "double_tap_element",
+  scrollUntilVisible: "scroll_to",
+};
+
+function chainEntries(steps: any[]): Entry[] {
+  return steps.flatMap((step): Entry[] => {
+    const p = step.params ?? {};
+    const target = targetArgs(p) ?? {};
+    if (step.action === "waitForElement") return [waitEntry(target, p.timeout)];
+    if (step.action === "tapCoordinate") {
+      return [{ kind: "action", item: item("tap", { x: p.x, y: p.y }), warning: `sim_chain coordinate tap at (${p.x}, ${p.y}) kept as coordinates` }];
+    }
+    if (step.action === "swipe") return [{ kind: "action", item: item("swipe", { direction: p.direction, ...target }) }];
+    if (step.action === "pressKey") return [{ kind: "action", item: item("key", { code: p.keycode ?? p.key }) }];
+    const name = CHAIN_ACTIONS[step.action];
+    if (!name) return [{ kind: "action", item: item(step.action, p), warning: `sim_chain action "${step.action}" has no YAML equivalent; edit by hand` }];
+    return [{ kind: "action", item: item(name, { ...target, text: p.text, duration: p.duration }) }];
+  });
+}
+
+function entriesFor(call: RecordedCall): Entry[] {
+  const input = call.input;
+  const target = targetArgs(input);
+  switch (call.tool) {
+    case "sim_launch_app":
+      return [{ kind: "action", item: input.bundle_id ? item("launch_app", { bundle_id: input.bundle_id }) : "launch_app" }];
+    case "sim_open_url":
+      return [{ kind: "action", item: item("sim_open_url", { url: input.url }) }];
+    case "sim_tap_id":
+    case "sim_tap":
+    case "sim_wait_and_tap":
+      return target ? [tapEntry(target, input.duration)] : [];
+    case "sim_long_press":
+      return target ? [tapEntry(target, input.duration ?? 1.0)] : [];
+    case "sim_double_tap":
+      return target ? [{ kind: "action", item: item("double_tap_element", target) }] : [];
+    case "sim_ui_tap":
+      return [coordinateTap(call)];
+    case "sim_type_in_field":
+    case "sim_fill":
+    case "sim_fill_field": {
+      const clear = input.clear_first ?? input.clearFirst;
+      return target ? [{ kind: "action", item: item("type_in_field", { ...target, text: input.text, clear_first: clear || undefined }) }] : [];
+    }
+    case "sim_ui_type":
+      return [{ kind: "action", item: item("type_text", { text: input.text }), warning: `typed "${input.text}" without a known field; use type_in_field with the field's id` }];
+    case "sim_ui_key":
+      return [{ kind: "action", item: item("key", { code: input.keycode }) }];
+    case "sim_ui_swipe":
+      return [{ kind: "action", item: item("swipe", { x_start: input.x_start, y_start: input.y_start, x_end: input.x_end, y_end: input.y_end, duration: input.duration }) }];
+    case "sim_swipe":
+      return [{ kind: "action", item: item("swipe", { direction: input.direction, ...target }) }];
+    case "sim_scroll_to":
+      return target ? [{ kind: "action", item: item("scroll_to", { ...target, direction: input.direction }) }] : [];
+    case "sim_chain":
+      return chainEntries(input.steps ?? []);
+    case "sim_wait_for_element":
+      return target ? [waitEntry(target, input.timeout)] : [];
+    case "sim_find_elements":
+    case "sim_elements": {
+      const query = input.selector ? { selector: input.selector } : input.pattern ? { pattern: input.pattern } : undefined;
+      if (!query || call.text.startsWith("No elements found") || call.text.startsWith("[]")) return [];
+      return [{ kind: "verify", item: item("element_exists", query) }];
+    }
+    case "sim_expect_event": {
+      const expected = input.sequence
+        ? input.sequence.map((s: any) => expectedEvent(s.event, s.where))
+        : input.event ? [expectedEvent(input.event, input.where)] : [];
+      return expected.map((e: { entry: string; dropped: string[] }) => ({
+        kind: "event" as const,
+        item: e.entry,
+        warning: e.dropped.length > 0 ? `expect_events only checks name and exact params; dropped ${e.dropped.join(", ")}` : undefined,
+      }));
+    }
+    case "sim_log_events":
+      if (!input.event_filter) return [];
+      return eventNames(call.text, String(input.event_filter)).map(name => ({ kind: "event" as const, item: scalar(name) }));
+  }
+  return [];
+}
+
+// A tap on a text field followed by sim_ui_type is the long way of typing into it
+function mergeTyping(step: DraftStep, entry: Entry): boolean {
+  const last = step.actions[step.actions.length - 1];
+  const typed = entry.item.match(/^type_text: \{ text: (.*) \}$/);
+  const tapped = last?.item.match(/^tap: \{ (.*) \}$/);
+  if (!typed || !tapped || last.warning || /\b(x|y): /.test(tapped[1])) return false;
+  step.actions[step.actions.length - 1] = { kind: "action", item: `type_in_field: { ${tapped[1]}, text: ${typed[1]} }` };
+  return true;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "recorded";
+}
+
+/** The next free two-digit test number in qa/tests/structured. */
+export function nextTestId(root = process.cwd()): string {
+  const dir = path.join(root, STRUCTURED_TESTS_DIR);
+  const files = fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+  const used = files.map(f => parseInt(f, 10)).filter(n => !Number.isNaN(n));
+  return String(Math.max(0, ...used) + 1).padStart(2, "0");
+}
+
+export function draftFileName(id: string, name: string): string {
+  return `${id}-${slugify(name)}.yaml`;
+}
+
+export function draftTest(recording: Recording, id: string, name: string): Draft {
+  const warnings: string[] = [];
+  const setup: string[] = [];
+  const steps: DraftStep[] = [];
+  const devices = new Map<string, string>();
+  let skipped = 0;
+  let current: DraftStep | undefined;
+
+  const deviceLetter = (call: RecordedCall) => {
+    const key = String(call.input.device ?? call.input.udid ?? "");
+    if (!devices.has(key)) devices.set(key, String.fromCharCode(65 + devices.size));
+    return devices.get(key)!;
+  };
+  const close = () => {
+    if (current && (current.actions.length || current.verify.length || current.events.length)) steps.push(current);
+    current = undefined;
+  };
+
+  for (const call of recording.calls) {
+    const entries = entriesFor(call);
+    if (entries.length === 0) continue;
+    if (call.isError) {
+      skipped++;
+      continue;
+    }
+    const device = deviceLetter(call);
+    if (current && current.device !== device) close();
+
+    for (const entry of entries) {
+      // Launching before anything else happened is setup
+      if (!current && steps.length === 0 && entry.item.startsWith("launch_app")) {
+        setup.push(entry.item === "launch_app" ? "action: launch_app" : `action: launch_app\n    args: ${entry.item.slice("launch_app: ".length)}`);
+        continue;
+      }
+      // Checks that arrive before any new action confirm the previous step
+      const confirmsPrevious = !current && steps.length > 0 && steps[steps.length - 1].device === device &&
+        (entry.kind === "verify" || entry.kind === "event");
+      if (confirmsPrevious) current = steps.pop();
+      current ??= { device, actions: [], verify: [], events: [] };
+
+      if (entry.kind === "action" && mergeTyping(current, entry)) continue;
+      if (entry.warning) warnings.push(`step ${steps.length + 1}: ${entry.warning}`);
+      if (entry.kind === "action") {
+        current.actions.push(entry);
+      } else if (entry.kind === "wait") {
+        current.actions.push(entry);
+        current.verify.push({ kind: "verify", item: entry.verify! });
+      } else if (entry.kind === "verify") {
+        current.verify.push(entry);
+      } else {
+        current.events.push(entry.warning ? `${entry.item}  # WARNING: ${entry.warning}` : entry.item);
+      }
+      if (entry.kind !== "action") close();
+    }
+  }
+  close();
+
+  const lines = [
+    `id: ${scalar(id)}`,
+    `name: ${scalar(name)}`,
+    "description: >",
+    `  TODO: describe what this test verifies. Drafted by sim_record_stop from a`,
+    `  session recorded on ${recording.startedAt.toISOString().slice(0, 10)}.`,
+    "tags: [recorded]",
+    "",
+    "prerequisites:",
+    "  app_running: true",
+    "",
+  ];
+  if (setup.length > 0) {
+    lines.push("setup:", ...setup.map(s => `  - ${s}`), "");
+  }
+  lines.push("steps:");
+  steps.forEach((step, i) => {
+    const key = `step_${i + 1}`;
+    lines.push(`  - id: ${key}`, `    name: "TODO: describe step ${i + 1}"`);
+    if (step.device !== "A") lines.push(`    device: ${step.device}`);
+    if (step.actions.length > 0) {
+      lines.push("    actions:");
+      for (const a of step.actions) {
+        if (a.warning) lines.push(`      # WARNING: ${a.warning}`);
+        lines.push(`      - ${a.item}`);
+      }
+    }
+    if (step.verify.length > 0) {
+      lines.push("    verify:", ...step.verify.map(v => `      - ${v.item}`));
+    }
+    lines.push(`    criteria: ${key}`);
+    if (step.events.length > 0) {
+      lines.push("    expect_events:", ...step.events.map(e => `      - ${e}`));
+    }
+    lines.push("");
+  });
+  if (steps.length === 0) lines.push("  []", "");
+
+  lines.push("criteria:");
+  steps.forEach((_, i) => {
+    lines.push(`  step_${i + 1}:`, `    description: "TODO"`);
+  });
+  if (steps.length === 0) lines.push("  {}");
+
+  return { yaml: lines.join("\n") + "\n", warnings, steps: steps.length, skipped };
+}
@@ -0,0 +1,272 @@
+import { sqlValue, type Cxdb } from "./cxdb";
+import { summarize } from "./measure";
+import { errorSignature } from "./qa-history";
+
+// What changed between two CXDB runs, behind sim_qa_compare: the question
+// after a build goes out is what got worse since the last green run. Tests
+// and criteria are compared on their final outcome in each run (a retry that
+// passed counts as a pass), error logs on their signatures (lib/qa-history),
+// perf on each metric's median, and findings on what they say, so the same
+// bug filed again in the newer run isn't reported as new.
+
+export const DEFAULT_PERF_THRESHOLD_PCT = 20;
+
+export interface RunInfo {
+  id: string;
+  status: string;
+  build_commit: string | null;
+  started_at: string;
+}
+
+export interface OutcomeChange {
+  /** "03", or "03/invite_url_extractable" for a criterion. */
+  key: string;
+  name: string | null;
+  before: string;
+  after: string;
+  /** The newer run's error_message or evidence. */
+  message: string | null;
+}
+
+export interface NewSignature {
+  signature: string;
+  count: number;
+  testIds: string[];
+  xmtp: boolean;
+}
+
+export interface PerfRegression {
+  metric: string;
+  testId: string | null;
+  beforeMs: number;
+  afterMs: number;
+  changePct: number;
+}
+
+export interface RunComparison {
+  base: RunInfo;
+  head: RunInfo;
+  newlyFailingTests: OutcomeChange[];
+  newlyPassingTests: OutcomeChange[];
+  newlyFailingCriteria: OutcomeChange[];
+  newlyPassingCriteria: OutcomeChange[];
+  newErrorSignatures: NewSignature[];
+  perfRegressions: PerfRegression[];
+  perfThresholdPct: number;
+  newBugs: { severity: string | null; title: string; test_id: string | null }[];
+  newAccessibilityFindings: { element_purpose: string | null; recommendation: string | null; test_id: string | null }[];
+}
+
+export async function queryRun(db: Cxdb, runId: string, signal?: AbortSignal): Promise<RunInfo | null> {
+  const [run] = await db.query<RunInfo>(`SELECT id, status, build_commit, started_at FROM test_runs WHERE id=${sqlValue(runId)};`, signal);
+  return run ?? null;
+}
+
+/** The most recent passed run that started before `runId`: the last green run. */
+export async function lastGreenRunBefore(db: Cxdb, runId: string, signal?: AbortSignal): Promise<RunInfo | null> {
+  const [run] = await db.query<RunInfo>(
+    `SELECT id, status, build_commit, started_at FROM test_runs WHERE status='passed' AND id<>${sqlValue(runId)} ` +
+    `AND started_at <= (SELECT started_at FROM test_runs WHERE id=${sqlValue(runId)}) ORDER BY started_at DESC LIMIT 1;`,
+    signal
+  );
+  return run ?? null;
+}
+
+interface OutcomeRow {
+  key: string;
+  name: string | null;
+  status: string;
+  message: string | null;
+}
+
+/** The last result per key; failures and errors both count as "fail". */
+function finalOutcomes(rows: OutcomeRow[]): Map<string, OutcomeRow> {
+  const outcomes = new Map<string, OutcomeRow>();
+  for (const row of rows) {
+    const status = row.status === "error" ? "fail" : row.status;
+    if (status === "pass" || status === "fail" || !outcomes.has(row.key)) outcomes.set(row.key, { ...row, status });
+  }
+  return outcomes;
+}
+
+function changes(base: Map<string, OutcomeRow>, head: Map<string, OutcomeRow>, to: "pass" | "fail"): OutcomeChange[] {
+  const result: OutcomeChange[] = [];
+  for (const [key, after] of head) {
+    if (after.status !== to) continue;
+    const before = base.get(key)?.status ?? "not run";
+    // Newly failing is anything that wasn't failing before; newly passing is only a failure that was fixed
+    if (to === "fail" ? before === "fail" : before !== "fail") continue;
+    result.push({ key, name: after.name, before, after: after.status, message: after.message });
+  }
+  return result.sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+}
+
+function testOutcomes(db: Cxdb, runId: string, signal?: AbortSignal): Promise<OutcomeRow[]> {
+  return db.query<OutcomeRow>(
+    `SELECT test_id AS key, test_name AS name, status, error_message AS message FROM test_results ` +
+    `WHERE run_id=${sqlValue(runId)} ORDER BY started_at, rowid;`,
+    signal
+  );
+}
+
+function criteriaOutcomes(db: Cxdb, runId: string, signal?: AbortSignal): Promise<OutcomeRow[]> {
+  return db.query<OutcomeRow>(
+    `SELECT tr.test_id || '/' || cr.criteria_key AS key, cr.description AS name, cr.status, cr.evidence AS message ` +
+    `FROM criteria_results cr JOIN test_results tr ON tr.id = cr.test_result_id ` +
+    `WHERE tr.run_id=${sqlValue(runId)} ORDER BY tr.started_at, tr.rowid, cr.rowid;`,
+    signal
+  );
+}
+
+async function errorSignatures(db: Cxdb, runId: string, signal?: AbortSignal): Promise<Map<string, NewSignature>> {
+  const rows = await db.query<{ message: string | null; test_id: string | null; is_xmtp_error: number }>(
+    `SELECT message, test_id, is_xmtp_error FROM log_entries WHERE run_id=${sqlValue(runId)} AND level='error' ORDER BY id;`,
+    signal
+  );
+  const signatures = new Map<string, NewSignature>();
+  for (const row of rows) {
+    if (!row.message?.trim()) continue;
+    const signature = errorSignature(row.message);
+    let entry = signatures.get(signature);
+    if (!entry) signatures.set(signature, (entry = { signature, count: 0, testIds: [], xmtp: Boolean(row.is_xmtp_error) }));
+    entry.count++;
+    if (row.test_id && !entry.testIds.includes(row.test_id)) entry.testIds.push(row.test_id);
+  }
+  return signatures;
+}
+
+async function perfMedians(db: Cxdb, runId: string, signal?: AbortSignal): Promise<Map<string, { metric: string; testId: string | null; median: number }>> {
+  const rows = await db.query<{ metric_name: string; test_id: string | null; value_ms: number | null }>(
+    `SELECT metric_name, test_id, value_ms FROM perf_measurements WHERE run_id=${sqlValue(runId)} AND value_ms IS NOT NULL;`,
+    signal
+  );
+  const samples = new Map<string, { metric: string; testId: string | null; values: number[] }>();
+  for (const row of rows) {
+    const key = `${row.test_id ?? ""}\u0000${row.metric_name}`;
+    let entry = samples.get(key);
+    if (!entry) samples.set(key, (entry = { metric: row.metric_name, testId: row.test_id, values: [] }));
+    entry.values.push(row.value_ms!);
+  }
+  return new Map([...samples].map(([key, s]) => [key, { metric: s.metric, testId: s.testId, median: summarize(s.values).median }]));
+}
+
+export async function compareRuns(db: Cxdb, base: RunInfo, head: RunInfo, perfThresholdPct: number, signal?: AbortSignal): Promise<RunComparison> {
+  const baseTests = finalOutcomes(await testOutcomes(db, base.id, signal));
+  const headTests = finalOutcomes(await testOutcomes(db, head.id, signal));
+  const baseCriteria = finalOutcomes(await criteriaOutcomes(db, base.id, signal));
+  const headCriteria = finalOutcomes(await criteriaOutcomes(db, head.id, signal));
+
+  const baseSignatures = await errorSignatures(db, base.id, signal);
+  const newErrorSignatures = [...(await errorSignatures(db, head.id, signal)).values()]
+    .filter(s => !baseSignatures.has(s.signature))
+    .sort((a, b) => b.count - a.count);
+
+  const basePerf = await perfMedians(db, base.id, signal);
+  const perfRegressions: PerfRegression[] = [];
+  for (const [key, after] of await perfMedians(db, head.id, signal)) {
+    const before = basePerf.get(key);
+    if (!before || before.median <= 0) continue;
+    const changePct = ((after.median - before.median) / before.median) * 100;
+    if (changePct > perfThresholdPct) {
+      perfRegressions.push({ metric: after.metric, testId: after.testId, beforeMs: before.median, afterMs: after.median, changePct });
+    }
+  }
+  perfRegressions.sort((a, b) => b.changePct - a.changePct);
+
+  const newBugs = await db.query<RunComparison["newBugs"][number]>(
+    `SELECT severity, title, test_id FROM bug_findings WHERE run_id=${sqlValue(head.id)} AND title NOT IN ` +
+    `(SELECT title FROM bug_findings WHERE run_id=${sqlValue(base.id)}) ` +
+    `ORDER BY CASE severity WHEN 'critical' THEN 0 WHEN 'major' THEN 1 ELSE 2 END, id;`,
+    signal
+  );
+  const newAccessibilityFindings = await db.query<RunComparison["newAccessibilityFindings"][number]>(
+    `SELECT element_purpose, recommendation, test_id FROM accessibility_findings h WHERE run_id=${sqlValue(head.id)} ` +
+    `AND NOT EXISTS (SELECT 1 FROM accessibility_findings b WHERE b.run_id=${sqlValue(base.id)} ` +
+    `AND b.element_purpose IS h.element_purpose AND b.recommendation IS h.recommendation) ORDER BY id;`,
+    signal
+  );
+
+  return {
+    base,
+    head,
+    newlyFailingTests: changes(baseTests, headTests, "fail"),
+    newlyPassingTests: changes(baseTests, headTests, "pass"),
+    newlyFailingCriteria: changes(baseCriteria, headCriteria, "fail"),
+    newlyPassingCriteria: changes(baseCriteria, headCriteria, "pass"),
+    newErrorSignatures,
+    perfRegressions,
+    perfThresholdPct,
+    newBugs,
+    newAccessibilityFindings,
+  };
+}
+
+function describeRun(run: RunInfo): string {
+  return `\`${run.id}\` (${run.status}${run.build_commit ? `, ${run.build_commit}` : ""}, ${run.started_at})`;
+}
+
+function oneLine(text: string, max = 160): string {
+  const line = text.trim().split("\n")[0];
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+function changeList(title: string, items: OutcomeChange[]): string[] {
+  if (items.length === 0) return [];
+  return [
+    `**${title} (${items.length})**`,
+    ...items.map(c => {
+      const name = c.name ? ` ${oneLine(c.name, 80)}` : "";
+      const message = c.after === "fail" && c.message?.trim() ? `: ${oneLine(c.message)}` : "";
+      return `- ${c.key}${name} — ${c.before} → ${c.after}${message}`;
+    }),
+  ];
+}
+
+/** Compact markdown: a one-line tally, then only the sections with something in them. */
+export function formatComparison(c: RunComparison): string {
+  const tally = [
+    `${c.newlyFailingTests.length} newly failing test${c.newlyFailingTests.length === 1 ? "" : "s"}`,
+    `${c.newlyPassingTests.length} newly passing`,
+    `${c.newErrorSignatures.length} new error signature${c.newErrorSignatures.length === 1 ? "" : "s"}`,
+    `${c.perfRegressions.length} perf regression${c.perfRegressions.length === 1 ? "" : "s"}`,
+    `${c.newBugs.length} new bug${c.newBugs.length === 1 ? "" : "s"}`,
+    `${c.newAccessibilityFindings.length} new accessibility finding${c.newAccessibilityFindings.length === 1 ? "" : "s"}`,
+  ];
+  const lines = [
+    `# Run comparison: ${c.base.id} → ${c.head.id}`,
+    "",
+    `Baseline ${describeRun(c.base)}, compared with ${describeRun(c.head)}.`,
+    "",
+    `${tally.join(" · ")}`,
+  ];
+
+  const tests = [...changeList("Newly failing", c.newlyFailingTests), ...changeList("Newly passing", c.newlyPassingTests)];
+  if (tests.length > 0) lines.push("", "## Tests", ...tests);
+  const criteria = [...changeList("Newly failing", c.newlyFailingCriteria), ...changeList("Newly passing", c.newlyPassingCriteria)];
+  if (criteria.length > 0) lines.push("", "## Criteria", ...criteria);
+
+  if (c.newErrorSignatures.length > 0) {
+    lines.push("", "## New error signatures");
+    for (const s of c.newErrorSignatures) {
+      const where = s.testIds.length > 0 ? ` (test ${s.testIds.join(", ")})` : "";
+      lines.push(`- ${s.count}× \`${s.signature}\`${s.xmtp ? " [XMTP]" : ""}${where}`);
+    }
+  }
+  if (c.perfRegressions.length > 0) {
+    lines.push("", `## Performance regressions (median more than ${c.perfThresholdPct}% slower)`, "", "| Metric | Test | Before | After | Change |", "|--------|------|--------|-------|--------|");
+    for (const p of c.perfRegressions) {
+      lines.push(`| ${p.metric} | ${p.testId ?? "—"} | ${Math.round(p.beforeMs)} ms | ${Math.round(p.afterMs)} ms | +${Math.round(p.changePct)}% |`);
+    }
+  }
+  if (c.newBugs.length > 0) {
+    lines.push("", "## New bug findings");
+    for (const b of c.newBugs) lines.push(`- **[${b.severity ?? "unrated"}]** ${oneLine(b.title)}${b.test_id ? ` (test ${b.test_id})` : ""}`);
+  }
+  if (c.newAccessibilityFindings.length > 0) {
+    lines.push("", "## New accessibility findings");
+    for (const f of c.newAccessibilityFindings) {
+      lines.push(`- ${f.element_purpose ?? "(unnamed element)"}: ${oneLine(f.recommendation ?? "")}${f.test_id ? ` (test ${f.test_id})` : ""}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,306 @@
+// The element selector language shared by the idb tools (ios-simulator.ts,
+// evaluated here over the accessibility tree) and the XCUITest agent tools
+// (sim-tools.ts, sent to QAAutomationServer as `toWire` JSON and evaluated
+// with XCUI queries). Space-separated terms must all hold:
+//
+//   id=send-button            exact accessibility identifier
+//   id^=conversation-list-    identifier prefix
+//   label="Photo message"     exact label       label*=read   label contains (any case)
+//   label~=/^Sent \d+/i       label regex       value=hello   value (same operators)
+//   type=button   enabled=true   index=1 (0-based; -1 is the last match)
+//
+// `A >> B` finds B inside A. A bare word with no operator ("compose-button")
+// is matched the legacy way: exact id, then id prefix, then exact label, then
+// label substring, taking the first of those that matches anything.
+
+export type SelectorField = "id" | "label" | "value" | "type" | "enabled";
+export type SelectorOp = "=" | "^=" | "*=" | "~=";
+
+export interface SelectorTerm {
+  field: SelectorField;
+  op: SelectorOp;
+  value: string;
+  /** `~=/re/i` */
+  ignoreCase?: boolean;
+}
+
+export interface SelectorScope {
+  terms: SelectorTerm[];
+  fuzzy?: string;
+  index?: number;
+}
+
+export interface Selector {
+  /** Outermost first; the last scope is the element acted on. */
+  scopes: SelectorScope[];
+  /** The selector as written, for messages. */
+  text: string;
+}
+
+const TERM_RE = /^([a-z]+)(\^=|\*=|~=|=)(.*)$/s;
+const TEXT_FIELDS = new Set(["id", "label", "value"]);
+
+/** Split on whitespace outside quotes and /regex/ literals. */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\" && i + 1 < text.length) {
+        current += ch + text[++i];
+        continue;
+      }
+      current += ch;
+      if (ch === quote) quote = null;
+      continue;
+    }
+    // A regex literal only opens right after ~=
+    if (ch === '"' || ch === "'" || (ch === "/" && current.endsWith("~="))) {
+      quote = ch;
+      current += ch;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (quote) throw new Error(`Unclosed ${quote} in selector "${text}".`);
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+function unquote(raw: string): string {
+  const q = raw[0];
+  if ((q === '"' || q === "'") && raw.length >= 2 && raw.endsWith(q)) {
+    return raw.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return raw;
+}
+
+function parseTerm(token: string, selector: string): SelectorTerm | { index: number } {
+  const m = token.match(TERM_RE)!;
+  const [, key, op, raw] = m;
+  const bad = (why: string) => new Error(`Invalid selector term "${token}" in "${selector}": ${why}`);
+
+  if (key === "index") {
+    if (op !== "=" || !/^-?\d+$/.test(raw)) throw bad("index takes a whole number, e.g. index=0 or index=-1");
+    return { index: Number(raw) };
+  }
+  if (key === "enabled") {
+    if (op !== "=" || (raw !== "true" && raw !== "false")) throw bad("use enabled=true or enabled=false");
+    return { field: "enabled", op, value: raw };
+  }
+  if (key === "type") {
+    if (op !== "=") throw bad("type only supports =");
+    return { field: "type", op, value: unquote(raw) };
+  }
+  if (!TEXT_FIELDS.has(key)) throw bad("keys are id, label, value, type, enabled and index");
+
+  if (op === "~=") {
+    const literal = raw.match(/^\/(.*)\/([a-z]*)$/s);
+    const pattern = literal ? literal[1] : unquote(raw);
+    const flags = literal ? literal[2] : "";
+    if (flags.replace("i", "") !== "") throw bad("regex flags other than i are not supported");
+    try { new RegExp(pattern); } catch (e: any) { throw bad(`invalid regex: ${e.message}`); }
+    return { field: key as SelectorField, op, value: pattern, ...(flags ? { ignoreCase: true } : {}) };
+  }
+  const value = unquote(raw);
+  if (value === "" && op !== "=") throw bad("empty value");
+  return { field: key as SelectorField, op: op as SelectorOp, value };
+}
+
+/** Parse the text form. Throws with the offending term on bad syntax. */
+export function parseSelector(text: string): Selector {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Selector must not be empty.");
+  if (/\$[A-Za-z_]/.test(trimmed)) {
+    throw new Error(`Selector "${trimmed}" still has an unresolved variable; substitute the real value before calling.`);
+  }
+
+  const scopes: SelectorScope[] = [];
+  let scope: SelectorScope = { terms: [] };
+  let words: string[] = [];
+  const close = () => {
+    if (words.length > 0) scope.fuzzy = words.map(unquote).join(" ");
+    if (scope.terms.length === 0 && scope.fuzzy === undefined) {
+      throw new Error(`Selector "${trimmed}" has an empty part around ">>".`);
+    }
+    scopes.push(scope);
+    scope = { terms: [] };
+    words = [];
+  };
+
+  for (const token of tokenize(trimmed)) {
+    if (token === ">>") {
+      close();
+    } else if (TERM_RE.test(token) && !/^["']/.test(token)) {
+      const term = parseTerm(token, trimmed);
+      if ("index" in term) scope.index = term.index;
+      else scope.terms.push(term);
+    } else {
+      words.push(token);
+    }
+  }
+  close();
+  return { scopes, text: trimmed };
+}
+
+/** A selector for the legacy single-string lookup (tiers described above). */
+export function fuzzySelector(word: string): Selector {
+  return { scopes: [{ terms: [], fuzzy: word }], text: word };
+}
+
+/**
+ * The selector for a tool's lookup params: `selector` as written, or the
+ * legacy identifier (fuzzy), label (exact) and labelContains (substring),
+ * which combine as one scope. Throws when none is given.
+ */
+export function selectorFromParams(params: {
+  selector?: string;
+  identifier?: string;
+  label?: string;
+  labelContains?: string;
+}): Selector {
+  if (params.selector) {
+    if (params.identifier || params.label || params.labelContains) {
+      throw new Error("Pass selector or identifier/label/labelContains, not both.");
+    }
+    return parseSelector(params.selector);
+  }
+  const terms: SelectorTerm[] = [];
+  if (params.label) terms.push({ field: "label", op: "=", value: params.label });
+  if (params.labelContains) terms.push({ field: "label", op: "*=", value: params.labelContains });
+  if (!params.identifier && terms.length === 0) {
+    throw new Error("Pass a selector (e.g. \"id=send-button\") or an identifier.");
+  }
+  const text = [
+    params.identifier,
+    params.label !== undefined ? `label=${JSON.stringify(params.label)}` : undefined,
+    params.labelContains !== undefined ? `label*=${JSON.stringify(params.labelContains)}` : undefined,
+  ].filter(Boolean).join(" ");
+  return { scopes: [{ terms, ...(params.identifier ? { fuzzy: params.identifier } : {}) }], text };
+}
+
+/** The JSON QAAutomationServer takes as `params.selector`. */
+export function toWire(selector: Selector): { scopes: SelectorScope[] } {
+  return { scopes: selector.scopes };
+}
+
+// --- Evaluating over a flat element list ---
+
+/** What the matcher needs to know about an element. */
+export interface SelectorView {
+  id?: string | null;
+  label?: string | null;
+  value?: string | null;
+  type: string;
+  enabled: boolean;
+  frame: { x: number; y: number; width: number; height: number };
+}
+
+export type Resolution<T> =
+  | { kind: "found"; element: T }
+  | { kind: "not_found" }
+  | { kind: "ambiguous"; matches: T[] };
+
+function termHolds(term: SelectorTerm, v: SelectorView): boolean {
+  if (term.field === "enabled") return v.enabled === (term.value === "true");
+  if (term.field === "type") return v.type.toLowerCase() === term.value.toLowerCase();
+  const actual = (term.field === "id" ? v.id : term.field === "label" ? v.label : v.value) ?? "";
+  switch (term.op) {
+    case "=": return actual === term.value;
+    case "^=": return actual.startsWith(term.value);
+    case "*=": return actual.toLowerCase().includes(term.value.toLowerCase());
+    case "~=": return new RegExp(term.value, term.ignoreCase ? "is" : "s").test(actual);
+  }
+}
+
+const FUZZY_TIERS: ((v: SelectorView, word: string) => boolean)[] = [
+  (v, w) => v.id === w,
+  (v, w) => v.id?.startsWith(w) ?? false,
+  (v, w) => v.label === w,
+  (v, w) => v.label?.toLowerCase().includes(w.toLowerCase()) ?? false,
+];
+
+// The accessibility tree is flat, so "inside" means the frame lies within the
+// outer element's frame. Half a point of slack absorbs rounding.
+function contains(outer: SelectorView["frame"], inner: SelectorView["frame"]): boolean {
+  const e = 0.5;
+  return inner.x >= outer.x - e && inner.y >= outer.y - e &&
+    inner.x + inner.width <= outer.x + outer.width + e &&
+    inner.y + inner.height <= outer.y + outer.height + e;
+}
+
+function sameElement(a: SelectorView, b: SelectorView): boolean {
+  return a.id === b.id && a.label === b.label && a.type === b.type &&
+    a.frame.x === b.frame.x && a.frame.y === b.frame.y &&
+    a.frame.width === b.frame.width && a.frame.height === b.frame.height;
+}
+
+/**
+ * Every element the selector's last scope matches, in tree order. Exact
+ * duplicates (the same element read twice, e.g. by a toolbar probe) count once.
+ */
+export function selectAll<T>(elements: T[], selector: Selector, view: (el: T) => SelectorView): T[] {
+  const views = new Map<T, SelectorView>();
+  const pool: T[] = [];
+  for (const el of elements) {
+    const v = view(el);
+    if ([...views.values()].some(seen => sameElement(seen, v))) continue;
+    views.set(el, v);
+    pool.push(el);
+  }
+
+  let outer: T[] | null = null;
+  let matches: T[] = [];
+  for (const scope of selector.scopes) {
+    const parents = outer;
+    let candidates = pool.filter(el => {
+      const v = views.get(el)!;
+      if (parents && !parents.some(p => p !== el && contains(views.get(p)!.frame, v.frame))) return false;
+      return scope.terms.every(t => termHolds(t, v));
+    });
+    if (scope.fuzzy !== undefined) {
+      const word = scope.fuzzy;
+      const tier = FUZZY_TIERS.find(holds => candidates.some(el => holds(views.get(el)!, word)));
+      candidates = tier ? candidates.filter(el => tier(views.get(el)!, word)) : [];
+    }
+    if (scope.index !== undefined) {
+      const picked = candidates.at(scope.index);
+      candidates = picked === undefined ? [] : [picked];
+    }
+    matches = candidates;
+    outer = candidates;
+  }
+  return matches;
+}
+
+/** The one element the selector means, or why there isn't one. */
+export function resolveOne<T>(elements: T[], selector: Selector, view: (el: T) => SelectorView): Resolution<T> {
+  const matches = selectAll(elements, selector, view);
+  if (matches.length === 0) return { kind: "not_found" };
+  if (matches.length > 1) return { kind: "ambiguous", matches };
+  return { kind: "found", element: matches[0] };
+}
+
+const AMBIGUITY_LIMIT = 10;
+
+/**
+ * "Selector ... matched 3 elements" with the candidates numbered by index, so
+ * the caller can add index=N or a narrower term. `total` is given when the
+ * list was already cut short (the agent sends at most ten).
+ */
+export function formatAmbiguity(selector: Selector, described: string[], total = described.length): string {
+  const lines = described.slice(0, AMBIGUITY_LIMIT).map((d, i) => `  [${i}] ${d}`);
+  if (total > lines.length) lines.push(`  … ${total - lines.length} more`);
+  return (
+    `Selector "${selector.text}" matched ${total} elements; refusing to guess. ` +
+    `Add index=N (0-based, as listed) or a narrower term (type=, label=, A >> B):\n` +
+    lines.join("\n")
+  );
+}
@@ -0,0 +1,754 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { DeviceDriver } from "./driver";
+import {
+  findElement,
+  findMatchingElements,
+  formatAmbiguous,
+  formatElementInfo,
+  getAccessibilityTree,
+  tapElement,
+  typeInField,
+  waitForElement,
+  type ElementTarget,
+} from "./elements";
+import { parseLog, type AppEvent } from "./convos-log";
+import { crashSummary, type CrashWatch } from "./crash";
+import { addFixtures, ensureFixture, fixtureSpec } from "./media-fixtures";
+import { cursorAtEnd, readLogFrom } from "./log-cursor";
+import { fuzzySelector, parseSelector } from "./selector";
+import { parseYaml } from "./yaml";
+
+// Runs a qa/tests/structured/*.yaml test against the simulator. Actions and
+// verify checks that map onto the element/log helpers run directly; everything
+// else (CLI calls, visual checks, devices the caller didn't map to a
+// simulator, unresolved $variables) is handed back to the agent as a manual
+// step. The run pauses there and the
+// caller resumes it with the outcome.
+
+export const STRUCTURED_TESTS_DIR = path.join("qa", "tests", "structured");
+export const DEFAULT_BUNDLE_ID = "org.convos.ios-preview";
+
+export interface StructuredTest {
+  id: string;
+  name: string;
+  description?: string;
+  blocked?: boolean;
+  blocked_reason?: string;
+  state?: Record<string, any>;
+  setup?: any[];
+  steps?: any[];
+  teardown?: any[];
+  criteria?: Record<string, { description?: string } | string | null>;
+  [key: string]: any;
+}
+
+/** Resolve a test by file path or by id ("12", "03", "23b"). */
+export function loadStructuredTest(ref: string, root = process.cwd()): { test: StructuredTest; file: string } {
+  let file = path.isAbsolute(ref) ? ref : path.join(root, ref);
+  if (!fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    const dir = path.join(root, STRUCTURED_TESTS_DIR);
+    const files = fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => f.endsWith(".yaml")) : [];
+    const match = files.find(f => f === ref || f === `${ref}.yaml` || f.startsWith(`${ref}-`));
+    if (!match) throw new Error(`No structured test found for "${ref}" (looked for a path, or ${STRUCTURED_TESTS_DIR}/${ref}-*.yaml)`);
+    file = path.join(dir, match);
+  }
+  const test = parseYaml(fs.readFileSync(file, "utf-8"));
+  if (!test || typeof test !== "object" || Array.isArray(test)) {
+    throw new Error(`${file} is not a structured test (expected a mapping at the top level)`);
+  }
+  test.id = String(test.id ?? path.basename(file, ".yaml"));
+  test.name = String(test.name ?? test.id);
+  return { test, file };
+}
+
+// --- Run state ---
+
+export type CriterionStatus = "pass" | "fail" | "manual" | "skip" | "not_run";
+
+export interface CriterionResult {
+  key: string;
+  description: string;
+  status: CriterionStatus;
+  evidence: string[];
+}
+
+/** One unit of work: a setup/teardown item, a step action, or a verify check. */
+interface WorkItem {
+  phase: "setup" | "step" | "teardown";
+  stepIndex: number;
+  kind: "action" | "verify" | "expect_event" | "save";
+  name: string;
+  args: any;
+  /** Action-level optional flag (setup/teardown items). */
+  optional?: boolean;
+  note?: string;
+}
+
+export interface ManualStep {
+  phase: WorkItem["phase"];
+  step?: string;
+  kind: WorkItem["kind"];
+  name: string;
+  args: any;
+  reason: string;
+  note?: string;
+}
+
+export interface SessionDevice {
+  udid: string;
+  logFile: string | null;
+  /** Log cursor at the start of the run; event checks only look past it. */
+  logCursor: string | undefined;
+}
+
+export interface RunSession {
+  file: string;
+  test: StructuredTest;
+  /** Simulators for the test's `device:` letters. "A" is always present. */
+  devices: Record<string, SessionDevice>;
+  variables: Record<string, any>;
+  items: WorkItem[];
+  cursor: number;
+  log: string[];
+  criteria: Map<string, CriterionResult>;
+  /** Steps that failed; remaining items of a failed step are skipped. */
+  failedSteps: Set<number>;
+  pendingSaves: string[];
+  paused?: ManualStep;
+  stopped: boolean;
+  screenshots: string[];
+}
+
+export interface RunOptions {
+  skipSetup?: boolean;
+  skipTeardown?: boolean;
+  /** Only run these step ids (setup and teardown still run unless skipped). */
+  steps?: string[];
+  variables?: Record<string, any>;
+  onManual: "pause" | "skip";
+  stopOnFailure: boolean;
+}
+
+export interface RunContext {
+  driver: DeviceDriver;
+  signal?: AbortSignal;
+  /** When given, an action or verify after which the app has crashed fails with the crash. */
+  crashes?: CrashWatch;
+}
+
+function stepOf(session: RunSession, item: WorkItem): any | undefined {
+  return item.phase === "step" ? session.test.steps?.[item.stepIndex] : undefined;
+}
+
+/** A map with a single key (`- tap: {...}`) or a setup-style `{ action, args }` item. */
+function normalizeAction(raw: any): { name: string; args: any; optional?: boolean; note?: string; save?: any } {
+  if (typeof raw === "string") return { name: raw, args: {} };
+  if (raw && typeof raw === "object" && typeof raw.action === "string") {
+    return { name: raw.action, args: raw.args ?? {}, optional: raw.optional === true, note: raw.note, save: raw.save };
+  }
+  if (raw && typeof raw === "object") {
+    const keys = Object.keys(raw).filter(k => k !== "note" && k !== "optional");
+    const name = keys[0] ?? "unknown";
+    return { name, args: raw[name] ?? {}, optional: raw.optional === true, note: raw.note };
+  }
+  return { name: String(raw), args: {} };
+}
+
+function buildItems(test: StructuredTest, opts: RunOptions): WorkItem[] {
+  const items: WorkItem[] = [];
+
+  const addPhaseItems = (phase: "setup" | "teardown", list: any[] | undefined) => {
+    (list ?? []).forEach((raw, i) => {
+      const a = normalizeAction(raw);
+      items.push({ phase, stepIndex: i, kind: "action", name: a.name, args: a.args, optional: a.optional, note: a.note });
+      if (a.save !== undefined && a.save !== null) {
+        items.push({ phase, stepIndex: i, kind: "save", name: "save", args: a.save, optional: a.optional });
+      }
+    });
+  };
+
+  if (!opts.skipSetup) addPhaseItems("setup", test.setup);
+
+  (test.steps ?? []).forEach((step, i) => {
+    if (opts.steps && !opts.steps.includes(String(step.id))) return;
+    for (const raw of step.actions ?? []) {
+      const a = normalizeAction(raw);
+      items.push({ phase: "step", stepIndex: i, kind: "action", name: a.name, args: a.args, optional: a.optional, note: a.note });
+    }
+    for (const raw of step.verify ?? []) {
+      const v = normalizeAction(raw);
+      items.push({ phase: "step", stepIndex: i, kind: "verify", name: v.name, args: v.args, note: v.note });
+    }
+    const events: any[] = [];
+    if (step.expect_event) events.push(step.expect_event);
+    if (Array.isArray(step.expect_events)) events.push(...step.expect_events);
+    if (step.expect_event_with) events.push(step.expect_event_with);
+    for (const ev of events) {
+      items.push({ phase: "step", stepIndex: i, kind: "expect_event", name: "expect_event", args: ev });
+    }
+    if (step.save !== undefined && step.save !== null) {
+      items.push({ phase: "step", stepIndex: i, kind: "save", name: "save", args: step.save });
+    }
+  });
+
+  if (!opts.skipTeardown) addPhaseItems("teardown", test.teardown);
+  return items;
+}
+
+function criterionDescription(test: StructuredTest, key: string): string {
+  const c = test.criteria?.[key];
+  if (typeof c === "string") return c.trim();
+  return (c?.description ?? "").trim();
+}
+
+/** `devices` maps the test's device letters ("A", "B") to simulators; "A" is required. */
+export function startSession(
+  file: string,
+  test: StructuredTest,
+  devices: Record<string, { udid: string; logFile: string | null }>,
+  opts: RunOptions
+): RunSession {
+  const variables: Record<string, any> = {};
+  for (const [k, v] of Object.entries(test.state ?? {})) {
+    if (v !== null && v !== undefined) variables[k] = v;
+  }
+  Object.assign(variables, opts.variables ?? {});
+
+  const criteria = new Map<string, CriterionResult>();
+  for (const key of Object.keys(test.criteria ?? {})) {
+    criteria.set(key, { key, description: criterionDescription(test, key), status: "not_run", evidence: [] });
+  }
+
+  const sessionDevices: Record<string, SessionDevice> = {};
+  for (const [key, { udid, logFile }] of Object.entries(devices)) {
+    let logCursor: string | undefined;
+    if (logFile) {
+      try {
+        logCursor = cursorAtEnd(logFile);
+      } catch {}
+    }
+    sessionDevices[key.toUpperCase()] = { udid, logFile, logCursor };
+  }
+
+  return {
+    file,
+    test,
+    devices: sessionDevices,
+    variables,
+    items: buildItems(test, opts),
+    cursor: 0,
+    log: [],
+    criteria,
+    failedSteps: new Set(),
+    pendingSaves: [],
+    stopped: false,
+    screenshots: [],
+  };
+}
+
+// --- Variables ---
+
+class UnresolvedVariable extends Error {
+  constructor(public variable: string) {
+    super(`$${variable} is not set`);
+  }
+}
+
+const VAR_PATTERN = /\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+function substitute(value: any, vars: Record<string, any>): any {
+  if (typeof value === "string") {
+    const whole = value.match(/^\$([A-Za-z_][A-Za-z0-9_]*)$/);
+    if (whole) {
+      if (vars[whole[1]] === undefined || vars[whole[1]] === null) throw new UnresolvedVariable(whole[1]);
+      return vars[whole[1]];
+    }
+    return value.replace(VAR_PATTERN, (_m, name) => {
+      if (vars[name] === undefined || vars[name] === null) throw new UnresolvedVariable(name);
+      return String(vars[name]);
+    });
+  }
+  if (Array.isArray(value)) return value.map(v => substitute(v, vars));
+  if (value && typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = substitute(v, vars);
+    return out;
+  }
+  return value;
+}
+
+// --- Events ---
+
+interface LoggedEvent extends AppEvent {
+  line: string;
+}
+
+function readEventsSince(device: SessionDevice): LoggedEvent[] {
+  if (!device.logFile || !fs.existsSync(device.logFile)) return [];
+  let content: string;
+  try {
+    // A replaced or truncated log (app reinstalled mid-run) is read from the start
+    content = readLogFrom(device.logFile, device.logCursor).text;
+  } catch {
+    return [];
+  }
+
+  return parseLog(content).flatMap(r => (r.event ? [{ ...r.event, line: r.raw }] : []));
+}
+
+function eventMatches(ev: LoggedEvent, spec: any): boolean {
+  if (typeof spec === "string") return ev.name === spec || ev.name.includes(spec);
+  if (!spec || typeof spec !== "object") return false;
+  const { name, ...params } = spec;
+  if (name && ev.name !== name) return false;
+  return Object.entries(params).every(([k, v]) => ev.params[k] === String(v));
+}
+
+// --- Executing items ---
+
+type ItemResult =
+  | { status: "pass"; evidence?: string }
+  | { status: "fail"; evidence: string }
+  | { status: "manual"; reason: string };
+
+/**
+ * `selector:` in the lib/selector.ts grammar, else id/label/label_contains/
+ * pattern matched the legacy way. `index: N` picks one of several matches.
+ */
+function targetOf(args: any): ElementTarget | undefined {
+  if (!args || typeof args !== "object") return undefined;
+  if (args.selector !== undefined) return parseSelector(String(args.selector));
+  const legacy = args.id ?? args.label ?? args.label_contains ?? args.pattern ?? args.identifier;
+  if (legacy === undefined) return undefined;
+  if (typeof args.index !== "number") return String(legacy);
+  const selector = fuzzySelector(String(legacy));
+  return { scopes: [{ ...selector.scopes[0], index: args.index }], text: `${legacy} index=${args.index}` };
+}
+
+function targetText(target: ElementTarget | undefined): string {
+  return target === undefined ? "" : typeof target === "string" ? target : target.text;
+}
+
+async function runAction(ctx: RunContext, session: RunSession, device: SessionDevice, item: WorkItem, args: any): Promise<ItemResult> {
+  const { driver, signal } = ctx;
+  const udid = typeof args?.udid === "string" ? args.udid : device.udid;
+  const target = targetOf(args);
+
+  switch (item.name) {
+    case "tap":
+    case "long_press": {
+      const duration = args.duration ?? (item.name === "long_press" ? 1.0 : undefined);
+      if (target === undefined && typeof args.x === "number" && typeof args.y === "number") {
+        await driver.tap(udid, args.x, args.y, { duration }, signal);
+        return { status: "pass", evidence: `tapped (${args.x}, ${args.y})` };
+      }
+      if (target === undefined) return { status: "manual", reason: `no id, label or coordinates to ${item.name}` };
+      const outcome = await tapElement(driver, udid, target, { duration }, signal);
+      if (outcome.ok) return { status: "pass", evidence: `tapped ${formatElementInfo(outcome.element)}` };
+      if (outcome.reason === "not_found") return { status: "fail", evidence: `element not found: "${targetText(target)}"` };
+      if (outcome.reason === "ambiguous") return { status: "fail", evidence: formatAmbiguous(target, outcome.matches) };
+      if (outcome.reason === "disabled") return { status: "fail", evidence: `element disabled: ${formatElementInfo(outcome.element)}` };
+      return { status: "fail", evidence: outcome.message };
+    }
+
+    case "wait_for_element": {
+      if (target === undefined) return { status: "manual", reason: "no id or label to wait for" };
+      const timeout = typeof args.timeout === "number" ? args.timeout : 10;
+      const outcome = await waitForElement(driver, udid, target, { timeoutMs: timeout * 1000, intervalMs: 1000 }, signal);
+      if (outcome.element) {
+        return { status: "pass", evidence: `found after ${(outcome.elapsedMs / 1000).toFixed(1)}s: ${formatElementInfo(outcome.element)}` };
+      }
+      return { status: "fail", evidence: `timed out after ${timeout}s waiting for "${targetText(target)}"` };
+    }
+
+    case "type_in_field": {
+      if (target === undefined || args.text === undefined) return { status: "manual", reason: "type_in_field needs an id and text" };
+      const outcome = await typeInField(driver, udid, target, String(args.text), args.clear_first === true, signal);
+      if (outcome.ok) return { status: "pass", evidence: `typed "${args.text}" into ${outcome.element.AXUniqueId || outcome.element.AXLabel}` };
+      if (outcome.reason === "not_found") return { status: "fail", evidence: `text field not found: "${targetText(target)}"` };
+      if (outcome.reason === "ambiguous") return { status: "fail", evidence: formatAmbiguous(target, outcome.matches) };
+      return { status: "fail", evidence: outcome.message };
+    }
+
+    case "find_elements": {
+      const matches = await findMatchingElements(driver, udid, target, signal);
+      return { status: "pass", evidence: `${matches.length} element(s) matching "${targetText(target)}"` };
+    }
+
+    case "screenshot": {
+      const out = path.join(os.tmpdir(), `structured-${session.test.id}-${Date.now()}.png`);
+      await driver.screenshot(udid, out, signal);
+      session.screenshots.push(out);
+      return { status: "pass", evidence: `screenshot ${out}` };
+    }
+
+    case "swipe": {
+      const { x_start, y_start, x_end, y_end } = args;
+      if ([x_start, y_start, x_end, y_end].some(v => typeof v !== "number")) {
+        return { status: "manual", reason: "swipe without explicit x_start/y_start/x_end/y_end coordinates" };
+      }
+      await driver.swipe(udid, { x: x_start, y: y_start }, { x: x_end, y: y_end }, { duration: args.duration }, signal);
+      return { status: "pass", evidence: `swiped (${x_start},${y_start}) → (${x_end},${y_end})` };
+    }
+
+    case "key": {
+      if (typeof args.code !== "number") return { status: "manual", reason: "key without a numeric code" };
+      await driver.key(udid, args.code, signal);
+      return { status: "pass", evidence: `key ${args.code}` };
+    }
+
+    case "sim_open_url": {
+      if (!args.url) return { status: "manual", reason: "sim_open_url without a url" };
+      await driver.openUrl(udid, String(args.url), signal);
+      return { status: "pass", evidence: `opened ${args.url}` };
+    }
+
+    case "launch_app": {
+      await driver.launch(udid, args.bundle_id ?? DEFAULT_BUNDLE_ID, signal);
+      return { status: "pass", evidence: `launched ${args.bundle_id ?? DEFAULT_BUNDLE_ID}` };
+    }
+
+    case "terminate_app": {
+      await driver.terminate(udid, args.bundle_id ?? DEFAULT_BUNDLE_ID, signal);
+      return { status: "pass", evidence: `terminated ${args.bundle_id ?? DEFAULT_BUNDLE_ID}` };
+    }
+
+    case "media_fixture": {
+      if (!args.kind) return { status: "manual", reason: "media_fixture without a kind" };
+      const fixture = ensureFixture(fixtureSpec(args, String(args.seed ?? "1")));
+      const addedTo = args.add_to === "none" ? null : await addFixtures(driver, udid, [fixture], args.add_to, signal);
+      if (typeof args.save_as === "string") session.variables[args.save_as] = fixture.path;
+      return { status: "pass", evidence: `${fixture.id} ${fixture.path}${addedTo ? ` added to ${addedTo}` : ""}` };
+    }
+
+    case "sim_log_events": {
+      const filter = args.event_filter ? String(args.event_filter).toLowerCase() : undefined;
+      const events = readEventsSince(device).filter(e => !filter || e.line.toLowerCase().includes(filter));
+      if (events.length === 0) return { status: "fail", evidence: `no events${filter ? ` matching "${args.event_filter}"` : ""} since the run started` };
+      return { status: "pass", evidence: events[events.length - 1].line.trim() };
+    }
+  }
+
+  return { status: "manual", reason: `"${item.name}" has no automatic mapping` };
+}
+
+async function runVerify(ctx: RunContext, device: SessionDevice, item: WorkItem, args: any): Promise<ItemResult> {
+  const { driver, signal } = ctx;
+  const udid = typeof args?.udid === "string" ? args.udid : device.udid;
+  const target = targetOf(args);
+
+  switch (item.name) {
+    case "element_exists":
+    case "element_not_exists":
+    case "element_absent": {
+      if (target === undefined) return { status: "manual", reason: `${item.name} without an id, label or pattern` };
+      const matches = await findMatchingElements(driver, udid, target, signal);
+      const wantPresent = item.name === "element_exists";
+      const text = targetText(target);
+      if (wantPresent === matches.length > 0) {
+        return { status: "pass", evidence: wantPresent ? `found ${formatElementInfo(matches[0])}` : `"${text}" not on screen` };
+      }
+      return { status: "fail", evidence: wantPresent ? `"${text}" not on screen` : `"${text}" still on screen (${matches.length} match(es))` };
+    }
+
+    case "element_enabled": {
+      if (target === undefined) return { status: "manual", reason: "element_enabled without an id or label" };
+      const el = findElement(await getAccessibilityTree(driver, udid, signal), target);
+      if (!el) return { status: "fail", evidence: `"${targetText(target)}" not on screen` };
+      return el.enabled
+        ? { status: "pass", evidence: formatElementInfo(el) }
+        : { status: "fail", evidence: `disabled: ${formatElementInfo(el)}` };
+    }
+
+    case "element_count_gte": {
+      const min = typeof args.min === "number" ? args.min : 1;
+      const matches = await findMatchingElements(driver, udid, target, signal);
+      return matches.length >= min
+        ? { status: "pass", evidence: `${matches.length} ≥ ${min} matching "${targetText(target)}"` }
+        : { status: "fail", evidence: `${matches.length} < ${min} matching "${targetText(target)}"` };
+    }
+
+    case "event_exists":
+      return checkEvent(device, args);
+  }
+
+  return { status: "manual", reason: `"${item.name}" needs the agent's judgement` };
+}
+
+function checkEvent(device: SessionDevice, spec: any): ItemResult {
+  if (!device.logFile) return { status: "manual", reason: "no convos.log found for this simulator" };
+  const events = readEventsSince(device).filter(e => eventMatches(e, spec));
+  const label = typeof spec === "string" ? spec : JSON.stringify(spec);
+  if (events.length === 0) return { status: "fail", evidence: `no [EVENT] ${label} since the run started` };
+  return { status: "pass", evidence: events[events.length - 1].line.trim() };
+}
+
+/** Fill `save:` keys that can be derived mechanically; return the ones left for the agent. */
+function applySave(session: RunSession, device: SessionDevice, save: any): string[] {
+  const entries: [string, any][] = typeof save === "string"
+    ? [[save, null]]
+    : Object.entries(save ?? {});
+  const unresolved: string[] = [];
+  const events = readEventsSince(device);
+
+  for (const [key, how] of entries) {
+    const desc = typeof how === "string" ? how : "";
+    const fromEvent = desc.match(/from\s+([\w.]+)\s+event/);
+    if (fromEvent) {
+      const matching = events.filter(e => e.name === fromEvent[1]);
+      const ev = matching[matching.length - 1];
+      if (ev) {
+        const paramHint = desc.match(/\((\w+)=/)?.[1];
+        const keys = Object.keys(ev.params);
+        const param = paramHint
+          ?? (ev.params[key] !== undefined ? key : undefined)
+          ?? (keys.length === 1 ? keys[0] : undefined)
+          ?? (ev.params.url !== undefined ? "url" : undefined);
+        if (param && ev.params[param] !== undefined) {
+          session.variables[key] = ev.params[param];
+          continue;
+        }
+      }
+    }
+    if (session.variables[key] === undefined || session.variables[key] === null) {
+      unresolved.push(desc ? `${key} (${desc})` : key);
+    }
+  }
+  return unresolved;
+}
+
+function setCriterion(session: RunSession, key: string | undefined, status: CriterionStatus, evidence?: string) {
+  if (!key) return;
+  let c = session.criteria.get(key);
+  if (!c) {
+    c = { key, description: criterionDescription(session.test, key), status: "not_run", evidence: [] };
+    session.criteria.set(key, c);
+  }
+  // fail beats manual beats pass; skip only fills in criteria that never ran
+  const rank: Record<CriterionStatus, number> = { not_run: 0, skip: 1, pass: 2, manual: 3, fail: 4 };
+  if (rank[status] > rank[c.status]) c.status = status;
+  if (evidence) c.evidence.push(evidence);
+}
+
+function describeItem(session: RunSession, item: WorkItem): string {
+  const step = stepOf(session, item);
+  const where = item.phase === "step" ? `step ${step?.id ?? item.stepIndex}` : `${item.phase} #${item.stepIndex + 1}`;
+  return `${where} ${item.kind === "action" ? "" : item.kind + " "}${item.name}`;
+}
+
+function recordResult(session: RunSession, item: WorkItem, result: ItemResult, opts: RunOptions) {
+  const step = stepOf(session, item);
+  const criterion: string | undefined = step?.criteria;
+  const optional = item.optional || step?.optional === true;
+  const label = describeItem(session, item);
+
+  if (result.status === "pass") {
+    session.log.push(`✓ ${label}${result.evidence ? ` — ${result.evidence}` : ""}`);
+    setCriterion(session, criterion, "pass", item.kind === "action" ? undefined : result.evidence);
+  } else if (result.status === "manual") {
+    session.log.push(`? ${label} — manual: ${result.reason}`);
+    setCriterion(session, criterion, "manual", `manual: ${item.name} (${result.reason})`);
+  } else if (optional) {
+    session.log.push(`~ ${label} — optional, failed: ${result.evidence}`);
+  } else {
+    const knownIssue = step?.known_issue ? ` [known issue: ${String(step.known_issue).trim()}]` : "";
+    session.log.push(`✗ ${label} — ${result.evidence}${knownIssue}`);
+    setCriterion(session, criterion, "fail", `${item.name}: ${result.evidence}${knownIssue}`);
+    if (item.phase === "step") session.failedSteps.add(item.stepIndex);
+    if (opts.stopOnFailure && item.phase !== "teardown") session.stopped = true;
+  }
+}
+
+/**
+ * Execute items from the session cursor until the run finishes, stops on a
+ * failure, or reaches a manual step while `onManual` is "pause".
+ */
+export async function advance(ctx: RunContext, session: RunSession, opts: RunOptions): Promise<void> {
+  session.paused = undefined;
+
+  while (session.cursor < session.items.length) {
+    if (ctx.signal?.aborted) throw new Error("Aborted");
+    const item = session.items[session.cursor];
+
+    // After a stop, only teardown still runs
+    if (session.stopped && item.phase !== "teardown") {
+      session.cursor++;
+      continue;
+    }
+    if (item.phase === "step" && session.failedSteps.has(item.stepIndex)) {
+      session.cursor++;
+      continue;
+    }
+
+    const step = stepOf(session, item);
+    const deviceKey = step?.device ? String(step.device).toUpperCase() : "A";
+    const device = session.devices[deviceKey];
+    let result: ItemResult | undefined;
+
+    if (item.kind === "save") {
+      session.pendingSaves.push(...applySave(session, device ?? session.devices.A, item.args));
+      session.cursor++;
+      continue;
+    }
+
+    if (!device) {
+      result = { status: "manual", reason: `runs on device ${step.device}, which has no simulator; pass devices: { ${deviceKey}: "<alias>" } to drive it` };
+    } else {
+      let args: any;
+      try {
+        args = substitute(item.args ?? {}, session.variables);
+      } catch (e) {
+        if (!(e instanceof UnresolvedVariable)) throw e;
+        args = item.args;
+        result = { status: "manual", reason: `${e.message}; pass it in variables to run this automatically` };
+      }
+      if (ctx.crashes && item.kind !== "expect_event") await ctx.crashes.watch(device.udid, ctx.signal).catch(() => {});
+      result ??= await (async (): Promise<ItemResult> => {
+        try {
+          if (item.kind === "action") return await runAction(ctx, session, device, item, args);
+          if (item.kind === "verify") return await runVerify(ctx, device, item, args);
+          return checkEvent(device, args);
+        } catch (e: any) {
+          return { status: "fail", evidence: e.message };
+        }
+      })();
+      if (ctx.crashes && item.kind !== "expect_event" && result.status !== "manual") {
+        const crash = await ctx.crashes.check(device.udid, ctx.signal).catch(() => null);
+        if (crash) result = { status: "fail", evidence: crash.report ? `${crashSummary(crash)} (${crash.report.file})` : crashSummary(crash) };
+      }
+    }
+
+    if (result.status === "manual" && opts.onManual === "pause") {
+      session.paused = {
+        phase: item.phase,
+        step: step?.id,
+        kind: item.kind,
+        name: item.name,
+        args: safeSubstitute(item.args, session.variables),
+        reason: result.reason,
+        note: item.note ?? (typeof step?.note === "string" ? step.note.trim() : undefined),
+      };
+      return;
+    }
+
+    recordResult(session, item, result, opts);
+    session.cursor++;
+  }
+}
+
+/** Resolve a paused manual step with the agent's outcome and move past it. */
+export function resolveManual(session: RunSession, outcome: "done" | "failed", evidence: string | undefined, opts: RunOptions) {
+  const item = session.items[session.cursor];
+  if (!item || !session.paused) return;
+  const result: ItemResult = outcome === "done"
+    ? { status: "pass", evidence: evidence ? `manual: ${evidence}` : "manual: done by agent" }
+    : { status: "fail", evidence: evidence ? `manual: ${evidence}` : "manual: failed" };
+  recordResult(session, item, result, opts);
+  session.cursor++;
+  session.paused = undefined;
+}
+
+function safeSubstitute(args: any, vars: Record<string, any>): any {
+  try {
+    return substitute(args, vars);
+  } catch {
+    return args;
+  }
+}
+
+// --- Reporting ---
+
+export function sessionStatus(session: RunSession): "paused" | "passed" | "failed" | "partial" {
+  if (session.paused) return "paused";
+  const statuses = [...session.criteria.values()].map(c => c.status);
+  if (statuses.includes("fail")) return "failed";
+  if (statuses.some(s => s !== "pass")) return "partial";
+  return "passed";
+}
+
+const STATUS_LABEL: Record<CriterionStatus, string> = {
+  pass: "✅ pass",
+  fail: "❌ fail",
+  manual: "❓ manual",
+  skip: "⏭️ skip",
+  not_run: "· not run",
+};
+
+export function formatReport(session: RunSession): string {
+  const { test } = session;
+  const out: string[] = [];
+  out.push(`# ${test.id}: ${test.name} — ${sessionStatus(session)}`);
+  out.push("");
+
+  if (session.log.length > 0) {
+    out.push("## Log");
+    out.push(...session.log);
+    out.push("");
+  }
+
+  out.push("## Criteria");
+  out.push("| Criterion | Status | Description | Evidence |");
+  out.push("|-----------|--------|-------------|----------|");
+  for (const c of session.criteria.values()) {
+    const evidence = c.evidence.join("; ").replace(/\|/g, "\\|").replace(/\n/g, " ");
+    out.push(`| ${c.key} | ${STATUS_LABEL[c.status]} | ${c.description.replace(/\|/g, "\\|")} | ${evidence} |`);
+  }
+
+  const vars = Object.entries(session.variables);
+  if (vars.length > 0) {
+    out.push("");
+    out.push("## Variables");
+    for (const [k, v] of vars) out.push(`- ${k} = ${JSON.stringify(v)}`);
+  }
+  if (session.pendingSaves.length > 0) {
+    out.push("");
+    out.push("## Saves left for the agent");
+    for (const s of session.pendingSaves) out.push(`- ${s}`);
+  }
+  if (session.screenshots.length > 0) {
+    out.push("");
+    out.push("## Screenshots");
+    for (const s of session.screenshots) out.push(`- ${s}`);
+  }
+
+  if (session.paused) {
+    const p = session.paused;
+    out.push("");
+    out.push("## ⏸ Manual step");
+    out.push(`${p.phase === "step" ? `step ${p.step}` : p.phase} — ${p.kind} \`${p.name}\``);
+    out.push(`args: ${JSON.stringify(p.args)}`);
+    out.push(`why: ${p.reason}`);
+    if (p.note) out.push(`note: ${p.note}`);
+    out.push("");
+    out.push(
+      "Do this step yourself, then call sim_run_structured_test again with resume: true, " +
+      "manual_outcome: \"done\" or \"failed\", optional evidence, and any new values in variables."
+    );
+  }
+  return out.join("\n");
+}
+
+export function sessionDetails(session: RunSession) {
+  return {
+    test_id: session.test.id,
+    file: session.file,
+    status: sessionStatus(session),
+    criteria: [...session.criteria.values()],
+    variables: session.variables,
+    pending_saves: session.pendingSaves,
+    manual_step: session.paused ?? null,
+  };
+}
+
+/** Report for a `blocked: true` test: nothing runs and every criterion is skipped. */
+export function blockedReport(test: StructuredTest): string {
+  const lines = [`# ${test.id}: ${test.name} — blocked`, "", String(test.blocked_reason ?? "No reason given.").trim(), ""];
+  lines.push("| Criterion | Status | Description |");
+  lines.push("|-----------|--------|-------------|");
+  for (const key of Object.keys(test.criteria ?? {})) {
+    lines.push(`| ${key} | ${STATUS_LABEL.skip} | ${criterionDescription(test, key)} |`);
+  }
+  return lines.join("\n");
+}
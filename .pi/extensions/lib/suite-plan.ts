@@ -0,0 +1,367 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { newId, sqlValue, type Cxdb } from "./cxdb";
+import { loadStructuredTest, STRUCTURED_TESTS_DIR } from "./structured-test";
+
+// The suite planner behind sim_qa_plan. Structured tests declare what they
+// need (`depends_on`, `prerequisites`) and how long they take
+// (`estimated_duration_s`); the planner picks tests by id or tag, pulls in
+// what they depend on, and orders them so every test runs after its
+// dependencies, ties broken by test id.
+//
+// Against a CXDB run, tests that already passed or were skipped are done. A
+// test whose dependency failed in the run, is blocked, sits in a dependency
+// cycle or doesn't exist is a cascaded skip rather than a test that is bound
+// to fail. Resuming a run from a new session plans its failed tests again,
+// along with everything that hasn't run and anything skipped because of them.
+
+export interface SuiteTest {
+  id: string;
+  name: string;
+  file: string;
+  dependsOn: string[];
+  tags: string[];
+  prerequisites: Record<string, unknown>;
+  estimatedS: number | null;
+  /** blocked_reason (or "blocked") for tests marked `blocked: true`. */
+  blocked: string | null;
+}
+
+export type PlanStatus = "planned" | "done" | "failed" | "cascaded" | "blocked" | "cycle" | "missing_dependency";
+
+export interface PlanEntry {
+  test: SuiteTest;
+  status: PlanStatus;
+  /** Why it isn't planned, or "retry" for a failed test planned again. */
+  reason?: string;
+  /** Not selected, but something selected depends on it. */
+  addedAsDependency: boolean;
+  /** The test's last status in the run, if it has one. */
+  runStatus?: string;
+}
+
+export interface SuitePlan {
+  /** Planned tests in run order. */
+  planned: PlanEntry[];
+  /** Everything else considered, by test id. */
+  skipped: PlanEntry[];
+  totalS: number;
+  /** Planned tests without estimated_duration_s. */
+  unestimated: number;
+  problems: string[];
+}
+
+export interface PlanOptions {
+  ids?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+  includeDependencies: boolean;
+  /** Each test's last status in the CXDB run being planned. */
+  runStatuses?: Map<string, string>;
+  /** Plan the run's failed tests again instead of cascading past them. */
+  resume: boolean;
+}
+
+/** Natural order for test ids: "9" < "12" < "23" < "23b". */
+export function compareTestIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return value === undefined || value === null || value === "" ? [] : [String(value)];
+}
+
+function firstSentence(text: string): string {
+  const flat = text.trim().replace(/\s+/g, " ");
+  return flat.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? flat;
+}
+
+/** Every structured test under `root`; files that don't load are reported as problems. */
+export function loadSuite(root = process.cwd()): { tests: Map<string, SuiteTest>; problems: string[] } {
+  const dir = path.join(root, STRUCTURED_TESTS_DIR);
+  const tests = new Map<string, SuiteTest>();
+  const problems: string[] = [];
+  const files = fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => f.endsWith(".yaml")).sort() : [];
+  for (const name of files) {
+    try {
+      const { test, file } = loadStructuredTest(path.join(dir, name), root);
+      if (tests.has(test.id)) {
+        problems.push(`${name}: test id ${test.id} is already used by ${path.basename(tests.get(test.id)!.file)}`);
+        continue;
+      }
+      const estimate = Number(test.estimated_duration_s);
+      tests.set(test.id, {
+        id: test.id,
+        name: test.name,
+        file,
+        dependsOn: stringList(test.depends_on),
+        tags: stringList(test.tags),
+        prerequisites: test.prerequisites && typeof test.prerequisites === "object" ? test.prerequisites : {},
+        estimatedS: Number.isFinite(estimate) && estimate > 0 ? estimate : null,
+        blocked: test.blocked === true ? firstSentence(String(test.blocked_reason ?? "blocked")) : null,
+      });
+    } catch (e: any) {
+      problems.push(`${name}: ${e.message}`);
+    }
+  }
+  return { tests, problems };
+}
+
+/** The last status of each test in a run, as cxdb.sh test-status reads it. */
+export async function queryRunStatuses(db: Cxdb, runId: string, signal?: AbortSignal): Promise<Map<string, string>> {
+  const rows = await db.query<{ test_id: string; status: string }>(
+    `SELECT test_id, status FROM test_results WHERE run_id=${sqlValue(runId)} ORDER BY started_at, rowid;`,
+    signal
+  );
+  return new Map(rows.map(r => [r.test_id, r.status]));
+}
+
+/**
+ * Record cascaded skips in the run as skipped test_results with the reason in
+ * notes, so cxdb.sh pending-tests and the report see them. Tests the run
+ * already marked skipped are left alone. Returns how many were recorded.
+ */
+export async function recordCascadedSkips(db: Cxdb, runId: string, plan: SuitePlan, signal?: AbortSignal): Promise<number> {
+  const cascaded = plan.skipped.filter(e => e.status === "cascaded" && e.runStatus !== "skip");
+  if (cascaded.length === 0) return 0;
+  const now = "strftime('%Y-%m-%dT%H:%M:%SZ','now')";
+  await db.exec(cascaded.map(e =>
+    `INSERT INTO test_results (id, run_id, test_id, test_name, status, started_at, finished_at, duration_ms, notes) VALUES ` +
+    `(${sqlValue(newId())}, ${sqlValue(runId)}, ${sqlValue(e.test.id)}, ${sqlValue(e.test.name)}, 'skip', ${now}, ${now}, 0, ` +
+    `${sqlValue(`cascaded skip: ${e.reason}`)});`
+  ).join("\n"), signal);
+  return cascaded.length;
+}
+
+/** Strongly connected components with more than one test, or a test that depends on itself. */
+function findCycles(ids: string[], deps: (id: string) => string[]): string[][] {
+  let counter = 0;
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  function visit(id: string) {
+    index.set(id, counter);
+    low.set(id, counter++);
+    stack.push(id);
+    onStack.add(id);
+    for (const dep of deps(id)) {
+      if (!index.has(dep)) {
+        visit(dep);
+        low.set(id, Math.min(low.get(id)!, low.get(dep)!));
+      } else if (onStack.has(dep)) {
+        low.set(id, Math.min(low.get(id)!, index.get(dep)!));
+      }
+    }
+    if (low.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1 || deps(id).includes(id)) cycles.push(component.sort(compareTestIds));
+  }
+
+  for (const id of ids) if (!index.has(id)) visit(id);
+  return cycles;
+}
+
+/** "05 → 06 → 05": one way round the cycle, starting from its lowest id. */
+function cyclePath(component: string[], deps: (id: string) => string[]): string {
+  const members = new Set(component);
+  const pathIds = [component[0]];
+  for (;;) {
+    const next = deps(pathIds[pathIds.length - 1]).filter(d => members.has(d)).sort(compareTestIds)[0];
+    const seen = pathIds.indexOf(next);
+    pathIds.push(next);
+    if (seen >= 0) return pathIds.slice(seen).join(" → ");
+  }
+}
+
+/** Why `dep` won't pass in this run, or null when it has or still can. */
+function dependencyFailure(dep: string, entry: PlanEntry | undefined, runStatus: string | undefined): string | null {
+  // Left out of the plan (include_dependencies: false): only the run can say
+  if (!entry) {
+    if (runStatus === "fail") return `${dep}, which failed in this run`;
+    return runStatus === "skip" ? `${dep}, which was skipped in this run` : null;
+  }
+  switch (entry.status) {
+    case "failed": return `${dep}, which failed in this run`;
+    case "cascaded": return `${dep}, which is skipped`;
+    case "blocked": return `${dep}, which is blocked`;
+    case "cycle": return `${dep}, which is in a dependency cycle`;
+    case "missing_dependency": return `${dep}, which has a missing dependency`;
+    case "done": return entry.runStatus === "skip" ? `${dep}, which was skipped in this run` : null;
+    default: return null;
+  }
+}
+
+export function planSuite(suite: Map<string, SuiteTest>, opts: PlanOptions): SuitePlan {
+  const problems: string[] = [];
+
+  // Selection: ids as given, or every test matching the tag filter
+  const selected = new Set<string>();
+  if (opts.ids && opts.ids.length > 0) {
+    for (const id of opts.ids) {
+      if (suite.has(id)) selected.add(id);
+      else problems.push(`No structured test with id ${id}`);
+    }
+  } else {
+    for (const test of suite.values()) {
+      if (opts.tags?.length && !opts.tags.some(t => test.tags.includes(t))) continue;
+      if (opts.excludeTags?.some(t => test.tags.includes(t))) continue;
+      selected.add(test.id);
+    }
+  }
+
+  // Dependencies of the selection join the plan
+  const considered = new Set(selected);
+  if (opts.includeDependencies) {
+    const queue = [...selected];
+    while (queue.length > 0) {
+      for (const dep of suite.get(queue.shift()!)!.dependsOn) {
+        if (suite.has(dep) && !considered.has(dep)) {
+          considered.add(dep);
+          queue.push(dep);
+        }
+      }
+    }
+  }
+
+  const ids = [...considered].sort(compareTestIds);
+  const depsInPlan = (id: string) => suite.get(id)!.dependsOn.filter(d => considered.has(d));
+  const entries = new Map<string, PlanEntry>();
+  for (const id of ids) {
+    const runStatus = opts.runStatuses?.get(id);
+    entries.set(id, { test: suite.get(id)!, status: "planned", addedAsDependency: !selected.has(id), ...(runStatus ? { runStatus } : {}) });
+  }
+
+  for (const component of findCycles(ids, depsInPlan)) {
+    const route = cyclePath(component, depsInPlan);
+    problems.push(`Dependency cycle: ${route}`);
+    for (const id of component) Object.assign(entries.get(id)!, { status: "cycle", reason: `in the dependency cycle ${route}` });
+  }
+
+  // Kahn's algorithm over everything outside a cycle, lowest id first among the ready ones;
+  // dependents of a cycle still get ordered and cascade from it below
+  const ordered: string[] = [];
+  const waiting = new Map(ids.filter(id => entries.get(id)!.status !== "cycle")
+    .map(id => [id, depsInPlan(id).filter(d => entries.get(d)!.status !== "cycle").length]));
+  const ready = [...waiting].filter(([, n]) => n === 0).map(([id]) => id);
+  while (ready.length > 0) {
+    ready.sort(compareTestIds);
+    const id = ready.shift()!;
+    ordered.push(id);
+    for (const [other, n] of waiting) {
+      if (n > 0 && depsInPlan(other).includes(id)) {
+        waiting.set(other, n - 1);
+        if (n === 1) ready.push(other);
+      }
+    }
+  }
+
+  const runStatusOf = (id: string) => (opts.runStatuses?.get(id) === "error" ? "fail" : opts.runStatuses?.get(id));
+  for (const id of ordered) {
+    const entry = entries.get(id)!;
+    const test = entry.test;
+    const missing = test.dependsOn.filter(d => !suite.has(d));
+    if (missing.length > 0) {
+      entry.status = "missing_dependency";
+      entry.reason = `depends on ${missing.join(", ")}, which ${missing.length === 1 ? "doesn't" : "don't"} exist`;
+      problems.push(`${id} ${entry.reason}`);
+      continue;
+    }
+    if (test.blocked) {
+      entry.status = "blocked";
+      entry.reason = test.blocked;
+      continue;
+    }
+    const status = runStatusOf(id);
+    // A test skipped because its dependency didn't pass runs again once that dependency does
+    const rerunDep = status === "skip" ? test.dependsOn.find(d => entries.get(d)?.status === "planned") : undefined;
+    if (status === "pass" || (status === "skip" && !rerunDep)) {
+      entry.status = "done";
+      entry.reason = status === "pass" ? "passed in this run" : "skipped in this run";
+      continue;
+    }
+    if (status === "fail" && !opts.resume) {
+      entry.status = "failed";
+      entry.reason = "failed in this run";
+      continue;
+    }
+    // A dependency that won't pass in this run takes its dependents with it
+    const cascade = test.dependsOn.map(dep => dependencyFailure(dep, entries.get(dep), runStatusOf(dep))).find(Boolean);
+    if (cascade) {
+      entry.status = "cascaded";
+      entry.reason = `depends on ${cascade}`;
+      continue;
+    }
+    if (status === "fail") entry.reason = "retry: failed earlier in this run";
+    if (rerunDep) entry.reason = `again: skipped earlier, ${rerunDep} runs again first`;
+    if (status === "running" || status === "pending") entry.reason = "started earlier in this run, never finished";
+  }
+
+  const planned = ordered.map(id => entries.get(id)!).filter(e => e.status === "planned");
+  return {
+    planned,
+    skipped: ids.map(id => entries.get(id)!).filter(e => e.status !== "planned"),
+    totalS: planned.reduce((sum, e) => sum + (e.test.estimatedS ?? 0), 0),
+    unestimated: planned.filter(e => e.test.estimatedS === null).length,
+    problems,
+  };
+}
+
+export function formatDuration(s: number): string {
+  if (s < 60) return `${Math.round(s)}s`;
+  const minutes = Math.round(s / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function formatPrerequisites(prerequisites: Record<string, unknown>): string {
+  const parts = Object.entries(prerequisites)
+    .filter(([, v]) => v !== false && v !== null && v !== undefined)
+    .map(([k, v]) => (v === true ? k : `${k}=${typeof v === "object" ? JSON.stringify(v) : v}`));
+  return parts.length > 0 ? parts.join(", ") : "—";
+}
+
+const SKIP_HEADINGS: [PlanStatus, string][] = [
+  ["cascaded", "Cascaded skips"],
+  ["failed", "Failed in this run (not retried)"],
+  ["blocked", "Blocked"],
+  ["cycle", "In a dependency cycle"],
+  ["missing_dependency", "Missing dependencies"],
+  ["done", "Done in this run"],
+];
+
+export function formatPlan(plan: SuitePlan, runId?: string): string {
+  const estimate = plan.unestimated > 0 ? ` (${plan.unestimated} without estimated_duration_s)` : "";
+  const lines = [`Plan: ${plan.planned.length} test${plan.planned.length === 1 ? "" : "s"}, about ${formatDuration(plan.totalS)}${estimate}${runId ? `, continuing run ${runId}` : ""}`];
+  if (plan.planned.length > 0) {
+    lines.push("", "| # | Test | Est. | Needs | Prerequisites |", "|---|------|------|-------|---------------|");
+    plan.planned.forEach((e, i) => {
+      const notes = [e.addedAsDependency ? "dependency" : "", e.reason ?? ""].filter(Boolean).join("; ");
+      const name = `${e.test.id} ${e.test.name}${notes ? ` (${notes})` : ""}`;
+      const est = e.test.estimatedS === null ? "?" : formatDuration(e.test.estimatedS);
+      lines.push(`| ${i + 1} | ${name} | ${est} | ${e.test.dependsOn.join(", ") || "—"} | ${formatPrerequisites(e.test.prerequisites)} |`);
+    });
+  }
+  for (const [status, heading] of SKIP_HEADINGS) {
+    const group = plan.skipped.filter(e => e.status === status);
+    if (group.length === 0) continue;
+    if (status === "done") {
+      lines.push("", `${heading}: ${group.map(e => e.test.id).join(", ")}`);
+      continue;
+    }
+    lines.push("", `${heading}:`);
+    for (const e of group) lines.push(`- ${e.test.id} ${e.test.name}: ${e.reason}`);
+  }
+  // Cycles and missing dependencies are listed with their tests above
+  const other = plan.problems.filter(p => !p.startsWith("Dependency cycle") && !/ depends on .* exist$/.test(p));
+  if (other.length > 0) lines.push("", "Problems:", ...other.map(p => `- ${p}`));
+  return lines.join("\n");
+}
@@ -0,0 +1,188 @@
+import type { SelectorView } from "./selector";
+
+// What changed on screen between two observations. Each element gets a key
+// that should survive a re-read: its accessibility identifier when it has one,
+// otherwise type + label, otherwise type + rounded position. Repeats of a key
+// (two "Delete" buttons) are numbered in tree order. Elements whose key
+// appears in both trees are compared on label, value, enabled and frame.
+// An element without an identifier whose label changed gets a new key, so
+// what is left over is paired up again by type + position: a label change
+// in place reads as a change, not as one element removed and another added.
+
+export interface SnapshotElement extends SelectorView {
+  key: string;
+}
+
+export interface UISnapshot {
+  elements: SnapshotElement[];
+  takenAt: number;
+}
+
+export type ChangedField = "label" | "value" | "enabled" | "frame";
+
+export interface ElementChange {
+  key: string;
+  before: SnapshotElement;
+  after: SnapshotElement;
+  fields: ChangedField[];
+}
+
+export interface UIDiff {
+  added: SnapshotElement[];
+  removed: SnapshotElement[];
+  changed: ElementChange[];
+  unchanged: number;
+}
+
+// Frames are compared to the point; smaller moves are layout noise
+const FRAME_TOLERANCE = 1;
+const POSITION_GRID = 10;
+const LINES_PER_SECTION = 25;
+
+function positionKey(v: SelectorView): string {
+  const x = Math.round(v.frame.x / POSITION_GRID) * POSITION_GRID;
+  const y = Math.round(v.frame.y / POSITION_GRID) * POSITION_GRID;
+  return `${v.type}@${x},${y}`;
+}
+
+function baseKey(v: SelectorView): string {
+  if (v.id) return `id:${v.id}`;
+  if (v.label) return `${v.type}:${JSON.stringify(v.label)}`;
+  return positionKey(v);
+}
+
+export function takeSnapshot<T>(elements: T[], view: (el: T) => SelectorView): UISnapshot {
+  const seen = new Map<string, number>();
+  const snapshot: SnapshotElement[] = [];
+  for (const el of elements) {
+    const v = view(el);
+    const base = baseKey(v);
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    snapshot.push({ ...v, key: n === 1 ? base : `${base}#${n}` });
+  }
+  return { elements: snapshot, takenAt: Date.now() };
+}
+
+function frameMoved(a: SelectorView["frame"], b: SelectorView["frame"]): boolean {
+  return Math.abs(a.x - b.x) > FRAME_TOLERANCE || Math.abs(a.y - b.y) > FRAME_TOLERANCE ||
+    Math.abs(a.width - b.width) > FRAME_TOLERANCE || Math.abs(a.height - b.height) > FRAME_TOLERANCE;
+}
+
+export function diffSnapshots(before: UISnapshot, after: UISnapshot): UIDiff {
+  const old = new Map(before.elements.map(e => [e.key, e]));
+  const diff: UIDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  function compare(prev: SnapshotElement, el: SnapshotElement) {
+    const fields: ChangedField[] = [];
+    if ((prev.label ?? "") !== (el.label ?? "")) fields.push("label");
+    if ((prev.value ?? "") !== (el.value ?? "")) fields.push("value");
+    if (prev.enabled !== el.enabled) fields.push("enabled");
+    if (frameMoved(prev.frame, el.frame)) fields.push("frame");
+    if (fields.length > 0) diff.changed.push({ key: el.key, before: prev, after: el, fields });
+    else diff.unchanged++;
+  }
+
+  const unmatched: SnapshotElement[] = [];
+  for (const el of after.elements) {
+    const prev = old.get(el.key);
+    if (!prev) {
+      unmatched.push(el);
+      continue;
+    }
+    old.delete(el.key);
+    compare(prev, el);
+  }
+
+  // Leftovers without an identifier in the same spot are one element relabelled
+  const byPosition = new Map<string, SnapshotElement[]>();
+  for (const prev of old.values()) {
+    if (prev.id) continue;
+    const key = positionKey(prev);
+    byPosition.set(key, [...(byPosition.get(key) ?? []), prev]);
+  }
+  for (const el of unmatched) {
+    const prev = el.id ? undefined : byPosition.get(positionKey(el))?.shift();
+    if (!prev) {
+      diff.added.push(el);
+      continue;
+    }
+    old.delete(prev.key);
+    compare(prev, el);
+  }
+  diff.removed = [...old.values()];
+  return diff;
+}
+
+export function isEmptyDiff(diff: UIDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+function describe(el: SnapshotElement): string {
+  const parts = [el.id ? `id=${el.id}` : "(no id)"];
+  if (el.label) parts.push(`"${el.label}"`);
+  if (el.value) parts.push(`value="${el.value}"`);
+  parts.push(`[${el.type}]`);
+  if (!el.enabled) parts.push("disabled");
+  return parts.join(" ");
+}
+
+function frameText(f: SelectorView["frame"]): string {
+  return `(${Math.round(f.x)},${Math.round(f.y)} ${Math.round(f.width)}×${Math.round(f.height)})`;
+}
+
+function changeText(c: ElementChange): string {
+  const parts = c.fields.map(field => {
+    switch (field) {
+      case "label": return `label "${c.before.label ?? ""}" → "${c.after.label ?? ""}"`;
+      case "value": return `value "${c.before.value ?? ""}" → "${c.after.value ?? ""}"`;
+      case "enabled": return c.after.enabled ? "enabled" : "disabled";
+      case "frame": return `frame ${frameText(c.before.frame)} → ${frameText(c.after.frame)}`;
+    }
+  });
+  return `${describe(c.before)}: ${parts.join("; ")}`;
+}
+
+function section(prefix: string, lines: string[]): string[] {
+  const shown = lines.slice(0, LINES_PER_SECTION).map(l => `${prefix} ${l}`);
+  if (lines.length > shown.length) shown.push(`${prefix} … ${lines.length - shown.length} more`);
+  return shown;
+}
+
+/** `+` added, `-` removed, `~` changed, headed by counts and the age of the previous observation. */
+export function formatDiff(diff: UIDiff, before: UISnapshot): string {
+  const age = ((Date.now() - before.takenAt) / 1000).toFixed(1);
+  if (isEmptyDiff(diff)) return `No UI changes since the observation ${age}s ago (${diff.unchanged} elements).`;
+  return [
+    `UI changes since the observation ${age}s ago: +${diff.added.length} -${diff.removed.length} ~${diff.changed.length} (${diff.unchanged} unchanged)`,
+    ...section("+", diff.added.map(describe)),
+    ...section("-", diff.removed.map(describe)),
+    ...section("~", diff.changed.map(changeText)),
+  ].join("\n");
+}
+
+/**
+ * The last tree observed per device, so the next observation can be reported
+ * as a diff. Each extension keeps its own: idb and the XCUITest agent see
+ * different trees.
+ */
+export interface SnapshotStore {
+  has(device: string): boolean;
+  set(device: string, snapshot: UISnapshot): void;
+  /** Store `next` and describe how it differs from the previous observation. */
+  record(device: string, next: UISnapshot): string;
+}
+
+export function createSnapshotStore(): SnapshotStore {
+  const snapshots = new Map<string, UISnapshot>();
+  return {
+    has: device => snapshots.has(device),
+    set: (device, snapshot) => { snapshots.set(device, snapshot); },
+    record(device, next) {
+      const prev = snapshots.get(device);
+      snapshots.set(device, next);
+      if (!prev) return `No earlier observation of this device; recorded ${next.elements.length} elements as the baseline for the next diff.`;
+      return formatDiff(diffSnapshots(prev, next), prev);
+    },
+  };
+}
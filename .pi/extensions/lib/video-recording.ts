@@ -0,0 +1,150 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { artifactFileName, runArtifactDir, type QaContext } from "./cxdb";
+import type { DeviceDriver, VideoCapture } from "./driver";
+import { runFfmpeg } from "./media-fixtures";
+
+// Screen recordings behind sim_record_video_start / sim_record_video_stop.
+// simctl io recordVideo runs until it is interrupted, so a recording outlives
+// the tool call that started it. The store keeps one per simulator until it
+// is stopped; a time limit stops it in the meantime if nobody does. Files go
+// to qa/artifacts/run-<run_id>/videos/, named like screenshots, and belong to
+// the run, test and step that were active when recording started.
+
+export const DEFAULT_MAX_RECORDING_S = 300;
+export const MAX_RECORDING_S = 1800;
+
+export interface ActiveRecording {
+  udid: string;
+  /** Where simctl writes the video. */
+  path: string;
+  /** The QA context when recording started; null outside a QA run. */
+  qa: QaContext | null;
+  stepId: string;
+  caption?: string;
+  startedAt: number;
+  maxDurationS: number;
+  /** When recording ended before stop(): its time limit ran out, or simctl gave up. */
+  endedEarly: { at: number; reason: string } | null;
+}
+
+export interface FinishedRecording extends ActiveRecording {
+  durationS: number;
+  bytes: number;
+}
+
+export interface RecordingStore {
+  get(udid: string): ActiveRecording | undefined;
+  all(): ActiveRecording[];
+  start(
+    udid: string,
+    opts: { qa: QaContext | null; stepId: string; caption?: string; maxDurationS: number },
+    signal?: AbortSignal
+  ): Promise<ActiveRecording>;
+  /** Stop the simulator's recording and wait for the file. Throws when nothing is recording or no file was written. */
+  stop(udid: string): Promise<FinishedRecording>;
+}
+
+function recordingPath(qa: QaContext | null, stepId: string): string {
+  const dir = qa ? path.join(runArtifactDir(qa.run_id), "videos") : path.join(os.tmpdir(), "sim-recordings");
+  fs.mkdirSync(dir, { recursive: true });
+  return path.join(dir, artifactFileName(qa?.test_id, stepId, "mp4"));
+}
+
+export function createRecordingStore(driver: DeviceDriver): RecordingStore {
+  const active = new Map<string, { recording: ActiveRecording; capture: VideoCapture; timer: ReturnType<typeof setTimeout> }>();
+
+  return {
+    get(udid) {
+      return active.get(udid)?.recording;
+    },
+
+    all() {
+      return [...active.values()].map(a => a.recording);
+    },
+
+    async start(udid, opts, signal) {
+      const current = active.get(udid);
+      if (current) throw new Error(`${udid} is already recording to ${current.recording.path}; stop that recording first`);
+      const outPath = recordingPath(opts.qa, opts.stepId);
+      const capture = await driver.recordVideo(udid, outPath, signal);
+      const recording: ActiveRecording = {
+        udid,
+        path: outPath,
+        qa: opts.qa,
+        stepId: opts.stepId,
+        caption: opts.caption,
+        startedAt: Date.now(),
+        maxDurationS: opts.maxDurationS,
+        endedEarly: null,
+      };
+      const timer = setTimeout(() => {
+        recording.endedEarly ??= { at: Date.now(), reason: `stopped at the ${opts.maxDurationS}s limit` };
+        capture.stop().catch(() => {});
+      }, opts.maxDurationS * 1000);
+      // Don't keep the process alive just to enforce the limit
+      timer.unref?.();
+      capture.ended.then(failure => {
+        if (failure && !recording.endedEarly) recording.endedEarly = { at: Date.now(), reason: `simctl stopped recording: ${failure}` };
+      });
+      active.set(udid, { recording, capture, timer });
+      return recording;
+    },
+
+    async stop(udid) {
+      const entry = active.get(udid);
+      if (!entry) throw new Error(`${udid} is not recording`);
+      active.delete(udid);
+      clearTimeout(entry.timer);
+      const stoppedAt = Date.now();
+      await entry.capture.stop();
+      const { recording } = entry;
+      if (!fs.existsSync(recording.path)) {
+        throw new Error(`No video was written${recording.endedEarly ? ` (${recording.endedEarly.reason})` : ""}`);
+      }
+      const end = recording.endedEarly?.at ?? stoppedAt;
+      return { ...recording, durationS: (end - recording.startedAt) / 1000, bytes: fs.statSync(recording.path).size };
+    },
+  };
+}
+
+export interface PostProcessOptions {
+  /** Seconds from the start of the recording to keep from. */
+  trimStartS?: number;
+  /** Seconds from the start of the recording to keep up to. */
+  trimEndS?: number;
+  /** Longest edge in pixels; smaller recordings are left at their size. */
+  maxDimension?: number;
+}
+
+/**
+ * Trim and downscale a finished recording in place with ffmpeg. Returns the
+ * new duration, or throws (leaving the original untouched) when ffmpeg is
+ * missing or fails.
+ */
+export function postProcessRecording(file: string, durationS: number, opts: PostProcessOptions): number {
+  const start = opts.trimStartS ?? 0;
+  const end = Math.min(opts.trimEndS ?? durationS, durationS);
+  if (start < 0 || (opts.trimEndS !== undefined && opts.trimEndS <= start)) {
+    throw new Error("trim_start must be 0 or more and less than trim_end");
+  }
+  if (start >= durationS) throw new Error(`trim_start is past the end of the ${durationS.toFixed(1)}s recording`);
+  const tmp = file.replace(/\.mp4$/, "") + ".processing.mp4";
+  const args = ["-hide_banner", "-loglevel", "error", "-y"];
+  if (start > 0) args.push("-ss", String(start));
+  args.push("-i", file);
+  if (opts.trimEndS !== undefined) args.push("-t", String(end - start));
+  if (opts.maxDimension) {
+    const d = Math.round(opts.maxDimension);
+    args.push("-vf", `scale=w='min(${d},iw)':h='min(${d},ih)':force_original_aspect_ratio=decrease:force_divisible_by=2`);
+  }
+  args.push("-c:v", "libx264", "-preset", "veryfast", "-crf", "26", "-pix_fmt", "yuv420p", "-an", tmp);
+  try {
+    runFfmpeg(args, 300000);
+    fs.renameSync(tmp, file);
+  } finally {
+    fs.rmSync(tmp, { force: true });
+  }
+  return end - start;
+}
@@ -0,0 +1,169 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AXElement } from "./driver";
+import { artifactsRoot, sanitizePathPart } from "./cxdb";
+import { findElements, pointScale } from "./elements";
+import { decodePng, type RgbaImage } from "./png";
+import { parseSelector } from "./selector";
+
+// Golden-screenshot comparison behind sim_screenshot_compare. Baselines live
+// in qa/artifacts/baselines/<test>/<step>.png with a <step>.json beside them
+// holding the masks they were accepted with, so later comparisons ignore the
+// same regions without the caller repeating them.
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Regions to ignore, in points. Element selectors are resolved against the tree at comparison time. */
+export interface MaskSpec {
+  status_bar?: boolean;
+  rects?: Rect[];
+  elements?: string[];
+}
+
+export interface BaselineMeta {
+  masks: MaskSpec;
+  width: number;
+  height: number;
+  accepted_at: string;
+}
+
+export interface Comparison {
+  /** Share of unmasked pixels that match, 0..1. */
+  similarity: number;
+  differing: number;
+  compared: number;
+  masked: number;
+  /** Bounding box of the differing pixels, in pixels. */
+  bounds?: Rect;
+  /** The actual capture faded to grey, differences in red, masked regions in blue. */
+  diff: RgbaImage;
+}
+
+// Covers the Dynamic Island status bar; older notched phones use 44–47pt
+const STATUS_BAR_PT = 54;
+
+export function baselineDir(testId: string): string {
+  return path.join(artifactsRoot(), "baselines", sanitizePathPart(testId));
+}
+
+export function baselinePaths(testId: string, stepId: string): { image: string; meta: string } {
+  const base = path.join(baselineDir(testId), sanitizePathPart(stepId));
+  return { image: `${base}.png`, meta: `${base}.json` };
+}
+
+export function readBaseline(testId: string, stepId: string): { image: RgbaImage; meta: BaselineMeta } | undefined {
+  const paths = baselinePaths(testId, stepId);
+  if (!fs.existsSync(paths.image)) return undefined;
+  const image = decodePng(fs.readFileSync(paths.image));
+  let meta: BaselineMeta = { masks: { status_bar: true }, width: image.width, height: image.height, accepted_at: "" };
+  try {
+    meta = { ...meta, ...JSON.parse(fs.readFileSync(paths.meta, "utf-8")) };
+  } catch {}
+  return { image, meta };
+}
+
+/** Store `png` (already encoded) as the baseline, replacing any earlier one. */
+export function writeBaseline(testId: string, stepId: string, png: Buffer, image: RgbaImage, masks: MaskSpec): string {
+  const paths = baselinePaths(testId, stepId);
+  fs.mkdirSync(path.dirname(paths.image), { recursive: true });
+  fs.writeFileSync(paths.image, png);
+  const meta: BaselineMeta = { masks, width: image.width, height: image.height, accepted_at: new Date().toISOString() };
+  fs.writeFileSync(paths.meta, JSON.stringify(meta, null, 2) + "\n");
+  return paths.image;
+}
+
+/**
+ * Turn a mask spec into pixel rectangles. The point-to-pixel scale comes from
+ * the application element's width; without a tree, @3x is assumed.
+ */
+export function resolveMasks(spec: MaskSpec, tree: AXElement[] | undefined, imageWidth: number): { rects: Rect[]; scale: number; notes: string[] } {
+  const notes: string[] = [];
+  const known = pointScale(tree, imageWidth);
+  const scale = known ?? 3;
+  const points: Rect[] = [...(spec.rects ?? [])];
+  if (!known && (points.length > 0 || spec.status_bar !== false)) notes.push("screen size unknown; assumed @3x for masks");
+  if (spec.status_bar !== false) points.push({ x: 0, y: 0, width: imageWidth / scale, height: STATUS_BAR_PT });
+  for (const text of spec.elements ?? []) {
+    if (!tree) {
+      notes.push(`mask "${text}" skipped: no accessibility tree`);
+      continue;
+    }
+    const matches = findElements(tree, parseSelector(text));
+    if (matches.length === 0) notes.push(`mask "${text}" matched nothing on screen`);
+    points.push(...matches.map(el => el.frame));
+  }
+  const rects = points.map(r => ({
+    x: Math.floor(r.x * scale),
+    y: Math.floor(r.y * scale),
+    width: Math.ceil(r.width * scale),
+    height: Math.ceil(r.height * scale),
+  }));
+  return { rects, scale, notes };
+}
+
+function maskBitmap(width: number, height: number, rects: Rect[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const r of rects) {
+    const x0 = Math.max(0, r.x), x1 = Math.min(width, r.x + r.width);
+    const y0 = Math.max(0, r.y), y1 = Math.min(height, r.y + r.height);
+    for (let y = y0; y < y1; y++) mask.fill(1, y * width + x0, y * width + x1);
+  }
+  return mask;
+}
+
+/**
+ * Compare two same-sized images. A pixel differs when any channel is more
+ * than `tolerance` (0–255) apart; masked pixels are not compared.
+ */
+export function compareImages(baseline: RgbaImage, actual: RgbaImage, masks: Rect[], tolerance: number): Comparison {
+  const { width, height } = actual;
+  if (baseline.width !== width || baseline.height !== height) {
+    throw new Error(`Size mismatch: baseline is ${baseline.width}×${baseline.height}, capture is ${width}×${height}`);
+  }
+  const mask = maskBitmap(width, height, masks);
+  const out = new Uint8Array(width * height * 4);
+  let differing = 0, masked = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  const a = actual.data, b = baseline.data;
+
+  for (let i = 0; i < width * height; i++) {
+    const p = i * 4;
+    const grey = Math.round((0.299 * a[p] + 0.587 * a[p + 1] + 0.114 * a[p + 2]) * 0.3 + 255 * 0.7);
+    out[p + 3] = 255;
+    if (mask[i]) {
+      masked++;
+      out[p] = Math.round(grey * 0.6); out[p + 1] = Math.round(grey * 0.7); out[p + 2] = 255;
+      continue;
+    }
+    const delta = Math.max(
+      Math.abs(a[p] - b[p]), Math.abs(a[p + 1] - b[p + 1]),
+      Math.abs(a[p + 2] - b[p + 2]), Math.abs(a[p + 3] - b[p + 3])
+    );
+    if (delta > tolerance) {
+      differing++;
+      out[p] = 255; out[p + 1] = 0; out[p + 2] = 0;
+      const x = i % width, y = (i - x) / width;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    } else {
+      out[p] = out[p + 1] = out[p + 2] = grey;
+    }
+  }
+
+  const compared = width * height - masked;
+  return {
+    similarity: compared > 0 ? 1 - differing / compared : 1,
+    differing,
+    compared,
+    masked,
+    ...(maxX >= 0 ? { bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } } : {}),
+    diff: { width, height, data: out },
+  };
+}
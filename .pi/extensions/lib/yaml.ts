@@ -0,0 +1,343 @@
+// Minimal YAML reader for qa/tests/structured/*.yaml.
+//
+// Extensions can't resolve pi's own `yaml` dependency, so this covers the
+// subset those files actually use: block maps and sequences, `>` / `|` block
+// scalars, single-line `{}` / `[]` flow collections, quoted and plain scalars,
+// and comments. Anchors, tags and multi-document streams are not supported.
+
+export class YamlError extends Error {
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = "YamlError";
+  }
+}
+
+interface Line {
+  no: number;
+  indent: number;
+  /** Content after the indent with any trailing comment removed. */
+  text: string;
+  raw: string;
+}
+
+function stripComment(s: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      // Quotes only open a scalar at the start of a token
+      if (i === 0 || /[\s:,\[{-]/.test(s[i - 1])) quote = c;
+    } else if (c === "#" && (i === 0 || /\s/.test(s[i - 1]))) {
+      return s.slice(0, i).trimEnd();
+    }
+  }
+  return s.trimEnd();
+}
+
+function toLine(raw: string, no: number): Line {
+  const indent = raw.length - raw.trimStart().length;
+  return { no, indent, raw, text: stripComment(raw.slice(indent)) };
+}
+
+/** Index of the `:` separating a map key from its value, or -1. */
+function keySeparator(text: string): number {
+  let i = 0;
+  if (text[0] === '"' || text[0] === "'") {
+    const end = text.indexOf(text[0], 1);
+    if (end < 0) return -1;
+    i = end + 1;
+  } else if (text[0] === "{" || text[0] === "[") {
+    return -1;
+  }
+  for (; i < text.length; i++) {
+    if (text[i] === ":" && (i === text.length - 1 || text[i + 1] === " ")) return i;
+  }
+  return -1;
+}
+
+function unquoteKey(key: string): string {
+  const k = key.trim();
+  if ((k.startsWith('"') && k.endsWith('"')) || (k.startsWith("'") && k.endsWith("'"))) {
+    return parseScalar(k, 0);
+  }
+  return k;
+}
+
+function parseScalar(s: string, lineNo: number): any {
+  const t = s.trim();
+  if (t.startsWith('"')) {
+    if (!t.endsWith('"') || t.length < 2) throw new YamlError("Unterminated double-quoted string", lineNo);
+    try {
+      return JSON.parse(t);
+    } catch {
+      return t.slice(1, -1).replace(/\\"/g, '"');
+    }
+  }
+  if (t.startsWith("'")) {
+    if (!t.endsWith("'") || t.length < 2) throw new YamlError("Unterminated single-quoted string", lineNo);
+    return t.slice(1, -1).replace(/''/g, "'");
+  }
+  if (t === "" || t === "~" || t === "null" || t === "Null" || t === "NULL") return null;
+  if (t === "true" || t === "True" || t === "TRUE") return true;
+  if (t === "false" || t === "False" || t === "FALSE") return false;
+  if (/^[-+]?\d+$/.test(t)) return parseInt(t, 10);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(t)) return parseFloat(t);
+  return t;
+}
+
+// --- Flow collections ({ a: 1, b: [x, y] }) ---
+
+function parseFlow(text: string, lineNo: number): any {
+  let pos = 0;
+
+  const skipWs = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const readQuoted = (): string => {
+    const q = text[pos];
+    let end = pos + 1;
+    while (end < text.length) {
+      if (q === '"' && text[end] === "\\") { end += 2; continue; }
+      if (text[end] === q) {
+        if (q === "'" && text[end + 1] === "'") { end += 2; continue; }
+        break;
+      }
+      end++;
+    }
+    if (end >= text.length) throw new YamlError("Unterminated quoted string in flow collection", lineNo);
+    const token = text.slice(pos, end + 1);
+    pos = end + 1;
+    return token;
+  };
+
+  const readPlain = (stops: string): string => {
+    const start = pos;
+    while (pos < text.length && !stops.includes(text[pos])) {
+      // `: ` ends a plain key inside a flow map
+      if (text[pos] === ":" && (pos + 1 >= text.length || /[\s,}\]]/.test(text[pos + 1])) && stops.includes(":")) break;
+      pos++;
+    }
+    return text.slice(start, pos);
+  };
+
+  const parseValue = (stops: string): any => {
+    skipWs();
+    const c = text[pos];
+    if (c === "{") return parseMap();
+    if (c === "[") return parseSeq();
+    if (c === '"' || c === "'") return parseScalar(readQuoted(), lineNo);
+    return parseScalar(readPlain(stops), lineNo);
+  };
+
+  function parseMap(): Record<string, any> {
+    const out: Record<string, any> = {};
+    pos++; // {
+    for (;;) {
+      skipWs();
+      if (text[pos] === "}") { pos++; return out; }
+      if (pos >= text.length) throw new YamlError("Unterminated flow mapping", lineNo);
+      const key = text[pos] === '"' || text[pos] === "'"
+        ? parseScalar(readQuoted(), lineNo)
+        : readPlain(",}:").trim();
+      skipWs();
+      let value: any = null;
+      if (text[pos] === ":") {
+        pos++;
+        value = parseValue(",}");
+      }
+      out[String(key)] = value;
+      skipWs();
+      if (text[pos] === ",") pos++;
+      else if (text[pos] !== "}") throw new YamlError(`Expected ',' or '}' in flow mapping`, lineNo);
+    }
+  }
+
+  function parseSeq(): any[] {
+    const out: any[] = [];
+    pos++; // [
+    for (;;) {
+      skipWs();
+      if (text[pos] === "]") { pos++; return out; }
+      if (pos >= text.length) throw new YamlError("Unterminated flow sequence", lineNo);
+      out.push(parseValue(",]"));
+      skipWs();
+      if (text[pos] === ",") pos++;
+      else if (text[pos] !== "]") throw new YamlError(`Expected ',' or ']' in flow sequence`, lineNo);
+    }
+  }
+
+  const value = parseValue("");
+  skipWs();
+  if (pos < text.length) throw new YamlError(`Unexpected trailing content "${text.slice(pos)}"`, lineNo);
+  return value;
+}
+
+// --- Block structure ---
+
+class Parser {
+  private pos = 0;
+
+  constructor(private lines: Line[], private rawLines: string[]) {}
+
+  private peek(): Line | undefined {
+    while (this.pos < this.lines.length && this.lines[this.pos].text === "") this.pos++;
+    return this.lines[this.pos];
+  }
+
+  parseDocument(): any {
+    const first = this.peek();
+    if (!first) return null;
+    const value = this.parseBlock(first.indent);
+    const rest = this.peek();
+    if (rest) throw new YamlError(`Unexpected content "${rest.text}"`, rest.no);
+    return value;
+  }
+
+  private parseBlock(indent: number): any {
+    const line = this.peek()!;
+    if (line.text === "-" || line.text.startsWith("- ")) return this.parseSequence(indent);
+    if (keySeparator(line.text) >= 0) return this.parseMap(indent);
+    // A lone scalar (possibly spanning lines)
+    this.pos++;
+    return this.inlineValue(line.text, line, indent - 1);
+  }
+
+  private parseSequence(indent: number): any[] {
+    const out: any[] = [];
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent < indent) return out;
+      if (line.indent > indent) throw new YamlError("Bad indentation in sequence", line.no);
+      if (!(line.text === "-" || line.text.startsWith("- "))) return out;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === "") {
+        this.pos++;
+        const next = this.peek();
+        out.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+        continue;
+      }
+
+      // "- key: value" starts a map whose keys sit at the column after "- "
+      const itemIndent = indent + (line.text.length - rest.length);
+      if (keySeparator(rest) >= 0) {
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: rest };
+        out.push(this.parseMap(itemIndent));
+      } else if (rest.startsWith("- ") || rest === "-") {
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: rest };
+        out.push(this.parseSequence(itemIndent));
+      } else {
+        this.pos++;
+        out.push(this.inlineValue(rest, line, indent));
+      }
+    }
+  }
+
+  private parseMap(indent: number): Record<string, any> {
+    const out: Record<string, any> = {};
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent < indent) return out;
+      if (line.indent > indent) throw new YamlError("Bad indentation in mapping", line.no);
+      const sep = keySeparator(line.text);
+      if (sep < 0) {
+        if (line.text.startsWith("- ")) return out;
+        throw new YamlError(`Expected "key: value", got "${line.text}"`, line.no);
+      }
+      const key = unquoteKey(line.text.slice(0, sep));
+      const rest = line.text.slice(sep + 1).trim();
+      this.pos++;
+
+      if (rest === "") {
+        const next = this.peek();
+        if (next && next.indent > indent) {
+          out[key] = this.parseBlock(next.indent);
+        } else if (next && next.indent === indent && (next.text === "-" || next.text.startsWith("- "))) {
+          // Sequences may sit at the same indent as their parent key
+          out[key] = this.parseSequence(indent);
+        } else {
+          out[key] = null;
+        }
+      } else if (/^[>|][-+]?$/.test(rest)) {
+        out[key] = this.blockScalar(rest, indent);
+      } else {
+        out[key] = this.inlineValue(rest, line, indent);
+      }
+    }
+  }
+
+  /** `>` (folded) and `|` (literal) scalars: every following line indented deeper than the key. */
+  private blockScalar(header: string, parentIndent: number): string {
+    const folded = header[0] === ">";
+    const chomp = header[1];
+    const collected: string[] = [];
+    let contentIndent = -1;
+
+    while (this.pos < this.lines.length) {
+      const raw = this.rawLines[this.pos];
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.trim() !== "") {
+        if (indent <= parentIndent) break;
+        if (contentIndent < 0) contentIndent = indent;
+        if (indent < contentIndent) break;
+        collected.push(raw.slice(contentIndent));
+      } else {
+        collected.push("");
+      }
+      this.pos++;
+    }
+    while (collected.length && collected[collected.length - 1] === "") collected.pop();
+
+    let text: string;
+    if (!folded) {
+      text = collected.join("\n");
+    } else {
+      // Single breaks fold to spaces, each blank line becomes one "\n", and
+      // breaks next to more-indented lines are kept as-is
+      text = collected[0] ?? "";
+      let lastContent = text;
+      for (let i = 1; i < collected.length; i++) {
+        const cur = collected[i];
+        if (cur === "") { text += "\n"; continue; }
+        const keepBreak = cur.startsWith(" ") || lastContent.startsWith(" ");
+        if (collected[i - 1] === "") text += keepBreak ? "\n" + cur : cur;
+        else text += (keepBreak ? "\n" : " ") + cur;
+        lastContent = cur;
+      }
+    }
+    return chomp === "-" ? text : text + "\n";
+  }
+
+  /** A value on the same line as its key or dash; plain scalars may continue on deeper lines. */
+  private inlineValue(rest: string, line: Line, parentIndent: number): any {
+    if (rest.startsWith("{") || rest.startsWith("[")) return parseFlow(rest, line.no);
+
+    // Gather continuation lines for multi-line plain or quoted scalars
+    let text = rest;
+    const quote = rest[0] === '"' || rest[0] === "'" ? rest[0] : null;
+    const closed = () => quote === null || (text.length > 1 && text.endsWith(quote) && !text.endsWith("\\" + quote));
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.indent <= parentIndent) break;
+      if (quote === null && (keySeparator(next.text) >= 0 || next.text.startsWith("- "))) break;
+      if (quote !== null && closed()) break;
+      text += " " + (quote ? next.raw.trim() : next.text);
+      this.pos++;
+    }
+    if (!closed()) throw new YamlError("Unterminated quoted string", line.no);
+    return parseScalar(text, line.no);
+  }
+}
+
+export function parseYaml(source: string): any {
+  const rawLines = source.replace(/\r\n/g, "\n").split("\n");
+  const lines = rawLines.map((raw, i) => {
+    if (raw.includes("\t") && /^\s*\t/.test(raw)) throw new YamlError("Tabs are not allowed for indentation", i + 1);
+    return toLine(raw, i + 1);
+  });
+  return new Parser(lines, rawLines).parseDocument();
+}
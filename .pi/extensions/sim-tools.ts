@@ -1,56 +1,37 @@
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
-import { Type } from "@sinclair/typebox";
-
-const AGENT_URL = "http://localhost:8615";
-
-interface UIElementInfo {
-  identifier?: string;
-  label?: string;
-  value?: string;
-  placeholderValue?: string;
-  elementType: string;
-  frame: { x: number; y: number; width: number; height: number };
-  isEnabled: boolean;
-  isHittable: boolean;
-  isSelected: boolean;
-  hasFocus: boolean;
+import type { AgentToolResult, ExtensionAPI, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { Type, type Static, type TSchema } from "@sinclair/typebox";
+import { isSymbolName, SYSTEM_IDS } from "./lib/a11y-audit";
+import { AgentError, createAgentClient, type AgentResponse, type ScreenState, type UIElementInfo } from "./lib/agent-client";
+import { lookupAlias } from "./lib/devices";
+import { formatAmbiguity, parseSelector, selectorFromParams, toWire, type Selector } from "./lib/selector";
+import { createSnapshotStore, takeSnapshot, type UISnapshot } from "./lib/ui-diff";
+
+const DEVICE_PARAM = Type.String({ description: "Registered device alias (see sim_devices). Uses that device's agent_url." });
+
+const SELECTOR_PARAM = Type.String({
+  description:
+    "Element selector: id=, id^= (prefix), label=, label*= (contains), label~=/regex/, value=, type=button, " +
+    "enabled=true, index=N (0-based), and A >> B for B inside A. E.g. 'type=cell index=1'. " +
+    "Use instead of identifier/label/labelContains.",
+});
+
+const DIFF_PARAM = Type.Boolean({
+  description: "After the action, report what changed on screen since the last observation instead of the full screen.",
+});
+
+// The params registerAgentTool reads before the tool sees them
+interface AgentToolParams {
+  device?: string;
+  diff?: boolean;
 }
 
-interface ScreenState {
-  elements: UIElementInfo[];
-  focusedElement?: UIElementInfo;
-  alerts: UIElementInfo[];
-  navigationBars: string[];
-  timestamp: number;
-}
+// A wrapped tool's details: the tool's own, or the kind of agent failure the wrapper caught
+type AgentToolDetails<TDetails> = TDetails | { failure?: AgentError["kind"] };
 
-interface AgentResponse {
-  success: boolean;
-  message?: string;
-  screenState?: ScreenState;
-  tappedElement?: UIElementInfo;
-  error?: string;
-  durationMs?: number;
-}
-
-async function agentAction(
-  action: string,
-  params?: Record<string, any>,
-  observe: boolean = false
-): Promise<AgentResponse> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 60000);
-  try {
-    const resp = await fetch(`${AGENT_URL}/action`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ action, params, observe }),
-      signal: controller.signal,
-    });
-    return resp.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
+// Each simulator runs its own QAAutomationServer; a registered device alias
+// picks that device's server, otherwise the configured default.
+function agentUrl(device: string | undefined, fallback: string): string {
+  return device ? lookupAlias(device).agentUrl ?? fallback : fallback;
 }
 
 function formatElement(el: UIElementInfo): string {
@@ -65,13 +46,27 @@ function formatElement(el: UIElementInfo): string {
   return parts.join(", ");
 }
 
-// System/keyboard identifiers to always hide
-const SYSTEM_IDS = new Set([
-  "inputView", "SystemInputAssistantView", "CenterPageView",
-  "UIKeyboardLayoutStar Preview", "AdditionalDimmingOverlay",
-  "dictation", "shift", "delete", "more", "space", "Return",
-  "Done", "Toolbar", "checkmark",
-]);
+// The server resolves selectors itself (XCUI queries); the legacy
+// identifier/label/labelContains params are sent as the equivalent selector so
+// every lookup reports ambiguity the same way.
+function selectorQuery(params: { selector?: string; identifier?: string; label?: string; labelContains?: string }): {
+  selector: Selector;
+  query: { selector: ReturnType<typeof toWire> };
+} {
+  const selector = selectorFromParams(params);
+  return { selector, query: { selector: toWire(selector) } };
+}
+
+/** The ambiguity report for a failed response, or undefined if it failed for another reason. */
+function ambiguityText(selector: Selector, resp: AgentResponse): string | undefined {
+  if (!resp.matches?.length) return undefined;
+  const total = Number(resp.error?.match(/matched (\d+)/)?.[1] ?? resp.matches.length);
+  return formatAmbiguity(selector, resp.matches.map(formatElement), total);
+}
+
+function selectorError(message: string) {
+  return { content: [{ type: "text" as const, text: message }], details: {}, isError: true };
+}
 
 function isRelevant(el: UIElementInfo): boolean {
   const id = el.identifier || "";
@@ -86,7 +81,7 @@ function isRelevant(el: UIElementInfo): boolean {
   // Hide elements with no id and no label
   if (!id && !label) return false;
   // Hide system image names used as identifiers (SF Symbols)
-  if (id && !id.includes("-") && id.includes(".") && !id.startsWith("qr")) return false;
+  if (id && isSymbolName(id)) return false;
 
   // Show app elements with identifiers (devs set these)
   if (id && id.includes("-")) return true;
@@ -101,6 +96,21 @@ function isRelevant(el: UIElementInfo): boolean {
   return false;
 }
 
+// observeScreen reports no frames or values, so diffs here compare presence,
+// labels and enabled state. Keyboard keys and other noise are left out, as in
+// formatScreenState.
+function snapshotOfScreen(state: ScreenState): UISnapshot {
+  const elements = [...state.elements.filter(isRelevant), ...state.alerts];
+  return takeSnapshot(elements, el => ({
+    id: el.identifier,
+    label: el.label,
+    value: el.value,
+    type: el.elementType,
+    enabled: el.isEnabled,
+    frame: el.frame,
+  }));
+}
+
 function formatScreenState(state: ScreenState): string {
   const lines: string[] = [];
   const seenIds = new Set<string>();
@@ -133,13 +143,84 @@ function formatScreenState(state: ScreenState): string {
 }
 
 export default function (pi: ExtensionAPI) {
+  const agent = createAgentClient();
+  // Last screen observed per device alias ("" for the default server)
+  const snapshots = createSnapshotStore();
+
+  function agentAction(
+    action: string,
+    params?: Record<string, any>,
+    observe: boolean = false,
+    device?: string,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    return agent.send(agentUrl(device, agent.config.url), { action, params, observe }, { signal });
+  }
+
+  async function observeSnapshot(device?: string, signal?: AbortSignal): Promise<UISnapshot> {
+    const resp = await agentAction("observeScreen", {}, true, device, signal);
+    if (!resp.success || !resp.screenState) throw new Error(resp.error || "observeScreen failed");
+    return snapshotOfScreen(resp.screenState);
+  }
+
+  // A `device` alias is checked before the tool runs, and the result is
+  // prefixed with it so two-device transcripts say which device acted. With
+  // `diff: true` the screen is observed after the action and reported as a
+  // change from the last observation; tools registered with `observes` record
+  // their own observations instead.
+  function registerAgentTool<TParams extends TSchema, TDetails>(
+    tool: Omit<ToolDefinition<TParams, TDetails>, "renderResult">,
+    opts: { observes?: boolean } = {}
+  ) {
+    pi.registerTool<TParams, AgentToolDetails<TDetails>>({
+      ...tool,
+      async execute(toolCallId, params, signal, onUpdate, ctx) {
+        const { device, diff } = params as Static<TParams> & AgentToolParams;
+        if (device) {
+          try {
+            lookupAlias(device);
+          } catch (e: any) {
+            return { content: [{ type: "text", text: e.message }], details: {}, isError: true };
+          }
+        }
+        const diffKey = device ?? "";
+        const wantDiff = diff === true && !opts.observes;
+        if (wantDiff && !snapshots.has(diffKey)) {
+          try { snapshots.set(diffKey, await observeSnapshot(device, signal)); } catch {}
+        }
+        let result: AgentToolResult<AgentToolDetails<TDetails>> & { isError?: boolean };
+        try {
+          result = await tool.execute(toolCallId, params, signal, onUpdate, ctx);
+        } catch (e) {
+          if (!(e instanceof AgentError)) throw e;
+          result = { content: [{ type: "text", text: e.message }], details: { failure: e.kind }, isError: true };
+        }
+        if (wantDiff && !result.isError) {
+          let diffText: string;
+          try {
+            diffText = snapshots.record(diffKey, await observeSnapshot(device, signal));
+          } catch (e: any) {
+            diffText = `UI diff unavailable: ${e.message}`;
+          }
+          result = { ...result, content: [...result.content, { type: "text", text: diffText }] };
+        }
+        if (!device) return result;
+        return {
+          ...result,
+          content: result.content.map((c, i) => (i === 0 && c.type === "text" ? { ...c, text: `[${device}] ${c.text}` } : c)),
+        };
+      },
+    });
+  }
+
   // --- tapElement: find + tap + return new screen state ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_wait_and_tap",
     label: "Find element, tap it, return screen state",
     description:
-      "Find an element by accessibility identifier or label, tap it, wait for the UI to settle, and return the resulting screen state. Replaces the wait-for-element + tap + describe pattern with a single call. Returns the tapped element info and all elements now on screen.",
+      "Find an element by accessibility identifier, label or selector, tap it, wait for the UI to settle, and return the resulting screen state. Replaces the wait-for-element + tap + describe pattern with a single call. Returns the tapped element info and all elements now on screen. Fails listing the candidates if several elements match.",
     parameters: Type.Object({
+      selector: Type.Optional(SELECTOR_PARAM),
       identifier: Type.Optional(
         Type.String({ description: "Accessibility identifier to find" })
       ),
@@ -152,21 +233,29 @@ export default function (pi: ExtensionAPI) {
       timeout: Type.Optional(
         Type.Number({ description: "Max wait time in seconds (default: 5)" })
       ),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
+    async execute(_id, params, signal) {
+      let lookup;
+      try {
+        lookup = selectorQuery(params);
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
       // On failure, observe to show what's on screen
       const resp = await agentAction("tapElement", {
-        identifier: params.identifier,
-        label: params.label,
-        labelContains: params.labelContains,
+        ...lookup.query,
         timeout: params.timeout ?? 5,
-      });
+      }, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = ambiguityText(lookup.selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         // Retry with observe to show available elements
-        const obs = await agentAction("observeScreen", {}, true);
-        let text = `Not found: ${params.identifier || params.label || params.labelContains}`;
-        if (obs.screenState) {
+        const obs = await agentAction("observeScreen", {}, true, params.device, signal).catch(() => undefined);
+        let text = `Not found: ${lookup.selector.text}`;
+        if (obs?.screenState) {
           text += `\n\nScreen:\n${formatScreenState(obs.screenState)}`;
         }
         return {
@@ -187,12 +276,13 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- fillField: find text field + type + return screen state ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_fill_field",
     label: "Find text field, type text, return screen state",
     description:
-      "Find a text field by identifier or label, tap to focus, optionally clear it, type text, and return the resulting screen state.",
+      "Find a text field by identifier, label or selector, tap to focus, optionally clear it, type text, and return the resulting screen state.",
     parameters: Type.Object({
+      selector: Type.Optional(SELECTOR_PARAM),
       identifier: Type.Optional(
         Type.String({ description: "Text field accessibility identifier" })
       ),
@@ -203,18 +293,28 @@ export default function (pi: ExtensionAPI) {
       clearFirst: Type.Optional(
         Type.Boolean({ description: "Clear existing text first (default: false)" })
       ),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
+    async execute(_id, params, signal) {
+      // identifier/label keep the server's text-field lookup (placeholder matching included)
+      let selector: Selector | undefined;
+      try {
+        if (params.selector) selector = selectorQuery(params).selector;
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
       const resp = await agentAction("fillField", {
-        identifier: params.identifier,
-        label: params.label,
+        ...(selector ? { selector: toWire(selector) } : { identifier: params.identifier, label: params.label }),
         text: params.text,
         clearFirst: params.clearFirst ?? false,
-      });
+      }, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = selector && ambiguityText(selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         return {
-          content: [{ type: "text" as const, text: `Field not found: ${params.identifier || params.label}` }],
+          content: [{ type: "text" as const, text: `Field not found: ${selector?.text ?? (params.identifier || params.label)}` }],
           details: {},
           isError: true,
         };
@@ -227,14 +327,17 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- observeScreen: get current screen state ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_observe",
     label: "Get current screen state",
     description:
-      "Return all elements currently visible on screen with their identifiers, labels, types, frames, and enabled state. Use this to see what's on screen without interacting.",
-    parameters: Type.Object({}),
-    async execute() {
-      const resp = await agentAction("observeScreen", {}, true);
+      "Return all elements currently visible on screen with their identifiers, labels, types, frames, and enabled state. Use this to see what's on screen without interacting. With diff: true, return only what changed since the last observation.",
+    parameters: Type.Object({
+      diff: Type.Optional(Type.Boolean({ description: "Return only the elements added, removed or changed since the last observation" })),
+      device: Type.Optional(DEVICE_PARAM),
+    }),
+    async execute(_id, params, signal) {
+      const resp = await agentAction("observeScreen", {}, true, params.device, signal);
       if (!resp.success || !resp.screenState) {
         return {
           content: [
@@ -244,6 +347,11 @@ export default function (pi: ExtensionAPI) {
           isError: true,
         };
       }
+      const snapshot = snapshotOfScreen(resp.screenState);
+      if (params.diff) {
+        return { content: [{ type: "text" as const, text: snapshots.record(params.device ?? "", snapshot) }], details: {} };
+      }
+      snapshots.set(params.device ?? "", snapshot);
       let obsText = formatScreenState(resp.screenState);
       if (resp.durationMs) obsText += `\n(${resp.durationMs}ms)`;
       return {
@@ -256,29 +364,38 @@ export default function (pi: ExtensionAPI) {
         details: {},
       };
     },
-  });
+  }, { observes: true });
 
   // --- longPress: find element + long press ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_long_press",
     label: "Long press an element",
     description:
       "Find an element and long-press it (e.g., to open a context menu). Returns the resulting screen state.",
     parameters: Type.Object({
+      selector: Type.Optional(SELECTOR_PARAM),
       identifier: Type.Optional(Type.String({ description: "Accessibility identifier" })),
       label: Type.Optional(Type.String({ description: "Exact label text" })),
       labelContains: Type.Optional(Type.String({ description: "Label substring" })),
       duration: Type.Optional(Type.Number({ description: "Press duration in seconds (default: 1)" })),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
+    async execute(_id, params, signal) {
+      let lookup;
+      try {
+        lookup = selectorQuery(params);
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
       const resp = await agentAction("longPress", {
-        identifier: params.identifier,
-        label: params.label,
-        labelContains: params.labelContains,
+        ...lookup.query,
         duration: params.duration ?? 1.0,
-      });
+      }, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = ambiguityText(lookup.selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         let text = `Element not found for long press\n`;
         if (resp.screenState) {
           text += `\nElements on screen:\n${formatScreenState(resp.screenState)}`;
@@ -298,24 +415,31 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- doubleTap: find element + double tap ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_double_tap",
     label: "Double tap an element",
     description:
       "Find an element and double-tap it (e.g., to react to a message). Returns the resulting screen state.",
     parameters: Type.Object({
+      selector: Type.Optional(SELECTOR_PARAM),
       identifier: Type.Optional(Type.String({ description: "Accessibility identifier" })),
       label: Type.Optional(Type.String({ description: "Exact label text" })),
       labelContains: Type.Optional(Type.String({ description: "Label substring" })),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
-      const resp = await agentAction("doubleTap", {
-        identifier: params.identifier,
-        label: params.label,
-        labelContains: params.labelContains,
-      });
+    async execute(_id, params, signal) {
+      let lookup;
+      try {
+        lookup = selectorQuery(params);
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
+      const resp = await agentAction("doubleTap", lookup.query, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = ambiguityText(lookup.selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         let text = `Element not found for double tap\n`;
         if (resp.screenState) {
           text += `\nElements on screen:\n${formatScreenState(resp.screenState)}`;
@@ -335,7 +459,7 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- swipe ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_swipe",
     label: "Swipe on screen or element",
     description:
@@ -345,14 +469,25 @@ export default function (pi: ExtensionAPI) {
       identifier: Type.Optional(
         Type.String({ description: "Element to swipe on (swipes app if omitted)" })
       ),
+      selector: Type.Optional(Type.String({ description: "Element to swipe on, as a selector (grammar as in sim_wait_and_tap)" })),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
+    async execute(_id, params, signal) {
+      let selector: Selector | undefined;
+      try {
+        if (params.selector) selector = selectorQuery(params).selector;
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
       const resp = await agentAction("swipe", {
         direction: params.direction,
-        identifier: params.identifier,
-      });
+        ...(selector ? { selector: toWire(selector) } : { identifier: params.identifier }),
+      }, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = selector && ambiguityText(selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         return {
           content: [{ type: "text" as const, text: resp.error || "Swipe failed" }],
           details: {},
@@ -369,28 +504,37 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- scrollUntilVisible ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_scroll_to",
     label: "Scroll until element is visible",
     description:
       "Repeatedly swipe until an element matching the query becomes visible and hittable. Returns the element and screen state.",
     parameters: Type.Object({
+      selector: Type.Optional(SELECTOR_PARAM),
       identifier: Type.Optional(Type.String({ description: "Accessibility identifier" })),
       label: Type.Optional(Type.String({ description: "Exact label" })),
       labelContains: Type.Optional(Type.String({ description: "Label substring" })),
       direction: Type.Optional(Type.String({ description: "Scroll direction: up or down (default: up)" })),
       maxSwipes: Type.Optional(Type.Number({ description: "Max swipes (default: 10)" })),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
+    async execute(_id, params, signal) {
+      let lookup;
+      try {
+        lookup = selectorQuery(params);
+      } catch (e: any) {
+        return selectorError(e.message);
+      }
       const resp = await agentAction("scrollUntilVisible", {
-        identifier: params.identifier,
-        label: params.label,
-        labelContains: params.labelContains,
+        ...lookup.query,
         direction: params.direction ?? "up",
         maxSwipes: params.maxSwipes ?? 10,
-      });
+      }, false, params.device, signal);
 
       if (!resp.success) {
+        const ambiguous = ambiguityText(lookup.selector, resp);
+        if (ambiguous) return selectorError(ambiguous);
         let text = `Element not found after scrolling\n`;
         if (resp.screenState) {
           text += `\nElements on screen:\n${formatScreenState(resp.screenState)}`;
@@ -410,7 +554,7 @@ export default function (pi: ExtensionAPI) {
   });
 
   // --- chain: run multiple actions, return final screen state ---
-  pi.registerTool({
+  registerAgentTool({
     name: "sim_chain",
     label: "Run multiple actions in sequence",
     description:
@@ -424,30 +568,34 @@ export default function (pi: ExtensionAPI) {
           }),
           params: Type.Optional(
             Type.Record(Type.String(), Type.Any(), {
-              description: "Action parameters (identifier, label, labelContains, text, etc.)",
+              description: "Action parameters (selector, identifier, label, labelContains, text, etc.)",
             })
           ),
         }),
         { description: "Array of actions to execute in order" }
       ),
+      diff: Type.Optional(DIFF_PARAM),
+      device: Type.Optional(DEVICE_PARAM),
     }),
-    async execute(_id, params) {
-      // chain sends steps at top-level (not wrapped in params)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 120000);
-      let resp: AgentResponse;
+    async execute(_id, params, signal) {
+      // Selector strings are parsed here, like the single-action tools do
+      let steps;
       try {
-        const r = await fetch(`${AGENT_URL}/action`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "chain", steps: params.steps, observe: true }),
-          signal: controller.signal,
-        });
-        resp = await r.json();
-      } finally {
-        clearTimeout(timeoutId);
+        steps = params.steps.map(step =>
+          typeof step.params?.selector === "string"
+            ? { ...step, params: { ...step.params, selector: toWire(parseSelector(step.params.selector)) } }
+            : step
+        );
+      } catch (e: any) {
+        return selectorError(e.message);
       }
 
+      // chain sends steps at top-level (not wrapped in params)
+      const resp = await agent.send(agentUrl(params.device, agent.config.url), { action: "chain", steps, observe: true }, {
+        signal,
+        timeoutMs: agent.config.chainTimeoutMs,
+      });
+
       let text = "";
       if (resp.message) text += resp.message + "\n";
       if (resp.durationMs) text += `Total: ${resp.durationMs}ms\n`;
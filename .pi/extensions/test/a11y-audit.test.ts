@@ -0,0 +1,76 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { auditElements, formatFindings, isSymbolName, suggestIdentifier } from "../lib/a11y-audit";
+import type { AXElement } from "../lib/driver";
+
+function el(type: string, id: string | null, label: string | null, frame = { x: 0, y: 100, width: 60, height: 60 }, enabled = true): AXElement {
+  return { AXUniqueId: id, AXLabel: label, AXValue: null, type, role: `AX${type}`, frame, enabled };
+}
+
+const APP = el("Application", null, "Convos", { x: 0, y: 0, width: 402, height: 874 });
+
+describe("isSymbolName", () => {
+  const cases: [string, boolean][] = [
+    ["square.and.pencil", true],
+    ["xmark", false],
+    ["compose-button", false],
+    ["qr.code.view", false],
+    ["Version 1.2", false],
+  ];
+  for (const [text, expected] of cases) {
+    it(`${text} → ${expected}`, () => assert.equal(isSymbolName(text), expected));
+  }
+});
+
+describe("suggestIdentifier", () => {
+  const cases: [AXElement, string][] = [
+    [el("Button", null, "Send message"), "send-message-button"],
+    [el("Button", null, "Close Button"), "close-button"],
+    [el("TextField", null, "Display name"), "display-name-field"],
+    [el("Button", null, "square.and.pencil"), "<purpose>-button"],
+    [el("StaticText", null, "Hello there friend again"), "hello-there-friend-static-text"],
+  ];
+  for (const [element, expected] of cases) {
+    it(`${element.type} ${JSON.stringify(element.AXLabel)} → ${expected}`, () => assert.equal(suggestIdentifier(element), expected));
+  }
+});
+
+describe("auditElements", () => {
+  const cases: [string, AXElement[], AXElement[], string[]][] = [
+    ["a clean screen", [APP, el("Button", "send-button", "Send")], [], []],
+    ["a button without an id", [APP, el("Button", null, "Send")], [], ["missing_id"]],
+    ["a static text without an id", [APP, el("StaticText", null, "Hello")], [], []],
+    ["a symbol name as id and label", [APP, el("Button", "square.and.pencil", "square.and.pencil")], [], ["symbol_id", "unlabeled_button"]],
+    ["a button with no label", [APP, el("Button", "close-button", null)], [], ["unlabeled_button"]],
+    ["a small target", [APP, el("Button", "info-button", "Info", { x: 10, y: 100, width: 30, height: 44 })], [], ["small_target"]],
+    ["a small disabled target", [APP, el("Button", "info-button", "Info", { x: 10, y: 100, width: 30, height: 44 }, false)], [], []],
+    ["a duplicate id", [APP, el("Cell", "row", "A"), el("Cell", "row", "B", { x: 0, y: 200, width: 60, height: 60 })], [], ["duplicate_id"]],
+    ["a toolbar item only probing finds", [APP], [el("Button", "compose-button", "Compose")], ["probe_only"]],
+    ["a probed item the tree lists too", [APP, el("Button", "compose-button", "Compose")], [el("Button", "compose-button", "Compose")], []],
+    ["keyboard keys and zero-size leftovers", [APP, el("Button", "shift", "shift"), el("Button", null, "q"), el("Button", null, "Gone", { x: 0, y: 0, width: 0, height: 0 })], [], []],
+  ];
+  for (const [name, tree, probed, kinds] of cases) {
+    it(name, () => assert.deepEqual(auditElements(tree, probed).map(f => f.kind), kinds));
+  }
+
+  it("recommends an identifier and says how the element is reachable now", () => {
+    const [finding] = auditElements([APP, el("Button", null, "Send")]);
+    assert.match(finding.recommendation, /\.accessibilityIdentifier\("send-button"\)/);
+    assert.equal(finding.workaround, 'selector type=Button label="Send"');
+  });
+
+  it("honours a custom minimum target", () => {
+    const tree = [APP, el("Button", "info-button", "Info", { x: 10, y: 100, width: 30, height: 30 })];
+    assert.deepEqual(auditElements(tree, [], 30), []);
+  });
+});
+
+describe("formatFindings", () => {
+  it("groups findings under their titles in a fixed order", () => {
+    const text = formatFindings(auditElements([APP, el("Button", "close-button", null), el("Button", null, "Send")]));
+    assert.ok(text.indexOf("Interactive elements without an identifier (1):") < text.indexOf("Buttons without a usable label (1):"), text);
+    assert.match(text, /- Button "Send" \(no id\) at \(0,100\) 60x60\n {2}→ Add \.accessibilityIdentifier/);
+  });
+
+  it("is empty without findings", () => assert.equal(formatFindings([]), ""));
+});
@@ -0,0 +1,151 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { AgentError, createAgentClient, type AgentClientConfig, type AgentFailureKind } from "../lib/agent-client";
+
+// The client against a local stand-in for QAAutomationServer whose answer to
+// each action a test sets. `seen` lists the actions it received, in order.
+
+type Reply = (res: http.ServerResponse, req: http.IncomingMessage) => void;
+
+const json = (status: number, body: unknown): Reply => res => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+const ok = json(200, { success: true });
+
+describe("agent client", () => {
+  let server: http.Server;
+  let url: string;
+  let seen: string[];
+  let replies: Record<string, Reply>;
+
+  const config = (over: Partial<AgentClientConfig> = {}): AgentClientConfig => ({
+    url, timeoutMs: 1000, chainTimeoutMs: 2000, pingTimeoutMs: 500, retries: 2, ...over,
+  });
+
+  async function failure(promise: Promise<unknown>): Promise<AgentError> {
+    const e = await promise.then(() => assert.fail("expected an AgentError"), (e: unknown) => e);
+    assert.ok(e instanceof AgentError, String(e));
+    return e;
+  }
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        const action = JSON.parse(body).action as string;
+        seen.push(action);
+        (replies[action] ?? ok)(res, req);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+  beforeEach(() => {
+    seen = [];
+    replies = {};
+  });
+
+  it("pings a server before its first request only", async () => {
+    const client = createAgentClient(config());
+    replies.observeScreen = json(200, { success: true, message: "3 elements" });
+    assert.equal((await client.send(url, { action: "observeScreen" })).message, "3 elements");
+    await client.send(url, { action: "tap" });
+    assert.deepEqual(seen, ["ping", "observeScreen", "tap"]);
+  });
+
+  it("returns an action's failure as a response", async () => {
+    replies.tap = json(200, { success: false, error: "Element not found" });
+    const resp = await createAgentClient(config()).send(url, { action: "tap" });
+    assert.deepEqual(resp, { success: false, error: "Element not found" });
+  });
+
+  const failures: [string, Record<string, Reply>, string, AgentFailureKind, RegExp][] = [
+    ["a body that isn't a response", { tap: res => res.end("hello") }, "tap", "malformed_response", /Unexpected answer to tap .*: hello/],
+    ["a response without success", { tap: json(200, { ok: true }) }, "tap", "malformed_response", /Is something other than QAAutomationServer listening/],
+    ["a failed ping", { ping: json(200, { success: false, error: "app not launched" }) }, "tap", "malformed_response", /failed ping: app not launched/],
+    ["a 400", { tap: json(400, { error: "Invalid JSON" }) }, "tap", "http_error", /rejected tap with HTTP 400: Invalid JSON$/],
+    ["a request with no answer", { tap: () => {} }, "tap", "timeout", /tap got no answer .* within 0\.2s/],
+    ["a ping with no answer", { ping: () => {} }, "tap", "timeout", /didn't answer ping within 0\.5s/],
+  ];
+  for (const [name, reply, action, kind, message] of failures) {
+    it(`reports ${name} as ${kind}`, async () => {
+      replies = reply;
+      const e = await failure(createAgentClient(config()).send(url, { action }, { timeoutMs: 200 }));
+      assert.equal(e.kind, kind);
+      assert.match(e.message, message);
+    });
+  }
+
+  it("reports a refused connection as not_running with how to start the server", async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>(resolve => closed.close(() => resolve()));
+    const e = await failure(createAgentClient(config()).send(`http://127.0.0.1:${port}`, { action: "observeScreen" }));
+    assert.deepEqual([e.kind, e.code], ["not_running", "ECONNREFUSED"]);
+    assert.match(e.message, /not running .* \(connection refused\)\. Start the QAAutomationServer UI test target/);
+    assert.doesNotMatch(e.message, /attempts/);
+  });
+
+  it("pings again after the server dropped a connection", async () => {
+    const client = createAgentClient(config());
+    await client.send(url, { action: "tap" });
+    replies.tap = (_res, req) => req.socket.destroy();
+    assert.equal((await failure(client.send(url, { action: "tap" }))).kind, "not_running");
+    replies = {};
+    await client.send(url, { action: "tap" });
+    assert.deepEqual(seen, ["ping", "tap", "tap", "ping", "tap"]);
+  });
+
+  it("resends an idempotent action after a 5xx", async () => {
+    let calls = 0;
+    replies.observeScreen = (res, req) => (++calls < 3 ? json(503, { error: "busy" }) : ok)(res, req);
+    const resp = await createAgentClient(config()).send(url, { action: "observeScreen" });
+    assert.equal(resp.success, true);
+    assert.deepEqual(seen, ["ping", "observeScreen", "observeScreen", "observeScreen"]);
+  });
+
+  const notRetried: [string, string, number][] = [
+    ["an idempotent action after a 4xx", "observeScreen", 400],
+    ["a tap after a 5xx", "tap", 500],
+  ];
+  for (const [name, action, status] of notRetried) {
+    it(`sends ${name} once`, async () => {
+      replies[action] = json(status, { error: "nope" });
+      const e = await failure(createAgentClient(config()).send(url, { action }));
+      assert.deepEqual([e.kind, e.status], ["http_error", status]);
+      assert.doesNotMatch(e.message, /attempts/);
+      assert.deepEqual(seen, ["ping", action]);
+    });
+  }
+
+  it("says how many attempts it made when retries run out", async () => {
+    replies.waitForElement = json(502, { error: "bad gateway" });
+    const e = await failure(createAgentClient(config({ retries: 1 })).send(url, { action: "waitForElement" }));
+    assert.equal(e.status, 502);
+    assert.match(e.message, /HTTP 502: bad gateway \(after 2 attempts\)$/);
+  });
+
+  it("stops waiting to retry when the call is aborted", async () => {
+    replies.observeScreen = json(503, { error: "busy" });
+    const controller = new AbortController();
+    const start = Date.now();
+    const sending = createAgentClient(config()).send(url, { action: "observeScreen" }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+    const e = await failure(sending);
+    assert.equal(e.kind, "cancelled");
+    assert.ok(Date.now() - start < 400, `took ${Date.now() - start}ms`);
+    assert.deepEqual(seen, ["ping", "observeScreen"]);
+  });
+
+  it("doesn't send anything once aborted", async () => {
+    const e = await failure(createAgentClient(config()).send(url, { action: "tap" }, { signal: AbortSignal.abort() }));
+    assert.equal(e.kind, "cancelled");
+    assert.deepEqual(seen, []);
+  });
+});
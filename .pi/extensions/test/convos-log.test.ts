@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchesLevel, parseKeyValues, parseLog, recordToJson } from "../lib/convos-log";
+
+describe("parseLog", () => {
+  const cases: [string, string, ReturnType<typeof recordToJson>][] = [
+    [
+      "source, category and message",
+      "[2026-02-13T10:00:02Z] [debug] [SyncingManager.swift:118] [ConvosCore] Starting sync",
+      { timestamp: "2026-02-13T10:00:02Z", level: "debug", source: "SyncingManager.swift:118", category: "ConvosCore", message: "Starting sync" },
+    ],
+    [
+      "category without source",
+      "[2026-02-13T10:00:02.125Z] [info] [Convos] Ready",
+      { timestamp: "2026-02-13T10:00:02.125Z", level: "info", source: null, category: "Convos", message: "Ready" },
+    ],
+    [
+      "no brackets after the level",
+      "[2026-02-13T10:00:02Z] [notice]   bare message",
+      { timestamp: "2026-02-13T10:00:02Z", level: "notice", source: null, category: null, message: "bare message" },
+    ],
+    [
+      "trailing metadata",
+      "[2026-02-13T10:00:03Z] [warning] [SessionManager.swift:210] [ConvosCore] Inbox ready slow [elapsed_ms=1840 inbox=ab12]",
+      { timestamp: "2026-02-13T10:00:03Z", level: "warning", source: "SessionManager.swift:210", category: "ConvosCore", message: "Inbox ready slow", metadata: { elapsed_ms: "1840", inbox: "ab12" } },
+    ],
+    [
+      "brackets that aren't metadata",
+      "[2026-02-13T10:00:03Z] [info] [Convos] Loaded [3 items]",
+      { timestamp: "2026-02-13T10:00:03Z", level: "info", source: null, category: "Convos", message: "Loaded [3 items]" },
+    ],
+    [
+      "an event",
+      "[2026-02-13T10:00:05Z] [info] [QAEvent.swift:31] [ConvosCore] [EVENT] message.received conversation=7f3a9c id=m1 type=text",
+      { timestamp: "2026-02-13T10:00:05Z", level: "info", source: "QAEvent.swift:31", category: "ConvosCore", message: "[EVENT] message.received conversation=7f3a9c id=m1 type=text", event: "message.received", params: { conversation: "7f3a9c", id: "m1", type: "text" } },
+    ],
+    [
+      "an event with no category",
+      "[2026-02-13T10:00:05Z] [info] [EVENT] sync.completed",
+      { timestamp: "2026-02-13T10:00:05Z", level: "info", source: null, category: null, message: "[EVENT] sync.completed", event: "sync.completed", params: {} },
+    ],
+    [
+      "continuation lines",
+      "[2026-02-13T10:00:05Z] [error] [XMTPClient.swift:301] [ConvosCore] stream closed\n  at GroupStream.next\n\n  at StreamProcessor.run",
+      { timestamp: "2026-02-13T10:00:05Z", level: "error", source: "XMTPClient.swift:301", category: "ConvosCore", message: "stream closed", continuation: ["  at GroupStream.next", "  at StreamProcessor.run"] },
+    ],
+  ];
+  for (const [name, text, expected] of cases) {
+    it(name, () => {
+      const records = parseLog(text);
+      assert.equal(records.length, 1);
+      assert.deepEqual(recordToJson(records[0]), expected);
+    });
+  }
+
+  it("keeps the raw entry and drops continuations before the first header", () => {
+    const text = "  tail of an earlier entry\n[2026-02-13T10:00:01Z] [info] one\n  more\n[2026-02-13T10:00:02Z] [error] two\n";
+    const records = parseLog(text);
+    assert.deepEqual(records.map(r => r.raw), ["[2026-02-13T10:00:01Z] [info] one\n  more", "[2026-02-13T10:00:02Z] [error] two"]);
+  });
+
+  it("reports where each entry ends in the text, blank lines included", () => {
+    const text = "[2026-02-13T10:00:01Z] [error] one\n  at a\n\n  at b\n[2026-02-13T10:00:02Z] [info] two";
+    const records = parseLog(text);
+    assert.deepEqual(records.map(r => text.slice(0, r.end)), ["[2026-02-13T10:00:01Z] [error] one\n  at a\n\n  at b\n", text]);
+  });
+
+  it("filters by level", () => {
+    const records = parseLog([
+      "[2026-02-13T10:00:01Z] [info] plain",
+      "[2026-02-13T10:00:01Z] [warning] careful",
+      "[2026-02-13T10:00:01Z] [error] broken",
+      "[2026-02-13T10:00:01Z] [critical] very broken",
+      "[2026-02-13T10:00:01Z] [info] [EVENT] app.launched",
+    ].join("\n"));
+    const levels = (level: string) => records.filter(r => matchesLevel(r, level)).map(r => r.message);
+    assert.deepEqual(levels("all"), ["plain", "careful", "broken", "very broken", "[EVENT] app.launched"]);
+    assert.deepEqual(levels("warning+error"), ["careful", "broken", "very broken"]);
+    assert.deepEqual(levels("error"), ["broken", "very broken"]);
+    assert.deepEqual(levels("events"), ["[EVENT] app.launched"]);
+  });
+});
+
+describe("parseKeyValues", () => {
+  const cases: [string, Record<string, string>][] = [
+    ["", {}],
+    ["a=1 b=two", { a: "1", b: "two" }],
+    ["  url=https://x.test/?a=b  flag  =skip ", { url: "https://x.test/?a=b" }],
+    ["a=1 a=2", { a: "2" }],
+  ];
+  for (const [text, expected] of cases) {
+    it(JSON.stringify(text), () => assert.deepEqual(parseKeyValues(text), expected));
+  }
+});
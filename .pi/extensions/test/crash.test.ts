@@ -0,0 +1,120 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createCrashWatch, crashSummary, formatCrash, parseIpsReport } from "../lib/crash";
+import type { DeviceDriver } from "../lib/driver";
+
+const BUNDLE_ID = "org.convos.ios-preview";
+const UDID = "FAKE-5C1A-4E0B-9D2F-000000000001";
+const FIXTURE = path.resolve(__dirname, "../../../qa/fixtures/fake-driver/crash.ips");
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("createCrashWatch", () => {
+  let dir: string;
+  let reports = 0;
+  let pid: number | null;
+
+  // The watch only needs the pid, where reports land and the log
+  const driver = {
+    async appPid() { return pid; },
+    crashReportDirs: () => [dir],
+    findLogFile: () => null,
+  } as unknown as DeviceDriver;
+
+  /** Writes the fixture report for this device, dated `mtime`. */
+  function writeReport(mtime = Date.now()): string {
+    const file = path.join(dir, `Convos-${++reports}.ips`);
+    const text = fs.readFileSync(FIXTURE, "utf-8").split("{udid}").join(UDID).split("{now}").join(new Date(mtime).toISOString());
+    fs.writeFileSync(file, text);
+    fs.utimesSync(file, mtime / 1000, mtime / 1000);
+    return file;
+  }
+
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "crash-test-")); });
+  // Each test's watch starts with no reports seen, so each starts with none on disk
+  beforeEach(() => { for (const name of fs.readdirSync(dir)) fs.rmSync(path.join(dir, name)); });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reports a process that vanished, with its report, once", async () => {
+    const watch = createCrashWatch(driver, BUNDLE_ID);
+    pid = 100;
+    await watch.watch(UDID);
+    pid = null;
+    const file = writeReport();
+    const crash = await watch.check(UDID);
+    assert.equal(crash?.pidBefore, 100);
+    assert.equal(crash?.report?.file, file);
+    assert.equal(await watch.check(UDID), null);
+    assert.equal(watch.last(UDID), crash);
+  });
+
+  it("doesn't call a relaunch from outside the tools a crash", async () => {
+    const watch = createCrashWatch(driver, BUNDLE_ID);
+    pid = 100;
+    await watch.watch(UDID);
+    pid = 101;
+    assert.equal(await watch.check(UDID), null);
+  });
+
+  // forget() as the driver wrapper calls it, then the next tool's watch and check
+  const afterForget: [string, { launched?: string } | undefined, number | null][] = [
+    ["a launched app that is running", { launched: BUNDLE_ID }, 200],
+    ["an install, which doesn't start the app", undefined, null],
+    ["launching another app", { launched: "com.apple.Preferences" }, null],
+  ];
+  for (const [name, opts, pidAfter] of afterForget) {
+    it(`is quiet after ${name}`, async () => {
+      const watch = createCrashWatch(driver, BUNDLE_ID);
+      watch.forget(UDID, opts);
+      pid = pidAfter;
+      await watch.watch(UDID);
+      assert.equal(await watch.check(UDID), null);
+    });
+  }
+
+  it("reports a launch that died before the next action, with the report written since", async () => {
+    const watch = createCrashWatch(driver, BUNDLE_ID);
+    pid = 300;
+    await watch.watch(UDID);
+    watch.forget(UDID, { launched: BUNDLE_ID });
+    // Written during the launch, more than the watch's second of slack before the next action
+    const file = writeReport(Date.now() - 500);
+    await sleep(1100);
+    pid = null;
+    await watch.watch(UDID);
+    const crash = await watch.check(UDID);
+    assert.equal(crash?.pidBefore, null);
+    assert.equal(crash?.report?.file, file);
+    assert.match(formatCrash(crash!), /^CRASH: Convos crashed: EXC_BREAKPOINT/);
+    assert.equal(await watch.check(UDID), null);
+  });
+
+  it("reports a launch that died when sim_crash_check is the first to look", async () => {
+    const watch = createCrashWatch(driver, BUNDLE_ID);
+    watch.forget(UDID, { launched: BUNDLE_ID });
+    pid = null;
+    writeReport();
+    const crash = await watch.check(UDID);
+    assert.ok(crash);
+    assert.equal(crash.pidAfter, null);
+  });
+});
+
+describe("parseIpsReport", () => {
+  it("reads the fixture report", () => {
+    const report = parseIpsReport(fs.readFileSync(FIXTURE, "utf-8"), FIXTURE);
+    assert.equal(report.bundleId, BUNDLE_ID);
+    assert.equal(report.app, "Convos");
+    assert.match(report.exceptionType, /^EXC_BREAKPOINT/);
+    assert.ok(report.frames.length > 0);
+  });
+
+  it("summarizes a crash without a report", () => {
+    const crash = { udid: UDID, bundleId: BUNDLE_ID, detectedAt: "", report: null, logTail: [] };
+    assert.equal(crashSummary({ ...crash, pidBefore: 100, pidAfter: null }), `${BUNDLE_ID} stopped running (pid 100) without writing a crash report`);
+    assert.equal(crashSummary({ ...crash, pidBefore: null, pidAfter: null }), `${BUNDLE_ID} stopped running after launch without writing a crash report`);
+  });
+});
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { devicePrefix, recheckDefaultUdid, resolveUdid, type ResolvedDevice } from "../lib/devices";
+import { createFakeDriver } from "../lib/driver";
+
+const SCRIPT = path.resolve(__dirname, "../../../qa/fixtures/fake-driver/script.json");
+const FIRST = "FAKE-5C1A-4E0B-9D2F-000000000001";
+const SECOND = "FAKE-5C1A-4E0B-9D2F-000000000002";
+
+describe("devicePrefix", () => {
+  const cases: [ResolvedDevice, string][] = [
+    [{ udid: FIRST, alias: "alice" }, "[alice] "],
+    [{ udid: "5C1A4E0B-9D2F-4E0B-9D2F-000000000001" }, "[5C1A4E0B] "],
+  ];
+  for (const [device, prefix] of cases) {
+    it(`${device.alias ?? device.udid} → ${JSON.stringify(prefix)}`, () => assert.equal(devicePrefix(device), prefix));
+  }
+});
+
+describe("default simulator", () => {
+  const savedTmp = process.env.TMPDIR;
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "devices-test-"));
+    process.env.TMPDIR = dir;
+  });
+  after(() => {
+    process.env.TMPDIR = savedTmp;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps the cached pick while it is still booted", async () => {
+    const driver = createFakeDriver(SCRIPT);
+    assert.equal(await resolveUdid(driver), FIRST);
+    await recheckDefaultUdid(driver);
+    assert.equal(await resolveUdid(driver), FIRST);
+  });
+
+  it("picks again once the cached simulator was shut down behind its back", async () => {
+    const driver = createFakeDriver(SCRIPT);
+    assert.equal(await resolveUdid(driver), FIRST);
+    await driver.boot(SECOND);
+    await driver.shutdown(FIRST);
+    // Still cached until a call fails on it
+    assert.equal(await resolveUdid(driver), FIRST);
+    await recheckDefaultUdid(driver);
+    assert.equal(await resolveUdid(driver), SECOND);
+  });
+});
@@ -0,0 +1,113 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { describeExpectation, failedMatchers, nameMatches, parseExpectation, parseMatcher, waitForEvents, type EventMatcher } from "../lib/event-expect";
+import { cursorAtEnd } from "../lib/log-cursor";
+
+describe("parseMatcher", () => {
+  const cases: [string, Omit<EventMatcher, "text">][] = [
+    ["conversation", { key: "conversation", op: "exists", value: "" }],
+    ["conversation=7f3a9c", { key: "conversation", op: "=", value: "7f3a9c" }],
+    ["sender != me", { key: "sender", op: "!=", value: "me" }],
+    ["count>=2", { key: "count", op: ">=", value: "2" }],
+    ["count<0.5", { key: "count", op: "<", value: "0.5" }],
+    ["text~^Hello", { key: "text", op: "~", value: "^Hello" }],
+    ["invite.url=https://x.test/a=b", { key: "invite.url", op: "=", value: "https://x.test/a=b" }],
+    ["empty=", { key: "empty", op: "=", value: "" }],
+  ];
+  for (const [text, expected] of cases) {
+    it(`parses ${text}`, () => assert.deepEqual(parseMatcher(` ${text} `), { ...expected, text }));
+  }
+
+  const errors: [string, RegExp][] = [
+    ["no spaces allowed", /Invalid matcher/],
+    ["=value", /Invalid matcher/],
+    ["count>=two", /is not a number/],
+    ["text~(", /invalid regex/],
+    ["id=$inviteId", /unresolved variable/],
+  ];
+  for (const [text, message] of errors) {
+    it(`rejects ${text}`, () => assert.throws(() => parseMatcher(text), message));
+  }
+
+  it("rejects an empty event name", () => {
+    assert.throws(() => parseExpectation("  "), /must not be empty/);
+  });
+});
+
+describe("nameMatches", () => {
+  const cases: [string, string, boolean][] = [
+    ["message.received", "message.received", true],
+    ["message.received", "message.receivedx", false],
+    ["message.*", "message.received", true],
+    ["message.*", "messages.received", false],
+    ["*.completed", "sync.completed", true],
+    ["*", "anything", true],
+    ["a+b.*", "a+b.c", true],
+    ["a+b.*", "aab.c", false],
+  ];
+  for (const [pattern, name, expected] of cases) {
+    it(`${pattern} ${expected ? "matches" : "does not match"} ${name}`, () => assert.equal(nameMatches(pattern, name), expected));
+  }
+});
+
+describe("failedMatchers", () => {
+  const exp = parseExpectation("message.received", ["conversation=7f3a9c", "sender!=me", "count>=2", "text~^Hel", "id"]);
+  const cases: [string, Record<string, string>, string[]][] = [
+    ["all hold", { conversation: "7f3a9c", sender: "alice", count: "3", text: "Hello", id: "m1" }, []],
+    [
+      "each can fail",
+      { conversation: "b81e02", sender: "me", count: "1", text: "Bye", id: "m1" },
+      ["conversation=7f3a9c (got conversation=b81e02)", "sender!=me (got sender=me)", "count>=2 (got count=1)", "text~^Hel (got text=Bye)"],
+    ],
+    [
+      "missing params fail",
+      {},
+      ["conversation=7f3a9c (got no conversation)", "sender!=me (got no sender)", "count>=2 (got no count)", "text~^Hel (got no text)", "id (got no id)"],
+    ],
+    ["non-numbers fail comparisons", { conversation: "7f3a9c", sender: "alice", count: "many", text: "Hello", id: "m1" }, ["count>=2 (got count=many)"]],
+  ];
+  for (const [name, params, expected] of cases) {
+    it(name, () => assert.deepEqual(failedMatchers(exp, { name: "message.received", params }), expected));
+  }
+
+  it("describes the expectation as written", () => {
+    assert.equal(describeExpectation(exp), "message.received conversation=7f3a9c sender!=me count>=2 text~^Hel id");
+  });
+});
+
+describe("waitForEvents", () => {
+  let dir: string;
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "event-expect-test-"));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("leaves the marker just past the matched event when entries span blank lines", async () => {
+    const file = path.join(dir, "convos.log");
+    fs.writeFileSync(file, "[2026-02-13T10:00:00Z] [info] started\n");
+    const start = cursorAtEnd(file);
+    fs.appendFileSync(file, [
+      "[2026-02-13T10:00:01Z] [error] [XMTPClient.swift:301] [ConvosCore] stream closed",
+      "  at GroupStream.next",
+      "",
+      "  at StreamProcessor.run",
+      "[2026-02-13T10:00:02Z] [info] [QAEvent.swift:31] [ConvosCore] [EVENT] message.sent id=m1",
+      "  text: first line",
+      "",
+      "  last line",
+      "[2026-02-13T10:00:03Z] [info] [QAEvent.swift:31] [ConvosCore] [EVENT] message.sent id=m2",
+      "",
+    ].join("\n"));
+
+    const wait = (cursor: string) => waitForEvents(() => file, [parseExpectation("message.sent")], { cursor, timeoutMs: 0, intervalMs: 10 });
+    const first = await wait(start);
+    assert.deepEqual(first.matched.map(m => m.params.id), ["m1"]);
+    const second = await wait(first.marker);
+    assert.deepEqual(second.matched.map(m => m.params.id), ["m2"]);
+    const third = await wait(second.marker);
+    assert.equal(third.ok, false);
+  });
+});
@@ -0,0 +1,143 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import iosSimulator from "../ios-simulator";
+
+// The sim_* tools end to end against the scripted device in
+// qa/fixtures/fake-driver. Runs from a scratch directory holding a
+// .claude/.simulator_id for a real simulator, which the fake driver must ignore,
+// and the CXDB schema.
+
+const SCRIPT = path.resolve(__dirname, "../../../qa/fixtures/fake-driver/script.json");
+const FAKE_UDID = "FAKE-5C1A-4E0B-9D2F-000000000001";
+
+interface Result {
+  content: { type: string; text?: string }[];
+  isError?: boolean;
+}
+type Execute = (toolCallId: string, params: Record<string, unknown>, signal?: AbortSignal, onUpdate?: unknown, ctx?: unknown) => Promise<Result>;
+
+/** Just enough of pi for the extension: registerTool, on and exec. */
+function loadExtension(): Map<string, Execute> {
+  const tools = new Map<string, Execute>();
+  const pi = {
+    registerTool(tool: { name: string; execute: Execute }) { tools.set(tool.name, tool.execute); },
+    on() {},
+    async exec(command: string, args: string[], options?: { timeout?: number }) {
+      const r = spawnSync(command, args, { encoding: "utf-8", timeout: options?.timeout });
+      return { stdout: r.stdout ?? "", stderr: r.stderr ?? String(r.error ?? ""), code: r.status ?? 1, killed: false };
+    },
+  };
+  iosSimulator(pi as unknown as ExtensionAPI);
+  return tools;
+}
+
+describe("sim_* tools on the fake driver", () => {
+  const saved = { cwd: process.cwd(), env: { ...process.env } };
+  let dir: string;
+  let tools: Map<string, Execute>;
+  let calls = 0;
+
+  async function call(name: string, params: Record<string, unknown> = {}): Promise<{ text: string; isError: boolean }> {
+    const execute = tools.get(name);
+    assert.ok(execute, `${name} is registered`);
+    const result = await execute(`call-${++calls}`, params, undefined, undefined, {});
+    return { text: result.content.map(c => c.text ?? "").join("\n"), isError: Boolean(result.isError) };
+  }
+
+  function taps(): { action: string; udid?: string; x?: number; y?: number }[] {
+    const log = path.join(dir, "taps.jsonl");
+    if (!fs.existsSync(log)) return [];
+    return fs.readFileSync(log, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+  }
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "fake-driver-test-"));
+    fs.mkdirSync(path.join(dir, ".claude"));
+    fs.writeFileSync(path.join(dir, ".claude", ".simulator_id"), "REAL-SIMULATOR-UDID\n");
+    fs.mkdirSync(path.join(dir, "qa", "cxdb"), { recursive: true });
+    fs.copyFileSync(path.resolve(__dirname, "../../../qa/cxdb/schema.sql"), path.join(dir, "qa", "cxdb", "schema.sql"));
+    Object.assign(process.env, {
+      SIM_DRIVER: "fake",
+      SIM_FAKE_SCRIPT: SCRIPT,
+      SIM_FAKE_TAP_LOG: path.join(dir, "taps.jsonl"),
+      CXDB_PATH: path.join(dir, "qa.sqlite"),
+      TMPDIR: dir,
+    });
+    process.chdir(dir);
+    tools = loadExtension();
+  });
+  after(() => {
+    process.chdir(saved.cwd);
+    process.env = saved.env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  let marker = "";
+
+  it("tails the fixture log and hands back a cursor", async () => {
+    const r = await call("sim_log_tail", { level: "all" });
+    assert.equal(r.isError, false, r.text);
+    assert.match(r.text, /\[EVENT\] app\.launched environment=dev/);
+    marker = r.text.match(/marker: (lc1\.\S+)/)?.[1] ?? "";
+    assert.ok(marker, r.text);
+  });
+
+  it("waits for an element on the scripted screen", async () => {
+    const r = await call("sim_wait_for_element", { identifier: "Chats", timeout: 2 });
+    assert.equal(r.isError, false, r.text);
+    assert.match(r.text, /Chats/);
+  });
+
+  it("taps a toolbar item only describe-point can see", async () => {
+    // compose-button is hidden from describe-all, so this goes through probeToolbarElements
+    const r = await call("sim_tap_id", { identifier: "compose-button" });
+    assert.equal(r.isError, false, r.text);
+    assert.deepEqual(taps().map(t => [t.action, t.udid]), [["tap", FAKE_UDID]]);
+    const next = await call("sim_wait_for_element", { selector: "id=message-text-field", timeout: 2 });
+    assert.equal(next.isError, false, next.text);
+  });
+
+  it("reads the events the tap logged since the cursor", async () => {
+    const events = await call("sim_log_events", { since_marker: marker });
+    assert.equal(events.isError, false, events.text);
+    assert.match(events.text, /conversation\.created id=c0ffee01/);
+    assert.match(events.text, /invite\.url_displayed url=https:\/\/dev\.convos\.org\/v2\?i=fake-invite-c0ffee01/);
+    assert.doesNotMatch(events.text, /app\.launched/);
+
+    const errors = await call("sim_log_check_errors", { since_marker: marker });
+    assert.equal(errors.isError, false, errors.text);
+    assert.doesNotMatch(errors.text, /Fatal error/);
+  });
+
+  it("records the simulator's device type on a new run", async () => {
+    const r = await call("sim_qa_begin_test", { test_id: "fake-01", test_name: "Fake driver" });
+    assert.equal(r.isError, false, r.text);
+    const rows = spawnSync("sqlite3", [path.join(dir, "qa.sqlite"), "SELECT simulator_udid, device_type FROM test_runs;"], { encoding: "utf-8" });
+    assert.equal(rows.stdout.trim(), `${FAKE_UDID}|iPhone 16 Pro`);
+  });
+
+  it("reports an element that never appears", async () => {
+    const r = await call("sim_wait_for_element", { identifier: "no-such-element", timeout: 1, interval: 0.5 });
+    assert.equal(r.isError, true, r.text);
+  });
+
+  it("refuses to pick one of several elements that appeared", async () => {
+    const r = await call("sim_wait_for_element", { selector: "type=Button", timeout: 1 });
+    assert.equal(r.isError, true, r.text);
+    assert.match(r.text, /matched 2 elements; refusing to guess/);
+    assert.match(r.text, /close-new-conversation[\s\S]*send-message-button/);
+  });
+
+  it("fails loudly when a tap crashes the app", async () => {
+    const r = await call("sim_tap_id", { identifier: "invite-qr-code" });
+    assert.equal(r.isError, true, r.text);
+    assert.match(r.text, /^CRASH:/);
+    const errors = await call("sim_log_check_errors", { since_marker: marker });
+    assert.match(errors.text, /Fatal error: Unexpectedly found nil/);
+  });
+});
@@ -0,0 +1,108 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { cursorAtEnd, cursorWithin, isLogCursor, readLogFrom, readLogTail } from "../lib/log-cursor";
+
+let dir: string;
+let files = 0;
+function logFile(text: string): string {
+  const file = path.join(dir, `convos-${++files}.log`);
+  fs.writeFileSync(file, text);
+  return file;
+}
+
+/** Writes a new file and renames it over `file`, the way a reinstall replaces the log. */
+function replace(file: string, text: string) {
+  fs.writeFileSync(file + ".new", text);
+  fs.renameSync(file + ".new", file);
+}
+
+describe("lc1 cursors", () => {
+  before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), "log-cursor-test-")); });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("reads the whole file without a cursor", () => {
+    const read = readLogFrom(logFile("a\nb\n"));
+    assert.deepEqual({ ...read, cursor: undefined }, { text: "a\nb\n", cursor: undefined, reset: undefined, firstLine: 1, lineCount: 2 });
+    assert.ok(isLogCursor(read.cursor));
+    assert.ok(read.cursor.startsWith("lc1."));
+  });
+
+  // Each step changes the file, then reads from the previous cursor.
+  const cases: { name: string; steps: [(file: string) => void, Partial<ReturnType<typeof readLogFrom>>][] }[] = [
+    {
+      name: "appends return only the new lines",
+      steps: [
+        [f => fs.appendFileSync(f, "c\n"), { text: "c\n", firstLine: 3, lineCount: 1, reset: undefined }],
+        [f => fs.appendFileSync(f, "d\ne\n"), { text: "d\ne\n", firstLine: 4, lineCount: 2, reset: undefined }],
+        [() => {}, { text: "", firstLine: 6, lineCount: 0, reset: undefined }],
+      ],
+    },
+    {
+      name: "a partial line waits for its newline",
+      steps: [
+        [f => fs.appendFileSync(f, "c"), { text: "", firstLine: 3, lineCount: 0 }],
+        [f => fs.appendFileSync(f, "ontinued\n"), { text: "continued\n", firstLine: 3, lineCount: 1 }],
+      ],
+    },
+    {
+      name: "a shorter file reads from the top as truncated",
+      steps: [[f => fs.writeFileSync(f, "x\n"), { text: "x\n", firstLine: 1, lineCount: 1, reset: "truncated" }]],
+    },
+    {
+      name: "a different head reads from the top as rewritten",
+      steps: [[f => fs.writeFileSync(f, "A\nB\nC\n"), { text: "A\nB\nC\n", firstLine: 1, lineCount: 3, reset: "rewritten" }]],
+    },
+    {
+      name: "a new inode reads from the top as replaced",
+      steps: [
+        [f => replace(f, "a\nb\nnew\n"), { text: "a\nb\nnew\n", firstLine: 1, lineCount: 3, reset: "replaced" }],
+        [f => fs.appendFileSync(f, "more\n"), { text: "more\n", firstLine: 4, lineCount: 1, reset: undefined }],
+      ],
+    },
+  ];
+  for (const { name, steps } of cases) {
+    it(name, () => {
+      const file = logFile("a\nb\n");
+      let cursor = readLogFrom(file).cursor;
+      for (const [change, expected] of steps) {
+        change(file);
+        const read = readLogFrom(file, cursor);
+        assert.deepEqual(
+          { text: read.text, firstLine: read.firstLine, lineCount: read.lineCount, reset: read.reset },
+          { text: "", firstLine: 0, lineCount: 0, reset: undefined, ...expected },
+        );
+        cursor = read.cursor;
+      }
+    });
+  }
+
+  it("tails the last lines and continues from there", () => {
+    const file = logFile(Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join("\n") + "\npartial");
+    const tail = readLogTail(file, 3);
+    assert.deepEqual({ text: tail.text, firstLine: tail.firstLine, lineCount: tail.lineCount }, { text: "line 8\nline 9\nline 10\n", firstLine: 8, lineCount: 3 });
+    fs.appendFileSync(file, "\nline 12\n");
+    const next = readLogFrom(file, tail.cursor);
+    assert.deepEqual({ text: next.text, firstLine: next.firstLine }, { text: "partial\nline 12\n", firstLine: 11 });
+  });
+
+  it("resumes inside a read with cursorWithin", () => {
+    const file = logFile("a\nb\n");
+    const start = cursorAtEnd(file);
+    fs.appendFileSync(file, "één\ntwo\nthree\n");
+    const read = readLogFrom(file, start);
+    const resumed = readLogFrom(file, cursorWithin(read, "één\n".length));
+    assert.deepEqual({ text: resumed.text, firstLine: resumed.firstLine }, { text: "two\nthree\n", firstLine: 4 });
+  });
+
+  it("rejects cursors it didn't write", () => {
+    const file = logFile("a\n");
+    assert.equal(isLogCursor("12:34"), false);
+    assert.equal(isLogCursor(undefined), false);
+    assert.throws(() => readLogFrom(file, "lc1.garbage"), /Invalid log cursor "lc1.garbage"/);
+    const other = "lc1." + Buffer.from(JSON.stringify({ o: "x" })).toString("base64url");
+    assert.throws(() => readLogFrom(file, other), /Invalid log cursor/);
+  });
+});
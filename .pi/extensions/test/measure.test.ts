@@ -0,0 +1,96 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createFakeDriver, type FakeDriver } from "../lib/driver";
+import { measureOnce, percentile, summarize, verdict } from "../lib/measure";
+import { parseSelector } from "../lib/selector";
+
+const SCRIPT = path.resolve(__dirname, "../../../qa/fixtures/fake-driver/script.json");
+const UDID = "FAKE-5C1A-4E0B-9D2F-000000000001";
+
+describe("percentile", () => {
+  const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+  const cases: [number[], number, number][] = [
+    [sorted, 50, 50],
+    [sorted, 95, 100],
+    [sorted, 90, 90],
+    [sorted, 0, 10],
+    [sorted, 100, 100],
+    [[7], 95, 7],
+    [[], 50, NaN],
+  ];
+  for (const [values, p, expected] of cases) {
+    it(`p${p} of ${values.length} samples is ${expected}`, () => assert.equal(percentile(values, p), expected));
+  }
+});
+
+describe("summarize", () => {
+  it("sorts before ranking and averages the middle pair", () => {
+    assert.deepEqual(summarize([400, 100, 300, 200]), { count: 4, min: 100, max: 400, mean: 250, median: 250, p95: 400 });
+  });
+
+  it("takes the middle sample of an odd count", () => {
+    assert.deepEqual(summarize([5, 1, 3]), { count: 3, min: 1, max: 5, mean: 3, median: 3, p95: 5 });
+  });
+});
+
+describe("verdict", () => {
+  const cases: [number, number, string][] = [
+    [900, 1000, "pass"],
+    [1000, 1000, "pass"],
+    [1001, 1000, "warn"],
+    [2000, 1000, "warn"],
+    [2001, 1000, "fail"],
+  ];
+  for (const [value, target, expected] of cases) {
+    it(`${value}ms against ${target}ms is ${expected}`, () => assert.equal(verdict(value, target), expected));
+  }
+});
+
+describe("measureOnce on the fake driver", () => {
+  const savedTmp = process.env.TMPDIR;
+  let dir: string;
+  let driver: FakeDriver;
+  const opts = () => ({ timeoutMs: 2000, findLogFile: () => driver.findLogFile(UDID) });
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "measure-test-"));
+    process.env.TMPDIR = dir;
+    driver = createFakeDriver(SCRIPT);
+  });
+  after(() => {
+    process.env.TMPDIR = savedTmp;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("times a tap to the element it leads to", async () => {
+    const sample = await measureOnce(driver, UDID, { kind: "tap", selector: parseSelector("id=compose-button") }, { kind: "element", selector: parseSelector("id=message-text-field") }, opts());
+    assert.ok(sample.ok, JSON.stringify(sample));
+    assert.ok(sample.ms >= 0 && sample.resolutionMs >= 0);
+    assert.equal(driver.currentScreen(UDID), "new_conversation");
+  });
+
+  it("times a tap to the event it logs", async () => {
+    const sample = await measureOnce(
+      driver, UDID,
+      { kind: "tap", selector: parseSelector("id=send-message-button") },
+      { kind: "event", expectation: { event: "message.sent", where: [] } },
+      opts(),
+    );
+    assert.ok(sample.ok, JSON.stringify(sample));
+  });
+
+  const failures: [string, string, string, RegExp][] = [
+    ["the element to tap is missing", "id=no-such-button", "id=Chats", /Element to tap not found: "id=no-such-button"/],
+    ["the end element never appears", "id=close-new-conversation", "id=never-there", /"id=never-there" did not appear within 0.3s/],
+  ];
+  for (const [name, tap, until, message] of failures) {
+    it(`returns a failed sample when ${name}`, async () => {
+      const sample = await measureOnce(driver, UDID, { kind: "tap", selector: parseSelector(tap) }, { kind: "element", selector: parseSelector(until) }, { ...opts(), timeoutMs: 300 });
+      assert.equal(sample.ok, false);
+      assert.match((sample as { message: string }).message, message);
+    });
+  }
+});
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  ensureFixture, findFixture, fixtureFileName, fixturesRoot, fixtureSpec, renderImage, renderPdf, renderText, type FixtureSpec,
+} from "../lib/media-fixtures";
+import { decodePng } from "../lib/png";
+
+describe("fixtureSpec", () => {
+  const cases: [string, Record<string, any>, FixtureSpec][] = [
+    ["image defaults", { kind: "image" }, { kind: "image", width: 1200, height: 900, format: "png", seed: "s" }],
+    ["video rounded to even sides", { kind: "video", width: 641, height: 359, duration: 2 }, { kind: "video", width: 642, height: 360, durationS: 2, format: "mp4", seed: "s" }],
+    ["pdf pages", { kind: "pdf", pages: 3 }, { kind: "pdf", pages: 3, seed: "s" }],
+    ["file with content", { kind: "file", name: "notes.txt", content: "hi" }, { kind: "file", name: "notes.txt", content: "hi", sizeBytes: 1024, seed: "s" }],
+  ];
+  for (const [name, params, spec] of cases) {
+    it(name, () => assert.deepEqual(fixtureSpec(params, "s"), spec));
+  }
+
+  const errors: [string, Record<string, any>, RegExp][] = [
+    ["an unknown kind", { kind: "audio" }, /Unknown fixture kind: audio/],
+    ["an unknown image format", { kind: "image", format: "gif" }, /Image format must be png, jpeg or heic, not gif/],
+    ["an oversized image", { kind: "image", width: 5000 }, /width must be more than 0 and at most 4096/],
+    ["a zero duration", { kind: "video", duration: 0 }, /duration must be more than 0 and at most 60/],
+    ["a file without a name", { kind: "file" }, /A file fixture needs a name/],
+  ];
+  for (const [name, params, message] of errors) {
+    it(`rejects ${name}`, () => assert.throws(() => fixtureSpec(params, "s"), message));
+  }
+});
+
+describe("fixtureFileName", () => {
+  const cases: [FixtureSpec, string][] = [
+    [{ kind: "image", width: 10, height: 20, format: "jpeg", seed: "a b" }, "image-a-b-10x20.jpg"],
+    [{ kind: "video", width: 640, height: 360, durationS: 3, format: "mov", seed: "x" }, "video-x-640x360-3s.mov"],
+    [{ kind: "pdf", pages: 2, seed: "x" }, "document-x-2p.pdf"],
+    [{ kind: "file", name: "../my notes.txt", sizeBytes: 1, seed: "x" }, "my-notes.txt"],
+  ];
+  for (const [spec, name] of cases) {
+    it(`${spec.kind} → ${name}`, () => assert.equal(fixtureFileName(spec), name));
+  }
+});
+
+describe("generators", () => {
+  it("renders the same image for the same seed and a different one otherwise", () => {
+    const a = renderImage(64, 48, "alpha");
+    assert.deepEqual({ width: a.width, height: a.height }, { width: 64, height: 48 });
+    assert.deepEqual(renderImage(64, 48, "alpha").data, a.data);
+    assert.notDeepEqual(renderImage(64, 48, "beta").data, a.data);
+  });
+
+  it("writes a PDF whose xref points at each object", () => {
+    const pdf = renderPdf(2, "s").toString("latin1");
+    assert.match(pdf, /^%PDF-1\.4\n/);
+    assert.match(pdf, /\/Count 2/);
+    const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    assert.ok(pdf.startsWith("xref", xref));
+    const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    assert.equal(offsets.length, 7);
+    offsets.forEach((offset, i) => assert.ok(pdf.startsWith(`${i + 1} 0 obj`, offset), `object ${i + 1}`));
+  });
+
+  it("cuts text to exactly the size asked for", () => {
+    for (const size of [1, 100, 5000]) assert.equal(renderText(size, "s").length, size);
+  });
+});
+
+describe("fixture cache", () => {
+  const savedCwd = process.cwd();
+  let dir: string;
+  const spec: FixtureSpec = { kind: "image", width: 32, height: 32, format: "png", seed: "cache" };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "media-fixtures-test-"));
+    process.chdir(dir);
+  });
+  after(() => {
+    process.chdir(savedCwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("names the fixture by its content hash and reuses it", () => {
+    const first = ensureFixture(spec);
+    assert.equal(first.cached, false);
+    assert.equal(first.id, `fx-${first.sha256.slice(0, 12)}`);
+    assert.equal(first.path, path.join(fixturesRoot(), first.id, "image-cache-32x32.png"));
+    assert.equal(decodePng(fs.readFileSync(first.path)).width, 32);
+
+    const again = ensureFixture(spec);
+    assert.deepEqual(again, { ...first, cached: true });
+    assert.deepEqual(findFixture(first.id), again);
+  });
+
+  it("generates a cached file again when its content changed", () => {
+    const fixture = ensureFixture(spec);
+    fs.writeFileSync(fixture.path, "tampered");
+    const remade = ensureFixture(spec);
+    assert.equal(remade.cached, false);
+    assert.equal(remade.sha256, fixture.sha256);
+  });
+
+  it("doesn't find an unknown id", () => assert.equal(findFixture("fx-000000000000"), null));
+});
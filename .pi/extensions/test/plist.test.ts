@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseOpenStepPlist, parseXmlPlist, type PlistValue } from "../lib/plist";
+
+describe("parseOpenStepPlist", () => {
+  const cases: [string, string, PlistValue][] = [
+    ["a bare word", "hello", "hello"],
+    ["a quoted string with escapes", '"a \\"b\\"\\n"', 'a "b"\n'],
+    ["an empty dictionary", "{ }", {}],
+    ["an empty array", "( )", []],
+    [
+      "simctl appinfo output",
+      [
+        "{",
+        "    ApplicationType = User;",
+        "    CFBundleIdentifier = \"org.convos.ios-preview\";",
+        "    CFBundleVersion = 42;",
+        "    GroupContainers =     {",
+        "        \"group.org.convos.ios-preview\" = \"file:///Users/x/Shared/AppGroup/ABC/\";",
+        "    };",
+        "    SBAppTags =     (",
+        "    );",
+        "    Tags = (a, \"b c\", );",
+        "}",
+      ].join("\n"),
+      {
+        ApplicationType: "User",
+        CFBundleIdentifier: "org.convos.ios-preview",
+        CFBundleVersion: "42",
+        GroupContainers: { "group.org.convos.ios-preview": "file:///Users/x/Shared/AppGroup/ABC/" },
+        SBAppTags: [],
+        Tags: ["a", "b c"],
+      },
+    ],
+    ["comments", "{ // line\n a = 1; /* block */ b = 2 }", { a: "1", b: "2" }],
+  ];
+  for (const [name, text, expected] of cases) {
+    it(name, () => assert.deepEqual(parseOpenStepPlist(text), expected));
+  }
+
+  const errors: [string, RegExp][] = [
+    ['{ a = "open; }', /unterminated string/],
+    ["{ a = 1;", /unterminated dictionary/],
+    ["( a, b", /unterminated array/],
+    ["{ a 1; }", /expected "=" after a/],
+    ["{ a = 1 b = 2; }", /expected ";" after the value of a/],
+    ["{ } extra", /trailing text/],
+    ["", /unexpected "end of input"/],
+  ];
+  for (const [text, message] of errors) {
+    it(`rejects ${JSON.stringify(text)}`, () => assert.throws(() => parseOpenStepPlist(text), message));
+  }
+});
+
+describe("parseXmlPlist", () => {
+  it("reads an Info.plist", () => {
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+      '<plist version="1.0">',
+      "<dict>",
+      "  <!-- a comment -->",
+      "  <key>CFBundleShortVersionString</key>",
+      "  <string>1.2 &amp; more</string>",
+      "  <key>CFBundleVersion</key>",
+      "  <integer>42</integer>",
+      "  <key>Scale</key>",
+      "  <real>2.5</real>",
+      "  <key>UIRequiresFullScreen</key>",
+      "  <true/>",
+      "  <key>Empty</key>",
+      "  <string></string>",
+      "  <key>Schemes</key>",
+      "  <array><string>convos</string><dict/></array>",
+      "  <key>Date</key>",
+      "  <date>2026-02-13T10:00:00Z</date>",
+      "</dict>",
+      "</plist>",
+    ].join("\n");
+    assert.deepEqual(parseXmlPlist(xml), {
+      CFBundleShortVersionString: "1.2 & more",
+      CFBundleVersion: 42,
+      Scale: 2.5,
+      UIRequiresFullScreen: true,
+      Empty: "",
+      Schemes: ["convos", {}],
+      Date: "2026-02-13T10:00:00Z",
+    });
+  });
+
+  const errors: [string, RegExp][] = [
+    ["<plist><dict><string>x</string></dict></plist>", /expected <key>, got <string>/],
+    ["<plist><dict><key>a</key><string>x</dict></plist>", /unterminated <string>/],
+    ["<plist><array><string>x</string>", /unterminated <array>/],
+    ["<plist><dict/><dict/></plist>", /expected <\/plist>/],
+    ["", /unexpected end/],
+  ];
+  for (const [text, message] of errors) {
+    it(`rejects ${JSON.stringify(text)}`, () => assert.throws(() => parseXmlPlist(text), message));
+  }
+});
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as zlib from "node:zlib";
+import { decodePng, encodePng, fitWithin, pngSize, type RgbaImage } from "../lib/png";
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// decodePng doesn't check CRCs, so the hand-built files leave them zero.
+function chunk(type: string, body: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(body.length, 0);
+  head.write(type, 4, "latin1");
+  return Buffer.concat([head, body, Buffer.alloc(4)]);
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/** Filters every row of `raw` with `filter` (0-4), the encoder side of decodePng's unfilter. */
+function filterRows(raw: number[], width: number, height: number, bpp: number, filter: number): Buffer {
+  const stride = width * bpp;
+  const out = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    out[y * (stride + 1)] = filter;
+    for (let x = 0; x < stride; x++) {
+      const at = (dy: number, dx: number) => (y + dy >= 0 && x + dx >= 0 ? raw[(y + dy) * stride + x + dx] : 0);
+      const a = at(0, -bpp), b = at(-1, 0), c = at(-1, -bpp);
+      const predicted = [0, a, b, (a + b) >> 1, paeth(a, b, c)][filter];
+      out[y * (stride + 1) + 1 + x] = (raw[y * stride + x] - predicted) & 0xff;
+    }
+  }
+  return out;
+}
+
+function png(opts: { width: number; height: number; colorType: number; raw: number[]; filter?: number; bitDepth?: number; interlace?: number; extra?: Buffer[] }): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(opts.width, 0);
+  ihdr.writeUInt32BE(opts.height, 4);
+  ihdr[8] = opts.bitDepth ?? 8;
+  ihdr[9] = opts.colorType;
+  ihdr[12] = opts.interlace ?? 0;
+  const bpp = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[opts.colorType]!;
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    ...(opts.extra ?? []),
+    chunk("IDAT", zlib.deflateSync(filterRows(opts.raw, opts.width, opts.height, bpp, opts.filter ?? 0))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** A 3x2 RGBA gradient with varied alpha, so every filter predicts something non-trivial. */
+const RGBA = Array.from({ length: 3 * 2 * 4 }, (_, i) => (i * 37 + 11) & 0xff);
+
+describe("decodePng", () => {
+  for (const filter of [0, 1, 2, 3, 4]) {
+    it(`reverses filter type ${filter}`, () => {
+      const image = decodePng(png({ width: 3, height: 2, colorType: 6, raw: RGBA, filter }));
+      assert.deepEqual([...image.data], RGBA);
+    });
+  }
+
+  const colorTypes: [string, number, number[], Buffer[], number[]][] = [
+    ["RGB", 2, [10, 20, 30, 40, 50, 60], [], [10, 20, 30, 255, 40, 50, 60, 255]],
+    ["grey", 0, [0, 200], [], [0, 0, 0, 255, 200, 200, 200, 255]],
+    ["grey+alpha", 4, [90, 128, 91, 0], [], [90, 90, 90, 128, 91, 91, 91, 0]],
+    [
+      "palette with tRNS",
+      3,
+      [1, 0],
+      [chunk("PLTE", Buffer.from([1, 2, 3, 4, 5, 6])), chunk("tRNS", Buffer.from([77]))],
+      [4, 5, 6, 255, 1, 2, 3, 77],
+    ],
+  ];
+  for (const [name, colorType, raw, extra, rgba] of colorTypes) {
+    it(`expands ${name} to RGBA`, () => {
+      const image = decodePng(png({ width: 2, height: 1, colorType, raw, extra, filter: 4 }));
+      assert.deepEqual({ width: image.width, height: image.height, data: [...image.data] }, { width: 2, height: 1, data: rgba });
+    });
+  }
+
+  const errors: [string, Buffer, RegExp][] = [
+    ["not a PNG", Buffer.from("GIF89a"), /Not a PNG file/],
+    ["no IHDR", Buffer.concat([SIGNATURE, chunk("IEND", Buffer.alloc(0))]), /no usable IHDR/],
+    ["16-bit", png({ width: 1, height: 1, colorType: 6, raw: [0, 0, 0, 0], bitDepth: 16 }), /16-bit PNGs are not supported/],
+    ["interlaced", png({ width: 1, height: 1, colorType: 6, raw: [0, 0, 0, 0], interlace: 1 }), /Interlaced PNGs are not supported/],
+    ["palette without PLTE", png({ width: 1, height: 1, colorType: 3, raw: [0] }), /without a PLTE chunk/],
+  ];
+  for (const [name, buf, message] of errors) {
+    it(`rejects ${name}`, () => assert.throws(() => decodePng(buf), message));
+  }
+});
+
+describe("encodePng", () => {
+  it("round-trips through decodePng", () => {
+    const image: RgbaImage = { width: 3, height: 2, data: Uint8Array.from(RGBA) };
+    assert.deepEqual(decodePng(encodePng(image)), image);
+  });
+});
+
+describe("fitWithin", () => {
+  it("returns images that already fit unchanged", () => {
+    const image: RgbaImage = { width: 3, height: 2, data: Uint8Array.from(RGBA) };
+    assert.equal(fitWithin(image, 3), image);
+  });
+
+  it("box-filters by the whole factor that makes it fit", () => {
+    // 4x2 -> factor 2 -> 2x1, each output pixel the mean of a 2x2 block
+    const data = Uint8Array.from([
+      0, 0, 0, 0, 100, 100, 100, 100, 10, 20, 30, 40, 10, 20, 30, 40,
+      200, 200, 200, 200, 100, 100, 100, 100, 10, 20, 30, 40, 10, 20, 30, 41,
+    ]);
+    const small = fitWithin({ width: 4, height: 2, data }, 3);
+    assert.deepEqual({ width: small.width, height: small.height, data: [...small.data] }, { width: 2, height: 1, data: [100, 100, 100, 100, 10, 20, 30, 40] });
+  });
+});
+
+describe("pngSize", () => {
+  it("reads IHDR from PNGs decodePng rejects", () => {
+    assert.deepEqual(pngSize(png({ width: 7, height: 3, colorType: 6, raw: Array(7 * 3 * 8).fill(0), bitDepth: 16 })), { width: 7, height: 3 });
+  });
+
+  it("returns null for anything else", () => {
+    assert.equal(pngSize(Buffer.from("GIF89a, padded out past where IHDR would be")), null);
+  });
+});
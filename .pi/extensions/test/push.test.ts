@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { alertText, badgeFromIcon, buildFromTemplate, checkPayload, MAX_PAYLOAD_BYTES, PUSH_TEMPLATES, type Payload } from "../lib/push";
+
+/** A valid alert push padded with custom data to exactly `bytes` of JSON. */
+function sized(bytes: number): Payload {
+  const payload = { aps: { alert: "Hi", "thread-id": "c1" }, pad: "" };
+  payload.pad = "x".repeat(bytes - Buffer.byteLength(JSON.stringify(payload)));
+  return payload;
+}
+
+const NSE_DATA = { clientId: "qa-client", notificationData: { protocolData: { contentTopic: "/t" } } };
+
+describe("checkPayload", () => {
+  const cases: [string, unknown, string[], string[]][] = [
+    ["a plain alert", { aps: { alert: "Hi", "thread-id": "c1" } }, [], []],
+    ["exactly the size limit", sized(MAX_PAYLOAD_BYTES), [], []],
+    ["one byte over the size limit", sized(MAX_PAYLOAD_BYTES + 1), [`Payload is ${MAX_PAYLOAD_BYTES + 1} bytes; APNs allows ${MAX_PAYLOAD_BYTES}`], []],
+    ["an array", [], ["The payload must be a JSON object"], []],
+    ["no aps", { clientId: "x" }, ['The payload needs an "aps" dictionary'], []],
+    ["a badge-only push", { aps: { badge: 0 } }, [], []],
+    ["a negative badge", { aps: { badge: -1 } }, ["aps.badge must be a whole number, 0 or more (0 clears the badge)"], []],
+    ["a fractional badge", { aps: { badge: 1.5 } }, ["aps.badge must be a whole number, 0 or more (0 clears the badge)"], []],
+    ["a badge as a string", { aps: { badge: "2" } }, ["aps.badge must be a whole number, 0 or more (0 clears the badge)"], []],
+    ["mutable-content with everything the extension needs", { aps: { alert: { body: "New message" }, "mutable-content": 1, "thread-id": "c1" }, ...NSE_DATA }, [], []],
+    [
+      "mutable-content without an alert",
+      { aps: { "mutable-content": 1, sound: "default" }, ...NSE_DATA },
+      ["mutable-content needs a visible alert; iOS only runs the NotificationService extension for alerts"],
+      [],
+    ],
+    [
+      "mutable-content without Convos' fields",
+      { aps: { alert: "Hi", "mutable-content": 1, "thread-id": "c1" } },
+      [],
+      [
+        "No clientId: the NotificationService drops the push and shows nothing",
+        "No notificationData.protocolData: the NotificationService has no message to decode and shows nothing",
+      ],
+    ],
+    ["mutable-content as true", { aps: { alert: "Hi", "mutable-content": true, "thread-id": "c1" } }, ["aps.mutable-content must be 1 when present"], []],
+    ["an alert that isn't a string or dictionary", { aps: { alert: 3 } }, ["aps.alert must be a string or a dictionary"], ["No alert, badge, sound or content-available: the push does nothing visible"]],
+    ["a non-string alert field", { aps: { alert: { title: 1, body: "Hi" }, "thread-id": "c1" } }, ["aps.alert.title must be a string"], []],
+    ["an unknown interruption level", { aps: { alert: "Hi", "thread-id": "c1", "interruption-level": "loud" } }, ["aps.interruption-level must be one of passive, active, time-sensitive, critical"], []],
+    ["custom data inside aps", { aps: { alert: "Hi", "thread-id": "c1", conversationId: "c1" } }, [], ["aps.conversationId is not an APNs key; iOS ignores it (custom data belongs outside aps)"]],
+    ["an alert without a thread-id", { aps: { alert: "Hi" } }, [], ["No thread-id: the app can't tie the notification to a conversation (muting, clearing on open)"]],
+  ];
+  for (const [name, payload, errors, warnings] of cases) {
+    it(name, () => {
+      const check = checkPayload(payload);
+      assert.deepEqual({ errors: check.errors, warnings: check.warnings }, { errors, warnings });
+    });
+  }
+
+  it("counts bytes, not characters", () => {
+    assert.equal(checkPayload({ aps: { alert: "👍" } }).bytes, Buffer.byteLength('{"aps":{"alert":"👍"}}'));
+  });
+});
+
+describe("buildFromTemplate", () => {
+  for (const name of Object.keys(PUSH_TEMPLATES)) {
+    it(`builds a ${name} push that passes its own checks`, () => {
+      const check = checkPayload(buildFromTemplate(name, {}));
+      assert.deepEqual({ errors: check.errors, warnings: check.warnings }, { errors: [], warnings: [] });
+    });
+  }
+
+  const cases: [string, string, Parameters<typeof buildFromTemplate>[1], Record<string, unknown>][] = [
+    ["new_message defaults", "new_message", {}, { alert: { title: "QA Conversation", body: "QA Bot: Hello from QA" }, badge: 1, "thread-id": "qa-conversation" }],
+    ["an undefined var keeps the default", "new_message", { title: undefined, badge: 4 }, { alert: { title: "QA Conversation", body: "QA Bot: Hello from QA" }, badge: 4 }],
+    ["a reaction leaves the badge alone", "reaction", { emoji: "🎉" }, { alert: { title: "QA Conversation", body: 'QA Bot 🎉\'d "Hello from QA"' }, badge: undefined }],
+    ["a reaction can still clear the badge", "reaction", { badge: 0 }, { badge: 0 }],
+    ["nse runs the extension", "nse", { body: "Hidden" }, { alert: { title: "QA Conversation", body: "Hidden" }, "mutable-content": 1 }],
+  ];
+  for (const [name, template, vars, expected] of cases) {
+    it(name, () => {
+      const aps = buildFromTemplate(template, vars).aps as Record<string, unknown>;
+      for (const [key, value] of Object.entries(expected)) assert.deepEqual(aps[key], value, key);
+    });
+  }
+
+  it("addresses a welcome push to the inviter's installation", () => {
+    const payload = buildFromTemplate("invite_accepted", { clientId: "abc" });
+    assert.deepEqual(payload.notificationData, { protocolData: { contentTopic: "/xmtp/mls/1/w-abc/proto" } });
+  });
+
+  it("lists the templates when the name is unknown", () => {
+    assert.throws(() => buildFromTemplate("silent", {}), /Unknown push template "silent"\. Templates: new_message, reaction, invite_accepted, nse/);
+  });
+});
+
+describe("alertText", () => {
+  const cases: [string, Payload, ReturnType<typeof alertText>][] = [
+    ["a string alert", { aps: { alert: "Hi" } }, { title: null, body: "Hi" }],
+    ["an empty string alert", { aps: { alert: "" } }, null],
+    ["a title and body", { aps: { alert: { title: "T", body: "B" } } }, { title: "T", body: "B" }],
+    ["a title only", { aps: { alert: { title: "T", body: "" } } }, { title: "T", body: null }],
+    ["an alert with neither", { aps: { alert: { subtitle: "S" } } }, null],
+    ["a badge-only push", { aps: { badge: 1 } }, null],
+    ["no aps", {}, null],
+  ];
+  for (const [name, payload, expected] of cases) {
+    it(name, () => assert.deepEqual(alertText(payload), expected));
+  }
+});
+
+describe("badgeFromIcon", () => {
+  const cases: [string | null, number][] = [
+    ["2 notifications", 2],
+    ["1 notification", 1],
+    ["Convos", 0],
+    ["", 0],
+    [null, 0],
+  ];
+  for (const [value, expected] of cases) {
+    it(`${JSON.stringify(value)} → ${expected}`, () => assert.equal(badgeFromIcon(value), expected));
+  }
+});
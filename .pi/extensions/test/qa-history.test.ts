@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeAll, analyzeHistory, errorSignature, rankFlaky, type OutcomeRow } from "../lib/qa-history";
+
+/** Rows for test "03" from `[run, commit, status, message?]`, one run per distinct id. */
+function rows(...specs: [string, string | null, string, string?][]): OutcomeRow[] {
+  return specs.map(([run, commit, status, message], i) => ({
+    run_id: run,
+    run_started_at: `2026-02-${String(10 + i).padStart(2, "0")}T10:00:00Z`,
+    build_commit: commit,
+    test_id: "03",
+    test_name: "Invite",
+    criteria_key: null,
+    status,
+    duration_ms: 1000 * (i + 1),
+    message: message ?? null,
+  }));
+}
+
+describe("errorSignature", () => {
+  const cases: [string, string][] = [
+    ["Timed out after 30s waiting for compose-button", "Timed out after <n>s waiting for compose-button"],
+    ["Conversation 7f3a9c0d1e2f not found", "Conversation <id> not found"],
+    ["Request 123e4567-e89b-12d3-a456-426614174000 failed", "Request <uuid> failed"],
+    ["At 2026-02-13T10:00:05.123Z   the   stream closed\n  at GroupStream.next", "At <time> the stream closed"],
+    ["deadbeef is a word, cafe too", "deadbeef is a word, cafe too"],
+  ];
+  for (const [message, signature] of cases) {
+    it(JSON.stringify(message), () => assert.equal(errorSignature(message), signature));
+  }
+});
+
+describe("analyzeHistory", () => {
+  const cases: { name: string; rows: OutcomeRow[]; expect: Partial<ReturnType<typeof analyzeHistory>> }[] = [
+    {
+      name: "stable passes",
+      rows: rows(["r1", "a", "pass"], ["r2", "a", "pass"]),
+      expect: { decided: 2, retried: 0, flipped: 0, flaky: 0, flakeRate: 0 },
+    },
+    {
+      name: "a retry that passed is flaky",
+      rows: rows(["r1", "a", "pass"], ["r2", "a", "fail", "timeout 1"], ["r2", "a", "pass"]),
+      expect: { decided: 2, retried: 1, flipped: 0, flaky: 1, flakeRate: 0.5 },
+    },
+    {
+      name: "a different outcome on the same commit is flaky",
+      rows: rows(["r1", "a", "pass"], ["r2", "a", "error", "crash"], ["r3", "b", "pass"], ["r4", "a", "fail", "crash"]),
+      expect: { decided: 4, retried: 0, flipped: 1, flaky: 1, flakeRate: 0.25 },
+    },
+    {
+      name: "a new commit can change the outcome",
+      rows: rows(["r1", "a", "fail", "x"], ["r2", "b", "pass"], ["r3", null, "fail", "x"]),
+      expect: { decided: 3, flipped: 0, flaky: 0 },
+    },
+    {
+      name: "skips and pending results aren't decided",
+      rows: rows(["r1", "a", "skip"], ["r2", "a", "pending"], ["r3", "a", "pass"]),
+      expect: { decided: 1, counts: { pass: 1, fail: 0, skip: 1, other: 1 } },
+    },
+  ];
+  for (const c of cases) {
+    it(c.name, () => {
+      const h = analyzeHistory(c.rows);
+      assert.deepEqual(Object.fromEntries(Object.keys(c.expect).map(k => [k, h[k as keyof typeof h]])), c.expect);
+    });
+  }
+
+  it("groups errors by signature and averages decided durations", () => {
+    const h = analyzeHistory(rows(["r1", "a", "fail", "Timed out after 30s"], ["r2", "a", "fail", "Timed out after 45s"], ["r3", "a", "error", "crash"], ["r4", "a", "skip"]));
+    assert.deepEqual(h.errors, [{ signature: "Timed out after <n>s", count: 2 }, { signature: "crash", count: 1 }]);
+    assert.equal(h.avgDurationMs, 2000);
+    assert.equal(h.key, "03");
+  });
+});
+
+describe("analyzeAll and rankFlaky", () => {
+  const criterion = (run: string, status: string): OutcomeRow => ({ ...rows([run, "a", status])[0], criteria_key: "invite_url" });
+  const histories = analyzeAll([
+    ...rows(["r1", "a", "pass"], ["r2", "a", "fail"], ["r2", "a", "pass"], ["r3", "a", "pass"]),
+    criterion("r1", "pass"),
+    criterion("r2", "fail"),
+    criterion("r3", "pass"),
+  ]);
+
+  it("keys tests and criteria separately", () => {
+    assert.deepEqual(histories.map(h => [h.key, h.flaky, h.decided]), [["03", 1, 3], ["03/invite_url", 2, 3]]);
+  });
+
+  it("ranks by flake rate and drops tests with too few runs", () => {
+    assert.deepEqual(rankFlaky(histories, 3).map(h => h.key), ["03/invite_url", "03"]);
+    assert.deepEqual(rankFlaky(histories, 4), []);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { draftFileName, draftTest, nextTestId, type RecordedCall } from "../lib/recorder";
+import { STRUCTURED_TESTS_DIR } from "../lib/structured-test";
+import { parseYaml } from "../lib/yaml";
+
+const call = (tool: string, input: Record<string, any>, extra: Partial<RecordedCall> = {}): RecordedCall => ({
+  tool,
+  input,
+  text: "ok",
+  isError: false,
+  ...extra,
+});
+
+const draft = (...calls: RecordedCall[]) =>
+  draftTest({ startedAt: new Date("2026-02-13T10:00:00Z"), calls }, "31", "Recorded session");
+
+describe("draftTest", () => {
+  it("drafts a test the YAML parser reads back", () => {
+    const d = draft(
+      call("sim_launch_app", { bundle_id: "org.convos.ios-preview" }),
+      call("sim_tap_id", { identifier: "compose-button" }),
+      call("sim_wait_for_element", { identifier: "message-text-field", timeout: 5 }),
+      call("sim_type_in_field", { identifier: "message-text-field", text: "hello", clear_first: true }),
+      call("sim_tap_id", { identifier: "send-button" }),
+      call("sim_expect_event", { event: "message.sent", where: ["conversation=c0ffee01"] }),
+    );
+    const test = parseYaml(d.yaml) as any;
+    assert.deepEqual({ steps: d.steps, warnings: d.warnings, skipped: d.skipped }, { steps: 2, warnings: [], skipped: 0 });
+    assert.equal(test.id, "31");
+    assert.deepEqual(test.setup, [{ action: "launch_app", args: { bundle_id: "org.convos.ios-preview" } }]);
+    assert.deepEqual(test.steps[0].actions, [
+      { tap: { id: "compose-button" } },
+      { wait_for_element: { id: "message-text-field", timeout: 5 } },
+    ]);
+    assert.deepEqual(test.steps[0].verify, [{ element_exists: { id: "message-text-field" } }]);
+    assert.deepEqual(test.steps[1].actions, [
+      { type_in_field: { id: "message-text-field", text: "hello", clear_first: true } },
+      { tap: { id: "send-button" } },
+    ]);
+    assert.deepEqual(test.steps[1].expect_events, [{ name: "message.sent", conversation: "c0ffee01" }]);
+    assert.deepEqual(Object.keys(test.criteria), ["step_1", "step_2"]);
+  });
+
+  const cases: [string, RecordedCall[], string, RegExp | null][] = [
+    ["a tap resolved to the element under the point", [call("sim_ui_tap", { x: 10, y: 20 }, { pointSelector: "id=send-button" })], "tap: { id: \"send-button\" }", null],
+    ["a tap on a selector", [call("sim_tap_id", { selector: "type=Button label=Send" })], "tap: { selector: \"type=Button label=Send\" }", null],
+    ["a bare coordinate tap", [call("sim_ui_tap", { x: 10, y: 20 })], "tap: { x: 10, y: 20 }", /coordinate tap at \(10, 20\) kept as coordinates/],
+    ["a long press", [call("sim_long_press", { identifier: "message-bubble" })], "long_press: { id: \"message-bubble\", duration: 1 }", null],
+    ["a tap then typing", [call("sim_tap_id", { identifier: "search" }), call("sim_ui_type", { text: "hi" })], "type_in_field: { id: \"search\", text: \"hi\" }", null],
+    ["typing with no field", [call("sim_ui_type", { text: "hi" })], "type_text: { text: \"hi\" }", /typed "hi" without a known field/],
+    ["a chain", [call("sim_chain", { steps: [{ action: "tapElement", params: { identifier: "a" } }, { action: "pressKey", params: { keycode: 40 } }] })], "tap: { id: \"a\" }\n      - key: { code: 40 }", null],
+    ["an unknown chain action", [call("sim_chain", { steps: [{ action: "shake", params: {} }] })], "shake: {}", /sim_chain action "shake" has no YAML equivalent/],
+    ["an event matcher it can't carry over", [call("sim_tap_id", { identifier: "a" }), call("sim_expect_event", { event: "sync.*", where: ["count>2"] })], "- \"sync.*\"  # WARNING", /dropped count>2, event pattern sync\.\*/],
+  ];
+  for (const [name, calls, yaml, warning] of cases) {
+    it(`drafts ${name}`, () => {
+      const d = draft(...calls);
+      assert.ok(d.yaml.includes(yaml), d.yaml);
+      if (warning) assert.match(d.warnings.join("\n"), warning);
+      else assert.deepEqual(d.warnings, []);
+    });
+  }
+
+  it("leaves out failed calls and reads", () => {
+    const d = draft(
+      call("sim_describe_all", {}),
+      call("sim_tap_id", { identifier: "missing" }, { isError: true }),
+      call("sim_tap_id", { identifier: "compose-button" }),
+    );
+    assert.equal(d.skipped, 1);
+    assert.equal(d.steps, 1);
+    assert.doesNotMatch(d.yaml, /missing/);
+  });
+
+  it("splits steps by device", () => {
+    const d = draft(call("sim_tap_id", { identifier: "a", device: "alice" }), call("sim_tap_id", { identifier: "b", device: "bob" }));
+    const test = parseYaml(d.yaml) as any;
+    assert.deepEqual(test.steps.map((s: any) => s.device), [undefined, "B"]);
+  });
+
+  it("drafts an empty session", () => {
+    const test = parseYaml(draft().yaml) as any;
+    assert.deepEqual({ steps: test.steps, criteria: test.criteria }, { steps: [], criteria: {} });
+  });
+});
+
+describe("draft file names", () => {
+  it("slugs the name after the id", () => {
+    assert.equal(draftFileName("07", "Send a message: happy path!"), "07-send-a-message-happy-path.yaml");
+    assert.equal(draftFileName("07", "!!!"), "07-recorded.yaml");
+  });
+
+  it("numbers the next test after the highest one", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "recorder-test-"));
+    try {
+      assert.equal(nextTestId(root), "01");
+      fs.mkdirSync(path.join(root, STRUCTURED_TESTS_DIR), { recursive: true });
+      for (const f of ["03-b.yaml", "12-c.yaml", "README.md"]) fs.writeFileSync(path.join(root, STRUCTURED_TESTS_DIR, f), "");
+      assert.equal(nextTestId(root), "13");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { Cxdb } from "../lib/cxdb";
+import { compareRuns, formatComparison, lastGreenRunBefore, queryRun, type RunComparison } from "../lib/run-compare";
+
+const SCHEMA = path.resolve(__dirname, "../../../qa/cxdb/schema.sql");
+
+/** A throwaway CXDB on the sqlite3 CLI, like createCxdb without pi. */
+function tempCxdb(dir: string): Cxdb {
+  const dbPath = path.join(dir, "qa.sqlite");
+  const sqlite = (args: string[]) => {
+    const r = spawnSync("sqlite3", args, { encoding: "utf-8", timeout: 15000 });
+    if (r.status !== 0) throw new Error(`sqlite3 failed: ${r.stderr || r.error}`);
+    return r.stdout;
+  };
+  sqlite([dbPath, `.read "${SCHEMA}"`]);
+  return {
+    path: dbPath,
+    async exec(sql) { sqlite([dbPath, sql]); },
+    async query(sql) {
+      const out = sqlite(["-json", dbPath, sql]).trim();
+      return out ? JSON.parse(out) : [];
+    },
+  };
+}
+
+describe("compareRuns", () => {
+  let dir: string;
+  let db: Cxdb;
+  let comparison: RunComparison;
+
+  before(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "run-compare-test-"));
+    db = tempCxdb(dir);
+    await db.exec(`
+      INSERT INTO test_runs (id, status, build_commit, started_at) VALUES
+        ('old', 'passed', 'aaa', '2026-02-10T10:00:00Z'),
+        ('base', 'passed', 'bbb', '2026-02-12T10:00:00Z'),
+        ('red', 'failed', 'bbb', '2026-02-12T12:00:00Z'),
+        ('head', 'failed', 'ccc', '2026-02-13T10:00:00Z');
+      INSERT INTO test_results (id, run_id, test_id, test_name, status, started_at, error_message) VALUES
+        ('b1', 'base', '01', 'Onboarding', 'pass', '1', NULL),
+        ('b2', 'base', '02', 'Send', 'fail', '2', 'timeout'),
+        ('b3', 'base', '03', 'Invite', 'pass', '3', NULL),
+        ('b4', 'base', '04', 'Reactions', 'fail', '4', 'boom'),
+        ('h1', 'head', '01', 'Onboarding', 'fail', '1', 'Compose button missing'),
+        ('h2', 'head', '02', 'Send', 'pass', '2', NULL),
+        ('h3a', 'head', '03', 'Invite', 'error', '3', 'crashed'),
+        ('h3b', 'head', '03', 'Invite', 'pass', '4', NULL),
+        ('h4', 'head', '04', 'Reactions', 'fail', '5', 'boom'),
+        ('h5', 'head', '05', 'Profile', 'skip', '6', NULL);
+      INSERT INTO criteria_results (id, test_result_id, criteria_key, description, status, evidence) VALUES
+        ('bc1', 'b3', 'invite_url', 'Invite URL shown', 'pass', NULL),
+        ('hc1', 'h3b', 'invite_url', 'Invite URL shown', 'fail', 'no URL');
+      INSERT INTO log_entries (run_id, test_id, level, message, is_xmtp_error) VALUES
+        ('base', '01', 'error', 'Sync failed after 3 attempts', 0),
+        ('head', '01', 'error', 'Sync failed after 5 attempts', 0),
+        ('head', '01', 'error', 'GroupError stream closed for 0a1b2c3d4e5f', 1),
+        ('head', '03', 'error', 'GroupError stream closed for 9f8e7d6c5b4a', 1),
+        ('head', NULL, 'warning', 'ignored', 0);
+      INSERT INTO perf_measurements (run_id, test_id, metric_name, value_ms) VALUES
+        ('base', '01', 'app_launch', 1000), ('base', '01', 'app_launch', 1100), ('base', '01', 'app_launch', 900),
+        ('head', '01', 'app_launch', 1300), ('head', '01', 'app_launch', 1250), ('head', '01', 'app_launch', 1200),
+        ('base', '02', 'send_message', 200), ('head', '02', 'send_message', 230),
+        ('head', '02', 'new_metric', 5000);
+      INSERT INTO bug_findings (run_id, test_id, title, severity) VALUES
+        ('base', '04', 'Reaction picker clipped', 'minor'),
+        ('head', '04', 'Reaction picker clipped', 'minor'),
+        ('head', '01', 'Compose button hidden', 'major'),
+        ('head', '03', 'Crash on invite', 'critical');
+      INSERT INTO accessibility_findings (run_id, test_id, element_purpose, recommendation) VALUES
+        ('base', '01', 'Compose', 'Add identifier'),
+        ('head', '01', 'Compose', 'Add identifier'),
+        ('head', '02', 'Send', NULL);
+    `);
+    comparison = await compareRuns(db, (await queryRun(db, "base"))!, (await queryRun(db, "head"))!, 20);
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("finds the last green run before a run", async () => {
+    assert.equal((await lastGreenRunBefore(db, "head"))?.id, "base");
+    assert.equal((await lastGreenRunBefore(db, "base"))?.id, "old");
+    assert.equal(await lastGreenRunBefore(db, "old"), null);
+    assert.equal(await queryRun(db, "missing"), null);
+  });
+
+  it("compares final test outcomes", () => {
+    assert.deepEqual(comparison.newlyFailingTests, [
+      { key: "01", name: "Onboarding", before: "pass", after: "fail", message: "Compose button missing" },
+    ]);
+    assert.deepEqual(comparison.newlyPassingTests.map(c => `${c.key} ${c.before} → ${c.after}`), ["02 fail → pass"]);
+  });
+
+  it("compares criteria", () => {
+    assert.deepEqual(comparison.newlyFailingCriteria, [
+      { key: "03/invite_url", name: "Invite URL shown", before: "pass", after: "fail", message: "no URL" },
+    ]);
+    assert.deepEqual(comparison.newlyPassingCriteria, []);
+  });
+
+  it("reports only error signatures the baseline didn't have", () => {
+    assert.deepEqual(comparison.newErrorSignatures, [
+      { signature: "GroupError stream closed for <id>", count: 2, testIds: ["01", "03"], xmtp: true },
+    ]);
+  });
+
+  it("flags medians slower than the threshold", () => {
+    assert.deepEqual(
+      comparison.perfRegressions.map(p => ({ ...p, changePct: Math.round(p.changePct) })),
+      [{ metric: "app_launch", testId: "01", beforeMs: 1000, afterMs: 1250, changePct: 25 }],
+    );
+  });
+
+  it("reports new bugs by severity and new accessibility findings", () => {
+    assert.deepEqual(comparison.newBugs.map(b => b.title), ["Crash on invite", "Compose button hidden"]);
+    assert.deepEqual(comparison.newAccessibilityFindings, [{ element_purpose: "Send", recommendation: null, test_id: "02" }]);
+  });
+
+  it("formats only the sections with something in them", () => {
+    const text = formatComparison(comparison);
+    assert.match(text, /^# Run comparison: base → head\n/);
+    assert.match(text, /1 newly failing test · 1 newly passing · 1 new error signature · 1 perf regression · 2 new bugs · 1 new accessibility finding/);
+    assert.match(text, /- 01 Onboarding — pass → fail: Compose button missing/);
+    assert.match(text, /\| app_launch \| 01 \| 1000 ms \| 1250 ms \| \+25% \|/);
+    const quiet = formatComparison({ ...comparison, newlyFailingTests: [], newlyPassingTests: [], newErrorSignatures: [], perfRegressions: [], newBugs: [], newAccessibilityFindings: [], newlyFailingCriteria: [] });
+    assert.doesNotMatch(quiet, /## Tests|## Performance|## New error signatures/);
+  });
+});
@@ -0,0 +1,33 @@
+#!/bin/bash
+# Unit tests for the pi extensions in .pi/extensions, plus a fake-driver pass
+# over the sim_* tools. Usage: ./.pi/extensions/test/run.sh [name-filter]
+#
+# pi loads extensions through jiti with @sinclair/typebox aliased to its own
+# copy; the tests are loaded the same way, so the only dependencies are those
+# two packages. They are installed once into $PI_TEST_DEPS (default
+# ~/.cache/convos-pi-extension-tests), outside the repo. node --test runs each
+# file in its own process.
+
+set -euo pipefail
+
+SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+DEPS="${PI_TEST_DEPS:-${XDG_CACHE_HOME:-$HOME/.cache}/convos-pi-extension-tests}"
+MODULES="$DEPS/node_modules"
+
+if [ ! -f "$MODULES/jiti/package.json" ] || [ ! -f "$MODULES/@sinclair/typebox/package.json" ]; then
+    echo "Installing jiti and @sinclair/typebox into $DEPS" >&2
+    mkdir -p "$DEPS"
+    npm install --prefix "$DEPS" --no-save --no-audit --no-fund --loglevel=error jiti@2 @sinclair/typebox@0.34 >&2
+fi
+
+shopt -s nullglob
+FILES=("$SCRIPT_DIR"/*${1:-}*.test.ts)
+if [ ${#FILES[@]} -eq 0 ]; then
+    echo "No tests match \"${1:-}\"." >&2
+    exit 1
+fi
+
+# From the repo root, like pi: the tools resolve qa/ paths against the cwd
+cd "$SCRIPT_DIR/../../.."
+export JITI_ALIAS="{\"@sinclair/typebox\": \"$MODULES/@sinclair/typebox\"}"
+exec node --import "$MODULES/jiti/lib/jiti-register.mjs" --test --test-reporter=spec "${FILES[@]}"
@@ -0,0 +1,138 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import iosSimulator from "../ios-simulator";
+import { encodePng, pngSize } from "../lib/png";
+
+// sim_screenshot against a one-screen fake driver whose capture each test
+// swaps out: plain captures pass through as taken, overlays decode them.
+
+interface Result {
+  content: { type: string; text?: string; data?: string; mimeType?: string }[];
+  isError?: boolean;
+}
+type Execute = (toolCallId: string, params: Record<string, unknown>, signal?: AbortSignal, onUpdate?: unknown, ctx?: unknown) => Promise<Result>;
+
+/** A solid 8-bit RGBA PNG. */
+function solid(width: number, height: number): Buffer {
+  return encodePng({ width, height, data: new Uint8Array(width * height * 4).fill(200) });
+}
+
+/** The same PNG claiming 16-bit samples, which lib/png can't decode. */
+function sixteenBit(png: Buffer): Buffer {
+  const copy = Buffer.from(png);
+  copy[24] = 16;
+  return copy;
+}
+
+describe("sim_screenshot", () => {
+  const saved = { cwd: process.cwd(), env: { ...process.env } };
+  let dir: string;
+  let screenshot: Execute;
+  let calls = 0;
+
+  async function capture(png: Buffer, params: Record<string, unknown> = {}) {
+    fs.writeFileSync(path.join(dir, "shot.png"), png);
+    const result = await screenshot(`call-${++calls}`, params, undefined, undefined, {});
+    const image = result.content.find(c => c.type === "image")!;
+    return {
+      image: Buffer.from(image.data!, "base64"),
+      mimeType: image.mimeType,
+      text: result.content.map(c => c.text ?? "").join("\n"),
+      isError: Boolean(result.isError),
+    };
+  }
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "screenshot-test-"));
+    const frame = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+    fs.writeFileSync(
+      path.join(dir, "script.json"),
+      JSON.stringify({
+        initialScreen: "main",
+        screenshot: "shot.png",
+        screens: {
+          main: {
+            elements: [
+              { AXUniqueId: null, AXLabel: "App", type: "Application", role: "AXApplication", frame: frame(0, 0, 40, 40), enabled: true },
+              { AXUniqueId: "ok-button", AXLabel: "OK", type: "Button", role: "AXButton", frame: frame(10, 10, 20, 10), enabled: true },
+            ],
+          },
+        },
+      }),
+    );
+    Object.assign(process.env, {
+      SIM_DRIVER: "fake",
+      SIM_FAKE_SCRIPT: path.join(dir, "script.json"),
+      CXDB_PATH: path.join(dir, "qa.sqlite"),
+      TMPDIR: dir,
+    });
+    process.chdir(dir);
+    const pi = {
+      registerTool(tool: { name: string; execute: Execute }) {
+        if (tool.name === "sim_screenshot") screenshot = tool.execute;
+      },
+      on() {},
+      async exec(command: string, args: string[], options?: { timeout?: number }) {
+        const r = spawnSync(command, args, { encoding: "utf-8", timeout: options?.timeout });
+        return { stdout: r.stdout ?? "", stderr: r.stderr ?? String(r.error ?? ""), code: r.status ?? 1, killed: false };
+      },
+    };
+    iosSimulator(pi as unknown as ExtensionAPI);
+  });
+  after(() => {
+    process.chdir(saved.cwd);
+    process.env = saved.env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const untouched: [string, Buffer][] = [
+    ["an 8-bit capture", solid(40, 40)],
+    ["a capture lib/png can't decode", sixteenBit(solid(40, 40))],
+  ];
+  for (const [name, png] of untouched) {
+    it(`returns ${name} as taken when no overlay is asked for`, async () => {
+      const r = await capture(png);
+      assert.equal(r.isError, false, r.text);
+      assert.equal(r.mimeType, "image/png");
+      assert.ok(r.image.equals(png));
+    });
+  }
+
+  it("draws the overlays it is asked for", async () => {
+    const png = solid(40, 40);
+    const r = await capture(png, { annotate: true });
+    assert.equal(r.isError, false, r.text);
+    assert.match(r.text, /ok-button/);
+    assert.ok(!r.image.equals(png));
+    assert.deepEqual(pngSize(r.image), { width: 40, height: 40 });
+  });
+
+  it("falls back to the capture with a note when it can't draw overlays", async () => {
+    const png = sixteenBit(solid(40, 40));
+    const r = await capture(png, { annotate: true });
+    assert.equal(r.isError, false, r.text);
+    assert.match(r.text, /Overlays skipped: 16-bit PNGs are not supported/);
+    assert.ok(r.image.equals(png));
+  });
+
+  it("downscales a capture larger than the preview limit", async () => {
+    const r = await capture(solid(2800, 20));
+    assert.equal(r.isError, false, r.text);
+    // sips on macOS, the in-process box filter elsewhere
+    if (r.mimeType === "image/png") assert.deepEqual(pngSize(r.image), { width: 1400, height: 10 });
+    else assert.equal(r.mimeType, "image/jpeg");
+  });
+
+  it("returns a large capture it can't downscale full size, with a note", { skip: process.platform === "darwin" && "sips handles any PNG" }, async () => {
+    const png = sixteenBit(solid(2800, 20));
+    const r = await capture(png);
+    assert.equal(r.isError, false, r.text);
+    assert.match(r.text, /Not downscaled \(16-bit PNGs are not supported/);
+    assert.ok(r.image.equals(png));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatAmbiguity,
+  parseSelector,
+  resolveOne,
+  selectAll,
+  selectorFromParams,
+  type SelectorScope,
+  type SelectorView,
+} from "../lib/selector";
+
+describe("parseSelector", () => {
+  const cases: [string, SelectorScope[]][] = [
+    ["id=send-button", [{ terms: [{ field: "id", op: "=", value: "send-button" }] }]],
+    ["id^=conversation-list-", [{ terms: [{ field: "id", op: "^=", value: "conversation-list-" }] }]],
+    ['label="Photo message"', [{ terms: [{ field: "label", op: "=", value: "Photo message" }] }]],
+    ["label='it\\'s'", [{ terms: [{ field: "label", op: "=", value: "it's" }] }]],
+    ["label*=read", [{ terms: [{ field: "label", op: "*=", value: "read" }] }]],
+    ["label~=/^Sent \\d+/i", [{ terms: [{ field: "label", op: "~=", value: "^Sent \\d+", ignoreCase: true }] }]],
+    ['value~="a b"', [{ terms: [{ field: "value", op: "~=", value: "a b" }] }]],
+    ["value=", [{ terms: [{ field: "value", op: "=", value: "" }] }]],
+    ["type=button enabled=false", [{ terms: [{ field: "type", op: "=", value: "button" }, { field: "enabled", op: "=", value: "false" }] }]],
+    ["type=cell index=-1", [{ terms: [{ field: "type", op: "=", value: "cell" }], index: -1 }]],
+    ["compose-button", [{ terms: [], fuzzy: "compose-button" }]],
+    ['"Weekend plans"', [{ terms: [], fuzzy: "Weekend plans" }]],
+    ["Weekend plans type=cell", [{ terms: [{ field: "type", op: "=", value: "cell" }], fuzzy: "Weekend plans" }]],
+    [
+      "id=toolbar >> type=button index=0",
+      [
+        { terms: [{ field: "id", op: "=", value: "toolbar" }] },
+        { terms: [{ field: "type", op: "=", value: "button" }], index: 0 },
+      ],
+    ],
+    ['label="a >> b"', [{ terms: [{ field: "label", op: "=", value: "a >> b" }] }]],
+  ];
+  for (const [text, scopes] of cases) {
+    it(`parses ${text}`, () => {
+      assert.deepEqual(parseSelector(`  ${text} `), { scopes, text });
+    });
+  }
+
+  const errors: [string, RegExp][] = [
+    ["", /must not be empty/],
+    ["   ", /must not be empty/],
+    ["id=$inviteId", /unresolved variable/],
+    ['label="open', /Unclosed "/],
+    ["label~=/open", /Unclosed \//],
+    ["index=first", /index takes a whole number/],
+    ["index^=1", /index takes a whole number/],
+    ["enabled=yes", /enabled=true or enabled=false/],
+    ["type*=butt", /type only supports =/],
+    ["name=foo", /keys are id, label, value/],
+    ["label~=/x/g", /regex flags other than i/],
+    ["label~=/(/", /invalid regex/],
+    ["id^=", /empty value/],
+    ["id=a >>", /empty part around ">>"/],
+    [">> id=a", /empty part around ">>"/],
+    ["index=0", /empty part around ">>"/],
+  ];
+  for (const [text, message] of errors) {
+    it(`rejects ${JSON.stringify(text)}`, () => {
+      assert.throws(() => parseSelector(text), message);
+    });
+  }
+});
+
+describe("selectorFromParams", () => {
+  it("prefers the selector string", () => {
+    assert.deepEqual(selectorFromParams({ selector: "id=a" }).scopes, [{ terms: [{ field: "id", op: "=", value: "a" }] }]);
+  });
+
+  it("combines the legacy params into one scope", () => {
+    assert.deepEqual(selectorFromParams({ identifier: "send", label: "Send", labelContains: "en" }), {
+      scopes: [{
+        terms: [{ field: "label", op: "=", value: "Send" }, { field: "label", op: "*=", value: "en" }],
+        fuzzy: "send",
+      }],
+      text: 'send label="Send" label*="en"',
+    });
+  });
+
+  it("rejects both forms and neither", () => {
+    assert.throws(() => selectorFromParams({ selector: "id=a", identifier: "a" }), /not both/);
+    assert.throws(() => selectorFromParams({}), /Pass a selector/);
+  });
+});
+
+describe("selectAll", () => {
+  interface El extends SelectorView { name: string }
+  const el = (name: string, fields: Partial<SelectorView>, frame = { x: 0, y: 0, width: 10, height: 10 }): El =>
+    ({ name, type: "Button", enabled: true, frame, ...fields });
+  const tree: El[] = [
+    el("toolbar", { id: "toolbar", type: "Group" }, { x: 0, y: 800, width: 400, height: 50 }),
+    el("chats", { label: "Chats" }, { x: 10, y: 805, width: 40, height: 40 }),
+    el("compose", { id: "compose-button", label: "Compose" }, { x: 350, y: 805, width: 40, height: 40 }),
+    el("compose-dup", { id: "compose-button", label: "Compose" }, { x: 350, y: 805, width: 40, height: 40 }),
+    el("row1", { id: "conversation-list-item-1", label: "Weekend plans", type: "Cell" }, { x: 0, y: 160, width: 400, height: 76 }),
+    el("row2", { id: "conversation-list-item-2", label: "Book club", type: "Cell", enabled: false }, { x: 0, y: 236, width: 400, height: 76 }),
+    el("field", { id: "message-text-field", value: "hello there", type: "TextField" }, { x: 0, y: 700, width: 300, height: 40 }),
+  ];
+  const names = (text: string) => selectAll(tree, parseSelector(text), e => e).map(e => e.name);
+
+  const cases: [string, string[]][] = [
+    ["id=compose-button", ["compose"]],
+    ["id^=conversation-list-", ["row1", "row2"]],
+    ["label*=PLANS", ["row1"]],
+    ["label~=/^book/i", ["row2"]],
+    ["label~=/^book/", []],
+    ["value=hello", []],
+    ["value*=hello", ["field"]],
+    ["type=cell enabled=true", ["row1"]],
+    ["type=cell index=1", ["row2"]],
+    ["type=cell index=-1", ["row2"]],
+    ["type=cell index=5", []],
+    ["id=toolbar >> type=button", ["chats", "compose"]],
+    ["id=toolbar >> Compose", ["compose"]],
+    ["type=cell >> type=button", []],
+    // Fuzzy tiers: exact id, id prefix, exact label, label substring.
+    ["compose-button", ["compose"]],
+    ["conversation-list-item", ["row1", "row2"]],
+    ["Chats", ["chats"]],
+    ["club", ["row2"]],
+    ["nothing-like-this", []],
+  ];
+  for (const [text, expected] of cases) {
+    it(`selects ${text}`, () => assert.deepEqual(names(text), expected));
+  }
+
+  it("resolves one, none or ambiguous", () => {
+    assert.deepEqual(resolveOne(tree, parseSelector("Chats"), e => e), { kind: "found", element: tree[1] });
+    assert.deepEqual(resolveOne(tree, parseSelector("id=missing"), e => e), { kind: "not_found" });
+    assert.equal(resolveOne(tree, parseSelector("type=cell"), e => e).kind, "ambiguous");
+  });
+});
+
+describe("formatAmbiguity", () => {
+  it("numbers candidates and notes the rest", () => {
+    const described = Array.from({ length: 12 }, (_, i) => `button ${i}`);
+    const text = formatAmbiguity(parseSelector("type=button"), described, 14);
+    assert.match(text, /^Selector "type=button" matched 14 elements/);
+    assert.match(text, /\n {2}\[0\] button 0\n/);
+    assert.match(text, /\n {2}\[9\] button 9\n {2}… 4 more$/);
+  });
+});
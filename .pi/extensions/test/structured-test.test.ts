@@ -0,0 +1,94 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createFakeDriver } from "../lib/driver";
+import { advance, formatReport, loadStructuredTest, resolveManual, sessionStatus, startSession, type RunOptions } from "../lib/structured-test";
+
+// qa/tests/structured/12-create-conversation-from-app.yaml against the fake
+// driver's scripted conversations list. The first step maps onto the script;
+// the clipboard and CLI steps have no automatic mapping and come back manual.
+
+const ROOT = path.resolve(__dirname, "../../..");
+const SCRIPT = path.join(ROOT, "qa/fixtures/fake-driver/script.json");
+const UDID = "FAKE-5C1A-4E0B-9D2F-000000000001";
+
+function run(opts: Partial<RunOptions>) {
+  const driver = createFakeDriver(SCRIPT);
+  const { test, file } = loadStructuredTest("12", ROOT);
+  const options: RunOptions = { onManual: "skip", stopOnFailure: false, skipTeardown: true, ...opts };
+  const session = startSession(file, test, { A: { udid: UDID, logFile: driver.findLogFile(UDID) } }, options);
+  return { session, options, advance: () => advance({ driver }, session, options) };
+}
+
+describe("structured test 12 on the fake driver", () => {
+  const savedTmp = process.env.TMPDIR;
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "structured-test-"));
+    process.env.TMPDIR = dir;
+  });
+  after(() => {
+    process.env.TMPDIR = savedTmp;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("pauses on the first action without a mapping and resumes past it", async () => {
+    const { session, options, advance: next } = run({ onManual: "pause" });
+    await next();
+    assert.equal(sessionStatus(session), "paused");
+    assert.deepEqual(
+      { step: session.paused?.step, name: session.paused?.name, reason: session.paused?.reason },
+      { step: "copy_invite", name: "clear_clipboard", reason: '"clear_clipboard" has no automatic mapping' },
+    );
+    assert.equal(session.criteria.get("conversation_created")?.status, "pass");
+    assert.match(formatReport(session), /## ⏸ Manual step\nstep copy_invite — action `clear_clipboard`/);
+
+    // The menu button isn't on the scripted screen, so the rest of copy_invite is skipped
+    resolveManual(session, "done", "cleared it", options);
+    await next();
+    assert.deepEqual([session.paused?.step, session.paused?.name], ["cli_join", "cli_join_conversation"]);
+    assert.match(session.log.join("\n"), /✓ step copy_invite clear_clipboard — manual: cleared it\n✗ step copy_invite tap — element not found/);
+  });
+
+  it("substitutes $variables into the step it pauses on", async () => {
+    const url = "https://dev.convos.org/v2?i=abc";
+    const { session, advance: next } = run({ onManual: "pause", steps: ["cli_join"], variables: { invite_url: url } });
+    await next();
+    assert.deepEqual(session.paused?.args, { invite_url: url, profile_name: "CLI Joiner", timeout: 60 });
+  });
+
+  it("leaves unset variables and saves it can't derive to the agent", async () => {
+    const { session, advance: next } = run({ steps: ["cli_join"] });
+    await next();
+    assert.match(session.log.join("\n"), /\? step cli_join cli_join_conversation — manual: \$invite_url is not set; pass it in variables/);
+    assert.deepEqual(session.pendingSaves, [
+      "conversation_id (conversationId from join JSON response)",
+      "cli_identity_id (identityId from join JSON response)",
+    ]);
+  });
+
+  it("ranks each criterion by its worst result", async () => {
+    const { session, advance: next } = run({ steps: ["create_conversation", "copy_invite", "cli_join", "verify_member_count"] });
+    await next();
+    const statuses = Object.fromEntries([...session.criteria.values()].map(c => [c.key, c.status]));
+    assert.deepEqual(statuses, {
+      // tap, wait and verify all passed
+      conversation_created: "pass",
+      // clear_clipboard was manual, then the menu button wasn't there
+      invite_url_copied: "fail",
+      // find_elements passed, element_exists didn't
+      cli_joined: "fail",
+      messages_exchanged: "not_run",
+    });
+    assert.equal(sessionStatus(session), "failed");
+
+    const report = formatReport(session);
+    assert.match(report, /^# 12: Create Conversation from App — failed/);
+    assert.match(report, /\| conversation_created \| ✅ pass \| New conversation can be created from the app \| found .*message-text-field/);
+    assert.match(report, /\| invite_url_copied \| ❌ fail \| .* \| manual: clear_clipboard \(.*\); tap: element not found: "add-to-conversation-button" \|/);
+    assert.match(report, /\| messages_exchanged \| · not run \|/);
+  });
+});
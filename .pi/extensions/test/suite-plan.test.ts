@@ -0,0 +1,204 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compareTestIds, formatDuration, planSuite, type PlanOptions, type SuiteTest } from "../lib/suite-plan";
+
+type TestSpec = string[] | { deps?: string[]; tags?: string[]; blocked?: string; estimatedS?: number };
+
+/** A suite from `{ id: dependsOn }` or `{ id: { deps, tags, blocked, estimatedS } }`. */
+function suite(specs: Record<string, TestSpec>): Map<string, SuiteTest> {
+  return new Map(Object.entries(specs).map(([id, spec]) => {
+    const s = Array.isArray(spec) ? { deps: spec } : spec;
+    return [id, {
+      id,
+      name: `Test ${id}`,
+      file: `qa/tests/structured/${id}.yaml`,
+      dependsOn: s.deps ?? [],
+      tags: s.tags ?? [],
+      prerequisites: {},
+      estimatedS: s.estimatedS ?? null,
+      blocked: s.blocked ?? null,
+    }];
+  }));
+}
+
+interface Case {
+  name: string;
+  suite: Record<string, TestSpec>;
+  opts?: Partial<Omit<PlanOptions, "runStatuses">> & { run?: Record<string, string> };
+  /** Planned ids in run order. */
+  planned: string[];
+  /** "id status: reason" for everything else. */
+  skipped?: string[];
+  problems?: string[];
+}
+
+function plan(c: Case) {
+  const { run, ...opts } = c.opts ?? {};
+  return planSuite(suite(c.suite), {
+    includeDependencies: true,
+    resume: false,
+    ...opts,
+    ...(run ? { runStatuses: new Map(Object.entries(run)) } : {}),
+  });
+}
+
+describe("planSuite", () => {
+  const cases: Case[] = [
+    {
+      name: "orders by dependency, ties by natural id",
+      suite: { "12": ["9"], "9": [], "23b": [], "23": ["12"], "3": ["23b"] },
+      planned: ["9", "12", "23", "23b", "3"],
+    },
+    {
+      name: "pulls in dependencies of the selection",
+      suite: { "01": [], "02": ["01"], "03": ["02"], "04": [] },
+      opts: { ids: ["03"] },
+      planned: ["01", "02", "03"],
+    },
+    {
+      name: "leaves dependencies out when asked",
+      suite: { "01": [], "02": ["01"], "03": ["02"] },
+      opts: { ids: ["03"], includeDependencies: false },
+      planned: ["03"],
+    },
+    {
+      name: "selects by tag and excludes tags",
+      suite: { "01": { tags: ["smoke"] }, "02": { tags: ["smoke", "slow"] }, "03": { tags: ["invites"] } },
+      opts: { tags: ["smoke", "invites"], excludeTags: ["slow"] },
+      planned: ["01", "03"],
+    },
+    {
+      name: "reports unknown ids",
+      suite: { "01": [] },
+      opts: { ids: ["01", "99"] },
+      planned: ["01"],
+      problems: ["No structured test with id 99"],
+    },
+    {
+      name: "skips a cycle and cascades to its dependents",
+      suite: { "01": [], "05": ["06"], "06": ["07"], "07": ["05"], "08": ["06", "01"], "09": ["08"] },
+      planned: ["01"],
+      skipped: [
+        "05 cycle: in the dependency cycle 05 → 06 → 07 → 05",
+        "06 cycle: in the dependency cycle 05 → 06 → 07 → 05",
+        "07 cycle: in the dependency cycle 05 → 06 → 07 → 05",
+        "08 cascaded: depends on 06, which is in a dependency cycle",
+        "09 cascaded: depends on 08, which is skipped",
+      ],
+      problems: ["Dependency cycle: 05 → 06 → 07 → 05"],
+    },
+    {
+      name: "treats a self-dependency as a cycle",
+      suite: { "01": ["01"], "02": [] },
+      planned: ["02"],
+      skipped: ["01 cycle: in the dependency cycle 01 → 01"],
+      problems: ["Dependency cycle: 01 → 01"],
+    },
+    {
+      name: "cascades from missing and blocked dependencies",
+      suite: { "01": ["00"], "02": ["01"], "03": { blocked: "needs a second device" }, "04": ["03"] },
+      planned: [],
+      skipped: [
+        "01 missing_dependency: depends on 00, which doesn't exist",
+        "02 cascaded: depends on 01, which has a missing dependency",
+        "03 blocked: needs a second device",
+        "04 cascaded: depends on 03, which is blocked",
+      ],
+      problems: ["01 depends on 00, which doesn't exist"],
+    },
+    {
+      name: "cascades from failures in the run",
+      suite: { "01": [], "02": ["01"], "03": ["02"], "04": [] },
+      opts: { run: { "01": "fail", "04": "pass" } },
+      planned: [],
+      skipped: [
+        "01 failed: failed in this run",
+        "02 cascaded: depends on 01, which failed in this run",
+        "03 cascaded: depends on 02, which is skipped",
+        "04 done: passed in this run",
+      ],
+    },
+    {
+      name: "cascades from a failed dependency left out of the plan",
+      suite: { "01": [], "02": ["01"] },
+      opts: { ids: ["02"], includeDependencies: false, run: { "01": "error" } },
+      planned: [],
+      skipped: ["02 cascaded: depends on 01, which failed in this run"],
+    },
+    {
+      name: "resume retries failures and reruns their cascaded skips",
+      suite: { "01": [], "02": ["01"], "03": ["02"], "04": [], "05": [] },
+      opts: { resume: true, run: { "01": "fail", "02": "skip", "03": "skip", "04": "pass", "05": "running" } },
+      planned: ["01", "02", "03", "05"],
+      skipped: ["04 done: passed in this run"],
+    },
+    {
+      name: "resume leaves skips alone when nothing they need reruns",
+      suite: { "01": [], "02": ["01"], "03": [] },
+      opts: { resume: true, run: { "01": "pass", "02": "skip", "03": "skip" } },
+      planned: [],
+      skipped: ["01 done: passed in this run", "02 done: skipped in this run", "03 done: skipped in this run"],
+    },
+    {
+      name: "a dependency skipped in the run cascades",
+      suite: { "01": [], "02": ["01"] },
+      opts: { run: { "01": "skip" } },
+      planned: [],
+      skipped: ["01 done: skipped in this run", "02 cascaded: depends on 01, which was skipped in this run"],
+    },
+  ];
+  for (const c of cases) {
+    it(c.name, () => {
+      const result = plan(c);
+      assert.deepEqual(
+        {
+          planned: result.planned.map(e => e.test.id),
+          skipped: result.skipped.map(e => `${e.test.id} ${e.status}: ${e.reason}`),
+          problems: result.problems,
+        },
+        { planned: c.planned, skipped: c.skipped ?? [], problems: c.problems ?? [] },
+      );
+    });
+  }
+
+  it("explains why tests are planned again on resume", () => {
+    const result = plan({
+      name: "",
+      suite: { "01": [], "02": ["01"], "03": [] },
+      opts: { resume: true, run: { "01": "fail", "02": "skip", "03": "pending" } },
+      planned: [],
+    });
+    assert.deepEqual(result.planned.map(e => `${e.test.id}: ${e.reason}`), [
+      "01: retry: failed earlier in this run",
+      "02: again: skipped earlier, 01 runs again first",
+      "03: started earlier in this run, never finished",
+    ]);
+  });
+
+  it("totals estimates and counts unestimated tests", () => {
+    const result = plan({
+      name: "",
+      suite: { "01": { estimatedS: 90 }, "02": { estimatedS: 30 }, "03": {}, "04": { estimatedS: 600, blocked: "blocked" } },
+      planned: [],
+    });
+    assert.deepEqual({ totalS: result.totalS, unestimated: result.unestimated }, { totalS: 120, unestimated: 1 });
+  });
+
+  it("marks tests added as dependencies", () => {
+    const result = plan({ name: "", suite: { "01": [], "02": ["01"] }, opts: { ids: ["02"] }, planned: [] });
+    assert.deepEqual(result.planned.map(e => [e.test.id, e.addedAsDependency]), [["01", true], ["02", false]]);
+  });
+});
+
+describe("compareTestIds", () => {
+  it("sorts ids naturally", () => {
+    assert.deepEqual(["23b", "12", "9", "23", "01"].sort(compareTestIds), ["01", "9", "12", "23", "23b"]);
+  });
+});
+
+describe("formatDuration", () => {
+  const cases: [number, string][] = [[0, "0s"], [59, "59s"], [60, "1m"], [3599, "1h 00m"], [3600 + 5 * 60, "1h 05m"]];
+  for (const [s, text] of cases) {
+    it(`${s}s is ${text}`, () => assert.equal(formatDuration(s), text));
+  }
+});
@@ -0,0 +1,123 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SelectorView } from "../lib/selector";
+import { createSnapshotStore, diffSnapshots, formatDiff, takeSnapshot, type UIDiff } from "../lib/ui-diff";
+
+function view(type: string, id: string | null, label: string | null, over: Partial<SelectorView> = {}): SelectorView {
+  return { id, label, value: null, type, enabled: true, frame: { x: 0, y: 100, width: 60, height: 44 }, ...over };
+}
+
+const snapshot = (views: SelectorView[]) => takeSnapshot(views, v => v);
+
+/** Keys per section, and the changed fields by key. */
+function summary(diff: UIDiff) {
+  return {
+    added: diff.added.map(e => e.key),
+    removed: diff.removed.map(e => e.key),
+    changed: Object.fromEntries(diff.changed.map(c => [c.key, c.fields])),
+    unchanged: diff.unchanged,
+  };
+}
+
+describe("takeSnapshot", () => {
+  it("keys by identifier, then type and label, then type and position, numbering repeats", () => {
+    const keys = snapshot([
+      view("Button", "send-button", "Send"),
+      view("Button", null, "Delete"),
+      view("Button", null, "Delete"),
+      view("Image", null, null, { frame: { x: 14, y: 96, width: 20, height: 20 } }),
+    ]).elements.map(e => e.key);
+    assert.deepEqual(keys, ["id:send-button", 'Button:"Delete"', 'Button:"Delete"#2', "Image@10,100"]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  const send = view("Button", "send-button", "Send");
+  const title = view("StaticText", null, "Chats", { frame: { x: 20, y: 60, width: 100, height: 20 } });
+
+  const cases: [string, SelectorView[], SelectorView[], ReturnType<typeof summary>][] = [
+    ["the same screen", [send, title], [send, title], { added: [], removed: [], changed: {}, unchanged: 2 }],
+    [
+      "an element appearing and one going away",
+      [send],
+      [view("TextField", "message-text-field", null)],
+      { added: ["id:message-text-field"], removed: ["id:send-button"], changed: {}, unchanged: 0 },
+    ],
+    [
+      "an identified element's label, value and state",
+      [send],
+      [{ ...send, label: "Sending", value: "1", enabled: false }],
+      { added: [], removed: [], changed: { "id:send-button": ["label", "value", "enabled"] }, unchanged: 0 },
+    ],
+    [
+      "a move past the tolerance",
+      [send],
+      [{ ...send, frame: { ...send.frame, y: 102 } }],
+      { added: [], removed: [], changed: { "id:send-button": ["frame"] }, unchanged: 0 },
+    ],
+    ["a move within the tolerance", [send], [{ ...send, frame: { ...send.frame, y: 100.5 } }], { added: [], removed: [], changed: {}, unchanged: 1 }],
+    [
+      "a label element that moved",
+      [title],
+      [{ ...title, frame: { ...title.frame, y: 200 } }],
+      { added: [], removed: [], changed: { 'StaticText:"Chats"': ["frame"] }, unchanged: 0 },
+    ],
+    [
+      "a label changing in place without an identifier",
+      [send, title],
+      [send, { ...title, label: "Chats (2)" }],
+      { added: [], removed: [], changed: { 'StaticText:"Chats (2)"': ["label"] }, unchanged: 1 },
+    ],
+    [
+      "a label appearing on an element without one",
+      [view("Button", null, null)],
+      [view("Button", null, "Close")],
+      { added: [], removed: [], changed: { 'Button:"Close"': ["label"] }, unchanged: 0 },
+    ],
+    [
+      "a different label somewhere else",
+      [title],
+      [{ ...title, label: "Settings", frame: { ...title.frame, y: 300 } }],
+      { added: ['StaticText:"Settings"'], removed: ['StaticText:"Chats"'], changed: {}, unchanged: 0 },
+    ],
+    [
+      "a different type in the same spot",
+      [view("Button", null, "Edit")],
+      [view("StaticText", null, "Editing")],
+      { added: ['StaticText:"Editing"'], removed: ['Button:"Edit"'], changed: {}, unchanged: 0 },
+    ],
+    [
+      "an identified element replaced in the same spot",
+      [send],
+      [view("Button", "stop-button", "Stop")],
+      { added: ["id:stop-button"], removed: ["id:send-button"], changed: {}, unchanged: 0 },
+    ],
+  ];
+  for (const [name, before, after, expected] of cases) {
+    it(name, () => assert.deepEqual(summary(diffSnapshots(snapshot(before), snapshot(after))), expected));
+  }
+});
+
+describe("formatDiff", () => {
+  it("lists each section under a count line", () => {
+    const before = snapshot([view("Button", "send-button", "Send"), view("StaticText", null, "Chats")]);
+    const after = snapshot([view("StaticText", null, "Chats (2)"), view("Button", "close-button", "Close")]);
+    const text = formatDiff(diffSnapshots(before, after), before);
+    assert.match(text, /^UI changes since the observation \d+\.\ds ago: \+1 -1 ~1 \(0 unchanged\)\n/);
+    assert.match(text, /\n\+ id=close-button "Close" \[Button\]\n- id=send-button "Send" \[Button\]\n~ \(no id\) "Chats" \[StaticText\]: label "Chats" → "Chats \(2\)"$/);
+  });
+
+  it("says when nothing changed", () => {
+    const before = snapshot([view("Button", "send-button", "Send")]);
+    assert.match(formatDiff(diffSnapshots(before, before), before), /^No UI changes since the observation \d+\.\ds ago \(1 elements\)\.$/);
+  });
+});
+
+describe("snapshot store", () => {
+  it("records a baseline first, then diffs against the last observation", () => {
+    const store = createSnapshotStore();
+    assert.match(store.record("A", snapshot([view("Button", "send-button", "Send")])), /recorded 1 elements as the baseline/);
+    assert.match(store.record("A", snapshot([])), /-1 ~0/);
+    assert.equal(store.has("B"), false);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import * as path from "node:path";
+import { parseYaml, YamlError } from "../lib/yaml";
+
+const doc = (...lines: string[]) => lines.join("\n");
+
+describe("parseYaml", () => {
+  const cases: [string, string, unknown][] = [
+    ["empty document", "", null],
+    ["comment only", "# nothing here", null],
+    ["plain scalars", doc("a: hello world", "b: 42", "c: -1.5", "d: true", "e: ~", "f:"), { a: "hello world", b: 42, c: -1.5, d: true, e: null, f: null }],
+    ["quoted scalars", doc(`a: "x: y # not a comment"`, `b: 'it''s'`, `c: "tab\\there"`, `"quoted key": 1`), { a: "x: y # not a comment", b: "it's", c: "tab\there", "quoted key": 1 }],
+    ["numbers that stay strings", doc("version: 1.2.3", "id: 04a", "time: 12:30"), { version: "1.2.3", id: "04a", time: "12:30" }],
+    ["trailing comments", doc("a: 1 # one", "b: x#y"), { a: 1, b: "x#y" }],
+    ["nested maps", doc("app:", "  name: Convos", "  build:", "    number: 7"), { app: { name: "Convos", build: { number: 7 } } }],
+    ["sequences", doc("tags:", "  - smoke", "  - invites"), { tags: ["smoke", "invites"] }],
+    ["sequence at the key's indent", doc("tags:", "- smoke", "- invites", "next: 1"), { tags: ["smoke", "invites"], next: 1 }],
+    [
+      "sequence of maps",
+      doc("steps:", "  - tap: compose-button", "    wait: 2", "  - type: hello", "  -", "    nested: yes"),
+      { steps: [{ tap: "compose-button", wait: 2 }, { type: "hello" }, { nested: "yes" }] },
+    ],
+    ["nested sequences", doc("- - a", "  - b", "- c"), [["a", "b"], "c"]],
+    ["flow collections", doc("a: { x: 1, y: [2, 'three', \"f,our\"] }", "b: []", "c: {}"), { a: { x: 1, y: [2, "three", "f,our"] }, b: [], c: {} }],
+    ["literal block", doc("text: |", "  line one", "    indented", "", "  line three", "after: 1"), { text: "line one\n  indented\n\nline three\n", after: 1 }],
+    ["literal block, strip", doc("text: |-", "  one", "  two"), { text: "one\ntwo" }],
+    ["folded block", doc("text: >", "  one", "  two", "", "  three"), { text: "one two\nthree\n" }],
+    ["folded block keeps indented lines", doc("text: >-", "  one", "    code", "  two"), { text: "one\n  code\ntwo" }],
+    ["multi-line plain scalar", doc("note: this goes", "  on and on", "next: 1"), { note: "this goes on and on", next: 1 }],
+    ["multi-line quoted scalar", doc(`note: "this goes`, `  on"`), { note: "this goes on" }],
+    ["CRLF line endings", "a: 1\r\nb: 2\r\n", { a: 1, b: 2 }],
+  ];
+  for (const [name, source, expected] of cases) {
+    it(name, () => assert.deepEqual(parseYaml(source), expected));
+  }
+
+  const errors: [string, string, RegExp][] = [
+    ["tab indentation", "a:\n\tb: 1", /Tabs are not allowed for indentation \(line 2\)/],
+    ["unterminated double quote", `a: "open`, /Unterminated quoted string \(line 1\)/],
+    ["unterminated single quote", "a: 'open", /Unterminated quoted string \(line 1\)/],
+    ["unterminated flow mapping", "a: { x: 1", /Expected ',' or '}' in flow mapping \(line 1\)/],
+    ["unterminated flow sequence", "a: [1, 2", /Expected ',' or '\]' in flow sequence \(line 1\)/],
+    ["unterminated flow quote", "a: ['x, 2]", /Unterminated quoted string in flow collection/],
+    ["flow trailing content", "a: [1] x", /Unexpected trailing content/],
+    ["bad mapping indentation", doc("a:", "    b: 1", "  c: 2"), /Bad indentation in mapping \(line 3\)/],
+    ["bad sequence indentation", doc("- a", "   - b"), /Bad indentation in sequence \(line 2\)/],
+    ["scalar inside a mapping", doc("a: 1", "just text"), /Expected "key: value", got "just text" \(line 2\)/],
+  ];
+  for (const [name, source, message] of errors) {
+    it(`rejects ${name}`, () => {
+      assert.throws(() => parseYaml(source), (e: unknown) => e instanceof YamlError && message.test(e.message));
+    });
+  }
+
+  it("reads every structured test in qa/tests/structured", () => {
+    const dir = path.resolve(__dirname, "../../../qa/tests/structured");
+    const files = readdirSync(dir).filter(f => f.endsWith(".yaml"));
+    assert.ok(files.length > 0);
+    for (const file of files) {
+      const parsed = parseYaml(readFileSync(path.join(dir, file), "utf-8"));
+      assert.equal(typeof parsed, "object", file);
+    }
+  });
+});
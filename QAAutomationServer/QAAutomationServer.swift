@@ -9,6 +9,8 @@
 /// 2. Send POST requests to http://localhost:8615/action
 /// 3. Available actions: observeScreen, tapElement, fillField, tapCoordinate,
 ///    swipe, scrollUntilVisible, waitForElement, pressKey, longPress, doubleTap, ping
+/// 4. Element actions take identifier/label/labelContains, or a `selector` built by
+///    .pi/extensions/lib/selector.ts (see SelectorMatch)
 
 import Foundation
 import Network
@@ -60,6 +62,8 @@ struct QAResponse: Codable {
     var tappedElement: UIElementInfo?
     var error: String?
     var durationMs: Int?
+    /// Candidates when a selector matched more than one element.
+    var matches: [UIElementInfo]?
 }
 
 // MARK: - AnyCodable for flexible params
@@ -97,6 +101,8 @@ struct AnyCodable: Codable {
         case let v as Double: try container.encode(v)
         case let v as Bool: try container.encode(v)
         case let v as String: try container.encode(v)
+        case let v as [Any]: try container.encode(v.map(AnyCodable.init))
+        case let v as [String: Any]: try container.encode(v.mapValues(AnyCodable.init))
         default: try container.encodeNil()
         }
     }
@@ -169,6 +175,135 @@ enum ElementMatch {
     }
 }
 
+// MARK: - Selectors
+
+/// One level of a selector sent by the QA tools (.pi/extensions/lib/selector.ts
+/// parses the text form). Scopes run outermost first: each one searches the
+/// descendants of the previous scope's matches.
+struct SelectorScope {
+    let elementType: XCUIElement.ElementType
+    let predicate: NSPredicate?
+    /// Bare word matched the legacy way: exact id, id prefix, exact label, label substring.
+    let fuzzy: String?
+    /// 0-based position among the scope's matches; negative counts from the end.
+    let index: Int?
+}
+
+enum SelectorResolution {
+    case found(XCUIElement)
+    case notFound
+    case ambiguous(count: Int, candidates: [XCUIElement])
+}
+
+enum SelectorMatch {
+    static let candidateLimit = 10
+
+    /// Decode `params.selector` ({ scopes: [{ terms, fuzzy?, index? }] }). Throws a readable message on bad input.
+    static func parse(_ raw: Any) throws -> [SelectorScope] {
+        guard let dict = raw as? [String: Any],
+              let scopes = dict["scopes"] as? [[String: Any]], !scopes.isEmpty else {
+            throw SelectorError("selector must be an object with a non-empty scopes array")
+        }
+        return try scopes.map { scope -> SelectorScope in
+            var elementType: XCUIElement.ElementType = .any
+            var predicates: [NSPredicate] = []
+            for term in scope["terms"] as? [[String: Any]] ?? [] {
+                guard let field = term["field"] as? String,
+                      let op = term["op"] as? String,
+                      let value = term["value"] as? String else {
+                    throw SelectorError("selector term needs field, op and value")
+                }
+                if field == "type" {
+                    guard let type = ElementInfoBuilder.elementType(named: value) else {
+                        throw SelectorError("unknown element type \"\(value)\"")
+                    }
+                    elementType = type
+                } else if field == "enabled" {
+                    predicates.append(NSPredicate(format: "enabled == %@", NSNumber(value: value == "true")))
+                } else {
+                    try predicates.append(predicate(
+                        field: field, op: op, value: value,
+                        ignoreCase: term["ignoreCase"] as? Bool ?? false
+                    ))
+                }
+            }
+            return SelectorScope(
+                elementType: elementType,
+                predicate: predicates.isEmpty ? nil : NSCompoundPredicate(andPredicateWithSubpredicates: predicates),
+                fuzzy: scope["fuzzy"] as? String,
+                index: scope["index"] as? Int
+            )
+        }
+    }
+
+    private static func predicate(field: String, op: String, value: String, ignoreCase: Bool) throws -> NSPredicate {
+        let key: String
+        switch field {
+        case "id": key = "identifier"
+        case "label": key = "label"
+        case "value": key = "value"
+        default: throw SelectorError("unknown selector field \"\(field)\"")
+        }
+        switch op {
+        case "=": return NSPredicate(format: "%K == %@", key, value)
+        case "^=": return NSPredicate(format: "%K BEGINSWITH %@", key, value)
+        case "*=": return NSPredicate(format: "%K CONTAINS[c] %@", key, value)
+        case "~=":
+            // MATCHES is anchored; the TS side treats regexes as searches
+            let pattern = (ignoreCase ? "(?i)" : "") + "(?s).*(?:" + value + ").*"
+            return NSPredicate(format: "%K MATCHES %@", key, pattern)
+        default: throw SelectorError("unknown selector operator \"\(op)\"")
+        }
+    }
+
+    private static func applyFuzzy(_ word: String, to query: XCUIElementQuery) -> XCUIElementQuery {
+        let tiers = [
+            NSPredicate(format: "identifier == %@", word),
+            NSPredicate(format: "identifier BEGINSWITH %@", word),
+            NSPredicate(format: "label == %@", word),
+            NSPredicate(format: "label CONTAINS[c] %@", word),
+        ]
+        for tier in tiers.dropLast() {
+            let narrowed = query.matching(tier)
+            if narrowed.count > 0 { return narrowed }
+        }
+        return query.matching(tiers[tiers.count - 1])
+    }
+
+    static func resolve(in root: XCUIElement, scopes: [SelectorScope]) -> SelectorResolution {
+        var descend: (XCUIElement.ElementType) -> XCUIElementQuery = root.descendants(matching:)
+        for (i, scope) in scopes.enumerated() {
+            var query = descend(scope.elementType)
+            if let predicate = scope.predicate { query = query.matching(predicate) }
+            if let fuzzy = scope.fuzzy { query = applyFuzzy(fuzzy, to: query) }
+            let count = query.count
+            let isTarget = i == scopes.count - 1
+
+            if let index = scope.index {
+                let position = index < 0 ? count + index : index
+                guard position >= 0, position < count else { return .notFound }
+                let element = query.element(boundBy: position)
+                if isTarget { return .found(element) }
+                descend = element.descendants(matching:)
+                continue
+            }
+            if count == 0 { return .notFound }
+            if isTarget {
+                if count == 1 { return .found(query.element(boundBy: 0)) }
+                let shown = min(count, candidateLimit)
+                return .ambiguous(count: count, candidates: (0..<shown).map { query.element(boundBy: $0) })
+            }
+            descend = query.descendants(matching:)
+        }
+        return .notFound
+    }
+}
+
+struct SelectorError: Error {
+    let message: String
+    init(_ message: String) { self.message = message }
+}
+
 // MARK: - Element Info Builder
 
 enum ElementInfoBuilder {
@@ -320,6 +455,18 @@ enum ElementInfoBuilder {
         default: return "unknown"
         }
     }
+
+    /// The element type for a name from `elementTypeName` (or idb's "Button", "TextField"), any case.
+    static func elementType(named name: String) -> XCUIElement.ElementType? {
+        if name.lowercased() == "any" { return .any }
+        let types: [XCUIElement.ElementType] = [
+            .button, .staticText, .textField, .secureTextField, .textView, .image, .cell,
+            .table, .collectionView, .scrollView, .navigationBar, .tabBar, .toolbar,
+            .switch, .slider, .alert, .sheet, .popUpButton, .menuButton, .menu,
+            .menuItem, .link, .toggle, .searchField, .window, .group, .other, .application,
+        ]
+        return types.first { elementTypeName($0).lowercased() == name.lowercased() }
+    }
 }
 
 // MARK: - Screen State Builder
@@ -475,15 +622,18 @@ class CommandHandler {
         let labelContains = params["labelContains"]?.stringValue
         let timeout = params["timeout"]?.doubleValue ?? 5.0
 
-        guard identifier != nil || label != nil || labelContains != nil else {
-            return errorResponse("tapElement requires identifier, label, or labelContains")
+        guard identifier != nil || label != nil || labelContains != nil || params["selector"] != nil else {
+            return errorResponse("tapElement requires identifier, label, labelContains, or selector")
         }
 
         var t0 = CFAbsoluteTimeGetCurrent()
-        guard let element = waitAndFind(
-            identifier: identifier, label: label, labelContains: labelContains,
-            timeout: timeout
-        ) else {
+        let element: XCUIElement
+        switch locate(params, timeout: timeout) {
+        case .element(let found):
+            element = found
+        case .failure(let response):
+            return response
+        case .notFound:
             let state = shouldObserve ? ScreenStateBuilder.capture(app: app) : nil
             return QAResponse(
                 success: false, message: nil, screenState: state, tappedElement: nil,
@@ -536,9 +686,17 @@ class CommandHandler {
         let clearFirst = params["clearFirst"]?.boolValue ?? false
         let timeout = params["timeout"]?.doubleValue ?? 5.0
 
-        guard let element = waitAndFindTextField(
-            identifier: identifier, label: label, timeout: timeout
-        ) else {
+        let found: XCUIElement?
+        if params["selector"] != nil {
+            switch locate(params, timeout: timeout) {
+            case .element(let element): found = element
+            case .failure(let response): return response
+            case .notFound: found = nil
+            }
+        } else {
+            found = waitAndFindTextField(identifier: identifier, label: label, timeout: timeout)
+        }
+        guard let element = found else {
             let state = ScreenStateBuilder.capture(app: app)
             return QAResponse(
                 success: false, message: nil, screenState: state, tappedElement: nil,
@@ -595,7 +753,13 @@ class CommandHandler {
         let identifier = params["identifier"]?.stringValue
         let target: XCUIElement
 
-        if let id = identifier,
+        if params["selector"] != nil {
+            switch locate(params, timeout: 0) {
+            case .element(let found): target = found
+            case .failure(let response): return response
+            case .notFound: return errorResponse("Swipe target not found")
+            }
+        } else if let id = identifier,
            let found = ElementMatch.find(in: app, identifier: id, label: nil, labelContains: nil, elementType: nil) {
             target = found
         } else {
@@ -628,10 +792,20 @@ class CommandHandler {
         let maxSwipes = params["maxSwipes"]?.intValue ?? 10
 
         for _ in 0..<maxSwipes {
-            if let el = ElementMatch.find(
-                in: app, identifier: identifier, label: label,
-                labelContains: labelContains, elementType: nil
-            ), el.isHittable {
+            var visible: XCUIElement?
+            if params["selector"] != nil {
+                switch locate(params, timeout: 0) {
+                case .element(let found): visible = found
+                case .failure(let response): return response
+                case .notFound: visible = nil
+                }
+            } else {
+                visible = ElementMatch.find(
+                    in: app, identifier: identifier, label: label,
+                    labelContains: labelContains, elementType: nil
+                )
+            }
+            if let el = visible, el.isHittable {
                 let info = ElementInfoBuilder.build(from: el, depth: 0, maxDepth: 0)
                 let state = captureIfNeeded()
                 return QAResponse(success: true, message: "Found after scrolling", screenState: state, tappedElement: info, error: nil)
@@ -658,15 +832,15 @@ class CommandHandler {
             return errorResponse("waitForElement requires params")
         }
 
-        let identifier = params["identifier"]?.stringValue
-        let label = params["label"]?.stringValue
-        let labelContains = params["labelContains"]?.stringValue
         let timeout = params["timeout"]?.doubleValue ?? 5.0
 
-        guard let element = waitAndFind(
-            identifier: identifier, label: label, labelContains: labelContains,
-            timeout: timeout
-        ) else {
+        let element: XCUIElement
+        switch locate(params, timeout: timeout) {
+        case .element(let found):
+            element = found
+        case .failure(let response):
+            return response
+        case .notFound:
             let state = ScreenStateBuilder.capture(app: app)
             return QAResponse(
                 success: false, message: nil, screenState: state, tappedElement: nil,
@@ -708,16 +882,16 @@ class CommandHandler {
             return errorResponse("longPress requires params")
         }
 
-        let identifier = params["identifier"]?.stringValue
-        let label = params["label"]?.stringValue
-        let labelContains = params["labelContains"]?.stringValue
         let duration = params["duration"]?.doubleValue ?? 1.0
         let timeout = params["timeout"]?.doubleValue ?? 5.0
 
-        guard let element = waitAndFind(
-            identifier: identifier, label: label, labelContains: labelContains,
-            timeout: timeout
-        ) else {
+        let element: XCUIElement
+        switch locate(params, timeout: timeout) {
+        case .element(let found):
+            element = found
+        case .failure(let response):
+            return response
+        case .notFound:
             let state = ScreenStateBuilder.capture(app: app)
             return QAResponse(
                 success: false, message: nil, screenState: state, tappedElement: nil,
@@ -737,15 +911,15 @@ class CommandHandler {
             return errorResponse("doubleTap requires params")
         }
 
-        let identifier = params["identifier"]?.stringValue
-        let label = params["label"]?.stringValue
-        let labelContains = params["labelContains"]?.stringValue
         let timeout = params["timeout"]?.doubleValue ?? 5.0
 
-        guard let element = waitAndFind(
-            identifier: identifier, label: label, labelContains: labelContains,
-            timeout: timeout
-        ) else {
+        let element: XCUIElement
+        switch locate(params, timeout: timeout) {
+        case .element(let found):
+            element = found
+        case .failure(let response):
+            return response
+        case .notFound:
             let state = ScreenStateBuilder.capture(app: app)
             return QAResponse(
                 success: false, message: nil, screenState: state, tappedElement: nil,
@@ -792,6 +966,66 @@ class CommandHandler {
         return nil
     }
 
+    private enum Located {
+        case element(XCUIElement)
+        case notFound
+        /// Invalid or ambiguous selector, already a response.
+        case failure(QAResponse)
+    }
+
+    /// The element for `params.selector`, or for the identifier/label/labelContains
+    /// query. A selector that matches several elements fails with the candidates
+    /// rather than acting on the first one.
+    private func locate(_ params: [String: AnyCodable], timeout: TimeInterval) -> Located {
+        guard let raw = params["selector"]?.value else {
+            let element = waitAndFind(
+                identifier: params["identifier"]?.stringValue,
+                label: params["label"]?.stringValue,
+                labelContains: params["labelContains"]?.stringValue,
+                timeout: timeout
+            )
+            return element.map(Located.element) ?? .notFound
+        }
+
+        let scopes: [SelectorScope]
+        do {
+            scopes = try SelectorMatch.parse(raw)
+        } catch {
+            return .failure(errorResponse("Invalid selector: \((error as? SelectorError)?.message ?? "\(error)")"))
+        }
+
+        switch waitAndResolve(scopes, timeout: timeout) {
+        case .found(let element):
+            return .element(element)
+        case .notFound:
+            return .notFound
+        case let .ambiguous(count, candidates):
+            var response = errorResponse("Selector matched \(count) elements")
+            response.matches = candidates.map { ElementInfoBuilder.build(from: $0, depth: 0, maxDepth: 0) }
+            return .failure(response)
+        }
+    }
+
+    private func waitAndResolve(_ scopes: [SelectorScope], timeout: TimeInterval) -> SelectorResolution {
+        let deadline = Date().addingTimeInterval(timeout)
+
+        repeat {
+            let inApp = SelectorMatch.resolve(in: app, scopes: scopes)
+            if case .notFound = inApp {
+                // Springboard too (share sheets, system dialogs)
+                let inSpringboard = SelectorMatch.resolve(in: springboard, scopes: scopes)
+                if case .notFound = inSpringboard {
+                    Thread.sleep(forTimeInterval: 0.1)
+                    continue
+                }
+                return inSpringboard
+            }
+            return inApp
+        } while Date() < deadline
+
+        return .notFound
+    }
+
     private func waitAndFindTextField(
         identifier: String?,
         label: String?,
@@ -230,6 +230,45 @@ case "$cmd" in
         sqlite3 -header -column "$DB" "SELECT taken_at, test_id, step_id, path, caption FROM screenshots WHERE $local_where ORDER BY id;"
         ;;
 
+    log-recording)
+        # Record a screen recording captured during a test. Path is relative
+        # to the run's artifact dir (e.g. "videos/20250101T120000-05-react-4242.mp4").
+        # sim_record_video_stop registers its recordings itself.
+        # Usage: cxdb.sh log-recording <run_id> <test_id> <step_id> <path> [duration_s] [caption]
+        local_run="${1:?run_id required}"
+        local_test="${2:?test_id required}"
+        local_step="${3:?step_id required}"
+        local_path="${4:?path required}"
+        local_duration="${5:-NULL}"
+        local_caption="${6:-}"
+        sqlite3 "$DB" "INSERT INTO screen_recordings (run_id, test_id, step_id, path, duration_s, caption) VALUES ('$local_run', '$local_test', '$(echo "$local_step" | sed "s/'/''/g")', '$(echo "$local_path" | sed "s/'/''/g")', $local_duration, '$(echo "$local_caption" | sed "s/'/''/g")');"
+        echo "ok"
+        ;;
+
+    recordings)
+        # List screen recordings for a run, optionally filtered by test.
+        # Usage: cxdb.sh recordings <run_id> [test_id]
+        local_run="${1:?run_id required}"
+        local_test="${2:-}"
+        local_where="run_id='$local_run'"
+        if [ -n "$local_test" ]; then
+            local_where="$local_where AND test_id='$local_test'"
+        fi
+        sqlite3 -header -column "$DB" "SELECT recorded_at, test_id, step_id, duration_s, path, caption FROM screen_recordings WHERE $local_where ORDER BY id;"
+        ;;
+
+    comparisons)
+        # List golden-screenshot comparisons (sim_screenshot_compare) for a run.
+        # Usage: cxdb.sh comparisons <run_id> [test_id]
+        local_run="${1:?run_id required}"
+        local_test="${2:-}"
+        local_where="run_id='$local_run'"
+        if [ -n "$local_test" ]; then
+            local_where="$local_where AND test_id='$local_test'"
+        fi
+        sqlite3 -header -column "$DB" "SELECT created_at, test_id, step_id, status, printf('%.4f', similarity) AS similarity, diff_path FROM screenshot_comparisons WHERE $local_where ORDER BY id;"
+        ;;
+
     events)
         # List app events for a run, optionally filtered by test or event name.
         # Usage: cxdb.sh events <run_id> [test_id] [event_name_pattern]
@@ -441,8 +480,11 @@ case "$cmd" in
         echo "  log-a11y <run_id> <test_id> <purpose> <recommendation>"
         echo "  log-perf <run_id> <test_id> <metric> <value_ms> <target_ms>"
         echo "  log-screenshot <run_id> <test_id> <step_id> <path> [caption]"
+        echo "  log-recording <run_id> <test_id> <step_id> <path> [duration_s] [caption]"
         echo "  events <run_id> [test_id] [event_name_pattern]  List app events"
         echo "  screenshots <run_id> [test_id]              List screenshots"
+        echo "  comparisons <run_id> [test_id]              List screenshot baseline comparisons"
+        echo "  recordings <run_id> [test_id]               List screen recordings"
         echo ""
         echo "Reporting:"
         echo "  summary <run_id>                            Print summary"
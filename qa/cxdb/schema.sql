@@ -127,6 +127,39 @@ CREATE TABLE IF NOT EXISTS screenshots (
     taken_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
 );
 
+-- Golden-screenshot comparisons (sim_screenshot_compare). baseline_path is
+-- relative to qa/artifacts/ (baselines/<test>/<step>.png); actual_path and
+-- diff_path are relative to the run's artifact directory, like screenshots.
+CREATE TABLE IF NOT EXISTS screenshot_comparisons (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    test_id TEXT,
+    step_id TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pass', 'fail', 'new_baseline', 'accepted', 'size_mismatch')),
+    similarity REAL,
+    min_similarity REAL,
+    differing_pixels INTEGER,
+    masked_pixels INTEGER,
+    baseline_path TEXT NOT NULL,
+    actual_path TEXT,
+    diff_path TEXT,
+    created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+);
+
+-- Screen recordings (sim_record_video_start/stop). Paths are relative to the
+-- run's artifact directory, like screenshots (videos/<file>.mp4).
+CREATE TABLE IF NOT EXISTS screen_recordings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id TEXT NOT NULL,
+    test_id TEXT,
+    step_id TEXT,
+    caption TEXT,
+    path TEXT NOT NULL,
+    duration_s REAL,
+    bytes INTEGER,
+    recorded_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%SZ', 'now'))
+);
+
 -- App events captured from [EVENT] log lines during test execution
 CREATE TABLE IF NOT EXISTS app_events (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -148,3 +181,5 @@ CREATE INDEX IF NOT EXISTS idx_perf_measurements_run ON perf_measurements(run_id
 CREATE INDEX IF NOT EXISTS idx_app_events_run ON app_events(run_id, test_id);
 CREATE INDEX IF NOT EXISTS idx_app_events_name ON app_events(run_id, event_name);
 CREATE INDEX IF NOT EXISTS idx_screenshots_run ON screenshots(run_id, test_id);
+CREATE INDEX IF NOT EXISTS idx_screenshot_comparisons_run ON screenshot_comparisons(run_id, test_id);
+CREATE INDEX IF NOT EXISTS idx_screen_recordings_run ON screen_recordings(run_id, test_id);
@@ -159,6 +159,19 @@ check "log-perf marks passed=1 when value<=target" "$PERF_PASSED" "1"
 PERF_FAILED=$("$CXDB" sql "SELECT COUNT(*) FROM perf_measurements WHERE run_id='$RUN' AND passed=0" 2>/dev/null | awk 'NR>=3 {print $1}' | head -1)
 check "log-perf marks passed=0 when value>target" "$PERF_FAILED" "1"
 
+# screenshot_comparisons rows are written by sim_screenshot_compare, not cxdb.sh
+"$CXDB" sql "INSERT INTO screenshot_comparisons (run_id, test_id, step_id, status, similarity, min_similarity, baseline_path, diff_path) VALUES ('$RUN', '99', 'home', 'fail', 0.9731, 0.99, 'baselines/99/home.png', 'diffs/home-diff.png')" >/dev/null 2>&1
+COMPARISONS=$("$CXDB" comparisons "$RUN" "99" 2>/dev/null)
+check_contains "comparisons lists the step and its status" "$COMPARISONS" "home"
+check_contains "comparisons shows the similarity" "$COMPARISONS" "0.9731"
+
+"$CXDB" log-recording "$RUN" "99" "react" "videos/react.mp4" "12.5" "reaction flicker" >/dev/null 2>&1
+"$CXDB" log-recording "$RUN" "100" "send" "videos/send.mp4" >/dev/null 2>&1
+RECORDINGS=$("$CXDB" recordings "$RUN" "99" 2>/dev/null)
+check_contains "recordings lists the file" "$RECORDINGS" "videos/react.mp4"
+check_contains "recordings shows the duration" "$RECORDINGS" "12.5"
+check "recordings filters by test" "$(printf "%s\n" "$RECORDINGS" | grep -c "videos/send.mp4")" "0"
+
 # -----------------------------------------------------------------------------
 echo
 echo "## Reporting (summary, report-md, history)"
@@ -203,6 +216,19 @@ CMP=$("$CXDB" compare "$RUN_OLD" "$RUN_NEW" 2>/dev/null)
 check_contains "compare lists test 100 as regression (passed → failed)" "$CMP" "100"
 check_contains "compare lists test 99 as fix (failed → passed)" "$CMP" "99"
 
+# -----------------------------------------------------------------------------
+echo
+echo "## export-run.py (JUnit XML and TAP)"
+EXPORT="$SCRIPT_DIR/../scripts/export-run.py"
+JUNIT=$(python3 "$EXPORT" "$RUN_NEW" --db "$TMP_DIR/qa.sqlite" -o - 2>&1)
+check_contains "JUnit export has a testcase for test 100" "$JUNIT" 'classname="qa.100"'
+check_contains "JUnit export marks test 100 failed" "$JUNIT" '<failure'
+PARSED=$(printf '%s' "$JUNIT" | python3 -c "import sys, xml.etree.ElementTree as ET; print(ET.fromstring(sys.stdin.read()).get('failures'))" 2>&1)
+check "JUnit export is well-formed and counts 1 failure" "$PARSED" "1"
+TAP=$(python3 "$EXPORT" "$RUN_NEW" --db "$TMP_DIR/qa.sqlite" --format tap 2>&1)
+check_contains "TAP export plans every test" "$TAP" "1..2"
+check_contains "TAP export reports test 100 as not ok" "$TAP" "not ok 2 - 100 Smoke Test 100"
+
 # -----------------------------------------------------------------------------
 echo
 echo "## reset"
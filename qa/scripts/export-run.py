@@ -0,0 +1,245 @@
+#!/usr/bin/env python3
+"""export-run.py -- export a QA run from CXDB as JUnit XML or TAP.
+
+CI dashboards read JUnit XML, not the HTML artifact generate-artifact.py
+writes. The run becomes one <testsuite>, each test_results row one
+<testcase> (a retried test appears once per attempt), and each
+criteria_results row a property of its testcase, or with --criteria-as cases
+a testcase of its own. Failures carry the error_message and the failing
+criteria's evidence. Screenshots and screen recordings are attached through
+system-out as [[ATTACHMENT|path]] lines, the convention the Jenkins and
+GitLab JUnit readers pick up; paths are relative to the repo root.
+
+TAP (version 13) is for a quick look in the terminal: one line per test, with
+failing criteria in the YAML block under a failure.
+
+Usage:
+    export-run.py <run_id>                    # JUnit to qa/artifacts/run-<run_id>/junit.xml
+    export-run.py <run_id> --format tap       # TAP to stdout
+    export-run.py --latest -o -               # JUnit for the most recent run, to stdout
+    export-run.py <run_id> --criteria-as cases -o report.xml
+"""
+
+import argparse
+import sqlite3
+import sys
+import xml.etree.ElementTree as ET
+from pathlib import Path
+
+REPO_ROOT = Path(__file__).resolve().parents[2]
+DB_PATH = REPO_ROOT / "qa" / "cxdb" / "qa.sqlite"
+
+RUN_PROPERTIES = ("status", "build_commit", "device_type", "simulator_udid", "app_bundle_id", "notes")
+
+
+def load_run(conn, run_id):
+    conn.row_factory = sqlite3.Row
+    run = conn.execute("SELECT * FROM test_runs WHERE id=?", (run_id,)).fetchone()
+    if run is None:
+        sys.exit(f"error: no run '{run_id}' in the CXDB")
+    tests = [dict(r) for r in conn.execute(
+        "SELECT * FROM test_results WHERE run_id=? ORDER BY started_at, rowid", (run_id,))]
+    criteria = {}
+    for row in conn.execute(
+            "SELECT cr.* FROM criteria_results cr JOIN test_results tr ON cr.test_result_id=tr.id "
+            "WHERE tr.run_id=? ORDER BY cr.rowid", (run_id,)):
+        criteria.setdefault(row["test_result_id"], []).append(dict(row))
+    attachments = {}
+    for row in conn.execute("SELECT test_id, path FROM screenshots WHERE run_id=? ORDER BY id", (run_id,)):
+        attachments.setdefault(row["test_id"], []).append(row["path"])
+    try:
+        for row in conn.execute("SELECT test_id, path FROM screen_recordings WHERE run_id=? ORDER BY id", (run_id,)):
+            attachments.setdefault(row["test_id"], []).append(row["path"])
+    except sqlite3.OperationalError:
+        pass  # database from before screen recordings
+    return dict(run), tests, criteria, attachments
+
+
+def repo_path(run_id, path):
+    """Artifact paths in CXDB are relative to the run's directory; attachments want them from the repo root."""
+    p = Path(path)
+    if not p.is_absolute():
+        p = REPO_ROOT / "qa" / "artifacts" / f"run-{run_id}" / p
+    try:
+        return str(p.relative_to(REPO_ROOT))
+    except ValueError:
+        return str(p)
+
+
+def outcome(status):
+    """pass, fail, error or skip; a test that never finished counts as skipped."""
+    if status in ("pass", "fail", "error", "skip"):
+        return status
+    return "skip"
+
+
+def case_names(tests):
+    """'03 Invite join', with '(attempt 2)' on retries so each testcase name is unique."""
+    seen = {}
+    names = []
+    for t in tests:
+        seen[t["test_id"]] = seen.get(t["test_id"], 0) + 1
+        name = f"{t['test_id']} {t['test_name']}" if t["test_name"] else t["test_id"]
+        names.append(name if seen[t["test_id"]] == 1 else f"{name} (attempt {seen[t['test_id']]})")
+    return names
+
+
+def seconds(ms):
+    return f"{(ms or 0) / 1000:.3f}"
+
+
+def failure_text(test, criteria):
+    lines = [test["error_message"]] if test["error_message"] else []
+    for c in criteria:
+        if c["status"] == "fail":
+            evidence = f": {c['evidence']}" if c["evidence"] else ""
+            lines.append(f"criterion {c['criteria_key']} failed{evidence}")
+    return "\n".join(lines)
+
+
+def add_result(case, status, message, text, skipped_message):
+    if status in ("fail", "error"):
+        el = ET.SubElement(case, "failure" if status == "fail" else "error",
+                           message=message.split("\n")[0] if message else status, type=status)
+        el.text = text or None
+    elif status == "skip":
+        ET.SubElement(case, "skipped", message=skipped_message)
+
+
+def to_junit(run, tests, criteria, attachments, criteria_as):
+    counts = {"tests": 0, "failures": 0, "errors": 0, "skipped": 0}
+    total_ms = sum(t["duration_ms"] or 0 for t in tests)
+    suites = ET.Element("testsuites", name="Convos QA")
+    suite = ET.SubElement(suites, "testsuite", name=f"run {run['id']}", id=run["id"],
+                          timestamp=(run["started_at"] or "").rstrip("Z"), time=seconds(total_ms))
+    props = ET.SubElement(suite, "properties")
+    ET.SubElement(props, "property", name="run_id", value=run["id"])
+    for key in RUN_PROPERTIES:
+        if run.get(key):
+            ET.SubElement(props, "property", name=key, value=str(run[key]))
+
+    def count(status):
+        counts["tests"] += 1
+        if status == "fail":
+            counts["failures"] += 1
+        elif status == "error":
+            counts["errors"] += 1
+        elif status == "skip":
+            counts["skipped"] += 1
+
+    for test, name in zip(tests, case_names(tests)):
+        status = outcome(test["status"])
+        crits = criteria.get(test["id"], [])
+        classname = f"qa.{test['test_id']}"
+        case = ET.SubElement(suite, "testcase", classname=classname, name=name, time=seconds(test["duration_ms"]))
+        if crits and criteria_as == "properties":
+            cprops = ET.SubElement(case, "properties")
+            for c in crits:
+                value = c["status"] + (f": {c['evidence']}" if c["evidence"] else "")
+                ET.SubElement(cprops, "property", name=f"criterion.{c['criteria_key']}", value=value)
+        skipped = test["notes"] or ("skipped" if test["status"] == "skip" else f"not finished ({test['status']})")
+        add_result(case, status, test["error_message"], failure_text(test, crits), skipped)
+        count(status)
+
+        files = [repo_path(run["id"], p) for p in attachments.get(test["test_id"], [])]
+        files += [repo_path(run["id"], c["screenshot_path"]) for c in crits if c["screenshot_path"]]
+        if files:
+            out = ET.SubElement(case, "system-out")
+            out.text = "\n".join(f"[[ATTACHMENT|{f}]]" for f in dict.fromkeys(files))
+
+        if criteria_as == "cases":
+            for c in crits:
+                sub = ET.SubElement(suite, "testcase", classname=classname,
+                                    name=f"{name} / {c['criteria_key']}", time="0.000")
+                cstatus = c["status"] if c["status"] in ("pass", "fail", "skip") else "skip"
+                add_result(sub, cstatus, c["evidence"], c["evidence"], c["description"] or "skipped")
+                if c["screenshot_path"]:
+                    ET.SubElement(sub, "system-out").text = f"[[ATTACHMENT|{repo_path(run['id'], c['screenshot_path'])}]]"
+                count(cstatus)
+
+    for key, value in counts.items():
+        suite.set(key, str(value))
+        suites.set(key, str(value))
+    suites.set("time", seconds(total_ms))
+    ET.indent(suites)
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' + ET.tostring(suites, encoding="unicode") + "\n"
+
+
+def yaml_str(value):
+    """A double-quoted YAML scalar, safe for any text."""
+    text = str(value).replace("\\", "\\\\").replace('"', '\\"').replace("\n", "\\n")
+    return f'"{text}"'
+
+
+def to_tap(run, tests, criteria, attachments):
+    lines = ["TAP version 13", f"# run {run['id']} ({run['status']})", f"1..{len(tests)}"]
+    for i, (test, name) in enumerate(zip(tests, case_names(tests)), start=1):
+        status = outcome(test["status"])
+        if status == "skip":
+            reason = test["notes"] or ("skipped" if test["status"] == "skip" else f"not finished ({test['status']})")
+            lines.append(f"ok {i} - {name} # SKIP {reason}")
+            continue
+        time = f" # time={(test['duration_ms'] or 0) / 1000:.1f}s" if test["duration_ms"] else ""
+        if status == "pass":
+            lines.append(f"ok {i} - {name}{time}")
+            continue
+        lines.append(f"not ok {i} - {name}{time}")
+        lines.append("  ---")
+        lines.append(f"  severity: {status}")
+        if test["error_message"]:
+            lines.append(f"  message: {yaml_str(test['error_message'])}")
+        failed = [c for c in criteria.get(test["id"], []) if c["status"] == "fail"]
+        if failed:
+            lines.append("  failed_criteria:")
+            for c in failed:
+                lines.append(f"    {c['criteria_key']}: {yaml_str(c['evidence'] or '')}")
+        files = [repo_path(run["id"], p) for p in attachments.get(test["test_id"], [])]
+        files += [repo_path(run["id"], c["screenshot_path"]) for c in failed if c["screenshot_path"]]
+        if files:
+            lines.append("  screenshots:")
+            lines.extend(f"    - {yaml_str(f)}" for f in dict.fromkeys(files))
+        lines.append("  ...")
+    return "\n".join(lines) + "\n"
+
+
+def main():
+    parser = argparse.ArgumentParser(description="Export a QA run from CXDB as JUnit XML or TAP.")
+    parser.add_argument("run_id", nargs="?", help="CXDB run id (12-char hex)")
+    parser.add_argument("--latest", action="store_true", help="use the most recent run")
+    parser.add_argument("--format", choices=("junit", "tap"), default="junit")
+    parser.add_argument("--criteria-as", choices=("properties", "cases"), default="properties",
+                        help="JUnit only: criteria as testcase properties (default) or as testcases of their own")
+    parser.add_argument("-o", "--output", help="file to write, '-' for stdout (default: the run's junit.xml; stdout for tap)")
+    parser.add_argument("--db", default=str(DB_PATH), help="path to qa.sqlite")
+    args = parser.parse_args()
+
+    db = Path(args.db)
+    if not db.is_file():
+        sys.exit(f"error: no CXDB at {db}")
+    conn = sqlite3.connect(f"file:{db}?mode=ro", uri=True)
+
+    run_id = args.run_id
+    if args.latest or not run_id:
+        row = conn.execute("SELECT id FROM test_runs ORDER BY started_at DESC LIMIT 1").fetchone()
+        if row is None:
+            sys.exit("error: CXDB has no runs")
+        run_id = row[0]
+
+    run, tests, criteria, attachments = load_run(conn, run_id)
+    if args.format == "tap":
+        text = to_tap(run, tests, criteria, attachments)
+    else:
+        text = to_junit(run, tests, criteria, attachments, args.criteria_as)
+
+    output = args.output or ("-" if args.format == "tap" else None)
+    if output == "-":
+        sys.stdout.write(text)
+        return
+    out = Path(output) if output else REPO_ROOT / "qa" / "artifacts" / f"run-{run_id}" / "junit.xml"
+    out.parent.mkdir(parents=True, exist_ok=True)
+    out.write_text(text)
+    print(f"{args.format}: {out}  tests: {len(tests)}")
+
+
+if __name__ == "__main__":
+    main()
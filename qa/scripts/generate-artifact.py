@@ -1,17 +1,17 @@
 #!/usr/bin/env python3
 """generate-artifact.py -- render a QA run into a self-contained HTML artifact.
 
-Reads everything CXDB recorded for a run (tests, criteria, screenshots, log
-entries, events, bugs, accessibility findings, perf measurements) plus the
-per-layer log files captured by capture-logs.sh, analyzes the logs for
-errors, and writes a single-page HTML report to:
+Reads everything CXDB recorded for a run (tests, criteria, screenshots,
+screen recordings, log entries, events, bugs, accessibility findings, perf
+measurements) plus the per-layer log files captured by capture-logs.sh,
+analyzes the logs for errors, and writes a single-page HTML report to:
 
     qa/artifacts/run-<run_id>/index.html
 
 The page follows the convos-assistants design framework (DESIGN.md tokens:
 monochrome + orange accent, system type, light/dark via prefers-color-scheme)
-and is fully offline: inline CSS/JS, screenshots referenced relatively, so
-the run-<run_id>/ directory can be zipped and shared as-is.
+and is fully offline: inline CSS/JS, screenshots and recordings referenced
+relatively, so the run-<run_id>/ directory can be zipped and shared as-is.
 
 Layout: screenshot carousel up top, run summary (with log analysis and watch
 items) below it, then three tabs: Tests, Logs, Findings.
@@ -191,6 +191,11 @@ def load_run_data(conn, run_id):
         data["criteria"].setdefault(row["test_result_id"], []).append(dict(row))
     data["screenshots"] = [dict(r) for r in conn.execute(
         "SELECT * FROM screenshots WHERE run_id=? ORDER BY id", (run_id,))]
+    try:
+        data["recordings"] = [dict(r) for r in conn.execute(
+            "SELECT * FROM screen_recordings WHERE run_id=? ORDER BY id", (run_id,))]
+    except sqlite3.OperationalError:
+        data["recordings"] = []  # database from before screen recordings
     data["log_entries"] = [dict(r) for r in conn.execute(
         "SELECT * FROM log_entries WHERE run_id=? ORDER BY id", (run_id,))]
     data["events"] = [dict(r) for r in conn.execute(
@@ -429,6 +434,10 @@ def render_tests_tab(data, shots):
             else "<p class='empty'>No criteria recorded.</p>"
         err = f'<p class="test-error">{esc(t["error_message"])}</p>' if t.get("error_message") else ""
         notes = f'<p class="test-notes">{esc(t["notes"])}</p>' if t.get("notes") else ""
+        videos = "".join(
+            f'<figure class="recording"><video controls preload="metadata" src="{esc(r["path"])}"></video>'
+            f'<figcaption>{esc(r["step_id"] or "")}{" — " + esc(r["caption"]) if r.get("caption") else ""}</figcaption></figure>'
+            for r in data["recordings"] if r["test_id"] == t["test_id"])
         jump = ""
         if t["test_id"] in first_shot_index:
             jump = (f'<button class="chip" onclick="carGo({first_shot_index[t["test_id"]]});'
@@ -440,7 +449,7 @@ def render_tests_tab(data, shots):
           <div class="card-head-right">{jump}{status_pill(t['status'])}
             <span class="card-duration">{fmt_duration(t.get('duration_ms'))}</span></div>
         </div>
-        {err}{notes}{crit_html}
+        {err}{notes}{crit_html}{videos}
       </div>""")
     return "".join(cards)
 
@@ -686,6 +695,9 @@ CSS = """
     .card-body { margin: var(--space-xs) 0 0; font-size: 0.92rem; }
     .test-error { margin: var(--space-sm) 0 0; font-size: 0.85rem; color: var(--color-caution); }
     .test-notes { margin: var(--space-sm) 0 0; font-size: 0.85rem; color: var(--color-secondary); }
+    .recording { margin: var(--space-sm) 0 0; }
+    .recording video { max-width: 100%; max-height: 480px; border-radius: var(--rounded-lg); }
+    .recording figcaption { font-size: 0.8rem; color: var(--color-secondary); }
     .criteria { list-style: none; margin: var(--space-sm) 0 0; padding: 0; }
     .criteria li { display: flex; gap: var(--space-sm); padding: var(--space-xs) 0;
       font-size: 0.875rem; align-items: baseline; }
@@ -865,7 +877,7 @@ def main():
     out = artifact_dir / "index.html"
     out.write_text(render_page(data, layers, shots))
     print(f"artifact: {out}")
-    print(f"  screenshots: {len(shots)}  log layers: {len(layers)}  "
+    print(f"  screenshots: {len(shots)}  recordings: {len(data['recordings'])}  log layers: {len(layers)}  "
           f"tests: {len(data['tests'])}  bugs: {len(data['bugs'])}")
 
 